@@ -41,6 +41,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { ToolApprovalList } from '@/components/tools/ToolApprovalList';
 import type { ColumnDef } from '@tanstack/react-table';
 
 // Define the Tool type
@@ -410,6 +411,8 @@ export default function ToolsPage() {
           )}
         </CardContent>
       </Card>
+
+      <ToolApprovalList />
     </div>
   );
 }
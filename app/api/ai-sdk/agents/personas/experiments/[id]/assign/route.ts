@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { assignVariant } from '@/lib/agents/personas/persona-experiments';
+
+const assignSchema = z.object({
+  userId: z.string().min(1),
+});
+
+/**
+ * POST /api/ai-sdk/agents/personas/experiments/:id/assign
+ *
+ * Get the persona variant to serve a user. The first call assigns the user;
+ * later calls return the same variant.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = assignSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await assignVariant(
+      params.id,
+      validationResult.data.userId
+    );
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ assignment });
+  } catch (error) {
+    console.error(`Error assigning persona experiment ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to assign persona variant',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ExperimentNotAssignedError,
+  ExperimentOutcomeSchema,
+  getExperiment,
+  recordExperimentOutcome,
+} from '@/lib/agents/personas/persona-experiments';
+
+/**
+ * POST /api/ai-sdk/agents/personas/experiments/:id/outcomes
+ *
+ * Record an interaction outcome (`ScoreUpdateData` plus `userId`) for an
+ * assigned user. Returns the experiment, which may have completed if the
+ * outcome made a winner significant.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = ExperimentOutcomeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    let assignment;
+    try {
+      assignment = await recordExperimentOutcome(
+        params.id,
+        validationResult.data
+      );
+    } catch (error) {
+      if (!(error instanceof ExperimentNotAssignedError)) throw error;
+      return NextResponse.json(
+        { error: 'User is not part of the experiment', details: error.message },
+        { status: 400 }
+      );
+    }
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      assignment,
+      experiment: await getExperiment(params.id),
+    });
+  } catch (error) {
+    console.error(
+      `Error recording persona experiment outcome ${params.id}:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: 'Failed to record experiment outcome',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
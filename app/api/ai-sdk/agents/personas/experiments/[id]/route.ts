@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getExperiment,
+  getExperimentResults,
+} from '@/lib/agents/personas/persona-experiments';
+
+// GET /api/ai-sdk/agents/personas/experiments/:id - Results and significance
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const experiment = await getExperiment(params.id);
+    if (!experiment) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getExperimentResults(experiment));
+  } catch (error) {
+    console.error(`Error fetching persona experiment ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch persona experiment',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
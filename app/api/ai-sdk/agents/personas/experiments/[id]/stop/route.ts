@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  StopExperimentSchema,
+  getExperiment,
+  stopExperiment,
+} from '@/lib/agents/personas/persona-experiments';
+
+/**
+ * POST /api/ai-sdk/agents/personas/experiments/:id/stop
+ *
+ * Stop a running experiment. Pass `winnerVariantId` to promote a variant;
+ * otherwise a significant winner is promoted if there is one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const validationResult = StopExperimentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getExperiment(params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.status !== 'running') {
+      return NextResponse.json(
+        { error: 'Experiment has already ended', experiment: existing },
+        { status: 409 }
+      );
+    }
+    const { winnerVariantId } = validationResult.data;
+    if (
+      winnerVariantId &&
+      !existing.variants.some((variant) => variant.id === winnerVariantId)
+    ) {
+      return NextResponse.json(
+        { error: `Variant ${winnerVariantId} is not part of the experiment` },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await stopExperiment(params.id, validationResult.data);
+
+    return NextResponse.json({ experiment });
+  } catch (error) {
+    console.error(`Error stopping persona experiment ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to stop persona experiment',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { personaManager } from '@/lib/agents/personas/persona-manager';
+import {
+  ExperimentInputSchema,
+  ExperimentStatusSchema,
+  createExperiment,
+  listExperiments,
+} from '@/lib/agents/personas/persona-experiments';
+
+// Query parameters for listing experiments
+const experimentsQuerySchema = z.object({
+  status: ExperimentStatusSchema.optional(),
+  limit: z.coerce.number().min(1).max(100).default(100),
+});
+
+/**
+ * GET /api/ai-sdk/agents/personas/experiments
+ *
+ * List persona experiments, newest first (optionally filtered by `status`)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = experimentsQuerySchema.safeParse({
+      status: searchParams.get('status') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const experiments = await listExperiments(validationResult.data);
+
+    return NextResponse.json({ experiments });
+  } catch (error) {
+    console.error('Error fetching persona experiments:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch persona experiments',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai-sdk/agents/personas/experiments
+ *
+ * Create and start an experiment between persona variants
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = ExperimentInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validationResult.data;
+    const personaIds = [
+      ...input.variants.map((variant) => variant.personaId),
+      ...(input.promoteToPersonaId ? [input.promoteToPersonaId] : []),
+    ];
+    for (const personaId of new Set(personaIds)) {
+      if (!(await personaManager.getPersonaById(personaId))) {
+        return NextResponse.json(
+          { error: `Persona ${personaId} not found` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const experiment = await createExperiment(input);
+
+    return NextResponse.json({ experiment }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating persona experiment:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create persona experiment',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -11,14 +11,73 @@ import { streamWithAISDK, getAllAISDKTools } from '@/lib/ai-sdk-integration';
 import { createMemory } from '@/lib/memory/factory';
 import { handleApiError } from '@/lib/api-error-handler';
 import { createTrace } from '@/lib/langfuse-integration';
+import { checkBlockedPatterns } from '@/lib/guardrails/guardrails';
 import { personaManager } from '@/lib/agents/personas/persona-manager';
-import { ModelSettings } from '@/lib/models/model-registry';
+import { ModelSettings, modelRegistry } from '@/lib/models/model-registry';
 import { getModelById, getModelByModelId } from '@/lib/models/model-service';
+import {
+  createBudgetMiddleware,
+  getBudgetStatuses,
+  hasEnabledBudgets,
+  resolveBudgetSubject,
+} from '@/lib/models/budgets';
 import { type CoreMessage, type Tool, generateId } from 'ai';
 import { z } from 'zod';
 
 const memory = createMemory();
 
+/**
+ * Look up a model by ID or provider model ID, normalized to ModelSettings
+ */
+async function findModelSettings(
+  id: string
+): Promise<ModelSettings | undefined> {
+  try {
+    const foundModel =
+      (await getModelById(id)) || (await getModelByModelId(id));
+    if (foundModel) {
+      // Ensure properties like created_at and updated_at are strings,
+      // as expected by the ModelSettings type used for modelConfig.
+      // Default to current time if they are undefined in foundModel.
+
+      // Map provider if necessary to conform to the expected type for modelConfig.provider
+      // The error indicates modelConfig's provider expects: "google" | "openai" | "anthropic" | "vertex" | "custom"
+      // foundModel.provider can be 'google-vertex', which needs mapping.
+      const providerForConfig =
+        foundModel.provider === 'google-vertex'
+          ? 'vertex' // Map 'google-vertex' to 'vertex'
+          : foundModel.provider;
+
+      return {
+        ...foundModel,
+        // Cast the mapped provider to the type expected by modelConfig's ModelSettings definition
+        provider: providerForConfig as
+          | 'google'
+          | 'openai'
+          | 'anthropic'
+          | 'vertex'
+          | 'custom',
+        category:
+          (foundModel.category as
+            | 'text'
+            | 'chat'
+            | 'multimodal'
+            | 'image'
+            | 'video'
+            | 'audio'
+            | 'embedding'
+            | 'fine-tuning') || 'chat',
+        capabilities: foundModel.capabilities || {}, // Ensure capabilities is an object
+        created_at: foundModel.created_at || new Date().toISOString(),
+        updated_at: foundModel.updated_at || new Date().toISOString(),
+      };
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * POST /api/ai-sdk/chat
  *
@@ -41,6 +100,7 @@ export async function POST(request: Request) {
       streamProtocol = 'data',
       toolChoice = 'auto',
       middleware = {},
+      fallbackModels = process.env.MODEL_FALLBACK_CHAIN?.split(',') ?? [],
     } = body;
 
     // Validate request
@@ -50,6 +110,45 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    const patternProblem = checkBlockedPatterns(
+      middleware.languageModel?.guardrails?.blockedPatterns
+    );
+    if (patternProblem) {
+      return NextResponse.json(
+        { error: `Invalid request: ${patternProblem}` },
+        { status: 400 }
+      );
+    }
+    // Budgets are charged to the authenticated caller; while any budget is
+    // enabled, callers that cannot be identified are not served
+    const budgetSubject = await resolveBudgetSubject(request);
+    if (!budgetSubject && (await hasEnabledBudgets())) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    // Refuse up front when a rejecting budget is used up; the budget
+    // middleware enforces the exact limits per call
+    const exhaustedBudget = (
+      budgetSubject ? await getBudgetStatuses(budgetSubject) : []
+    ).find((status) => status.exhausted && status.budget.onExceed === 'reject');
+    if (exhaustedBudget) {
+      return NextResponse.json(
+        { error: 'Budget exceeded', budget: exhaustedBudget },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(
+              Math.ceil(
+                (Date.parse(exhaustedBudget.resetsAt) - Date.now()) / 1000
+              )
+            ),
+          },
+        }
+      );
+    }
+
     // Generate thread ID if not provided
     const chatThreadId = threadId || generateId();
 
@@ -83,53 +182,8 @@ export async function POST(request: Request) {
       },
     });
 
-    // Inline getModelConfiguration logic (Upstash/Supabase aware)
-    let modelConfig: ModelSettings | undefined;
-    try {
-      const foundModel =
-        (await getModelById(model)) || (await getModelByModelId(model));
-      if (foundModel) {
-        // Ensure properties like created_at and updated_at are strings,
-        // as expected by the ModelSettings type used for modelConfig.
-        // Default to current time if they are undefined in foundModel.
-
-        // Map provider if necessary to conform to the expected type for modelConfig.provider
-        // The error indicates modelConfig's provider expects: "google" | "openai" | "anthropic" | "vertex" | "custom"
-        // foundModel.provider can be 'google-vertex', which needs mapping.
-        const providerForConfig =
-          foundModel.provider === 'google-vertex'
-            ? 'vertex' // Map 'google-vertex' to 'vertex'
-            : foundModel.provider;
-
-        modelConfig = {
-          ...foundModel,
-          // Cast the mapped provider to the type expected by modelConfig's ModelSettings definition
-          provider: providerForConfig as
-            | 'google'
-            | 'openai'
-            | 'anthropic'
-            | 'vertex'
-            | 'custom',
-          category:
-            (foundModel.category as
-              | 'text'
-              | 'chat'
-              | 'multimodal'
-              | 'image'
-              | 'video'
-              | 'audio'
-              | 'embedding'
-              | 'fine-tuning') || 'chat',
-          capabilities: foundModel.capabilities || {}, // Ensure capabilities is an object
-          created_at: foundModel.created_at || new Date().toISOString(),
-          updated_at: foundModel.updated_at || new Date().toISOString(),
-        };
-      } else {
-        modelConfig = undefined;
-      }
-    } catch {
-      modelConfig = undefined;
-    }
+    // Model configuration (Upstash/Supabase aware)
+    const modelConfig = await findModelSettings(model);
 
     // Determine provider from model config or model name
     let modelProvider =
@@ -288,6 +342,14 @@ export async function POST(request: Request) {
       ...middleware,
       languageModel: {
         ...middleware.languageModel,
+        guardrails: middleware.languageModel?.guardrails && {
+          ...middleware.languageModel.guardrails,
+          traceId: trace?.id,
+        },
+        semanticCaching: middleware.languageModel?.semanticCaching && {
+          ...middleware.languageModel.semanticCaching,
+          traceId: trace?.id,
+        },
         provider: modelProvider as 'google' | 'openai',
         modelId: modelSettings.model_id,
         messages: processedMessages,
@@ -309,6 +371,43 @@ export async function POST(request: Request) {
       },
     });
 
+    const fallbackSettings = (
+      await Promise.all(
+        (fallbackModels as string[])
+          .map((id) => id.trim())
+          .filter((id) => id && id !== model)
+          .map(findModelSettings)
+      )
+    ).filter((settings): settings is ModelSettings => !!settings);
+    const fallbackTimeoutMs =
+      Number(process.env.MODEL_FALLBACK_TIMEOUT_MS) || undefined;
+
+    // Reject or downgrade calls that would exceed the caller's budgets. It
+    // runs outside the fallback middleware, which reports the model that
+    // served each call for pricing; downgrades fail over along the same chain
+    if (budgetSubject) {
+      middlewareConfig.languageModel.push(
+        createBudgetMiddleware({
+          subject: budgetSubject,
+          modelSettings,
+          fallbacks: fallbackSettings,
+          fallbackTimeoutMs,
+          traceId: trace?.id,
+        })
+      );
+    }
+
+    // Fail over along the fallback chain on rate limits, 5xx and timeouts
+    if (fallbackSettings.length > 0) {
+      middlewareConfig.languageModel.push(
+        modelRegistry.createFallbackMiddleware(
+          modelSettings,
+          fallbackSettings,
+          { traceId: trace?.id, timeoutMs: fallbackTimeoutMs }
+        )
+      );
+    }
+
     // Use the AI SDK integration for enhanced capabilities
     const streamOptions = {
       provider: modelProvider as 'google' | 'openai',
@@ -338,6 +437,8 @@ export async function POST(request: Request) {
         hasImages: images && images.length > 0,
         hasAttachments: attachments && attachments.length > 0,
         toolChoice,
+        fallbackModels: fallbackSettings.map((settings) => settings.id),
+        userId: budgetSubject?.userId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReembedJob } from '@/lib/memory/embedding-namespaces';
+
+// GET /api/ai-sdk/embeddings/reembed/:jobId - Progress of a job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = await getReembedJob(params.jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`Error fetching re-embed job ${params.jobId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch re-embed job',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
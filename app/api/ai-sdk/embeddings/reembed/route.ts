@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { EmbeddingProviderError } from '@/lib/memory/embeddings';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  listReembedJobs,
+  startReembedJob,
+} from '@/lib/memory/embedding-namespaces';
+
+// Request body for starting a job
+const reembedSchema = z.object({
+  namespace: z.string().min(1).default(DEFAULT_EMBEDDING_NAMESPACE),
+  provider: z.string().min(1),
+});
+
+// Query parameters for listing jobs
+const jobsQuerySchema = z.object({
+  namespace: z.string().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+// GET /api/ai-sdk/embeddings/reembed - Re-embed jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const validationResult = jobsQuerySchema.safeParse({
+      namespace: request.nextUrl.searchParams.get('namespace') ?? undefined,
+      limit: request.nextUrl.searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { namespace, limit } = validationResult.data;
+    const jobs = await listReembedJobs(namespace, limit);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching re-embed jobs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch re-embed jobs',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai-sdk/embeddings/reembed
+ *
+ * Queue a job that re-embeds a namespace with another provider and rebinds
+ * it to that provider's model. Responds 202 with the job; poll
+ * `/reembed/:jobId` for progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = reembedSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { namespace, provider } = validationResult.data;
+    const job = await startReembedJob(namespace, provider);
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof EmbeddingProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error starting re-embed job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start re-embed job',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import {
+  getDefaultEmbeddingProviderName,
+  listEmbeddingProviders,
+} from '@/lib/memory/embeddings';
+import { listNamespaceBindings } from '@/lib/memory/embedding-namespaces';
+
+/**
+ * GET /api/ai-sdk/embeddings
+ *
+ * Registered embedding providers, the default one, and the model and size
+ * each namespace is bound to
+ */
+export async function GET() {
+  try {
+    const namespaces = await listNamespaceBindings();
+
+    return NextResponse.json({
+      providers: listEmbeddingProviders(),
+      defaultProvider: getDefaultEmbeddingProviderName(),
+      namespaces,
+    });
+  } catch (error) {
+    console.error('Error fetching embedding namespaces:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch embedding namespaces',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
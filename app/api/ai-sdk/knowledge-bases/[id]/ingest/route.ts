@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  IngestionRequestSchema,
+  SourcePathError,
+  getKnowledgeBase,
+  startIngestionJob,
+} from '@/lib/tools/rag/knowledge-base';
+
+/**
+ * POST /api/ai-sdk/knowledge-bases/:id/ingest
+ *
+ * Queue an ingestion job for files or folders below `KNOWLEDGE_BASE_ROOT`.
+ * Responds 202 with the job; poll `/jobs/:jobId` for progress.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = IngestionRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeBase = await getKnowledgeBase(params.id);
+    if (!knowledgeBase) {
+      return NextResponse.json(
+        { error: 'Knowledge base not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await startIngestionJob(knowledgeBase, validationResult.data);
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof SourcePathError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`Error ingesting into knowledge base ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start ingestion',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
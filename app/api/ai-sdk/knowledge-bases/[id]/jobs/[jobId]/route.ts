@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestionJob } from '@/lib/tools/rag/knowledge-base';
+
+// GET /api/ai-sdk/knowledge-bases/:id/jobs/:jobId - Progress of a job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const job = await getIngestionJob(params.jobId);
+    if (!job || job.knowledgeBaseId !== params.id) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`Error fetching ingestion job ${params.jobId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch ingestion job',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
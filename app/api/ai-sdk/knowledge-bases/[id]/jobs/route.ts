@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getKnowledgeBase,
+  listIngestionJobs,
+} from '@/lib/tools/rag/knowledge-base';
+
+// Query parameters for listing jobs
+const jobsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+// GET /api/ai-sdk/knowledge-bases/:id/jobs - Ingestion jobs, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const validationResult = jobsQuerySchema.safeParse({
+      limit: request.nextUrl.searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getKnowledgeBase(params.id))) {
+      return NextResponse.json(
+        { error: 'Knowledge base not found' },
+        { status: 404 }
+      );
+    }
+
+    const jobs = await listIngestionJobs(
+      params.id,
+      validationResult.data.limit
+    );
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error(`Error fetching ingestion jobs of ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch ingestion jobs',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
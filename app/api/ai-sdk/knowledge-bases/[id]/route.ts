@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteKnowledgeBase,
+  getKnowledgeBase,
+  listKnowledgeBaseSources,
+} from '@/lib/tools/rag/knowledge-base';
+
+// GET /api/ai-sdk/knowledge-bases/:id - Knowledge base and its sources
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const knowledgeBase = await getKnowledgeBase(params.id);
+    if (!knowledgeBase) {
+      return NextResponse.json(
+        { error: 'Knowledge base not found' },
+        { status: 404 }
+      );
+    }
+
+    const sources = await listKnowledgeBaseSources(params.id);
+
+    return NextResponse.json({ knowledgeBase, sources });
+  } catch (error) {
+    console.error(`Error fetching knowledge base ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch knowledge base',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/ai-sdk/knowledge-bases/:id - Delete it with all its chunks
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!(await deleteKnowledgeBase(params.id))) {
+      return NextResponse.json(
+        { error: 'Knowledge base not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting knowledge base ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete knowledge base',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  KnowledgeBaseInputSchema,
+  createKnowledgeBase,
+  listKnowledgeBases,
+} from '@/lib/tools/rag/knowledge-base';
+
+/**
+ * GET /api/ai-sdk/knowledge-bases
+ *
+ * List knowledge bases by name
+ */
+export async function GET() {
+  try {
+    const knowledgeBases = await listKnowledgeBases();
+
+    return NextResponse.json({ knowledgeBases });
+  } catch (error) {
+    console.error('Error fetching knowledge bases:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch knowledge bases',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai-sdk/knowledge-bases
+ *
+ * Create a knowledge base; its `id` is what personas list in
+ * `knowledgeBaseIds`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = KnowledgeBaseInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeBase = await createKnowledgeBase(validationResult.data);
+
+    return NextResponse.json({ knowledgeBase }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating knowledge base:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create knowledge base',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
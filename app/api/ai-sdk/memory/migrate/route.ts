@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createMemory } from '@/lib/memory/factory';
+import {
+  MigrationCheckpointSchema,
+  type MigrationCheckpoint,
+  exportMemory,
+  importMemory,
+  migrateMemory,
+  parseArchive,
+  readLines,
+  serializeArchiveRecord,
+} from '@/lib/memory/migration';
+
+const providerSchema = z.enum(['libsql', 'upstash', 'supabase', 'cloudflare']);
+
+const booleanParamSchema = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true');
+
+// Query parameters for exporting an archive
+const exportQuerySchema = z.object({
+  provider: providerSchema,
+  userId: z.string().optional(),
+  agentId: z.string().optional(),
+  includeVectors: booleanParamSchema.default('true'),
+  embeddingModel: z.string().optional(),
+});
+
+// Query parameters for importing an archive (JSONL request body)
+const importQuerySchema = z.object({
+  target: providerSchema,
+  dryRun: booleanParamSchema.default('false'),
+  reembed: z.enum(['auto', 'always', 'never']).default('auto'),
+  targetEmbeddingModel: z.string().optional(),
+  duplicateExisting: booleanParamSchema.default('false'),
+});
+
+// Provider-to-provider migration (JSON request body)
+const migrateSchema = z.object({
+  source: providerSchema,
+  target: providerSchema,
+  dryRun: z.boolean().default(false),
+  reembed: z.enum(['auto', 'always', 'never']).default('auto'),
+  embeddingModel: z.string().optional(),
+  targetEmbeddingModel: z.string().optional(),
+  includeVectors: z.boolean().default(true),
+  duplicateExisting: z.boolean().default(false),
+  agentIds: z.array(z.string()).optional(),
+  filters: z
+    .object({ user_id: z.string().optional(), agent_id: z.string().optional() })
+    .optional(),
+  checkpoint: MigrationCheckpointSchema.optional(),
+});
+
+/**
+ * GET /api/ai-sdk/memory/migrate
+ *
+ * Stream a provider's threads, messages, embeddings and agent states as a
+ * JSONL memory archive.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const validationResult = exportQuerySchema.safeParse({
+    provider: searchParams.get('provider') ?? undefined,
+    userId: searchParams.get('userId') ?? undefined,
+    agentId: searchParams.get('agentId') ?? undefined,
+    includeVectors: searchParams.get('includeVectors') ?? undefined,
+    embeddingModel: searchParams.get('embeddingModel') ?? undefined,
+  });
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        details: validationResult.error.format(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { provider, userId, agentId, includeVectors, embeddingModel } =
+    validationResult.data;
+  const records = exportMemory(createMemory({ enabled: false }, provider), {
+    provider,
+    filters: { user_id: userId, agent_id: agentId },
+    includeVectors,
+    embeddingModel,
+  });
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await records.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(serializeArchiveRecord(value)));
+        }
+      } catch (error) {
+        console.error('Error exporting memory:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await records.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="memory-${provider}-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+    },
+  });
+}
+
+/**
+ * POST /api/ai-sdk/memory/migrate
+ *
+ * With a JSON body, migrate one provider into another. With a JSONL body
+ * (`Content-Type: application/x-ndjson`), import an archive into `?target=`.
+ * Pass the returned `checkpoint` (also sent with errors) back to resume an
+ * interrupted migration; `dryRun` reports what would change without writing.
+ */
+export async function POST(request: NextRequest) {
+  // Latest progress, returned on failure so the caller can resume
+  let checkpoint: MigrationCheckpoint | undefined;
+  const onCheckpoint = (latest: MigrationCheckpoint) => {
+    checkpoint = latest;
+  };
+
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+
+    if (contentType.includes('ndjson') || contentType.includes('jsonl')) {
+      const searchParams = request.nextUrl.searchParams;
+      const validationResult = importQuerySchema.safeParse({
+        target: searchParams.get('target') ?? undefined,
+        dryRun: searchParams.get('dryRun') ?? undefined,
+        reembed: searchParams.get('reembed') ?? undefined,
+        targetEmbeddingModel:
+          searchParams.get('targetEmbeddingModel') ?? undefined,
+        duplicateExisting: searchParams.get('duplicateExisting') ?? undefined,
+      });
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid query parameters',
+            details: validationResult.error.format(),
+          },
+          { status: 400 }
+        );
+      }
+      if (!request.body) {
+        return NextResponse.json(
+          { error: 'Missing memory archive' },
+          { status: 400 }
+        );
+      }
+
+      const { target, ...options } = validationResult.data;
+      const report = await importMemory(
+        createMemory({ enabled: false }, target),
+        parseArchive(readLines(request.body)),
+        { ...options, onCheckpoint }
+      );
+      return NextResponse.json(report);
+    }
+
+    const body = await request.json();
+    const validationResult = migrateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { source, target, ...options } = validationResult.data;
+    if (source === target) {
+      return NextResponse.json(
+        { error: 'Source and target providers must differ' },
+        { status: 400 }
+      );
+    }
+
+    const report = await migrateMemory(
+      createMemory({ enabled: false }, source),
+      createMemory({ enabled: false }, target),
+      { ...options, provider: source, onCheckpoint }
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error migrating memory:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to migrate memory',
+        details: error instanceof Error ? error.message : String(error),
+        checkpoint,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BudgetUpdateSchema,
+  deleteBudget,
+  getBudget,
+  getBudgetStatus,
+  updateBudget,
+} from '@/lib/models/budgets';
+
+// GET /api/ai-sdk/observability/budgets/:id - Usage and remaining budget
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const budget = await getBudget(params.id);
+    if (!budget) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ budget: await getBudgetStatus(budget) });
+  } catch (error) {
+    console.error(`Error fetching budget ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch budget',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/ai-sdk/observability/budgets/:id - Update a budget
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = BudgetUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getBudget(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    let budget;
+    try {
+      budget = await updateBudget(params.id, validationResult.data);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error(`Error updating budget ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update budget',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/ai-sdk/observability/budgets/:id - Delete a budget and its usage
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = await deleteBudget(params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting budget ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete budget',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BudgetInputSchema,
+  BudgetScopeSchema,
+  createBudget,
+  getBudgetStatus,
+  getBudgetStatuses,
+  listBudgets,
+} from '@/lib/models/budgets';
+import { z } from 'zod';
+
+// Query parameters for reading budgets
+const budgetsQuerySchema = z.object({
+  userId: z.string().optional(),
+  agentId: z.string().optional(),
+  scope: BudgetScopeSchema.optional(),
+  limit: z.coerce.number().min(1).max(100).default(100),
+});
+
+/**
+ * GET /api/ai-sdk/observability/budgets
+ *
+ * Remaining budget in the current period. With `userId`, `agentId` and/or an
+ * `x-api-key` header, returns the budgets that apply to that caller;
+ * otherwise lists every budget (optionally filtered by `scope`).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = budgetsQuerySchema.safeParse({
+      userId: searchParams.get('userId') ?? undefined,
+      agentId: searchParams.get('agentId') ?? undefined,
+      scope: searchParams.get('scope') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { userId, agentId, scope, limit } = validationResult.data;
+    const apiKey = request.headers.get('x-api-key') ?? undefined;
+
+    const budgets =
+      userId || agentId || apiKey
+        ? await getBudgetStatuses({ userId, agentId, apiKey })
+        : await Promise.all(
+            (await listBudgets({ scope, limit })).map((budget) =>
+              getBudgetStatus(budget)
+            )
+          );
+
+    return NextResponse.json({ budgets });
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch budgets',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ai-sdk/observability/budgets
+ *
+ * Create a budget
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationResult = BudgetInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const budget = await createBudget(validationResult.data);
+
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating budget:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create budget',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
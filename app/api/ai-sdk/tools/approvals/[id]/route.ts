@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getToolApproval,
+  reviewToolApproval,
+  ToolApprovalConflictError,
+  ToolApprovalDecisionSchema,
+} from '@/lib/tools/toolApprovals';
+
+// GET /api/tools/approvals/:id - Get a parked tool call
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const approval = await getToolApproval(params.id);
+    if (!approval) {
+      return NextResponse.json(
+        { error: 'Tool approval not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ approval });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Failed to get tool approval',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tools/approvals/:id - Approve (and execute) or reject a tool call
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    const validationResult = ToolApprovalDecisionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getToolApproval(params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Tool approval not found' },
+        { status: 404 }
+      );
+    }
+    if (existing.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Tool approval has already been ${existing.status}` },
+        { status: 409 }
+      );
+    }
+
+    const approval = await reviewToolApproval(params.id, validationResult.data);
+
+    return NextResponse.json({ approval });
+  } catch (error) {
+    if (error instanceof ToolApprovalConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`Error reviewing tool approval ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to review tool approval',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
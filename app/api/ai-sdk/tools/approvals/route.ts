@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listToolApprovals } from '@/lib/tools/toolApprovals';
+import { z } from 'zod';
+
+// Query parameters for listing tool approvals
+const listApprovalsSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+  agentId: z.string().optional(),
+  threadId: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+// GET /api/tools/approvals - List parked tool calls
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = listApprovalsSchema.safeParse({
+      status: searchParams.get('status') ?? undefined,
+      agentId: searchParams.get('agentId') ?? undefined,
+      threadId: searchParams.get('threadId') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const approvals = await listToolApprovals(validationResult.data);
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Failed to list tool approvals',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
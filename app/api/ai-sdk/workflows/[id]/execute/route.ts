@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { workflow } from '@/lib/workflow';
+import { WorkflowLeaseError } from '@/lib/workflow/recovery';
 
 // POST /api/workflows/:id/execute - Execute a workflow
 export async function POST(
@@ -18,11 +19,14 @@ export async function POST(
       );
     }
 
-    // Execute workflow
+    // Execute workflow, running independent branches concurrently
     const executedWorkflow = await workflow.executeWorkflow(id);
 
     return NextResponse.json({ workflow: executedWorkflow });
   } catch (error) {
+    if (error instanceof WorkflowLeaseError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error(`Error executing workflow ${params.id}:`, error);
     return NextResponse.json(
       {
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getWorkflowSchedule,
+  listWorkflowScheduleRuns,
+  setWorkflowScheduleEnabled,
+} from '@/lib/workflow/schedule';
+import { z } from 'zod';
+
+// Schema for enabling or disabling a schedule
+const updateScheduleSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// GET /api/workflows/:id/schedules/:scheduleId - Get a schedule and its run history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; scheduleId: string } }
+) {
+  try {
+    const { id, scheduleId } = params;
+
+    const schedule = await getWorkflowSchedule(scheduleId);
+    if (!schedule || schedule.workflowId !== id) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = z.coerce
+      .number()
+      .min(1)
+      .max(200)
+      .default(50)
+      .parse(request.nextUrl.searchParams.get('limit') ?? undefined);
+    const runs = await listWorkflowScheduleRuns(scheduleId, limit);
+
+    return NextResponse.json({ schedule, runs });
+  } catch (error) {
+    console.error(
+      `Error getting workflow schedule ${params.scheduleId}:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: 'Failed to get workflow schedule',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workflows/:id/schedules/:scheduleId - Enable or disable a schedule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; scheduleId: string } }
+) {
+  try {
+    const { id, scheduleId } = params;
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = updateScheduleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const existingSchedule = await getWorkflowSchedule(scheduleId);
+    if (!existingSchedule || existingSchedule.workflowId !== id) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await setWorkflowScheduleEnabled(
+      scheduleId,
+      validationResult.data.enabled
+    );
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error(
+      `Error updating workflow schedule ${params.scheduleId}:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: 'Failed to update workflow schedule',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
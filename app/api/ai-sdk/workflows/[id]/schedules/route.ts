@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { workflow } from '@/lib/workflow';
+import {
+  CreateWorkflowScheduleSchema,
+  createWorkflowSchedule,
+  listWorkflowSchedules,
+} from '@/lib/workflow/schedule';
+
+// GET /api/workflows/:id/schedules - List a workflow's schedules
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Check if workflow exists
+    const existingWorkflow = await workflow.getWorkflow(id);
+    if (!existingWorkflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedules = await listWorkflowSchedules(id);
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error(`Error listing schedules for workflow ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list workflow schedules',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workflows/:id/schedules - Run a workflow on a cron schedule
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = CreateWorkflowScheduleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check if workflow exists
+    const existingWorkflow = await workflow.getWorkflow(id);
+    if (!existingWorkflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await createWorkflowSchedule(id, validationResult.data);
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    console.error(`Error creating schedule for workflow ${params.id}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create workflow schedule',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
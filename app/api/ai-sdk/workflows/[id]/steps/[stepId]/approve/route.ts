@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { workflow } from '@/lib/workflow';
+import { z } from 'zod';
+
+// Schema for a reviewer's decision on an approval step
+const approveStepSchema = z.object({
+  approved: z.boolean(),
+  reviewer: z.string().optional(),
+  comment: z.string().optional(),
+});
+
+// POST /api/workflows/:id/steps/:stepId/approve - Approve or reject an approval step
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; stepId: string } }
+) {
+  try {
+    const { id, stepId } = params;
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = approveStepSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Check if workflow exists
+    const existingWorkflow = await workflow.getWorkflow(id);
+    if (!existingWorkflow) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if the step is waiting for a reviewer
+    const step = existingWorkflow.steps.find(
+      (s) => s.id === stepId || s.key === stepId
+    );
+    if (!step) {
+      return NextResponse.json({ error: 'Step not found' }, { status: 404 });
+    }
+    if (step.kind !== 'approval' || step.status !== 'awaiting_approval') {
+      return NextResponse.json(
+        { error: 'Step is not awaiting approval' },
+        { status: 400 }
+      );
+    }
+
+    // Record the decision; approval resumes the workflow
+    const updatedWorkflow = await workflow.reviewWorkflowStep(
+      id,
+      stepId,
+      validationResult.data
+    );
+
+    return NextResponse.json({ workflow: updatedWorkflow });
+  } catch (error) {
+    console.error(
+      `Error reviewing step ${params.stepId} of workflow ${params.id}:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: 'Failed to review workflow step',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { workflow } from '@/lib/workflow';
+import { workflow, WorkflowStepConditionSchema } from '@/lib/workflow';
 import { z } from 'zod';
 
 // Schema for adding a step to a workflow
 const addStepSchema = z.object({
   agentId: z.string().min(1, 'Agent ID is required'),
+  key: z.string().min(1).optional(),
+  kind: z.enum(['agent', 'approval']).optional(),
   input: z.string().optional(),
   threadId: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  condition: WorkflowStepConditionSchema.optional(),
+  parallelGroup: z.string().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
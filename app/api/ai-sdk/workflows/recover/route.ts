@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { workflow } from '@/lib/workflow';
+import { recoverOrphanedWorkflows } from '@/lib/workflow/recovery';
+import { z } from 'zod';
+
+// POST /api/workflows/recover - Resume running workflows whose executor died
+export async function POST(request: NextRequest) {
+  try {
+    const limit = z.coerce
+      .number()
+      .min(1)
+      .max(100)
+      .default(10)
+      .parse(request.nextUrl.searchParams.get('limit') ?? undefined);
+
+    // Sweep orphaned workflows and continue them from their last checkpoint
+    const { recovered, failed } = await recoverOrphanedWorkflows(
+      workflow,
+      limit
+    );
+
+    return NextResponse.json({ recovered, failed });
+  } catch (error) {
+    console.error('Error recovering workflows:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to recover workflows',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
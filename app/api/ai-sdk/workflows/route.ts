@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { workflow } from '@/lib/workflow';
+import { workflow, WorkflowStepConditionSchema } from '@/lib/workflow';
 import { z } from 'zod';
 
 // Canonical Zod schema for creating a workflow
@@ -10,8 +10,13 @@ const createWorkflowSchema = z.object({
     .array(
       z.object({
         agentId: z.string().min(1, 'Agent ID is required'),
+        key: z.string().min(1).optional(),
+        kind: z.enum(['agent', 'approval']).optional(),
         input: z.string().optional(),
         threadId: z.string().optional(),
+        dependsOn: z.array(z.string()).optional(),
+        condition: WorkflowStepConditionSchema.optional(),
+        parallelGroup: z.string().optional(),
         metadata: z.record(z.any()).optional(),
       })
     )
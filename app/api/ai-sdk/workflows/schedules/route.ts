@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { workflow } from '@/lib/workflow';
+import { runDueWorkflowSchedules } from '@/lib/workflow/schedule';
+
+// POST /api/workflows/schedules - Trigger every schedule that is due
+export async function POST() {
+  try {
+    // Lets an external cron drive schedules where no scheduler loop runs
+    const runs = await runDueWorkflowSchedules(workflow);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Error running workflow schedules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run workflow schedules',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -20,6 +20,7 @@ import { createMemory } from '@/lib/memory/factory';
 import { v4 as uuidv4 } from 'uuid';
 import { handleApiError } from '@/lib/api-error-handler';
 import { createTrace, logEvent } from '@/lib/langfuse-integration';
+import { checkBlockedPatterns } from '@/lib/guardrails/guardrails';
 // Import model config utilities
 import { getSupabaseClient } from '@/lib/memory/supabase';
 import {
@@ -54,11 +55,6 @@ export async function POST(request: Request) {
       middleware = {},
     } = body;
 
-    // Build language model middleware from options
-    const { languageModel } = createCompleteMiddleware({
-      languageModel: middleware,
-    });
-
     // Validate request
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json(
@@ -66,6 +62,20 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    const patternProblem = checkBlockedPatterns(
+      middleware.guardrails?.blockedPatterns
+    );
+    if (patternProblem) {
+      return NextResponse.json(
+        { error: `Invalid request: ${patternProblem}` },
+        { status: 400 }
+      );
+    }
+
+    // Build language model middleware from options
+    const { languageModel } = createCompleteMiddleware({
+      languageModel: middleware,
+    });
 
     // Get or create thread ID
     const chatThreadId = threadId || generateId();
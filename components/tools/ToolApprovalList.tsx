@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Check, RefreshCw, X } from 'lucide-react';
+import { useToast } from '@/lib/shared/hooks/use-toast';
+import { useSupabaseFetch } from '@/lib/shared/hooks/use-supabase-fetch';
+import type { ToolApproval } from '@/lib/tools/toolApprovals';
+
+export function ToolApprovalList() {
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Fetch tool calls waiting for a reviewer
+  const {
+    data: approvals,
+    isLoading,
+    error,
+    refetch: fetchApprovals,
+  } = useSupabaseFetch<ToolApproval>({
+    endpoint: '/api/ai-sdk/tools/approvals',
+    resourceName: 'Tool approvals',
+    dataKey: 'approvals',
+    queryParams: { status: 'pending' },
+  });
+
+  const handleReview = async (id: string, approved: boolean) => {
+    setReviewingId(id);
+    try {
+      const response = await fetch(`/api/ai-sdk/tools/approvals/${id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ approved, comment: comments[id] || undefined }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Error reviewing tool call: ${response.statusText}`);
+      }
+
+      // Refresh the list after the decision
+      fetchApprovals();
+
+      toast({
+        title: 'Success',
+        description: approved
+          ? 'Tool call approved and executed.'
+          : 'Tool call rejected.',
+      });
+    } catch (err) {
+      console.error('Failed to review tool call:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to review tool call. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mb-6">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error.message}</AlertDescription>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onClick={fetchApprovals}
+        >
+          Try Again
+        </Button>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-white">
+          Pending Tool Approvals
+        </h2>
+        <Button variant="outline" size="sm" onClick={fetchApprovals}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, index) => (
+            <Skeleton key={index} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : approvals.length === 0 ? (
+        <div className="text-center py-12 bg-gray-900 rounded-lg border border-gray-800">
+          <h3 className="text-xl font-medium text-gray-300">
+            No tool calls awaiting approval
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {approvals.map((approval) => (
+            <Card key={approval.id} className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <CardTitle className="text-white">
+                    {approval.toolName}
+                  </CardTitle>
+                  <Badge variant="outline">{approval.status}</Badge>
+                </div>
+                <CardDescription>
+                  Agent {approval.agentId} · Thread {approval.threadId} ·{' '}
+                  {new Date(approval.createdAt).toLocaleString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <pre className="text-xs bg-gray-950 p-3 rounded overflow-auto text-gray-300">
+                  {JSON.stringify(approval.args, null, 2)}
+                </pre>
+                <Textarea
+                  placeholder="Optional comment for the agent"
+                  value={comments[approval.id] || ''}
+                  onChange={(e) =>
+                    setComments((prev) => ({
+                      ...prev,
+                      [approval.id]: e.target.value,
+                    }))
+                  }
+                />
+              </CardContent>
+              <CardFooter className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={reviewingId === approval.id}
+                  onClick={() => handleReview(approval.id, false)}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button
+                  variant="default"
+                  size="sm"
+                  disabled={reviewingId === approval.id}
+                  onClick={() => handleReview(approval.id, true)}
+                >
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
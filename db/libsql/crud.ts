@@ -195,6 +195,13 @@ export class DrizzleCrud {
       .execute();
   }
 
+  async deleteAgentStatesByThreadId(threadId: string): Promise<void> {
+    await this.db
+      .delete(agent_states)
+      .where(eq(agent_states.memory_thread_id, threadId))
+      .execute();
+  }
+
   // Messages
   async createMessage(
     data: validation.NewMessage
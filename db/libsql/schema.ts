@@ -2,6 +2,7 @@ import {
   sqliteTable,
   text,
   integer,
+  real,
   blob,
   primaryKey,
 } from 'drizzle-orm/sqlite-core';
@@ -36,9 +37,36 @@ export const embeddings = sqliteTable('embeddings', {
   vector: blob('vector').notNull(),
   model: text('model'),
   dimensions: integer('dimensions'),
+  namespace: text('namespace'), // NULL (saved before namespaces) reads as 'default'
   created_at: text('created_at').notNull(),
 });
 
+// Embedding model and vector size each namespace of 'embeddings' is bound to
+export const embedding_namespaces = sqliteTable('embedding_namespaces', {
+  namespace: text('namespace').primaryKey(),
+  model: text('model').notNull(),
+  dimensions: integer('dimensions').notNull(),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+// Runs that re-embed a namespace with another provider, with progress counters
+export const reembed_jobs = sqliteTable('reembed_jobs', {
+  id: text('id').primaryKey(),
+  namespace: text('namespace').notNull(),
+  provider: text('provider').notNull(), // Registry name of the target provider
+  model: text('model').notNull(),
+  dimensions: integer('dimensions').notNull(),
+  status: text('status').notNull(), // 'queued' | 'running' | 'completed' | 'failed'
+  total: integer('total').notNull().default(0), // Vectors to re-embed
+  processed: integer('processed').notNull().default(0),
+  skipped: integer('skipped').notNull().default(0), // Vectors with no source text
+  error: text('error'),
+  created_at: text('created_at').notNull(),
+  started_at: text('started_at'),
+  finished_at: text('finished_at'),
+});
+
 export const agent_states = sqliteTable(
   'agent_states',
   {
@@ -61,6 +89,8 @@ export const workflows = sqliteTable('workflows', {
   description: text('description'),
   current_step_index: integer('current_step_index').notNull().default(0),
   status: text('status').notNull(),
+  lease_owner: text('lease_owner'), // Worker currently executing the workflow
+  lease_expires_at: text('lease_expires_at'), // Renewed by the executor's heartbeat
   metadata: text('metadata'), // JSON string
   created_at: text('created_at').notNull(),
   updated_at: text('updated_at').notNull(),
@@ -70,9 +100,14 @@ export const workflows = sqliteTable('workflows', {
 export const workflow_steps = sqliteTable('workflow_steps', {
   id: text('id').primaryKey(),
   workflow_id: text('workflow_id').notNull(),
+  step_key: text('step_key'), // Name other steps reference in dependencies/templates
+  kind: text('kind').notNull().default('agent'), // 'agent' or 'approval'
   agent_id: text('agent_id').notNull(),
   input: text('input'),
   thread_id: text('thread_id').notNull(),
+  depends_on: text('depends_on'), // JSON array of step keys or parallel groups
+  condition: text('condition'), // JSON conditional edge
+  parallel_group: text('parallel_group'),
   status: text('status').notNull(),
   result: text('result'),
   error: text('error'),
@@ -81,6 +116,232 @@ export const workflow_steps = sqliteTable('workflow_steps', {
   updated_at: text('updated_at').notNull(),
 });
 
+// Tool calls parked until a reviewer approves or rejects them
+export const tool_approvals = sqliteTable('tool_approvals', {
+  id: text('id').primaryKey(),
+  agent_id: text('agent_id').notNull(),
+  thread_id: text('thread_id').notNull(),
+  tool_name: text('tool_name').notNull(),
+  args: text('args').notNull(), // JSON string
+  status: text('status').notNull().default('pending'), // 'pending' | 'approved' | 'rejected'
+  result: text('result'), // JSON string
+  error: text('error'),
+  reviewer: text('reviewer'),
+  comment: text('comment'),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+export const workflow_schedules = sqliteTable('workflow_schedules', {
+  id: text('id').primaryKey(),
+  workflow_id: text('workflow_id').notNull(),
+  cron: text('cron').notNull(),
+  timezone: text('timezone').notNull().default('UTC'),
+  input: text('input'), // JSON string
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  next_run_at: text('next_run_at'),
+  last_run_at: text('last_run_at'),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+export const workflow_schedule_runs = sqliteTable('workflow_schedule_runs', {
+  id: text('id').primaryKey(),
+  schedule_id: text('schedule_id').notNull(),
+  workflow_id: text('workflow_id').notNull(), // Scheduled workflow
+  run_workflow_id: text('run_workflow_id'), // Workflow instance created for this run
+  status: text('status').notNull(), // 'running' | 'completed' | 'paused' | 'failed'
+  error: text('error'),
+  scheduled_for: text('scheduled_for').notNull(),
+  started_at: text('started_at').notNull(),
+  completed_at: text('completed_at'),
+});
+
+// Files of agent file jails stored in LibSQL (FILE_JAIL_BACKEND=libsql)
+export const vfs_files = sqliteTable(
+  'vfs_files',
+  {
+    jail_id: text('jail_id').notNull(), // '<agentId>/<threadId>'
+    path: text('path').notNull(), // Jail-relative POSIX path
+    content: blob('content').notNull(),
+    size: integer('size').notNull(),
+    created_at: text('created_at').notNull(),
+    updated_at: text('updated_at').notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.jail_id, table.path] })]
+);
+
+// Token and cost budgets enforced by the budget model middleware
+export const budgets = sqliteTable('budgets', {
+  id: text('id').primaryKey(),
+  name: text('name'),
+  scope: text('scope').notNull(), // 'user' | 'agent' | 'api_key'
+  scope_id: text('scope_id').notNull(), // User id, agent id or SHA-256 of the API key
+  period: text('period').notNull(), // 'daily' | 'monthly' (UTC)
+  max_tokens: integer('max_tokens'),
+  max_cost: real('max_cost'), // USD
+  on_exceed: text('on_exceed').notNull().default('reject'), // 'reject' | 'downgrade'
+  downgrade_model_id: text('downgrade_model_id'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+// Usage consumed against a budget, one row per budget period
+export const budget_usage = sqliteTable(
+  'budget_usage',
+  {
+    budget_id: text('budget_id').notNull(),
+    period_start: text('period_start').notNull(), // 'YYYY-MM-DD' or 'YYYY-MM'
+    tokens_used: integer('tokens_used').notNull().default(0),
+    cost_used: real('cost_used').notNull().default(0),
+    request_count: integer('request_count').notNull().default(0),
+    updated_at: text('updated_at').notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.budget_id, table.period_start] })]
+);
+
+// Answers served by the semantic response cache middleware
+export const semantic_cache = sqliteTable('semantic_cache', {
+  id: text('id').primaryKey(),
+  scope: text('scope').notNull(), // Hash of model, system prompt, tools and history
+  model_id: text('model_id').notNull(), // 'provider:modelId'
+  prompt: text('prompt').notNull(), // Last user turn
+  vector: blob('vector').notNull(), // Float32 embedding of the prompt
+  response: text('response').notNull(), // JSON string
+  hits: integer('hits').notNull().default(0),
+  created_at: text('created_at').notNull(),
+  expires_at: text('expires_at'),
+});
+
+// Durable facts extracted from conversations or stored with the remember tool
+export const memory_facts = sqliteTable('memory_facts', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id'), // Null for facts every user of the agent shares
+  agent_id: text('agent_id'), // Null for facts every agent of the user shares
+  content: text('content').notNull(),
+  category: text('category'), // 'preference' | 'profile' | 'goal' | 'relationship' | 'event' | 'other'
+  entities: text('entities'), // JSON array of entity names
+  confidence: real('confidence').notNull().default(1),
+  mentions: integer('mentions').notNull().default(1), // Times the fact was stated or merged
+  source: text('source').notNull(), // 'extraction' | 'tool'
+  source_thread_id: text('source_thread_id'),
+  vector: blob('vector').notNull(), // Float32 embedding of the content
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+// People, places, organisations and other things the facts are about
+export const memory_entities = sqliteTable('memory_entities', {
+  id: text('id').primaryKey(),
+  user_id: text('user_id'),
+  agent_id: text('agent_id'),
+  name: text('name').notNull(),
+  type: text('type').notNull(), // 'person' | 'organization' | 'place' | 'product' | 'concept' | 'other'
+  description: text('description'),
+  aliases: text('aliases'), // JSON array
+  mentions: integer('mentions').notNull().default(1),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+// Persona A/B experiments splitting traffic between persona variants
+export const persona_experiments = sqliteTable('persona_experiments', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  status: text('status').notNull().default('running'), // 'running' | 'stopped' | 'completed'
+  variants: text('variants').notNull(), // JSON array of { id, personaId, microPersonaIds, weight }
+  control_variant_id: text('control_variant_id').notNull(),
+  metric: text('metric').notNull(), // 'success' | 'userSatisfaction' | 'latency' | 'adaptabilityFactor'
+  min_sample_size: integer('min_sample_size').notNull(),
+  significance_level: real('significance_level').notNull(),
+  auto_promote: integer('auto_promote', { mode: 'boolean' })
+    .notNull()
+    .default(true),
+  promote_to_persona_id: text('promote_to_persona_id'),
+  winner_variant_id: text('winner_variant_id'),
+  stop_reason: text('stop_reason'),
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+  ended_at: text('ended_at'),
+});
+
+// Sticky variant assignment of each user in an experiment
+export const persona_experiment_assignments = sqliteTable(
+  'persona_experiment_assignments',
+  {
+    experiment_id: text('experiment_id').notNull(),
+    user_id: text('user_id').notNull(),
+    variant_id: text('variant_id').notNull(),
+    assigned_at: text('assigned_at').notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.experiment_id, table.user_id] })]
+);
+
+// Running sums of the experiment metric, one row per variant
+export const persona_experiment_results = sqliteTable(
+  'persona_experiment_results',
+  {
+    experiment_id: text('experiment_id').notNull(),
+    variant_id: text('variant_id').notNull(),
+    observations: integer('observations').notNull().default(0),
+    metric_sum: real('metric_sum').notNull().default(0),
+    metric_sum_sq: real('metric_sum_sq').notNull().default(0),
+    updated_at: text('updated_at').notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.experiment_id, table.variant_id] })]
+);
+
+// Named collections of ingested documents that personas can search
+export const knowledge_bases = sqliteTable('knowledge_bases', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  chunking: text('chunking').notNull(), // JSON { strategy?, chunkSize, chunkOverlap }
+  created_at: text('created_at').notNull(),
+  updated_at: text('updated_at').notNull(),
+});
+
+// Files ingested into a knowledge base; chunks live in 'documents'
+export const knowledge_base_sources = sqliteTable(
+  'knowledge_base_sources',
+  {
+    knowledge_base_id: text('knowledge_base_id').notNull(),
+    path: text('path').notNull(), // Relative to KNOWLEDGE_BASE_ROOT
+    type: text('type').notNull(), // 'pdf' | 'docx' | 'html' | 'markdown' | 'csv' | 'json' | 'text'
+    content_hash: text('content_hash').notNull(), // sha256 of the file bytes
+    status: text('status').notNull(), // 'ingested' | 'duplicate' | 'failed'
+    duplicate_of: text('duplicate_of'), // Path of the source with the same hash
+    chunk_count: integer('chunk_count').notNull().default(0),
+    size_bytes: integer('size_bytes').notNull(),
+    modified_at: text('modified_at').notNull(), // File mtime when ingested
+    error: text('error'),
+    ingested_at: text('ingested_at').notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.knowledge_base_id, table.path] })]
+);
+
+// Ingestion runs over a set of paths, with progress counters
+export const knowledge_base_jobs = sqliteTable('knowledge_base_jobs', {
+  id: text('id').primaryKey(),
+  knowledge_base_id: text('knowledge_base_id').notNull(),
+  status: text('status').notNull(), // 'queued' | 'running' | 'completed' | 'failed'
+  paths: text('paths').notNull(), // JSON array as requested
+  force: integer('force', { mode: 'boolean' }).notNull().default(false),
+  total: integer('total').notNull().default(0), // Files found under the paths
+  processed: integer('processed').notNull().default(0),
+  added: integer('added').notNull().default(0),
+  updated: integer('updated').notNull().default(0),
+  unchanged: integer('unchanged').notNull().default(0),
+  duplicates: integer('duplicates').notNull().default(0),
+  failed: integer('failed').notNull().default(0),
+  errors: text('errors'), // JSON array of { path, error }
+  created_at: text('created_at').notNull(),
+  started_at: text('started_at'),
+  finished_at: text('finished_at'),
+});
+
 export const gqlCache = sqliteTable('gql_cache', {
   id: text('id').primaryKey(), // key = query + variables JSON
   query: text('query').notNull(),
@@ -190,6 +451,14 @@ export type NewMessage = typeof messages.$inferInsert;
 export type Embedding = typeof embeddings.$inferSelect;
 export type NewEmbedding = typeof embeddings.$inferInsert;
 
+// For the 'embedding_namespaces' table
+export type EmbeddingNamespace = typeof embedding_namespaces.$inferSelect;
+export type NewEmbeddingNamespace = typeof embedding_namespaces.$inferInsert;
+
+// For the 'reembed_jobs' table
+export type ReembedJobRow = typeof reembed_jobs.$inferSelect;
+export type NewReembedJobRow = typeof reembed_jobs.$inferInsert;
+
 // For the 'agent_states' table
 export type AgentState = typeof agent_states.$inferSelect;
 export type NewAgentState = typeof agent_states.$inferInsert;
@@ -202,6 +471,71 @@ export type NewWorkflow = typeof workflows.$inferInsert;
 export type WorkflowStep = typeof workflow_steps.$inferSelect;
 export type NewWorkflowStep = typeof workflow_steps.$inferInsert;
 
+// For the 'tool_approvals' table
+export type ToolApproval = typeof tool_approvals.$inferSelect;
+export type NewToolApproval = typeof tool_approvals.$inferInsert;
+
+// For the 'workflow_schedules' table
+export type WorkflowSchedule = typeof workflow_schedules.$inferSelect;
+export type NewWorkflowSchedule = typeof workflow_schedules.$inferInsert;
+
+// For the 'workflow_schedule_runs' table
+export type WorkflowScheduleRun = typeof workflow_schedule_runs.$inferSelect;
+export type NewWorkflowScheduleRun = typeof workflow_schedule_runs.$inferInsert;
+
+// For the 'vfs_files' table
+export type VfsFile = typeof vfs_files.$inferSelect;
+export type NewVfsFile = typeof vfs_files.$inferInsert;
+
+// For the 'budgets' table
+export type Budget = typeof budgets.$inferSelect;
+export type NewBudget = typeof budgets.$inferInsert;
+
+// For the 'budget_usage' table
+export type BudgetUsage = typeof budget_usage.$inferSelect;
+export type NewBudgetUsage = typeof budget_usage.$inferInsert;
+
+// For the 'semantic_cache' table
+export type SemanticCacheRow = typeof semantic_cache.$inferSelect;
+export type NewSemanticCacheRow = typeof semantic_cache.$inferInsert;
+
+// For the 'memory_facts' table
+export type MemoryFactRow = typeof memory_facts.$inferSelect;
+export type NewMemoryFactRow = typeof memory_facts.$inferInsert;
+
+// For the 'memory_entities' table
+export type MemoryEntityRow = typeof memory_entities.$inferSelect;
+export type NewMemoryEntityRow = typeof memory_entities.$inferInsert;
+
+// For the 'persona_experiments' table
+export type PersonaExperimentRow = typeof persona_experiments.$inferSelect;
+export type NewPersonaExperimentRow = typeof persona_experiments.$inferInsert;
+
+// For the 'persona_experiment_assignments' table
+export type PersonaExperimentAssignmentRow =
+  typeof persona_experiment_assignments.$inferSelect;
+export type NewPersonaExperimentAssignmentRow =
+  typeof persona_experiment_assignments.$inferInsert;
+
+// For the 'persona_experiment_results' table
+export type PersonaExperimentResultRow =
+  typeof persona_experiment_results.$inferSelect;
+export type NewPersonaExperimentResultRow =
+  typeof persona_experiment_results.$inferInsert;
+
+// For the 'knowledge_bases' table
+export type KnowledgeBaseRow = typeof knowledge_bases.$inferSelect;
+export type NewKnowledgeBaseRow = typeof knowledge_bases.$inferInsert;
+
+// For the 'knowledge_base_sources' table
+export type KnowledgeBaseSourceRow = typeof knowledge_base_sources.$inferSelect;
+export type NewKnowledgeBaseSourceRow =
+  typeof knowledge_base_sources.$inferInsert;
+
+// For the 'knowledge_base_jobs' table
+export type KnowledgeBaseJobRow = typeof knowledge_base_jobs.$inferSelect;
+export type NewKnowledgeBaseJobRow = typeof knowledge_base_jobs.$inferInsert;
+
 // For the 'gqlCache' table
 export type GqlCache = typeof gqlCache.$inferSelect;
 export type NewGqlCache = typeof gqlCache.$inferInsert;
@@ -39,11 +39,40 @@ export const EmbeddingSchema = z.object({
   vector: z.instanceof(Uint8Array),
   model: z.string().optional().nullable(),
   dimensions: z.number().optional().nullable(),
+  namespace: z.string().optional().nullable(),
   created_at: z.string(),
 });
 export type Embedding = z.infer<typeof EmbeddingSchema>;
 export type NewEmbedding = z.infer<typeof EmbeddingSchema>;
 
+export const EmbeddingNamespaceSchema = z.object({
+  namespace: z.string(),
+  model: z.string(),
+  dimensions: z.number().int(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type EmbeddingNamespace = z.infer<typeof EmbeddingNamespaceSchema>;
+export type NewEmbeddingNamespace = z.infer<typeof EmbeddingNamespaceSchema>;
+
+export const ReembedJobRowSchema = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  dimensions: z.number().int(),
+  status: z.string(),
+  total: z.number().int(),
+  processed: z.number().int(),
+  skipped: z.number().int(),
+  error: z.string().optional().nullable(),
+  created_at: z.string(),
+  started_at: z.string().optional().nullable(),
+  finished_at: z.string().optional().nullable(),
+});
+export type ReembedJobRow = z.infer<typeof ReembedJobRowSchema>;
+export type NewReembedJobRow = z.infer<typeof ReembedJobRowSchema>;
+
 export const AgentStateSchema = z.object({
   memory_thread_id: z.string(),
   agent_id: z.string(),
@@ -60,6 +89,8 @@ export const WorkflowSchema = z.object({
   description: z.string().optional().nullable(),
   current_step_index: z.number(),
   status: z.string(),
+  lease_owner: z.string().optional().nullable(),
+  lease_expires_at: z.string().optional().nullable(),
   metadata: z.string().optional().nullable(),
   created_at: z.string(),
   updated_at: z.string(),
@@ -70,9 +101,14 @@ export type NewWorkflow = z.infer<typeof WorkflowSchema>;
 export const WorkflowStepSchema = z.object({
   id: z.string(),
   workflow_id: z.string(),
+  step_key: z.string().optional().nullable(),
+  kind: z.string().default('agent'),
   agent_id: z.string(),
   input: z.string().optional().nullable(),
   thread_id: z.string(),
+  depends_on: z.string().optional().nullable(),
+  condition: z.string().optional().nullable(),
+  parallel_group: z.string().optional().nullable(),
   status: z.string(),
   result: z.string().optional().nullable(),
   error: z.string().optional().nullable(),
@@ -83,6 +119,241 @@ export const WorkflowStepSchema = z.object({
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
 export type NewWorkflowStep = z.infer<typeof WorkflowStepSchema>;
 
+export const ToolApprovalSchema = z.object({
+  id: z.string(),
+  agent_id: z.string(),
+  thread_id: z.string(),
+  tool_name: z.string(),
+  args: z.string(),
+  status: z.string(),
+  result: z.string().optional().nullable(),
+  error: z.string().optional().nullable(),
+  reviewer: z.string().optional().nullable(),
+  comment: z.string().optional().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type ToolApproval = z.infer<typeof ToolApprovalSchema>;
+export type NewToolApproval = z.infer<typeof ToolApprovalSchema>;
+
+export const WorkflowScheduleSchema = z.object({
+  id: z.string(),
+  workflow_id: z.string(),
+  cron: z.string(),
+  timezone: z.string(),
+  input: z.string().optional().nullable(),
+  enabled: z.boolean(),
+  next_run_at: z.string().optional().nullable(),
+  last_run_at: z.string().optional().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type WorkflowSchedule = z.infer<typeof WorkflowScheduleSchema>;
+export type NewWorkflowSchedule = z.infer<typeof WorkflowScheduleSchema>;
+
+export const WorkflowScheduleRunSchema = z.object({
+  id: z.string(),
+  schedule_id: z.string(),
+  workflow_id: z.string(),
+  run_workflow_id: z.string().optional().nullable(),
+  status: z.string(),
+  error: z.string().optional().nullable(),
+  scheduled_for: z.string(),
+  started_at: z.string(),
+  completed_at: z.string().optional().nullable(),
+});
+export type WorkflowScheduleRun = z.infer<typeof WorkflowScheduleRunSchema>;
+export type NewWorkflowScheduleRun = z.infer<typeof WorkflowScheduleRunSchema>;
+
+export const VfsFileSchema = z.object({
+  jail_id: z.string(),
+  path: z.string(),
+  content: z.instanceof(Uint8Array),
+  size: z.number().int(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type VfsFile = z.infer<typeof VfsFileSchema>;
+export type NewVfsFile = z.infer<typeof VfsFileSchema>;
+
+export const BudgetSchema = z.object({
+  id: z.string(),
+  name: z.string().optional().nullable(),
+  scope: z.string(),
+  scope_id: z.string(),
+  period: z.string(),
+  max_tokens: z.number().int().optional().nullable(),
+  max_cost: z.number().optional().nullable(),
+  on_exceed: z.string(),
+  downgrade_model_id: z.string().optional().nullable(),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type Budget = z.infer<typeof BudgetSchema>;
+export type NewBudget = z.infer<typeof BudgetSchema>;
+
+export const BudgetUsageSchema = z.object({
+  budget_id: z.string(),
+  period_start: z.string(),
+  tokens_used: z.number().int(),
+  cost_used: z.number(),
+  request_count: z.number().int(),
+  updated_at: z.string(),
+});
+export type BudgetUsage = z.infer<typeof BudgetUsageSchema>;
+export type NewBudgetUsage = z.infer<typeof BudgetUsageSchema>;
+
+export const SemanticCacheRowSchema = z.object({
+  id: z.string(),
+  scope: z.string(),
+  model_id: z.string(),
+  prompt: z.string(),
+  vector: z.instanceof(Uint8Array),
+  response: z.string(),
+  hits: z.number().int(),
+  created_at: z.string(),
+  expires_at: z.string().optional().nullable(),
+});
+export type SemanticCacheRow = z.infer<typeof SemanticCacheRowSchema>;
+export type NewSemanticCacheRow = z.infer<typeof SemanticCacheRowSchema>;
+
+export const MemoryFactRowSchema = z.object({
+  id: z.string(),
+  user_id: z.string().optional().nullable(),
+  agent_id: z.string().optional().nullable(),
+  content: z.string(),
+  category: z.string().optional().nullable(),
+  entities: z.string().optional().nullable(),
+  confidence: z.number(),
+  mentions: z.number().int(),
+  source: z.string(),
+  source_thread_id: z.string().optional().nullable(),
+  vector: z.instanceof(Uint8Array),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type MemoryFactRow = z.infer<typeof MemoryFactRowSchema>;
+export type NewMemoryFactRow = z.infer<typeof MemoryFactRowSchema>;
+
+export const MemoryEntityRowSchema = z.object({
+  id: z.string(),
+  user_id: z.string().optional().nullable(),
+  agent_id: z.string().optional().nullable(),
+  name: z.string(),
+  type: z.string(),
+  description: z.string().optional().nullable(),
+  aliases: z.string().optional().nullable(),
+  mentions: z.number().int(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type MemoryEntityRow = z.infer<typeof MemoryEntityRowSchema>;
+export type NewMemoryEntityRow = z.infer<typeof MemoryEntityRowSchema>;
+
+export const PersonaExperimentRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional().nullable(),
+  status: z.string(),
+  variants: z.string(),
+  control_variant_id: z.string(),
+  metric: z.string(),
+  min_sample_size: z.number().int(),
+  significance_level: z.number(),
+  auto_promote: z.boolean(),
+  promote_to_persona_id: z.string().optional().nullable(),
+  winner_variant_id: z.string().optional().nullable(),
+  stop_reason: z.string().optional().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  ended_at: z.string().optional().nullable(),
+});
+export type PersonaExperimentRow = z.infer<typeof PersonaExperimentRowSchema>;
+export type NewPersonaExperimentRow = z.infer<
+  typeof PersonaExperimentRowSchema
+>;
+
+export const PersonaExperimentAssignmentRowSchema = z.object({
+  experiment_id: z.string(),
+  user_id: z.string(),
+  variant_id: z.string(),
+  assigned_at: z.string(),
+});
+export type PersonaExperimentAssignmentRow = z.infer<
+  typeof PersonaExperimentAssignmentRowSchema
+>;
+export type NewPersonaExperimentAssignmentRow = z.infer<
+  typeof PersonaExperimentAssignmentRowSchema
+>;
+
+export const PersonaExperimentResultRowSchema = z.object({
+  experiment_id: z.string(),
+  variant_id: z.string(),
+  observations: z.number().int(),
+  metric_sum: z.number(),
+  metric_sum_sq: z.number(),
+  updated_at: z.string(),
+});
+export type PersonaExperimentResultRow = z.infer<
+  typeof PersonaExperimentResultRowSchema
+>;
+export type NewPersonaExperimentResultRow = z.infer<
+  typeof PersonaExperimentResultRowSchema
+>;
+
+export const KnowledgeBaseRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional().nullable(),
+  chunking: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type KnowledgeBaseRow = z.infer<typeof KnowledgeBaseRowSchema>;
+export type NewKnowledgeBaseRow = z.infer<typeof KnowledgeBaseRowSchema>;
+
+export const KnowledgeBaseSourceRowSchema = z.object({
+  knowledge_base_id: z.string(),
+  path: z.string(),
+  type: z.string(),
+  content_hash: z.string(),
+  status: z.string(),
+  duplicate_of: z.string().optional().nullable(),
+  chunk_count: z.number().int(),
+  size_bytes: z.number().int(),
+  modified_at: z.string(),
+  error: z.string().optional().nullable(),
+  ingested_at: z.string(),
+});
+export type KnowledgeBaseSourceRow = z.infer<
+  typeof KnowledgeBaseSourceRowSchema
+>;
+export type NewKnowledgeBaseSourceRow = z.infer<
+  typeof KnowledgeBaseSourceRowSchema
+>;
+
+export const KnowledgeBaseJobRowSchema = z.object({
+  id: z.string(),
+  knowledge_base_id: z.string(),
+  status: z.string(),
+  paths: z.string(),
+  force: z.boolean(),
+  total: z.number().int(),
+  processed: z.number().int(),
+  added: z.number().int(),
+  updated: z.number().int(),
+  unchanged: z.number().int(),
+  duplicates: z.number().int(),
+  failed: z.number().int(),
+  errors: z.string().optional().nullable(),
+  created_at: z.string(),
+  started_at: z.string().optional().nullable(),
+  finished_at: z.string().optional().nullable(),
+});
+export type KnowledgeBaseJobRow = z.infer<typeof KnowledgeBaseJobRowSchema>;
+export type NewKnowledgeBaseJobRow = z.infer<typeof KnowledgeBaseJobRowSchema>;
+
 export const GqlCacheSchema = z.object({
   id: z.string(),
   query: z.string(),
@@ -129,6 +129,8 @@ export const workflows = pgTable('workflows', {
   description: text('description'),
   current_step_index: integer('current_step_index').notNull().default(0),
   status: text('status').notNull(), // Consider an enum if status values are fixed
+  lease_owner: text('lease_owner'), // Worker currently executing the workflow
+  lease_expires_at: timestamp('lease_expires_at', { withTimezone: true }), // Renewed by the executor's heartbeat
   ...withMetadata(),
   ...standardTimestamps(),
 });
@@ -281,6 +283,8 @@ export const tools = pgTable('tools', {
   category: text('category').default('custom'),
   implementation: text('implementation'), // For custom tools, JS code string
   is_enabled: boolean('is_enabled').default(true),
+  requires_approval: boolean('requires_approval').default(false), // Park agent calls for human sign-off
+  execution_policy: jsonb('execution_policy'), // Timeout, rate limit, retry and circuit breaker overrides
   version: text('version'),
   tags: jsonb('tags'), // Storing tags as JSONB array
   ...standardTimestamps(),
@@ -295,8 +299,13 @@ export const workflow_steps = pgTable('workflow_steps', {
   agent_id: uuid('agent_id')
     .notNull()
     .references(() => agents.id, { onDelete: 'cascade' }),
+  step_key: text('step_key'), // Name other steps reference in dependencies/templates
+  kind: text('kind').notNull().default('agent'), // 'agent' or 'approval'
   input: text('input'),
   thread_id: uuid('thread_id'), // This might link to a LibSQL thread ID, so no direct FK here.
+  depends_on: jsonb('depends_on'), // Array of step keys or parallel groups
+  condition: jsonb('condition'), // Conditional edge evaluated on a prior step's result
+  parallel_group: text('parallel_group'),
   status: text('status').notNull(),
   result: text('result'),
   error: text('error'), // Consider renaming to error_message if 'error' is a reserved word
@@ -627,6 +636,34 @@ export const messages = pgTable('messages', {
   is_deleted: boolean('is_deleted').notNull().default(false),
 });
 
+// Agent States table (per-thread agent state for the memory layer)
+export const agent_states = pgTable(
+  'agent_states',
+  {
+    memory_thread_id: uuid('memory_thread_id')
+      .notNull()
+      .references(() => memory_threads.id, { onDelete: 'cascade' }),
+    agent_id: text('agent_id').notNull(),
+    state_data: jsonb('state_data').notNull(),
+    created_at: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updated_at: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => {
+    return {
+      pk: primaryKey({ columns: [table.memory_thread_id, table.agent_id] }),
+    };
+  }
+);
+
+// Embeddings table (vectors saved through the memory layer)
+export const embeddings = pgTable('embeddings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  vector: text('vector').notNull(), // Storing as text; pgvector handles text representation.
+  model: text('model'),
+  dimensions: integer('dimensions'),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
 // Database Connections table (for tracking connection pools)
 export const database_connections = pgTable('database_connections', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -1129,6 +1166,14 @@ export type NewMemoryThread = typeof memory_threads.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
 
+// For the 'agent_states' table
+export type AgentState = typeof agent_states.$inferSelect;
+export type NewAgentState = typeof agent_states.$inferInsert;
+
+// For the 'embeddings' table
+export type Embedding = typeof embeddings.$inferSelect;
+export type NewEmbedding = typeof embeddings.$inferInsert;
+
 // For the 'database_connections' table
 export type DatabaseConnection = typeof database_connections.$inferSelect;
 export type NewDatabaseConnection = typeof database_connections.$inferInsert;
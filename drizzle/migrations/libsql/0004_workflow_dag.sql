@@ -0,0 +1,4 @@
+ALTER TABLE `workflow_steps` ADD `step_key` text;--> statement-breakpoint
+ALTER TABLE `workflow_steps` ADD `depends_on` text;--> statement-breakpoint
+ALTER TABLE `workflow_steps` ADD `condition` text;--> statement-breakpoint
+ALTER TABLE `workflow_steps` ADD `parallel_group` text;
\ No newline at end of file
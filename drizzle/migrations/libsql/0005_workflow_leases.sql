@@ -0,0 +1,2 @@
+ALTER TABLE `workflows` ADD `lease_owner` text;--> statement-breakpoint
+ALTER TABLE `workflows` ADD `lease_expires_at` text;
\ No newline at end of file
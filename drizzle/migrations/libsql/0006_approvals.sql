@@ -0,0 +1,16 @@
+CREATE TABLE `tool_approvals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`agent_id` text NOT NULL,
+	`thread_id` text NOT NULL,
+	`tool_name` text NOT NULL,
+	`args` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`result` text,
+	`error` text,
+	`reviewer` text,
+	`comment` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `workflow_steps` ADD `kind` text DEFAULT 'agent' NOT NULL;
\ No newline at end of file
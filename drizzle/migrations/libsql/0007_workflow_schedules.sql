@@ -0,0 +1,24 @@
+CREATE TABLE `workflow_schedule_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`schedule_id` text NOT NULL,
+	`workflow_id` text NOT NULL,
+	`run_workflow_id` text,
+	`status` text NOT NULL,
+	`error` text,
+	`scheduled_for` text NOT NULL,
+	`started_at` text NOT NULL,
+	`completed_at` text
+);
+--> statement-breakpoint
+CREATE TABLE `workflow_schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workflow_id` text NOT NULL,
+	`cron` text NOT NULL,
+	`timezone` text DEFAULT 'UTC' NOT NULL,
+	`input` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`next_run_at` text,
+	`last_run_at` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
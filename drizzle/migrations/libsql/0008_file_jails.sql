@@ -0,0 +1,9 @@
+CREATE TABLE `vfs_files` (
+	`jail_id` text NOT NULL,
+	`path` text NOT NULL,
+	`content` blob NOT NULL,
+	`size` integer NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	PRIMARY KEY(`jail_id`, `path`)
+);
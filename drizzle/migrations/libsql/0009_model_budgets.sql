@@ -0,0 +1,24 @@
+CREATE TABLE `budget_usage` (
+	`budget_id` text NOT NULL,
+	`period_start` text NOT NULL,
+	`tokens_used` integer DEFAULT 0 NOT NULL,
+	`cost_used` real DEFAULT 0 NOT NULL,
+	`request_count` integer DEFAULT 0 NOT NULL,
+	`updated_at` text NOT NULL,
+	PRIMARY KEY(`budget_id`, `period_start`)
+);
+--> statement-breakpoint
+CREATE TABLE `budgets` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text,
+	`scope` text NOT NULL,
+	`scope_id` text NOT NULL,
+	`period` text NOT NULL,
+	`max_tokens` integer,
+	`max_cost` real,
+	`on_exceed` text DEFAULT 'reject' NOT NULL,
+	`downgrade_model_id` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
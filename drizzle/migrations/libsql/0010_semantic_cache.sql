@@ -0,0 +1,11 @@
+CREATE TABLE `semantic_cache` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scope` text NOT NULL,
+	`model_id` text NOT NULL,
+	`prompt` text NOT NULL,
+	`vector` blob NOT NULL,
+	`response` text NOT NULL,
+	`hits` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	`expires_at` text
+);
@@ -0,0 +1,28 @@
+CREATE TABLE `memory_entities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text,
+	`agent_id` text,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`description` text,
+	`aliases` text,
+	`mentions` integer DEFAULT 1 NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `memory_facts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text,
+	`agent_id` text,
+	`content` text NOT NULL,
+	`category` text,
+	`entities` text,
+	`confidence` real DEFAULT 1 NOT NULL,
+	`mentions` integer DEFAULT 1 NOT NULL,
+	`source` text NOT NULL,
+	`source_thread_id` text,
+	`vector` blob NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
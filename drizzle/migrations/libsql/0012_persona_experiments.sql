@@ -0,0 +1,36 @@
+CREATE TABLE `persona_experiment_assignments` (
+	`experiment_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`assigned_at` text NOT NULL,
+	PRIMARY KEY(`experiment_id`, `user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `persona_experiment_results` (
+	`experiment_id` text NOT NULL,
+	`variant_id` text NOT NULL,
+	`observations` integer DEFAULT 0 NOT NULL,
+	`metric_sum` real DEFAULT 0 NOT NULL,
+	`metric_sum_sq` real DEFAULT 0 NOT NULL,
+	`updated_at` text NOT NULL,
+	PRIMARY KEY(`experiment_id`, `variant_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `persona_experiments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`status` text DEFAULT 'running' NOT NULL,
+	`variants` text NOT NULL,
+	`control_variant_id` text NOT NULL,
+	`metric` text NOT NULL,
+	`min_sample_size` integer NOT NULL,
+	`significance_level` real NOT NULL,
+	`auto_promote` integer DEFAULT true NOT NULL,
+	`promote_to_persona_id` text,
+	`winner_variant_id` text,
+	`stop_reason` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	`ended_at` text
+);
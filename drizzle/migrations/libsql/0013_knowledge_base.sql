@@ -0,0 +1,42 @@
+CREATE TABLE `knowledge_base_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`knowledge_base_id` text NOT NULL,
+	`status` text NOT NULL,
+	`paths` text NOT NULL,
+	`force` integer DEFAULT false NOT NULL,
+	`total` integer DEFAULT 0 NOT NULL,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`added` integer DEFAULT 0 NOT NULL,
+	`updated` integer DEFAULT 0 NOT NULL,
+	`unchanged` integer DEFAULT 0 NOT NULL,
+	`duplicates` integer DEFAULT 0 NOT NULL,
+	`failed` integer DEFAULT 0 NOT NULL,
+	`errors` text,
+	`created_at` text NOT NULL,
+	`started_at` text,
+	`finished_at` text
+);
+--> statement-breakpoint
+CREATE TABLE `knowledge_base_sources` (
+	`knowledge_base_id` text NOT NULL,
+	`path` text NOT NULL,
+	`type` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`status` text NOT NULL,
+	`duplicate_of` text,
+	`chunk_count` integer DEFAULT 0 NOT NULL,
+	`size_bytes` integer NOT NULL,
+	`modified_at` text NOT NULL,
+	`error` text,
+	`ingested_at` text NOT NULL,
+	PRIMARY KEY(`knowledge_base_id`, `path`)
+);
+--> statement-breakpoint
+CREATE TABLE `knowledge_bases` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`chunking` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
@@ -0,0 +1,25 @@
+CREATE TABLE `embedding_namespaces` (
+	`namespace` text PRIMARY KEY NOT NULL,
+	`model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `reembed_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`namespace` text NOT NULL,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`status` text NOT NULL,
+	`total` integer DEFAULT 0 NOT NULL,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`skipped` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_at` text NOT NULL,
+	`started_at` text,
+	`finished_at` text
+);
+--> statement-breakpoint
+ALTER TABLE `embeddings` ADD `namespace` text;
\ No newline at end of file
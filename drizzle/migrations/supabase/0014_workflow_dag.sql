@@ -0,0 +1,4 @@
+ALTER TABLE "workflow_steps" ADD COLUMN IF NOT EXISTS "step_key" text;
+ALTER TABLE "workflow_steps" ADD COLUMN IF NOT EXISTS "depends_on" jsonb;
+ALTER TABLE "workflow_steps" ADD COLUMN IF NOT EXISTS "condition" jsonb;
+ALTER TABLE "workflow_steps" ADD COLUMN IF NOT EXISTS "parallel_group" text;
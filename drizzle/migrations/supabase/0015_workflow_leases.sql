@@ -0,0 +1,2 @@
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "lease_owner" text;
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "lease_expires_at" timestamp with time zone;
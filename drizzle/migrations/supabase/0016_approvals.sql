@@ -0,0 +1,2 @@
+ALTER TABLE "tools" ADD COLUMN IF NOT EXISTS "requires_approval" boolean DEFAULT false;
+ALTER TABLE "workflow_steps" ADD COLUMN IF NOT EXISTS "kind" text DEFAULT 'agent' NOT NULL;
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "agent_states" (
+  "memory_thread_id" uuid NOT NULL,
+  "agent_id" text NOT NULL,
+  "state_data" jsonb NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now(),
+  "updated_at" timestamp with time zone DEFAULT now(),
+  CONSTRAINT "agent_states_memory_thread_id_agent_id_pk" PRIMARY KEY ("memory_thread_id", "agent_id")
+);
+
+CREATE TABLE IF NOT EXISTS "embeddings" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "vector" text NOT NULL,
+  "model" text,
+  "dimensions" integer,
+  "created_at" timestamp with time zone DEFAULT now()
+);
+
+-- Add foreign key constraint
+ALTER TABLE "agent_states" ADD CONSTRAINT "agent_states_memory_thread_id_memory_threads_id_fk"
+FOREIGN KEY ("memory_thread_id") REFERENCES "memory_threads"("id") ON DELETE CASCADE;
@@ -0,0 +1,22 @@
+/**
+ * Server Instrumentation
+ *
+ * Next.js calls `register` once when a server instance starts. It starts the
+ * background workers that keep workflows moving without a request to drive
+ * them: the recovery sweep that resumes workflows whose executor died, and
+ * the scheduler that starts workflows whose cron schedules are due.
+ */
+
+export async function register() {
+  // Workers need Node.js timers and database clients, not the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { workflow } = await import('@/lib/workflow');
+  const { startWorkflowRecovery } = await import('@/lib/workflow/recovery');
+  const { startWorkflowScheduler } = await import('@/lib/workflow/schedule');
+
+  startWorkflowRecovery(workflow);
+  startWorkflowScheduler(workflow);
+}
@@ -48,6 +48,8 @@ export interface ToolConfig {
   name: string;
   description: string;
   parameters_schema: string;
+  /** Park calls to this tool for human approval instead of executing them */
+  requires_approval?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -60,6 +62,7 @@ export const ToolConfigSchema = z.object({
   name: z.string(),
   description: z.string(),
   parameters_schema: z.string(),
+  requires_approval: z.boolean().optional(),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -210,9 +213,54 @@ export interface AgentRunOptions {
   toolChoice?: any; // Based on Vercel SDK, this can be complex, but we don't use it
   traceId?: string; // Optional, as per integration notes above
   streamOutput?: boolean;
+  contextWindow?: ContextWindowConfig; // See lib/memory/context-window.ts
+  longTermMemory?: LongTermMemoryConfig; // See lib/memory/long-term-memory.ts
   onFinish?: (data: AgentRunFinishData) => Promise<void>; // Updated onFinish as per integration notes above, traceId is optional
 }
 
+/**
+ * Context window management of agent runs (lib/memory/context-window.ts)
+ */
+export const ContextWindowConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Share of the budget kept for verbatim recent turns */
+  recentShare: z.number().min(0.1).max(1).default(0.6),
+  /** Recent messages kept verbatim even beyond `recentShare` */
+  minRecentMessages: z.number().int().min(0).default(4),
+  /** Target length of the rolling summary */
+  summaryTokens: z.number().int().positive().default(800),
+  /**
+   * Older messages pulled back in by semantic search (0 to disable). Agent
+   * runs embed their turns only when this is set.
+   */
+  relevantMessages: z.number().int().min(0).default(0),
+  /** Minimum similarity of a pulled-back message */
+  relevanceThreshold: z.number().min(-1).max(1).default(0.75),
+  /** Tokens set aside for tool definitions and other prompt overhead */
+  reservedTokens: z.number().int().min(0).default(0),
+});
+export type ContextWindowConfig = z.input<typeof ContextWindowConfigSchema>;
+
+/**
+ * Long-term fact memory of agent runs (lib/memory/long-term-memory.ts)
+ */
+export const LongTermMemoryConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** User the run serves; facts are kept per user and agent */
+  userId: z.string().optional(),
+  /** Remembered facts added to the system prompt (0 to disable) */
+  recallLimit: z.number().int().min(0).default(8),
+  /** Minimum similarity of a fact added to the system prompt */
+  recallThreshold: z.number().min(-1).max(1).default(0.35),
+  /** Extract facts from the thread's new messages after the run (needs userId) */
+  extract: z.boolean().default(true),
+  /** Store extracted facts for the user across all agents */
+  shareAcrossAgents: z.boolean().default(false),
+  /** Give the agent the remember, recall and forget tools */
+  tools: z.boolean().default(true),
+});
+export type LongTermMemoryConfig = z.input<typeof LongTermMemoryConfigSchema>;
+
 /**
  * Zod schema for AgentRunOptions
  */
@@ -223,6 +271,8 @@ export const AgentRunOptionsSchema = z.object({
   toolChoice: z.any().optional(),
   traceId: z.string().optional(),
   streamOutput: z.boolean().optional(),
+  contextWindow: ContextWindowConfigSchema.partial().optional(),
+  longTermMemory: LongTermMemoryConfigSchema.partial().optional(),
   onFinish: z
     .function()
     .args(AgentRunFinishDataSchema)
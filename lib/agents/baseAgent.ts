@@ -9,6 +9,10 @@ import {
 import { jsonSchemaToZod } from '../tools';
 import { ToolRegistry, toolRegistry } from '../tools/toolRegistry';
 import { initializeTools } from '../tools/toolInitializer';
+import { requestToolApproval } from '../tools/toolApprovals';
+import { runWithToolContext } from '../tools/toolContext';
+import { mcpClientManager } from '../tools/mcp/client';
+import { toolInputSchema } from '../tools/mcp/schema';
 import {
   getData,
   shouldUseUpstash,
@@ -18,6 +22,15 @@ import {
 } from '../memory/supabase';
 import { createSupabaseClient } from '../memory/upstash/supabase-adapter-factory';
 import { getLibSQLClient } from '../memory/db';
+import { assembleContext } from '../memory/context-window';
+import {
+  createFactExtractionProcessor,
+  formatFactsForPrompt,
+  recallFacts,
+} from '../memory/long-term-memory';
+import { MemoryProcessorPipeline } from '../memory/memory-processors';
+import { tools as memoryTools } from '../tools/memory-tools';
+import { getModelByModelId } from '../models/model-service';
 import { v4 as uuidv4 } from 'uuid';
 import * as aiSdkIntegration from '../ai-sdk-integration';
 import * as aiSdkTracing from '../ai-sdk-tracing';
@@ -36,6 +49,7 @@ import {
   AgentStateSchema,
   AgentRunOptions,
   AgentRunOptionsSchema,
+  LongTermMemoryConfigSchema,
   AgentPersona,
   AgentPersonaSchema,
 } from './agent.types';
@@ -90,10 +104,69 @@ export class BaseAgent {
     });
   }
 
-  private async initializeToolsForAgent(): Promise<Record<string, any>> {
+  // Builds tool configs for 'mcp:<server>' and 'mcp:<server>/<tool>' tool ids
+  private async resolveMcpToolConfigs(
+    toolIds: string[] = []
+  ): Promise<ToolConfig[]> {
+    const mcpToolIds = toolIds.filter((id) => id.startsWith('mcp:'));
+    if (mcpToolIds.length === 0) return [];
+
+    // Initializing the registry connects the configured MCP servers
+    await toolRegistry.getAllTools();
+    const now = new Date().toISOString();
+    const configs: ToolConfig[] = [];
+    for (const toolId of mcpToolIds) {
+      for (const name of mcpClientManager.resolveToolId(toolId)) {
+        const instance = await ToolRegistry.getTool(name);
+        if (!instance) continue;
+        configs.push({
+          id: toolId,
+          name,
+          description: instance.description || '',
+          parameters_schema: JSON.stringify(toolInputSchema(instance)),
+          created_at: now,
+          updated_at: now,
+        });
+      }
+    }
+    return configs;
+  }
+
+  private async initializeToolsForAgent(
+    threadId: string,
+    userId?: string
+  ): Promise<Record<string, any>> {
     // Only fetch tools for this agent, do not re-initialize global registry
     const aiTools: Record<string, any> = {};
 
+    // Executes a tool through the registry, or parks the call for approval
+    const executeOrPark = async (toolConfig: ToolConfig, params: any) => {
+      // Call the onToolCall hook if provided
+      if (this.hooks.onToolCall) {
+        await this.hooks.onToolCall(toolConfig.name, params);
+      }
+
+      if (toolConfig.requires_approval) {
+        const approval = await requestToolApproval(
+          this.id,
+          threadId,
+          toolConfig.name,
+          params
+        );
+        return {
+          status: 'pending_approval',
+          approvalId: approval.id,
+          message: `Calling ${toolConfig.name} requires human approval. The request has been submitted; do not retry it.`,
+        };
+      }
+
+      // Execute the tool through the registry, scoped to this agent and thread
+      return await runWithToolContext(
+        { agentId: this.id, threadId, userId },
+        () => ToolRegistry.executeTool(toolConfig.name, params)
+      );
+    };
+
     // Ensure the ToolRegistry is initialized
     await toolRegistry.getAllTools();
 
@@ -124,15 +197,7 @@ export class BaseAgent {
               name: toolName,
               description: description || toolConfig.description || '',
               parameters_schema: toolConfig.parameters_schema,
-              execute: async (params: any) => {
-                // Call the onToolCall hook if provided
-                if (this.hooks.onToolCall) {
-                  await this.hooks.onToolCall(toolName, params);
-                }
-
-                // Execute the tool through the registry
-                return await ToolRegistry.executeTool(toolName, params);
-              },
+              execute: (params: any) => executeOrPark(toolConfig, params),
             };
           }
         } else {
@@ -162,15 +227,7 @@ export class BaseAgent {
             name: toolName,
             description: toolConfig.description || '',
             parameters_schema: toolConfig.parameters_schema,
-            execute: async (params: any) => {
-              // Call the onToolCall hook if provided
-              if (this.hooks.onToolCall) {
-                await this.hooks.onToolCall(toolName, params);
-              }
-
-              // Execute the tool through the registry
-              return await ToolRegistry.executeTool(toolName, params);
-            },
+            execute: (params: any) => executeOrPark(toolConfig, params),
           };
         }
       } catch (error) {
@@ -221,9 +278,10 @@ export class BaseAgent {
 
       // Create a new thread if no messages exist
       if (messages.length === 0) {
-        // Insert new thread into database
+        // Insert new thread into database, unless it was created empty
+        // beforehand (workflow steps are given their thread up front)
         await db.execute({
-          sql: `INSERT INTO memory_threads (id, agent_id, name, created_at, updated_at)
+          sql: `INSERT OR IGNORE INTO memory_threads (id, agent_id, name, created_at, updated_at)
                 VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
           args: [memoryThreadId, this.id, `${this.name} Thread`],
         });
@@ -280,8 +338,19 @@ export class BaseAgent {
         await saveMessage(memoryThreadId, 'system', systemMsg);
         messages = [{ role: 'system', content: systemMsg }];
       }
+      const contextWindow = validatedOptions?.contextWindow;
+      // Long-term memory is used when the run options ask for it
+      const longTermMemory = validatedOptions?.longTermMemory
+        ? LongTermMemoryConfigSchema.parse(validatedOptions.longTermMemory)
+        : undefined;
+      const userId = longTermMemory?.userId;
+      // Turns are embedded, at a provider call each, only when the run asks
+      // the context window manager to recall them
+      const embedTurns =
+        contextWindow?.enabled !== false &&
+        (contextWindow?.relevantMessages ?? 0) > 0;
       if (input) {
-        await saveMessage(memoryThreadId, 'user', input);
+        await this.saveTurn(memoryThreadId, 'user', input, embedTurns);
         messages.push({ role: 'user', content: input });
       }
       const agentState: AgentState = await loadAgentState(
@@ -412,17 +481,28 @@ export class BaseAgent {
           typeof tool.parameters_schema === 'string'
             ? tool.parameters_schema
             : JSON.stringify(tool.parameters_schema || {}),
+        requires_approval: Boolean(tool.requires_approval),
         created_at: tool.created_at,
         updated_at: tool.updated_at,
       }));
+      // tool_ids can also reference tools imported from MCP servers
+      this.toolConfigs.push(
+        ...(await this.resolveMcpToolConfigs(agentConfig.tool_ids))
+      );
       initializeTools();
-      const tools = await this.initializeToolsForAgent();
-      // Map messages to CoreMessages
-      const coreMessages = messages.map((msg) => ({
-        id: uuidv4(),
-        role: msg.role as CoreMessage['role'],
-        content: msg.content,
-      })) as CoreMessage[];
+      const tools = await this.initializeToolsForAgent(memoryThreadId, userId);
+      if (longTermMemory?.enabled && longTermMemory.tools) {
+        for (const [name, memoryTool] of Object.entries(memoryTools)) {
+          tools[name] ??= {
+            ...memoryTool,
+            execute: (params: any, options: any) =>
+              runWithToolContext(
+                { agentId: this.id, threadId: memoryThreadId, userId },
+                async () => await memoryTool.execute(params, options)
+              ),
+          };
+        }
+      }
       // Streaming with advanced options
       let result, text;
       const maxSteps = 8; // Allow multi-step/parallel tool calls
@@ -449,6 +529,64 @@ export class BaseAgent {
         messages.push({ role: 'system', content: systemPrompt });
       }
 
+      // Remembered facts relevant to the input join the system prompt
+      if (longTermMemory?.enabled && longTermMemory.recallLimit > 0 && input) {
+        try {
+          const recalled = await recallFacts(
+            input,
+            { userId, agentId: this.id },
+            {
+              limit: longTermMemory.recallLimit,
+              threshold: longTermMemory.recallThreshold,
+            }
+          );
+          if (recalled.length > 0) {
+            const facts = formatFactsForPrompt(
+              recalled.map(({ fact }) => fact)
+            );
+            const systemIndex = messages.findIndex(
+              (msg) => msg.role === 'system'
+            );
+            // Replaced rather than edited: loaded messages may be cached
+            messages =
+              systemIndex === -1
+                ? [
+                    { role: 'system', content: facts } as (typeof messages)[0],
+                    ...messages,
+                  ]
+                : messages.map((msg, index) =>
+                    index === systemIndex
+                      ? { ...msg, content: `${msg.content}\n\n${facts}` }
+                      : msg
+                  );
+          }
+        } catch (error) {
+          console.warn('Recalling long-term memory failed:', error);
+        }
+      }
+
+      // Fit the thread into the model's context window: recent turns
+      // verbatim, older ones summarized or recalled when relevant
+      const modelSettings = await getModelByModelId(this.modelId).catch(
+        () => null
+      );
+      const coreMessages = modelSettings
+        ? (
+            await assembleContext({
+              ...contextWindow,
+              threadId: memoryThreadId,
+              messages,
+              modelSettings,
+              maxOutputTokens: maxTokens,
+              summaryModel: provider(this.modelId),
+            })
+          ).messages
+        : (messages.map((msg) => ({
+            id: uuidv4(),
+            role: msg.role as CoreMessage['role'],
+            content: msg.content,
+          })) as CoreMessage[]);
+
       const streamOptions: any = {
         // Use 'any' for broader compatibility with potential provider-specific options
         model: provider(this.modelId),
@@ -475,7 +613,20 @@ export class BaseAgent {
         result = streamText(streamOptions);
         text = await result.text;
       }
-      await saveMessage(memoryThreadId, 'assistant', text);
+      await this.saveTurn(memoryThreadId, 'assistant', text, embedTurns);
+      // Facts are extracted in the background, and only with a known user
+      // so that one user's facts never reach another
+      if (longTermMemory?.enabled && longTermMemory.extract && userId) {
+        new MemoryProcessorPipeline([
+          createFactExtractionProcessor({
+            threadId: memoryThreadId,
+            scope: longTermMemory.shareAcrossAgents
+              ? { userId }
+              : { userId, agentId: this.id },
+            model: provider(this.modelId),
+          }),
+        ]).run(await loadMessages(memoryThreadId));
+      }
       const newState: AgentState = {
         ...agentState,
         lastRun: new Date().toISOString(),
@@ -503,6 +654,25 @@ export class BaseAgent {
       throw error;
     }
   }
+  // Saves a turn, with an embedding when asked and the embedder is available
+  private async saveTurn(
+    threadId: string,
+    role: 'user' | 'assistant',
+    content: string,
+    embed: boolean
+  ): Promise<string> {
+    if (embed) {
+      try {
+        return await saveMessage(threadId, role, content, {
+          generate_embeddings: true,
+        });
+      } catch (error) {
+        console.warn(`Saving ${role} turn without embedding:`, error);
+      }
+    }
+    return saveMessage(threadId, role, content);
+  }
+
   private getSystemPrompt(): string {
     // Create a sample persona to ensure AgentPersona is used
     const samplePersona: AgentPersona = {
@@ -39,6 +39,25 @@ import personaLibraryDefault, {
   specializedPersonas,
 } from './persona-library';
 
+// Persona Composition Engine
+import {
+  CAPABILITY_MODEL_REQUIREMENTS,
+  COMPOSITION_PRECEDENCE,
+  PROMPT_TEMPLATE_VARIABLES,
+  PromptVariablesSchema,
+  PersonaCompositionError,
+  type CompositionIssue,
+  type CompositionModel,
+  type CompositionStep,
+  type PersonaComposition,
+  type PersonaCompositionOptions,
+  type PromptVariables,
+  resolvePersonaComposition,
+  renderPersonaPrompt,
+  getMissingModelCapabilities,
+  formatCompositionExplanation,
+} from './persona-composer';
+
 // Persona Manager
 import {
   personaManager as personaManagerInstance,
@@ -116,6 +135,25 @@ export {
   personaLibraryDefault as personaLibrary,
 };
 
+// Persona Composition Engine Exports
+export {
+  CAPABILITY_MODEL_REQUIREMENTS,
+  COMPOSITION_PRECEDENCE,
+  PROMPT_TEMPLATE_VARIABLES,
+  PromptVariablesSchema,
+  PersonaCompositionError,
+  type CompositionIssue,
+  type CompositionModel,
+  type CompositionStep,
+  type PersonaComposition,
+  type PersonaCompositionOptions,
+  type PromptVariables,
+  resolvePersonaComposition,
+  renderPersonaPrompt,
+  getMissingModelCapabilities,
+  formatCompositionExplanation,
+};
+
 // Persona Manager Exports
 export {
   personaManagerInstance as personaManager,
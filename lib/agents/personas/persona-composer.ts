@@ -0,0 +1,664 @@
+/**
+ * Persona Composition Engine
+ *
+ * Resolves a base persona and any number of micro-personas into a single
+ * persona definition. Unlike `composePersona`, the engine enforces the
+ * micro-persona contract: `conflictingMicroPersonaIds`, the base persona's
+ * `compatibleMicroPersonas`, `parentPersonaId` and `requiredCapabilities`
+ * (checked against the chosen model's capabilities). Overrides are applied
+ * in a fixed precedence order, the system prompt template is rendered with
+ * typed variables, and every decision is recorded in an explanation.
+ *
+ * @module persona-composer
+ */
+
+import { z } from 'zod';
+import type { ModelCapabilities } from '../../models/model-registry';
+import {
+  GeminiCapability,
+  MicroPersonaDefinition,
+  PersonaDefinition,
+  validateMicroPersonaDefinition,
+  validatePersonaDefinition,
+} from './persona-library';
+
+// --- Capability Requirements ---
+
+/**
+ * Model capability flags a persona capability needs. Capabilities that are
+ * not listed (reasoning, research, domain expertise...) describe behaviour
+ * rather than model features, so any model can serve them.
+ */
+export const CAPABILITY_MODEL_REQUIREMENTS: Partial<
+  Record<GeminiCapability, (keyof ModelCapabilities)[]>
+> = {
+  [GeminiCapability.TEXT_GENERATION]: ['text'],
+  [GeminiCapability.FUNCTION_CALLING]: ['functions'],
+  [GeminiCapability.TOOL_USE]: ['functions'],
+  [GeminiCapability.JSON_MODE]: ['json_mode'],
+  [GeminiCapability.JSON_SCHEMA]: ['structured_output'],
+  [GeminiCapability.STRUCTURED_OUTPUTS]: ['structured_output'],
+  [GeminiCapability.THINKING]: ['thinking'],
+  [GeminiCapability.SEARCH_GROUNDING]: ['search_grounding'],
+  [GeminiCapability.CACHING]: ['cached_content'],
+  [GeminiCapability.TUNING]: ['fine_tuning'],
+  [GeminiCapability.CODE_EXECUTION]: ['code_execution'],
+  [GeminiCapability.IMAGE_GENERATION]: ['image_generation'],
+  [GeminiCapability.AUDIO_GENERATION]: ['audio_generation'],
+  [GeminiCapability.LIVE_API]: ['streaming', 'audio'],
+  [GeminiCapability.MULTIMODAL_UNDERSTANDING]: ['vision'],
+};
+
+/**
+ * The model a persona is composed for. `ModelSettings` from the model
+ * registry satisfies this shape.
+ */
+export interface CompositionModel {
+  id?: string;
+  name?: string;
+  capabilities?: ModelCapabilities;
+  supports_functions?: boolean;
+  supports_vision?: boolean;
+}
+
+/**
+ * Whether a model has a capability flag. `text` and `streaming` default to
+ * true, as in `ModelCapabilitiesSchema`; the legacy `supports_*` columns
+ * count for functions and vision.
+ */
+function modelHas(
+  model: CompositionModel,
+  flag: keyof ModelCapabilities
+): boolean {
+  const value = model.capabilities?.[flag];
+  if (value !== undefined) return value;
+  if (flag === 'text' || flag === 'streaming') return true;
+  if (flag === 'functions') return model.supports_functions === true;
+  if (flag === 'vision') return model.supports_vision === true;
+  return false;
+}
+
+/**
+ * Returns the model capability flags missing for a persona capability.
+ */
+export function getMissingModelCapabilities(
+  capability: GeminiCapability,
+  model: CompositionModel
+): (keyof ModelCapabilities)[] {
+  return (CAPABILITY_MODEL_REQUIREMENTS[capability] ?? []).filter(
+    (flag) => !modelHas(model, flag)
+  );
+}
+
+// --- Prompt Variables ---
+
+/**
+ * Zod schema for the variables available to `systemPromptTemplate`.
+ */
+export const PromptVariablesSchema = z.object({
+  userName: z.string().optional(),
+  agentName: z.string().optional(),
+  locale: z.string().default('en-US'),
+  tools: z
+    .array(
+      z.union([
+        z.string(),
+        z.object({ name: z.string(), description: z.string().optional() }),
+      ])
+    )
+    .default([]),
+  date: z
+    .string()
+    .optional()
+    .describe('Defaults to the current date (YYYY-MM-DD)'),
+  custom: z
+    .record(z.string())
+    .default({})
+    .describe('Referenced as {{custom.key}}'),
+});
+export type PromptVariables = z.input<typeof PromptVariablesSchema>;
+
+/**
+ * Variables a template can reference. Besides these, `{{custom.key}}`
+ * reads from `custom`. A placeholder may carry a fallback for unset
+ * values: `{{userName|the user}}`.
+ */
+export const PROMPT_TEMPLATE_VARIABLES = [
+  'userName',
+  'agentName',
+  'locale',
+  'tools',
+  'toolList',
+  'toolCount',
+  'date',
+  'personaName',
+  'traits',
+  'capabilities',
+] as const;
+export type PromptTemplateVariable = (typeof PROMPT_TEMPLATE_VARIABLES)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Renders a persona's system prompt template.
+ *
+ * Placeholders that name no known variable are left as they are (other
+ * layers, such as the agent runtime, may fill them) and reported in
+ * `unresolved`.
+ *
+ * @param template - The template to render.
+ * @param variables - Typed variable values.
+ * @param persona - The persona supplying `personaName`, `traits` and `capabilities`.
+ * @returns The rendered prompt and the placeholders left unresolved.
+ */
+export function renderPersonaPrompt(
+  template: string,
+  variables: PromptVariables = {},
+  persona?: Pick<PersonaDefinition, 'name' | 'traits' | 'capabilities'>
+): { prompt: string; unresolved: string[] } {
+  const vars = PromptVariablesSchema.parse(variables);
+  const tools = vars.tools.map((t) =>
+    typeof t === 'string' ? { name: t } : t
+  );
+  const values: Record<PromptTemplateVariable, string | undefined> = {
+    userName: vars.userName,
+    agentName: vars.agentName,
+    locale: vars.locale,
+    tools: tools.length ? tools.map((t) => t.name).join(', ') : undefined,
+    toolList: tools.length
+      ? tools
+          .map((t) =>
+            t.description ? `- ${t.name}: ${t.description}` : `- ${t.name}`
+          )
+          .join('\n')
+      : undefined,
+    toolCount: String(tools.length),
+    date: vars.date ?? new Date().toISOString().slice(0, 10),
+    personaName: persona?.name,
+    traits: persona?.traits?.length ? persona.traits.join(', ') : undefined,
+    capabilities: persona?.capabilities?.length
+      ? persona.capabilities.join(', ')
+      : undefined,
+  };
+
+  const unresolved = new Set<string>();
+  const prompt = template.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string, fallback?: string) => {
+      const known = name.startsWith('custom.')
+        ? name.slice('custom.'.length) in vars.custom
+        : (PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name);
+      const value = name.startsWith('custom.')
+        ? vars.custom[name.slice('custom.'.length)]
+        : values[name as PromptTemplateVariable];
+      if (value !== undefined) return value;
+      if (fallback !== undefined) return fallback.trim();
+      if (known) return '';
+      unresolved.add(name);
+      return placeholder;
+    }
+  );
+
+  return { prompt, unresolved: Array.from(unresolved) };
+}
+
+// --- Composition ---
+
+/**
+ * Order in which composition sources are applied; later entries win.
+ * Micro-personas are applied in the order they are given, and within one
+ * micro-persona its direct fields come before its `overrides`.
+ */
+export const COMPOSITION_PRECEDENCE = [
+  'base',
+  'micro-persona',
+  'micro-persona-overrides',
+  'options',
+] as const;
+export type CompositionSource = (typeof COMPOSITION_PRECEDENCE)[number];
+
+/**
+ * A problem that stops a micro-persona from being applied.
+ */
+export interface CompositionIssue {
+  type: 'conflict' | 'incompatible' | 'parent-mismatch' | 'missing-capability';
+  microPersonaId: string;
+  message: string;
+  conflictsWith?: string;
+  capability?: GeminiCapability;
+  missingModelCapabilities?: (keyof ModelCapabilities)[];
+}
+
+/**
+ * One entry of the composition explanation.
+ */
+export interface CompositionStep {
+  source: CompositionSource;
+  sourceId: string;
+  field: string;
+  action: 'set' | 'merge' | 'append' | 'replace' | 'skip';
+  detail: string;
+}
+
+/**
+ * Options for `resolvePersonaComposition`.
+ */
+export interface PersonaCompositionOptions {
+  /** Model the persona will run on; required capabilities are checked against it */
+  model?: CompositionModel;
+  /** Variables for rendering `systemPromptTemplate` */
+  variables?: PromptVariables;
+  /**
+   * What to do with micro-personas that conflict, are incompatible or need
+   * capabilities the model lacks: throw (default), or skip them and continue
+   */
+  onIssue?: 'throw' | 'skip';
+  /** Final overrides applied after every micro-persona */
+  overrides?: {
+    modelSettings?: Record<string, any>;
+    metadata?: Record<string, any>;
+  };
+}
+
+/**
+ * The result of composing a persona.
+ */
+export interface PersonaComposition {
+  persona: PersonaDefinition;
+  /** `persona.systemPromptTemplate` rendered with the given variables */
+  systemPrompt: string;
+  appliedMicroPersonaIds: string[];
+  /** Issues of micro-personas that were skipped (`onIssue: 'skip'`) */
+  issues: CompositionIssue[];
+  /** Capabilities of the composed persona the model lacks, beyond micro-persona requirements */
+  warnings: string[];
+  unresolvedVariables: string[];
+  explanation: CompositionStep[];
+}
+
+/**
+ * Error thrown when micro-personas cannot be composed.
+ */
+export class PersonaCompositionError extends Error {
+  /**
+   * Creates a new PersonaCompositionError
+   *
+   * @param message - Error message
+   * @param issues - The issues that prevented composition
+   */
+  constructor(
+    message: string,
+    public issues: CompositionIssue[]
+  ) {
+    super(message);
+    this.name = 'PersonaCompositionError';
+    Object.setPrototypeOf(this, PersonaCompositionError.prototype);
+  }
+}
+
+/**
+ * Checks a micro-persona against the base persona, the micro-personas
+ * already accepted and the model.
+ */
+function checkMicroPersona(
+  base: PersonaDefinition,
+  micro: MicroPersonaDefinition,
+  accepted: MicroPersonaDefinition[],
+  model?: CompositionModel
+): CompositionIssue[] {
+  const issues: CompositionIssue[] = [];
+
+  if (micro.parentPersonaId && micro.parentPersonaId !== base.id) {
+    issues.push({
+      type: 'parent-mismatch',
+      microPersonaId: micro.id,
+      message: `Micro-persona "${micro.id}" belongs to persona "${micro.parentPersonaId}", not "${base.id}"`,
+    });
+  }
+  if (
+    base.compatibleMicroPersonas &&
+    !base.compatibleMicroPersonas.includes(micro.id)
+  ) {
+    issues.push({
+      type: 'incompatible',
+      microPersonaId: micro.id,
+      message: `Persona "${base.id}" does not list "${micro.id}" as a compatible micro-persona`,
+    });
+  }
+  for (const other of accepted) {
+    if (
+      micro.conflictingMicroPersonaIds?.includes(other.id) ||
+      other.conflictingMicroPersonaIds?.includes(micro.id)
+    ) {
+      issues.push({
+        type: 'conflict',
+        microPersonaId: micro.id,
+        conflictsWith: other.id,
+        message: `Micro-persona "${micro.id}" conflicts with "${other.id}"`,
+      });
+    }
+  }
+  if (model) {
+    for (const capability of micro.requiredCapabilities ?? []) {
+      const missing = getMissingModelCapabilities(capability, model);
+      if (missing.length) {
+        issues.push({
+          type: 'missing-capability',
+          microPersonaId: micro.id,
+          capability,
+          missingModelCapabilities: missing,
+          message: `Micro-persona "${micro.id}" requires "${capability}", but model "${model.id ?? model.name ?? 'unknown'}" lacks ${missing.join(', ')}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Union of two lists, keeping first-seen order. */
+function union<T>(current: T[] | undefined, added: T[]): T[] {
+  return Array.from(new Set([...(current ?? []), ...added]));
+}
+
+/**
+ * Composes a base persona with micro-personas, enforcing their constraints.
+ *
+ * Micro-personas are checked and applied in the order given:
+ * - a micro-persona is rejected when its `parentPersonaId` names another
+ *   persona, when the base persona's `compatibleMicroPersonas` does not list
+ *   it, when it conflicts (in either direction) with one already accepted,
+ *   or when the model lacks one of its `requiredCapabilities`;
+ * - system prompt: the last `overrides.systemPromptTemplate` replaces the
+ *   base template, then the `promptFragment` of every micro-persona without
+ *   a replacement is appended in order;
+ * - model settings and metadata merge key by key (later sources win);
+ * - traits, tags, capabilities and knowledge bases are unioned;
+ * - safety settings, example dialogues and preferred models are replaced.
+ *
+ * @param basePersonaInput - The base persona definition.
+ * @param microPersonaInputs - The micro-personas to apply, in order.
+ * @param options - Model, template variables and issue handling.
+ * @returns The composed persona, rendered prompt and explanation.
+ * @throws PersonaCompositionError when a micro-persona is rejected and `onIssue` is 'throw'.
+ */
+export function resolvePersonaComposition(
+  basePersonaInput: PersonaDefinition,
+  microPersonaInputs: MicroPersonaDefinition[] = [],
+  options: PersonaCompositionOptions = {}
+): PersonaComposition {
+  // Validated copies, so library objects are never mutated
+  const base = validatePersonaDefinition(
+    JSON.parse(JSON.stringify(basePersonaInput))
+  );
+  const micros = microPersonaInputs.map((micro) =>
+    validateMicroPersonaDefinition(JSON.parse(JSON.stringify(micro)))
+  );
+  const onIssue = options.onIssue ?? 'throw';
+  const explanation: CompositionStep[] = [];
+  const explain = (
+    source: CompositionSource,
+    sourceId: string,
+    field: string,
+    action: CompositionStep['action'],
+    detail: string
+  ) => explanation.push({ source, sourceId, field, action, detail });
+
+  explain('base', base.id, 'persona', 'set', `Started from "${base.name}"`);
+
+  // 1. Resolve which micro-personas can be applied
+  const accepted: MicroPersonaDefinition[] = [];
+  const issues: CompositionIssue[] = [];
+  for (const micro of micros) {
+    if (accepted.some((m) => m.id === micro.id)) {
+      explain(
+        'micro-persona',
+        micro.id,
+        'microPersonas',
+        'skip',
+        'Listed more than once; applied at its first position'
+      );
+      continue;
+    }
+    const found = checkMicroPersona(base, micro, accepted, options.model);
+    if (found.length) {
+      if (onIssue === 'throw') {
+        throw new PersonaCompositionError(
+          found.map((issue) => issue.message).join('; '),
+          found
+        );
+      }
+      issues.push(...found);
+      for (const issue of found) {
+        explain(
+          'micro-persona',
+          micro.id,
+          'microPersonas',
+          'skip',
+          issue.message
+        );
+      }
+      continue;
+    }
+    accepted.push(micro);
+  }
+
+  // 2. Apply the accepted micro-personas in order
+  const composed: PersonaDefinition = { ...base };
+  const replacement = [...accepted]
+    .reverse()
+    .find((micro) => micro.overrides?.systemPromptTemplate);
+  if (replacement) {
+    composed.systemPromptTemplate =
+      replacement.overrides!.systemPromptTemplate!;
+    explain(
+      'micro-persona-overrides',
+      replacement.id,
+      'systemPromptTemplate',
+      'replace',
+      'Replaced the base system prompt template'
+    );
+    for (const micro of accepted) {
+      if (micro !== replacement && micro.overrides?.systemPromptTemplate) {
+        explain(
+          'micro-persona-overrides',
+          micro.id,
+          'systemPromptTemplate',
+          'skip',
+          `Template replacement superseded by "${replacement.id}"`
+        );
+      }
+    }
+  }
+
+  const mergeSettings = (
+    source: CompositionSource,
+    sourceId: string,
+    settings: Record<string, any> | undefined
+  ) => {
+    if (!settings || !Object.keys(settings).length) return;
+    for (const [key, value] of Object.entries(settings)) {
+      const previous = composed.modelSettings?.[key];
+      explain(
+        source,
+        sourceId,
+        `modelSettings.${key}`,
+        previous === undefined ? 'set' : 'replace',
+        previous === undefined
+          ? `Set to ${JSON.stringify(value)}`
+          : `Changed from ${JSON.stringify(previous)} to ${JSON.stringify(value)}`
+      );
+    }
+    composed.modelSettings = { ...composed.modelSettings, ...settings };
+  };
+
+  const unionField = <
+    K extends 'traits' | 'tags' | 'capabilities' | 'knowledgeBaseIds',
+  >(
+    source: CompositionSource,
+    sourceId: string,
+    field: K,
+    values: PersonaDefinition[K] | undefined
+  ) => {
+    if (!values?.length) return;
+    const before: string[] = composed[field] ?? [];
+    const added = values.filter((value: string) => !before.includes(value));
+    composed[field] = union(composed[field], values) as PersonaDefinition[K];
+    if (added.length) {
+      explain(source, sourceId, field, 'merge', `Added ${added.join(', ')}`);
+    }
+  };
+
+  const replaceField = <
+    K extends 'safetySettings' | 'exampleDialogues' | 'preferredModels',
+  >(
+    sourceId: string,
+    field: K,
+    value: PersonaDefinition[K] | undefined
+  ) => {
+    if (!value) return;
+    composed[field] = value;
+    explain(
+      'micro-persona-overrides',
+      sourceId,
+      field,
+      'replace',
+      `Replaced with ${value.length} item(s)`
+    );
+  };
+
+  for (const micro of accepted) {
+    // Direct micro-persona fields
+    if (!micro.overrides?.systemPromptTemplate) {
+      composed.systemPromptTemplate = `${composed.systemPromptTemplate}\n\n${micro.promptFragment}`;
+      explain(
+        'micro-persona',
+        micro.id,
+        'systemPromptTemplate',
+        'append',
+        'Appended the prompt fragment'
+      );
+    }
+    mergeSettings('micro-persona', micro.id, micro.modelSettingsOverrides);
+    unionField('micro-persona', micro.id, 'traits', micro.microTraits);
+    unionField('micro-persona', micro.id, 'tags', micro.tags);
+    unionField(
+      'micro-persona',
+      micro.id,
+      'capabilities',
+      micro.requiredCapabilities
+    );
+
+    // Explicit overrides
+    const overrides = micro.overrides;
+    if (overrides) {
+      mergeSettings(
+        'micro-persona-overrides',
+        micro.id,
+        overrides.modelSettings
+      );
+      unionField(
+        'micro-persona-overrides',
+        micro.id,
+        'traits',
+        overrides.traits
+      );
+      unionField('micro-persona-overrides', micro.id, 'tags', overrides.tags);
+      unionField(
+        'micro-persona-overrides',
+        micro.id,
+        'capabilities',
+        overrides.capabilities
+      );
+      unionField(
+        'micro-persona-overrides',
+        micro.id,
+        'knowledgeBaseIds',
+        overrides.knowledgeBaseIds
+      );
+      replaceField(micro.id, 'safetySettings', overrides.safetySettings);
+      replaceField(micro.id, 'exampleDialogues', overrides.exampleDialogues);
+      replaceField(micro.id, 'preferredModels', overrides.preferredModels);
+    }
+    composed.metadata = {
+      ...composed.metadata,
+      ...micro.metadata,
+      ...overrides?.metadata,
+    };
+  }
+
+  // 3. Caller overrides
+  mergeSettings('options', 'options', options.overrides?.modelSettings);
+  composed.metadata = {
+    ...composed.metadata,
+    ...options.overrides?.metadata,
+    basePersonaId: base.id,
+    microPersonaIds: accepted.map((micro) => micro.id),
+  };
+
+  if (accepted.length) {
+    composed.id =
+      accepted.length === 1
+        ? accepted[0].id
+        : [base.id, ...accepted.map((micro) => micro.id)].join('+');
+    composed.name = `${base.name} (${accepted.map((micro) => micro.name).join(', ')})`;
+    composed.description = [
+      base.description ?? '',
+      ...accepted
+        .filter((micro) => micro.description)
+        .map((micro) => `Micro-Context: ${micro.description}`),
+    ]
+      .filter(Boolean)
+      .join('\n');
+    composed.lastUpdatedAt = new Date().toISOString();
+  }
+
+  // 4. Capabilities the model lacks that no micro-persona required
+  const warnings: string[] = [];
+  if (options.model) {
+    const required = new Set(
+      accepted.flatMap((micro) => micro.requiredCapabilities ?? [])
+    );
+    for (const capability of composed.capabilities ?? []) {
+      if (required.has(capability)) continue;
+      const missing = getMissingModelCapabilities(capability, options.model);
+      if (missing.length) {
+        warnings.push(
+          `Capability "${capability}" is not supported by the model (missing ${missing.join(', ')})`
+        );
+      }
+    }
+  }
+
+  const persona = validatePersonaDefinition(composed);
+  const { prompt, unresolved } = renderPersonaPrompt(
+    persona.systemPromptTemplate,
+    options.variables,
+    persona
+  );
+
+  return {
+    persona,
+    systemPrompt: prompt,
+    appliedMicroPersonaIds: accepted.map((micro) => micro.id),
+    issues,
+    warnings,
+    unresolvedVariables: unresolved,
+    explanation,
+  };
+}
+
+/**
+ * Formats a composition explanation as readable lines, e.g. for logs.
+ */
+export function formatCompositionExplanation(
+  composition: Pick<PersonaComposition, 'explanation' | 'warnings'>
+): string {
+  return [
+    ...composition.explanation.map(
+      (step) =>
+        `[${step.source}:${step.sourceId}] ${step.field} ${step.action}: ${step.detail}`
+    ),
+    ...composition.warnings.map((warning) => `[warning] ${warning}`),
+  ].join('\n');
+}
@@ -0,0 +1,787 @@
+/**
+ * Persona Experiments
+ *
+ * A/B experiments that split traffic between persona variants (a persona,
+ * optionally with micro-personas, or one version of a persona against
+ * another). Users are assigned to a variant by a hash of the experiment and
+ * user IDs, weighted by the variants' traffic share, and the assignment is
+ * stored so it stays the same for the rest of the experiment. Outcomes are
+ * recorded as `ScoreUpdateData`, forwarded to the `PersonaScoreManager` and
+ * summed per variant for the experiment's success metric.
+ *
+ * Each challenger is compared with the control using a two-sided z-test (a
+ * two-proportion test for `success`, Welch's unequal-variance test for the
+ * others) once both have `minSampleSize` observations. The significance
+ * level is Bonferroni-corrected for the number of challengers. With
+ * `autoPromote`, the experiment completes as soon as a winner is clear:
+ * every user is then served the winner and, if `promoteToPersonaId` is set,
+ * the winning composition is copied onto that persona. Because results are
+ * checked after every outcome, keep `minSampleSize` generous to limit false
+ * positives from repeated testing.
+ */
+
+import { createHash } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getLibSQLClient } from '../../memory/db';
+import { upstashLogger } from '../../memory/upstash/upstash-logger';
+import { personaManager } from './persona-manager';
+import {
+  personaScoreManager,
+  ScoreUpdateDataSchema,
+  type ScoreUpdateData,
+} from './persona-score-manager';
+
+/**
+ * Success metrics, taken from the matching `ScoreUpdateData` field
+ */
+export const ExperimentMetricSchema = z.enum([
+  'success',
+  'userSatisfaction',
+  'latency',
+  'adaptabilityFactor',
+]);
+export type ExperimentMetric = z.infer<typeof ExperimentMetricSchema>;
+
+/** Metrics where a lower value is better */
+const LOWER_IS_BETTER: ExperimentMetric[] = ['latency'];
+
+export const ExperimentStatusSchema = z.enum([
+  'running',
+  'stopped',
+  'completed',
+]);
+export type ExperimentStatus = z.infer<typeof ExperimentStatusSchema>;
+
+/**
+ * Zod schema for an experiment variant
+ */
+export const ExperimentVariantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  personaId: z.string().min(1),
+  microPersonaIds: z.array(z.string()).default([]),
+  /** Relative share of traffic */
+  weight: z.number().positive().default(1),
+});
+export type ExperimentVariant = z.infer<typeof ExperimentVariantSchema>;
+
+/**
+ * Zod schema for creating an experiment
+ */
+export const ExperimentInputSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    variants: z.array(ExperimentVariantSchema).min(2),
+    /** Defaults to the first variant */
+    controlVariantId: z.string().optional(),
+    metric: ExperimentMetricSchema.default('success'),
+    /** Observations each variant needs before it is compared */
+    minSampleSize: z.number().int().min(10).default(100),
+    significanceLevel: z.number().gt(0).lt(0.5).default(0.05),
+    autoPromote: z.boolean().default(true),
+    /** Persona that receives the winning definition on promotion */
+    promoteToPersonaId: z.string().optional(),
+  })
+  .refine(
+    (input) =>
+      new Set(input.variants.map((variant) => variant.id)).size ===
+      input.variants.length,
+    { message: 'Variant IDs must be unique', path: ['variants'] }
+  )
+  .refine(
+    (input) =>
+      !input.controlVariantId ||
+      input.variants.some((variant) => variant.id === input.controlVariantId),
+    {
+      message: 'controlVariantId must name one of the variants',
+      path: ['controlVariantId'],
+    }
+  );
+
+export type ExperimentInput = z.input<typeof ExperimentInputSchema>;
+
+/**
+ * Zod schema for recording an outcome for a user in an experiment
+ */
+export const ExperimentOutcomeSchema = ScoreUpdateDataSchema.extend({
+  userId: z.string().min(1),
+});
+export type ExperimentOutcome = z.infer<typeof ExperimentOutcomeSchema>;
+
+/**
+ * Zod schema for stopping an experiment
+ */
+export const StopExperimentSchema = z.object({
+  /** Declare a winner (and promote it) instead of evaluating the results */
+  winnerVariantId: z.string().optional(),
+  reason: z.string().optional(),
+});
+export type StopExperimentOptions = z.infer<typeof StopExperimentSchema>;
+
+/**
+ * A persona A/B experiment
+ */
+export interface PersonaExperiment {
+  id: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  controlVariantId: string;
+  metric: ExperimentMetric;
+  minSampleSize: number;
+  significanceLevel: number;
+  autoPromote: boolean;
+  promoteToPersonaId?: string;
+  winnerVariantId?: string;
+  stopReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  endedAt?: string;
+}
+
+/**
+ * The variant a user is served
+ */
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  personaId: string;
+  microPersonaIds: string[];
+  /** False once the experiment has ended and everyone gets the winner */
+  inExperiment: boolean;
+}
+
+/**
+ * Observed metric for one variant
+ */
+export interface VariantResult {
+  variantId: string;
+  assignments: number;
+  observations: number;
+  mean: number;
+  standardDeviation: number;
+}
+
+/**
+ * A challenger compared with the control
+ */
+export interface VariantComparison {
+  variantId: string;
+  /** Difference of means, challenger minus control */
+  difference: number;
+  /** Difference relative to the control mean; undefined when it is 0 */
+  relativeLift?: number;
+  zScore: number;
+  pValue: number;
+  /** Both variants have at least `minSampleSize` observations */
+  ready: boolean;
+  significant: boolean;
+  /** Challenger is better on the metric (direction-aware) */
+  better: boolean;
+}
+
+/**
+ * Results of an experiment with its significance tests
+ */
+export interface ExperimentResults {
+  experiment: PersonaExperiment;
+  variants: VariantResult[];
+  comparisons: VariantComparison[];
+  /** Significance level after the Bonferroni correction */
+  adjustedSignificanceLevel: number;
+  /** Variant the data supports, if any */
+  recommendedWinnerId?: string;
+}
+
+/**
+ * Error thrown when an outcome is recorded for a user who was never
+ * assigned to the experiment
+ */
+export class ExperimentNotAssignedError extends Error {
+  constructor(
+    public readonly experimentId: string,
+    public readonly userId: string
+  ) {
+    super(`User ${userId} is not assigned to experiment ${experimentId}`);
+    this.name = 'ExperimentNotAssignedError';
+    Object.setPrototypeOf(this, ExperimentNotAssignedError.prototype);
+  }
+}
+
+// --- Storage ---
+
+// Converts a persona_experiments row to a PersonaExperiment
+function rowToExperiment(row: Record<string, unknown>): PersonaExperiment {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string) || undefined,
+    status: row.status as ExperimentStatus,
+    variants: JSON.parse(row.variants as string),
+    controlVariantId: row.control_variant_id as string,
+    metric: row.metric as ExperimentMetric,
+    minSampleSize: Number(row.min_sample_size),
+    significanceLevel: Number(row.significance_level),
+    autoPromote: Boolean(row.auto_promote),
+    promoteToPersonaId: (row.promote_to_persona_id as string) || undefined,
+    winnerVariantId: (row.winner_variant_id as string) || undefined,
+    stopReason: (row.stop_reason as string) || undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    endedAt: (row.ended_at as string) || undefined,
+  };
+}
+
+/**
+ * Creates and starts an experiment
+ *
+ * @param input - Experiment definition
+ * @returns The created experiment
+ */
+export async function createExperiment(
+  input: ExperimentInput
+): Promise<PersonaExperiment> {
+  const data = ExperimentInputSchema.parse(input);
+  const now = new Date().toISOString();
+  const experiment: PersonaExperiment = {
+    id: uuidv4(),
+    name: data.name,
+    description: data.description,
+    status: 'running',
+    variants: data.variants,
+    controlVariantId: data.controlVariantId ?? data.variants[0].id,
+    metric: data.metric,
+    minSampleSize: data.minSampleSize,
+    significanceLevel: data.significanceLevel,
+    autoPromote: data.autoPromote,
+    promoteToPersonaId: data.promoteToPersonaId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO persona_experiments (id, name, description, status, variants, control_variant_id, metric, min_sample_size, significance_level, auto_promote, promote_to_persona_id, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      experiment.id,
+      experiment.name,
+      experiment.description ?? null,
+      experiment.status,
+      JSON.stringify(experiment.variants),
+      experiment.controlVariantId,
+      experiment.metric,
+      experiment.minSampleSize,
+      experiment.significanceLevel,
+      experiment.autoPromote ? 1 : 0,
+      experiment.promoteToPersonaId ?? null,
+      now,
+      now,
+    ],
+  });
+
+  upstashLogger.info('persona-experiments', 'Experiment started', {
+    experimentId: experiment.id,
+    variants: experiment.variants.map((variant) => variant.id),
+    metric: experiment.metric,
+  });
+  return experiment;
+}
+
+/**
+ * Gets an experiment by ID
+ */
+export async function getExperiment(
+  id: string
+): Promise<PersonaExperiment | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM persona_experiments WHERE id = ?',
+    args: [id],
+  });
+
+  return result.rows.length > 0
+    ? rowToExperiment(result.rows[0] as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Lists experiments, newest first
+ *
+ * @param filters - Optional status filter
+ */
+export async function listExperiments(
+  filters: { status?: ExperimentStatus; limit?: number } = {}
+): Promise<PersonaExperiment[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM persona_experiments
+          ${filters.status ? 'WHERE status = ?' : ''}
+          ORDER BY created_at DESC LIMIT ?`,
+    args: filters.status
+      ? [filters.status, filters.limit ?? 100]
+      : [filters.limit ?? 100],
+  });
+
+  return result.rows.map((row) =>
+    rowToExperiment(row as Record<string, unknown>)
+  );
+}
+
+// --- Assignment ---
+
+// Picks a variant from a stable hash of the experiment and user
+function pickVariant(
+  experiment: PersonaExperiment,
+  userId: string
+): ExperimentVariant {
+  const hash = createHash('sha256')
+    .update(`${experiment.id}:${userId}`)
+    .digest();
+  const point = hash.readUInt32BE(0) / 0x100000000;
+  const total = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.weight / total;
+    if (point < cumulative) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+function toAssignment(
+  experiment: PersonaExperiment,
+  variant: ExperimentVariant,
+  inExperiment: boolean
+): ExperimentAssignment {
+  return {
+    experimentId: experiment.id,
+    variantId: variant.id,
+    personaId: variant.personaId,
+    microPersonaIds: variant.microPersonaIds,
+    inExperiment,
+  };
+}
+
+function findVariant(
+  experiment: PersonaExperiment,
+  variantId: string
+): ExperimentVariant {
+  const variant = experiment.variants.find((v) => v.id === variantId);
+  if (!variant) {
+    throw new Error(
+      `Variant ${variantId} not found in experiment ${experiment.id}`
+    );
+  }
+  return variant;
+}
+
+/**
+ * Gets the variant to serve a user, assigning one on first contact.
+ * Once the experiment has ended, every user gets the winner (or the
+ * control when there is none).
+ *
+ * @param experimentId - Experiment ID
+ * @param userId - User to assign
+ * @returns The assignment or null if the experiment does not exist
+ */
+export async function assignVariant(
+  experimentId: string,
+  userId: string
+): Promise<ExperimentAssignment | null> {
+  const experiment = await getExperiment(experimentId);
+  if (!experiment) return null;
+
+  if (experiment.status !== 'running') {
+    const variant = findVariant(
+      experiment,
+      experiment.winnerVariantId ?? experiment.controlVariantId
+    );
+    return toAssignment(experiment, variant, false);
+  }
+
+  const db = getLibSQLClient();
+  await db.execute({
+    sql: `INSERT INTO persona_experiment_assignments (experiment_id, user_id, variant_id, assigned_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT (experiment_id, user_id) DO NOTHING`,
+    args: [
+      experiment.id,
+      userId,
+      pickVariant(experiment, userId).id,
+      new Date().toISOString(),
+    ],
+  });
+  // Read back, so a concurrent first request cannot split a user
+  const result = await db.execute({
+    sql: 'SELECT variant_id FROM persona_experiment_assignments WHERE experiment_id = ? AND user_id = ?',
+    args: [experiment.id, userId],
+  });
+
+  return toAssignment(
+    experiment,
+    findVariant(experiment, result.rows[0].variant_id as string),
+    true
+  );
+}
+
+// --- Outcomes ---
+
+// Value of the experiment metric in an outcome, if it was measured
+function metricValue(
+  metric: ExperimentMetric,
+  data: ScoreUpdateData
+): number | undefined {
+  switch (metric) {
+    case 'success':
+      return data.success === undefined ? undefined : data.success ? 1 : 0;
+    case 'userSatisfaction':
+      return data.userSatisfaction;
+    case 'latency':
+      return data.latency;
+    case 'adaptabilityFactor':
+      return data.adaptabilityFactor;
+  }
+}
+
+/**
+ * Records an interaction outcome for a user in an experiment. The outcome
+ * updates the variant persona's score and, while the experiment runs and
+ * the outcome measures its metric, the experiment results; with
+ * `autoPromote` the results are then evaluated.
+ *
+ * @param experimentId - Experiment ID
+ * @param outcome - The user and their interaction's `ScoreUpdateData`
+ * @returns The user's assignment, or null if the experiment does not exist
+ * @throws ExperimentNotAssignedError if the user was never assigned
+ */
+export async function recordExperimentOutcome(
+  experimentId: string,
+  outcome: ExperimentOutcome
+): Promise<ExperimentAssignment | null> {
+  const { userId, ...data } = ExperimentOutcomeSchema.parse(outcome);
+  const experiment = await getExperiment(experimentId);
+  if (!experiment) return null;
+
+  const db = getLibSQLClient();
+  const assigned = await db.execute({
+    sql: 'SELECT variant_id FROM persona_experiment_assignments WHERE experiment_id = ? AND user_id = ?',
+    args: [experiment.id, userId],
+  });
+  if (assigned.rows.length === 0) {
+    throw new ExperimentNotAssignedError(experiment.id, userId);
+  }
+  const variant = findVariant(
+    experiment,
+    assigned.rows[0].variant_id as string
+  );
+
+  await personaScoreManager.updateScore(variant.personaId, {
+    ...data,
+    metadata: {
+      ...data.metadata,
+      experimentId: experiment.id,
+      variantId: variant.id,
+    },
+  });
+
+  const value = metricValue(experiment.metric, data);
+  if (experiment.status === 'running' && value !== undefined) {
+    await db.execute({
+      sql: `INSERT INTO persona_experiment_results (experiment_id, variant_id, observations, metric_sum, metric_sum_sq, updated_at)
+            VALUES (?, ?, 1, ?, ?, ?)
+            ON CONFLICT (experiment_id, variant_id) DO UPDATE SET
+              observations = observations + 1,
+              metric_sum = metric_sum + excluded.metric_sum,
+              metric_sum_sq = metric_sum_sq + excluded.metric_sum_sq,
+              updated_at = excluded.updated_at`,
+      args: [
+        experiment.id,
+        variant.id,
+        value,
+        value * value,
+        new Date().toISOString(),
+      ],
+    });
+
+    if (experiment.autoPromote) {
+      const results = await getExperimentResults(experiment);
+      if (results.recommendedWinnerId) {
+        await concludeExperiment(
+          experiment,
+          results.recommendedWinnerId,
+          'Winner reached statistical significance'
+        );
+      }
+    }
+  }
+
+  return toAssignment(experiment, variant, experiment.status === 'running');
+}
+
+// --- Statistics ---
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// z statistic of a challenger against the control
+function zScore(
+  metric: ExperimentMetric,
+  control: VariantResult,
+  challenger: VariantResult
+): number {
+  const difference = challenger.mean - control.mean;
+  let standardError: number;
+  if (metric === 'success') {
+    const pooled =
+      (control.mean * control.observations +
+        challenger.mean * challenger.observations) /
+      (control.observations + challenger.observations);
+    standardError = Math.sqrt(
+      pooled *
+        (1 - pooled) *
+        (1 / control.observations + 1 / challenger.observations)
+    );
+  } else {
+    standardError = Math.sqrt(
+      control.standardDeviation ** 2 / control.observations +
+        challenger.standardDeviation ** 2 / challenger.observations
+    );
+  }
+  if (standardError === 0)
+    return difference === 0 ? 0 : Math.sign(difference) * Infinity;
+  return difference / standardError;
+}
+
+/**
+ * Gets an experiment's per-variant metric and the significance of each
+ * challenger against the control
+ *
+ * @param experiment - The experiment
+ * @returns Results, with a recommended winner when the data supports one
+ */
+export async function getExperimentResults(
+  experiment: PersonaExperiment
+): Promise<ExperimentResults> {
+  const db = getLibSQLClient();
+  const [stats, assignments] = await Promise.all([
+    db.execute({
+      sql: 'SELECT * FROM persona_experiment_results WHERE experiment_id = ?',
+      args: [experiment.id],
+    }),
+    db.execute({
+      sql: `SELECT variant_id, COUNT(*) AS count FROM persona_experiment_assignments
+            WHERE experiment_id = ? GROUP BY variant_id`,
+      args: [experiment.id],
+    }),
+  ]);
+
+  const variants: VariantResult[] = experiment.variants.map((variant) => {
+    const row = stats.rows.find((r) => r.variant_id === variant.id);
+    const n = Number(row?.observations ?? 0);
+    const sum = Number(row?.metric_sum ?? 0);
+    const sumSq = Number(row?.metric_sum_sq ?? 0);
+    const variance =
+      n > 1 ? Math.max((sumSq - (sum * sum) / n) / (n - 1), 0) : 0;
+    return {
+      variantId: variant.id,
+      assignments: Number(
+        assignments.rows.find((r) => r.variant_id === variant.id)?.count ?? 0
+      ),
+      observations: n,
+      mean: n > 0 ? sum / n : 0,
+      standardDeviation: Math.sqrt(variance),
+    };
+  });
+
+  const lowerIsBetter = LOWER_IS_BETTER.includes(experiment.metric);
+  const control = variants.find(
+    (v) => v.variantId === experiment.controlVariantId
+  )!;
+  const challengers = variants.filter((v) => v !== control);
+  const adjustedSignificanceLevel =
+    experiment.significanceLevel / challengers.length;
+
+  const comparisons: VariantComparison[] = challengers.map((challenger) => {
+    const ready =
+      control.observations >= experiment.minSampleSize &&
+      challenger.observations >= experiment.minSampleSize;
+    const z = ready ? zScore(experiment.metric, control, challenger) : 0;
+    const pValue = ready ? 2 * (1 - normalCdf(Math.abs(z))) : 1;
+    const difference = challenger.mean - control.mean;
+    return {
+      variantId: challenger.variantId,
+      difference,
+      relativeLift: control.mean !== 0 ? difference / control.mean : undefined,
+      zScore: z,
+      pValue,
+      ready,
+      significant: ready && pValue < adjustedSignificanceLevel,
+      better: lowerIsBetter ? difference < 0 : difference > 0,
+    };
+  });
+
+  // Best significantly better challenger; the control if every challenger
+  // is significantly worse
+  let recommendedWinnerId: string | undefined;
+  const winners = comparisons.filter((c) => c.significant && c.better);
+  if (winners.length > 0) {
+    recommendedWinnerId = winners.reduce((best, c) =>
+      (
+        lowerIsBetter
+          ? c.difference < best.difference
+          : c.difference > best.difference
+      )
+        ? c
+        : best
+    ).variantId;
+  } else if (comparisons.every((c) => c.significant && !c.better)) {
+    recommendedWinnerId = control.variantId;
+  }
+
+  return {
+    experiment,
+    variants,
+    comparisons,
+    adjustedSignificanceLevel,
+    recommendedWinnerId,
+  };
+}
+
+// --- Promotion ---
+
+// Ends a running experiment with a winner and promotes it
+async function concludeExperiment(
+  experiment: PersonaExperiment,
+  winnerVariantId: string,
+  reason: string
+): Promise<PersonaExperiment> {
+  const winner = findVariant(experiment, winnerVariantId);
+  const now = new Date().toISOString();
+  const result = await getLibSQLClient().execute({
+    sql: `UPDATE persona_experiments
+          SET status = 'completed', winner_variant_id = ?, stop_reason = ?, updated_at = ?, ended_at = ?
+          WHERE id = ? AND status = 'running'`,
+    args: [winner.id, reason, now, now, experiment.id],
+  });
+  // Another request concluded it first
+  if (result.rowsAffected === 0) {
+    return (await getExperiment(experiment.id)) ?? experiment;
+  }
+
+  if (experiment.promoteToPersonaId) {
+    const composition = await personaManager.resolvePersona(
+      winner.personaId,
+      winner.microPersonaIds,
+      { onIssue: 'skip' }
+    );
+    const persona = composition.persona;
+    // The target keeps its identity; only the behaviour is promoted
+    const promoted = await personaManager.updatePersona(
+      experiment.promoteToPersonaId,
+      {
+        systemPromptTemplate: persona.systemPromptTemplate,
+        modelSettings: persona.modelSettings,
+        traits: persona.traits,
+        capabilities: persona.capabilities,
+        safetySettings: persona.safetySettings,
+        tags: persona.tags,
+        exampleDialogues: persona.exampleDialogues,
+        knowledgeBaseIds: persona.knowledgeBaseIds,
+        preferredModels: persona.preferredModels,
+        metadata: {
+          ...persona.metadata,
+          promotedFromExperimentId: experiment.id,
+          promotedVariantId: winner.id,
+        },
+      }
+    );
+    if (!promoted) {
+      upstashLogger.warn(
+        'persona-experiments',
+        `Persona ${experiment.promoteToPersonaId} not found; winner of experiment ${experiment.id} was not copied`
+      );
+    }
+  }
+
+  upstashLogger.info('persona-experiments', 'Experiment winner promoted', {
+    experimentId: experiment.id,
+    winnerVariantId: winner.id,
+    personaId: winner.personaId,
+    reason,
+  });
+  return {
+    ...experiment,
+    status: 'completed',
+    winnerVariantId: winner.id,
+    stopReason: reason,
+    updatedAt: now,
+    endedAt: now,
+  };
+}
+
+/**
+ * Stops a running experiment. With `winnerVariantId`, that variant is
+ * promoted; otherwise the results decide, and an experiment without a
+ * significant winner stops and serves the control.
+ *
+ * @param id - Experiment ID
+ * @param options - Optional winner and reason
+ * @returns The stopped experiment or null if not found
+ */
+export async function stopExperiment(
+  id: string,
+  options: StopExperimentOptions = {}
+): Promise<PersonaExperiment | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+  if (experiment.status !== 'running') {
+    throw new Error(`Experiment ${id} has already ended`);
+  }
+
+  const winnerVariantId =
+    options.winnerVariantId ??
+    (await getExperimentResults(experiment)).recommendedWinnerId;
+  if (winnerVariantId) {
+    return concludeExperiment(
+      experiment,
+      winnerVariantId,
+      options.reason ??
+        (options.winnerVariantId
+          ? 'Winner chosen manually'
+          : 'Stopped with a significant winner')
+    );
+  }
+
+  const now = new Date().toISOString();
+  const reason = options.reason ?? 'Stopped without a significant winner';
+  await getLibSQLClient().execute({
+    sql: `UPDATE persona_experiments
+          SET status = 'stopped', stop_reason = ?, updated_at = ?, ended_at = ?
+          WHERE id = ?`,
+    args: [reason, now, now, id],
+  });
+
+  upstashLogger.info('persona-experiments', 'Experiment stopped', {
+    experimentId: id,
+    reason,
+  });
+  return {
+    ...experiment,
+    status: 'stopped',
+    stopReason: reason,
+    updatedAt: now,
+    endedAt: now,
+  };
+}
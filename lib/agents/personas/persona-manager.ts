@@ -13,6 +13,11 @@ import {
   GeminiCapability,
   composePersona,
 } from './persona-library';
+import {
+  PersonaComposition,
+  PersonaCompositionOptions,
+  resolvePersonaComposition,
+} from './persona-composer';
 import { personaScoreManager } from './persona-score-manager';
 import { AgentPersona } from '../agent.types';
 import { domainPersonas, taskPersonas } from './persona-library-extended';
@@ -994,6 +999,35 @@ export class PersonaManager {
     return prompt;
   }
 
+  /**
+   * Composes a stored persona with stored micro-personas through the
+   * composition engine, enforcing conflicts, compatibility and the model's
+   * capabilities.
+   *
+   * @param personaId - The base persona ID
+   * @param microPersonaIds - Micro-persona IDs, in precedence order
+   * @param options - Model, prompt variables and issue handling
+   * @returns Promise resolving to the composition and its explanation
+   */
+  public async resolvePersona(
+    personaId: string,
+    microPersonaIds: string[] = [],
+    options: PersonaCompositionOptions = {}
+  ): Promise<PersonaComposition> {
+    const persona = await this.getPersonaById(personaId);
+    if (!persona) throw new Error(`Persona with ID ${personaId} not found.`);
+
+    const microPersonas: MicroPersonaDefinition[] = [];
+    for (const id of microPersonaIds) {
+      const microPersona = await this.getMicroPersonaById(id);
+      if (!microPersona)
+        throw new Error(`Micro-persona with ID ${id} not found.`);
+      microPersonas.push(microPersona);
+    }
+
+    return resolvePersonaComposition(persona, microPersonas, options);
+  }
+
   /**
    * Gets a persona recommendation based on task type, capabilities, and scores
    *
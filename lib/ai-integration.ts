@@ -7,11 +7,15 @@ import { getLibSQLClient } from './memory/db';
 import { getVectorClient } from './memory/upstash/upstashClients';
 import { shouldUseUpstash } from './memory/supabase';
 import { getEncoding } from 'js-tiktoken';
-import { pipeline } from '@xenova/transformers';
 import { upstashLogger } from './memory/upstash/upstash-logger';
+import { embedText, getEmbeddingProvider } from './memory/embeddings';
+import { cosineSimilarity } from './memory/similarity';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  assertNamespaceVector,
+} from './memory/embedding-namespaces';
 import type { Message as ChatMessage } from './shared/types/upstashTypes';
 import type { CoreMessage, ToolSet } from 'ai';
-import type { FeatureExtractionPipeline } from '@xenova/transformers';
 
 // Initialize Google AI provider with enhanced capabilities
 export function getGoogleAI(apiKey: string, baseURL?: string) {
@@ -214,28 +218,10 @@ export function countTokens(text: string, _modelName = 'gpt-4') {
   }
 }
 
-// Generate embeddings using @xenova/transformers
-let embeddingModel: unknown = null;
-
+// Generate embeddings with the default provider (see lib/memory/embeddings.ts)
 export async function generateEmbedding(text: string) {
   try {
-    if (!embeddingModel) {
-      // Initialize the embedding model
-      embeddingModel = await pipeline(
-        'feature-extraction',
-        'Xenova/all-MiniLM-L6-v2'
-      );
-    }
-
-    // Type assertion for embeddingModel
-    const model = embeddingModel as FeatureExtractionPipeline;
-
-    const result = await model(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
-
-    return result.data;
+    return await embedText(text);
   } catch (error) {
     upstashLogger.error(
       'ai-integration',
@@ -249,7 +235,8 @@ export async function generateEmbedding(text: string) {
 // Save embedding to database
 export async function saveEmbedding(
   vector: Float32Array,
-  model = 'all-MiniLM-L6-v2'
+  model = getEmbeddingProvider().model,
+  namespace = DEFAULT_EMBEDDING_NAMESPACE
 ) {
   try {
     const id = generateId();
@@ -269,12 +256,14 @@ export async function saveEmbedding(
           metadata: {
             model,
             dimensions: vector.length,
+            namespace,
             created_at: new Date().toISOString(),
           },
         },
       ]);
     } else {
-      // Use LibSQL
+      // Use LibSQL; Upstash indexes enforce their own dimensions
+      await assertNamespaceVector(namespace, model, vector.length);
       const db = getLibSQLClient();
 
       // Convert Float32Array to Buffer
@@ -282,10 +271,10 @@ export async function saveEmbedding(
 
       await db.execute({
         sql: `
-          INSERT INTO embeddings (id, vector, model, dimensions)
-          VALUES (?, ?, ?, ?)
+          INSERT INTO embeddings (id, vector, model, dimensions, namespace)
+          VALUES (?, ?, ?, ?, ?)
         `,
-        args: [id, buffer, model, vector.length],
+        args: [id, buffer, model, vector.length, namespace],
       });
     }
 
@@ -364,22 +353,3 @@ export async function performVectorSearch(vector: Float32Array, limit = 5) {
     throw error;
   }
 }
-
-// Helper function to compute cosine similarity
-function cosineSimilarity(a: Float32Array, b: Float32Array): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same dimensions');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
@@ -1692,18 +1692,22 @@ export async function trackPromptTemplate({
  * @param options - Configuration options
  * @param options.name - The name of the dataset
  * @param options.description - Optional description of the dataset
+ * @param options.items - Optional dataset items (inputs and expected outputs)
  * @returns The created dataset ID or null if there was an error
  */
 export async function createEvaluationDataset({
   name,
   description,
+  items,
 }: {
   name: string;
   description?: string;
+  items?: Parameters<typeof dataset>[0]['items'];
 }) {
   return await dataset({
     name,
     description,
+    items,
   });
 }
 
@@ -1715,6 +1719,7 @@ export async function createEvaluationDataset({
  * @param options.modelId - The ID of the model being evaluated
  * @param options.datasetId - The ID of the dataset used for evaluation
  * @param options.metrics - The evaluation metrics
+ * @param options.results - Optional per-item results with their scores
  * @returns The created evaluation run ID or null if there was an error
  */
 export async function runModelEvaluation({
@@ -1722,17 +1727,20 @@ export async function runModelEvaluation({
   modelId,
   datasetId,
   metrics,
+  results,
 }: {
   name: string;
   modelId: string;
   datasetId: string;
   metrics: Record<string, number>;
+  results?: Parameters<typeof evaluationRun>[0]['results'];
 }) {
   return await evaluationRun({
     name,
     modelId,
     datasetId,
     metrics,
+    results,
   });
 }
 
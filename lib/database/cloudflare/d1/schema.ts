@@ -477,6 +477,29 @@ export const memoryThreads = sqliteTable('memory_threads', {
     .$defaultFn(() => Date.now()),
 });
 
+/**
+ * Memory Messages table
+ * Stores the messages of memory threads (vectors live in Vectorize)
+ */
+export const memoryMessages = sqliteTable('memory_messages', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => generateId()),
+  memoryThreadId: text('memory_thread_id')
+    .notNull()
+    .references(() => memoryThreads.id, { onDelete: 'cascade' }),
+  role: text('role').notNull(), // 'user', 'assistant', 'system', 'tool'
+  content: text('content').notNull(),
+  toolCallId: text('tool_call_id'),
+  toolName: text('tool_name'),
+  tokenCount: integer('token_count'),
+  embeddingId: text('embedding_id'),
+  metadata: text('metadata', { mode: 'json' }),
+  createdAt: integer('created_at')
+    .notNull()
+    .$defaultFn(() => Date.now()),
+});
+
 /**
  * Embeddings table
  * Stores vector embeddings for semantic search
@@ -1480,6 +1503,8 @@ export type Document = InferSelectModel<typeof documents>;
 export type NewDocument = InferInsertModel<typeof documents>;
 export type MemoryThread = InferSelectModel<typeof memoryThreads>;
 export type NewMemoryThread = InferInsertModel<typeof memoryThreads>;
+export type MemoryMessage = InferSelectModel<typeof memoryMessages>;
+export type NewMemoryMessage = InferInsertModel<typeof memoryMessages>;
 export type Embedding = InferSelectModel<typeof embeddings>;
 export type NewEmbedding = InferInsertModel<typeof embeddings>;
 export type AgentState = InferSelectModel<typeof agentStates>;
@@ -1599,6 +1624,9 @@ export function validateDocument(data: unknown): Document {
 export function validateMemoryThread(data: unknown): MemoryThread {
   return MemoryThreadSchema.parse(data);
 }
+export function validateMemoryMessage(data: unknown): MemoryMessage {
+  return MemoryMessageSchema.parse(data);
+}
 export function validateEmbedding(data: unknown): Embedding {
   return EmbeddingSchema.parse(data);
 }
@@ -1856,6 +1884,18 @@ export const MemoryThreadSchema = z.object({
   createdAt: z.number(),
   updatedAt: z.number(),
 });
+export const MemoryMessageSchema = z.object({
+  id: z.string(),
+  memoryThreadId: z.string(),
+  role: z.string(),
+  content: z.string(),
+  toolCallId: z.string().nullable(),
+  toolName: z.string().nullable(),
+  tokenCount: z.number().nullable(),
+  embeddingId: z.string().nullable(),
+  metadata: z.string().nullable(),
+  createdAt: z.number(),
+});
 export const EmbeddingSchema = z.object({
   id: z.string(),
   vector: z.instanceof(Uint8Array),
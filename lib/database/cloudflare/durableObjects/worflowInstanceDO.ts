@@ -10,6 +10,7 @@
 import { DurableObject } from 'cloudflare:workers';
 import { generateId } from 'ai';
 import { z } from 'zod';
+import { getNextCronTime } from '../../../workflow/cron';
 
 /**
  * Zod schemas for WorkflowInstanceDO operations
@@ -62,9 +63,34 @@ const WorkflowProgressUpdateSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
 });
 
+const WorkflowScheduleSchema = z.object({
+  cron: z.string(),
+  timezone: z.string().default('UTC'),
+  input: z.record(z.unknown()).optional(),
+  workflowId: z.string(),
+  userId: z.string(),
+  steps: z.array(z.record(z.unknown())).optional(),
+  enabled: z.boolean().default(true),
+  nextRunAt: z.number().optional(),
+  lastRunAt: z.number().optional(),
+});
+
+const WorkflowScheduleRunSchema = z.object({
+  id: z.string(),
+  scheduledFor: z.number(),
+  startedAt: z.number(),
+  status: z.enum(['started', 'failed']),
+  error: z.string().optional(),
+});
+
+// Number of scheduled runs kept in the run history
+const MAX_SCHEDULE_RUNS = 100;
+
 type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
 type WorkflowExecution = z.infer<typeof WorkflowExecutionSchema>;
 type WorkflowProgressUpdate = z.infer<typeof WorkflowProgressUpdateSchema>;
+type WorkflowSchedule = z.infer<typeof WorkflowScheduleSchema>;
+type WorkflowScheduleRun = z.infer<typeof WorkflowScheduleRunSchema>;
 
 /**
  * WorkflowInstanceDO
@@ -109,15 +135,21 @@ export class WorkflowInstanceDO extends DurableObject {
           if (path === '/cancel') return await this.handleCancelExecution();
           if (path === '/progress')
             return await this.handleUpdateProgressTyped(request);
+          if (path === '/schedule')
+            return await this.handleSetSchedule(request);
           break;
         case 'GET':
           if (path === '/status') return await this.handleGetStatus();
           if (path === '/steps') return await this.handleGetSteps();
           if (path === '/execution') return await this.handleGetExecution();
+          if (path === '/schedule') return await this.handleGetSchedule();
           break;
         case 'PUT':
           if (path === '/step') return await this.handleUpdateStep(request);
           break;
+        case 'DELETE':
+          if (path === '/schedule') return await this.handleDisableSchedule();
+          break;
       }
 
       return new Response('Not Found', { status: 404 });
@@ -138,6 +170,18 @@ export class WorkflowInstanceDO extends DurableObject {
       return new Response('Invalid data format', { status: 400 });
     }
 
+    const execution = await this.startExecution(data);
+
+    return new Response(JSON.stringify(execution), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Create a running execution and its steps, replacing any previous one.
+   * @param data - Execution data, optionally with step definitions
+   */
+  private async startExecution(data: object): Promise<WorkflowExecution> {
     const now = Date.now();
 
     const execution = WorkflowExecutionSchema.parse({
@@ -176,11 +220,133 @@ export class WorkflowInstanceDO extends DurableObject {
     // Broadcast to connected clients
     this.broadcastUpdate('execution-started', { execution: this.execution });
 
-    return new Response(JSON.stringify(this.execution), {
+    return execution;
+  }
+
+  /**
+   * Schedule recurring executions with a cron expression.
+   * @param request - Request with the schedule definition
+   */
+  private async handleSetSchedule(request: Request): Promise<Response> {
+    const parsed = WorkflowScheduleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(`Invalid schedule: ${parsed.error.message}`, {
+        status: 400,
+      });
+    }
+
+    let nextRunAt: number;
+    try {
+      nextRunAt = getNextCronTime(
+        parsed.data.cron,
+        parsed.data.timezone
+      ).getTime();
+    } catch (error) {
+      return new Response(`Invalid schedule: ${error}`, { status: 400 });
+    }
+
+    const schedule: WorkflowSchedule = {
+      ...parsed.data,
+      enabled: true,
+      nextRunAt,
+    };
+    await this.ctx.storage.put('schedule', schedule);
+    await this.ctx.storage.setAlarm(nextRunAt);
+
+    this.broadcastUpdate('schedule-updated', { schedule });
+
+    return new Response(JSON.stringify(schedule), {
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
+  /**
+   * Get the schedule and its run history.
+   */
+  private async handleGetSchedule(): Promise<Response> {
+    const schedule =
+      (await this.ctx.storage.get<WorkflowSchedule>('schedule')) ?? null;
+    const runs =
+      (await this.ctx.storage.get<WorkflowScheduleRun[]>('schedule-runs')) ??
+      [];
+
+    return new Response(JSON.stringify({ schedule, runs }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Disable the schedule, keeping its run history.
+   */
+  private async handleDisableSchedule(): Promise<Response> {
+    const schedule = await this.ctx.storage.get<WorkflowSchedule>('schedule');
+    if (!schedule) {
+      return new Response('No schedule', { status: 404 });
+    }
+
+    schedule.enabled = false;
+    schedule.nextRunAt = undefined;
+    await this.ctx.storage.put('schedule', schedule);
+    await this.ctx.storage.deleteAlarm();
+
+    this.broadcastUpdate('schedule-updated', { schedule });
+
+    return new Response(JSON.stringify(schedule), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Alarm handler: start a scheduled execution and arm the next occurrence.
+   */
+  async alarm(): Promise<void> {
+    const schedule = await this.ctx.storage.get<WorkflowSchedule>('schedule');
+    if (!schedule?.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const run: WorkflowScheduleRun = {
+      id: generateId(),
+      scheduledFor: schedule.nextRunAt ?? now,
+      startedAt: now,
+      status: 'started',
+    };
+
+    try {
+      await this.startExecution({
+        workflowId: schedule.workflowId,
+        userId: schedule.userId,
+        input: schedule.input,
+        steps: schedule.steps,
+        triggeredBy: 'schedule',
+      });
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    const runs =
+      (await this.ctx.storage.get<WorkflowScheduleRun[]>('schedule-runs')) ??
+      [];
+    runs.unshift(run);
+    await this.ctx.storage.put(
+      'schedule-runs',
+      runs.slice(0, MAX_SCHEDULE_RUNS)
+    );
+
+    schedule.lastRunAt = now;
+    schedule.nextRunAt = getNextCronTime(
+      schedule.cron,
+      schedule.timezone,
+      new Date(now)
+    ).getTime();
+    await this.ctx.storage.put('schedule', schedule);
+    await this.ctx.storage.setAlarm(schedule.nextRunAt);
+
+    this.broadcastUpdate('schedule-triggered', { schedule, run });
+  }
+
   /**
    * Execute next workflow step.
    */
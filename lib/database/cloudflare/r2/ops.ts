@@ -3,6 +3,7 @@ import {
   R2ObjectBody,
   R2Object,
   R2MultipartUpload,
+  R2Objects,
 } from '@cloudflare/workers-types';
 
 export interface R2PutOptions {
@@ -45,6 +46,10 @@ export class CfR2Store {
     return result.objects.map((obj) => obj.key);
   }
 
+  async listObjects(options?: R2ListOptions): Promise<R2Objects> {
+    return await this.bucket.list(options);
+  }
+
   async head(key: string): Promise<R2Object | null> {
     return await this.bucket.head(key);
   }
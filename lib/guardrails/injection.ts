@@ -0,0 +1,94 @@
+/**
+ * @file Heuristic prompt-injection scoring for untrusted text such as tool
+ *       output (web pages, files, search results) fed back into the model.
+ *
+ * @remarks
+ *   Each signal has a weight; signals combine as independent evidence
+ *   (`1 - Π(1 - weight)`), so the score stays in [0, 1) and grows with the
+ *   number of distinct signals.  Scores are a triage aid, not a guarantee.
+ */
+
+interface InjectionSignal {
+  name: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+const INJECTION_SIGNALS: InjectionSignal[] = [
+  {
+    name: 'override_instructions',
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\b.{0,40}\b(?:previous|prior|above|earlier|all|your|system)\b.{0,20}\b(?:instructions?|prompts?|rules|guidelines|directions)\b/i,
+    weight: 0.6,
+  },
+  {
+    name: 'new_instructions',
+    pattern:
+      /\b(?:new|updated|real|actual)\s+(?:instructions?|task|objective)\s*:|\bfrom now on\b/i,
+    weight: 0.4,
+  },
+  {
+    name: 'role_reassignment',
+    pattern:
+      /\b(?:you are now|act as|pretend (?:to be|you are)|roleplay as|you must now)\b/i,
+    weight: 0.3,
+  },
+  {
+    name: 'prompt_exfiltration',
+    pattern:
+      /\b(?:reveal|print|show|repeat|output|leak)\b.{0,30}\b(?:system prompt|hidden (?:prompt|instructions)|initial instructions|your instructions)\b/i,
+    weight: 0.5,
+  },
+  {
+    name: 'chat_template_markers',
+    pattern:
+      /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<<SYS>>|^\s*(?:system|assistant)\s*:/im,
+    weight: 0.4,
+  },
+  {
+    name: 'concealment',
+    pattern:
+      /\b(?:do not|don't|never)\s+(?:tell|inform|mention|reveal)\b.{0,20}\b(?:the )?user\b/i,
+    weight: 0.4,
+  },
+  {
+    name: 'data_exfiltration',
+    pattern:
+      /!\[[^\]]*\]\(https?:\/\/[^)\s]*\?[^)\s]*=|\b(?:send|post|upload|forward)\b.{0,40}\b(?:to|at)\s+https?:\/\//i,
+    weight: 0.5,
+  },
+  {
+    name: 'tool_invocation',
+    pattern:
+      /\b(?:call|invoke|use|run|execute)\s+the\s+\w+\s+(?:tool|function|command)\b|\bexecute the following\b/i,
+    weight: 0.3,
+  },
+  {
+    name: 'encoded_payload',
+    pattern:
+      /\b(?:decode|base64)\b.{0,40}\b(?:execute|follow|run|instructions?)\b/i,
+    weight: 0.3,
+  },
+];
+
+/** Prompt-injection score of a text and the signals that fired. */
+export interface InjectionScore {
+  score: number;
+  signals: string[];
+}
+
+/**
+ * Score how likely a text is to contain a prompt-injection attempt.
+ *
+ * @param text - Untrusted text
+ * @returns A score in [0, 1) and the names of the signals found
+ */
+export function scorePromptInjection(text: string): InjectionScore {
+  const fired = INJECTION_SIGNALS.filter((signal) => signal.pattern.test(text));
+  const score =
+    1 - fired.reduce((remaining, signal) => remaining * (1 - signal.weight), 1);
+  return {
+    score: Math.round(score * 1000) / 1000,
+    signals: fired.map((signal) => signal.name),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * @file JSON Schema validation and repair of structured model output.
+ *
+ * @remarks
+ *   Covers the keywords the AI SDK emits for Zod schemas: `type` (including
+ *   `integer`, `null` and type arrays), `enum`, `const`, `properties`,
+ *   `required`, `additionalProperties`, `items`, `anyOf`/`oneOf`/`allOf`,
+ *   string, number and array bounds.  Unknown keywords (`format`, `$ref`,
+ *   ...) are not enforced.
+ */
+
+import type { jsonSchema } from 'ai';
+
+/** Draft-07 JSON Schema, as the AI SDK types it. */
+export type JSONSchema7 = Parameters<typeof jsonSchema>[0];
+export type JSONSchema7Definition = JSONSchema7 | boolean;
+
+/** A validation failure at a JSON path (`$.items[2].name`). */
+export interface JsonSchemaError {
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateNode(
+  value: unknown,
+  definition: JSONSchema7Definition,
+  path: string,
+  errors: JsonSchemaError[]
+): void {
+  if (definition === true) return;
+  if (definition === false) {
+    errors.push({ path, message: 'is not allowed' });
+    return;
+  }
+  const schema = definition;
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({
+        path,
+        message: `expected ${types.join(' | ')}, got ${typeOf(value)}`,
+      });
+      return;
+    }
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some(
+      (option) => JSON.stringify(option) === JSON.stringify(value)
+    )
+  ) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+  if (
+    schema.const !== undefined &&
+    JSON.stringify(schema.const) !== JSON.stringify(value)
+  ) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.allOf) {
+    for (const part of schema.allOf) validateNode(value, part, path, errors);
+  }
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (
+    alternatives &&
+    !alternatives.some(
+      (part) => validateJsonSchema(value, part, path).length === 0
+    )
+  ) {
+    errors.push({ path, message: 'does not match any allowed schema' });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({
+        path,
+        message: `must have at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({
+        path,
+        message: `must have at most ${schema.maxLength} characters`,
+      });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path,
+        message: `must have at least ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({
+        path,
+        message: `must have at most ${schema.maxItems} items`,
+      });
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) =>
+        validateNode(
+          item,
+          schema.items as JSONSchema7Definition,
+          `${path}[${index}]`,
+          errors
+        )
+      );
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property !== undefined) {
+        validateNode(propertyValue, property, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties !== undefined) {
+        validateNode(
+          propertyValue,
+          schema.additionalProperties,
+          `${path}.${key}`,
+          errors
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * @returns The validation errors; empty when the value is valid.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JSONSchema7Definition,
+  path = '$'
+): JsonSchemaError[] {
+  const errors: JsonSchemaError[] = [];
+  validateNode(value, schema, path, errors);
+  return errors;
+}
+
+/**
+ * Parse model output as JSON, repairing common slips: Markdown code fences,
+ * prose around the JSON value and trailing commas.
+ *
+ * @returns The parsed value and whether the text needed repair, or
+ *          `undefined` if the text is not JSON.
+ */
+export function parseJsonOutput(
+  text: string
+): { value: unknown; repaired: boolean } | undefined {
+  const candidates = [text.trim()];
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  if (fenced) candidates.push(fenced[1].trim());
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    for (const attempt of [
+      candidate,
+      candidate.replace(/,\s*([}\]])/g, '$1'),
+    ]) {
+      try {
+        return { value: JSON.parse(attempt), repaired: attempt !== text };
+      } catch {
+        // try the next repair
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check structured output against its schema, repairing the JSON text when
+ * possible.
+ *
+ * @param text - The model output
+ * @param schema - Expected JSON Schema (any JSON value is accepted without one)
+ * @returns The (possibly repaired) JSON text, or the errors found.
+ */
+export function checkStructuredOutput(
+  text: string,
+  schema: JSONSchema7 | undefined
+): { ok: true; text: string } | { ok: false; errors: JsonSchemaError[] } {
+  const parsed = parseJsonOutput(text);
+  if (!parsed) {
+    return { ok: false, errors: [{ path: '$', message: 'is not valid JSON' }] };
+  }
+  const errors = schema ? validateJsonSchema(parsed.value, schema) : [];
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    text: parsed.repaired ? JSON.stringify(parsed.value) : text,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * @file PII detection and reversible redaction.
+ *
+ * @remarks
+ *   Detected values are replaced by numbered placeholders (`[EMAIL_1]`) and
+ *   remembered in a {@link PiiVault}, so the model never sees them but its
+ *   answer can be restored before it reaches the user.  The same value always
+ *   gets the same placeholder within a vault.
+ */
+
+export type PiiType = 'api_key' | 'email' | 'card' | 'phone';
+
+export const PII_TYPES: PiiType[] = ['api_key', 'email', 'card', 'phone'];
+
+/* Order matters: keys contain digits that would otherwise look like phone
+   or card numbers. */
+const PII_PATTERNS: Record<PiiType, RegExp> = {
+  api_key:
+    /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abprs]-[A-Za-z0-9-]{10,}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  card: /\b\d(?:[ -]?\d){12,18}\b/g,
+  phone:
+    /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b/g,
+};
+
+const PLACEHOLDER = /\[(API_KEY|EMAIL|CARD|PHONE)_(\d+)\]/g;
+
+/** Longest placeholder prefix a stream may need to hold back. */
+export const MAX_PLACEHOLDER_LENGTH = 16;
+
+// Luhn checksum, to tell card numbers from other long digit runs
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** A detected PII value. */
+export interface PiiMatch {
+  type: PiiType;
+  value: string;
+  index: number;
+}
+
+/**
+ * Find PII in text.
+ *
+ * @param text - Text to scan
+ * @param types - PII types to look for (default: all)
+ */
+export function detectPII(
+  text: string,
+  types: PiiType[] = PII_TYPES
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const type of PII_TYPES.filter((candidate) =>
+    types.includes(candidate)
+  )) {
+    for (const match of text.matchAll(PII_PATTERNS[type])) {
+      const overlaps = matches.some(
+        (existing) =>
+          match.index! < existing.index + existing.value.length &&
+          existing.index < match.index! + match[0].length
+      );
+      if (overlaps) continue;
+      if (type === 'card' && !isLuhnValid(match[0].replace(/\D/g, ''))) {
+        continue;
+      }
+      matches.push({ type, value: match[0], index: match.index! });
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Placeholders handed out for one conversation, so redacted values can be
+ * restored in the model's answer.
+ */
+export class PiiVault {
+  private readonly byPlaceholder = new Map<string, string>();
+  private readonly byValue = new Map<string, string>();
+  private readonly counters = new Map<PiiType, number>();
+
+  get size(): number {
+    return this.byPlaceholder.size;
+  }
+
+  /** Placeholder for a value, creating one if needed. */
+  placeholderFor(type: PiiType, value: string): string {
+    let placeholder = this.byValue.get(value);
+    if (!placeholder) {
+      const next = (this.counters.get(type) ?? 0) + 1;
+      this.counters.set(type, next);
+      placeholder = `[${type.toUpperCase()}_${next}]`;
+      this.byValue.set(value, placeholder);
+      this.byPlaceholder.set(placeholder, value);
+    }
+    return placeholder;
+  }
+
+  /** Original value of a placeholder. */
+  valueOf(placeholder: string): string | undefined {
+    return this.byPlaceholder.get(placeholder);
+  }
+}
+
+/**
+ * Replace PII in text with vault placeholders.
+ *
+ * @returns The redacted text and the values that were replaced.
+ */
+export function redactPII(
+  text: string,
+  vault: PiiVault,
+  types: PiiType[] = PII_TYPES
+): { text: string; matches: PiiMatch[] } {
+  const matches = detectPII(text, types);
+  let redacted = '';
+  let offset = 0;
+  for (const match of matches) {
+    redacted +=
+      text.slice(offset, match.index) +
+      vault.placeholderFor(match.type, match.value);
+    offset = match.index + match.value.length;
+  }
+  return { text: redacted + text.slice(offset), matches };
+}
+
+/**
+ * Put the original values back in place of vault placeholders.
+ *
+ * @param text - Text that may contain placeholders
+ * @param vault - Vault the placeholders came from
+ * @param escapeForJson - Escape values for use inside a JSON string
+ */
+export function restorePII(
+  text: string,
+  vault: PiiVault,
+  escapeForJson = false
+): string {
+  if (vault.size === 0) return text;
+  return text.replace(PLACEHOLDER, (placeholder) => {
+    const value = vault.valueOf(placeholder);
+    if (value === undefined) return placeholder;
+    return escapeForJson ? JSON.stringify(value).slice(1, -1) : value;
+  });
+}
@@ -0,0 +1,292 @@
+/**
+ * Local Cloudflare Stand-ins
+ *
+ * A SQLite-backed D1 database (through @libsql/client) and an in-process
+ * Vectorize index, implementing the parts of the binding APIs the memory
+ * backend uses. They let the `cloudflare` memory provider run in Node, for
+ * local development and the conformance suite (../conformance.ts), without
+ * `wrangler`.
+ */
+
+import { createClient, type Client, type InValue } from '@libsql/client';
+import type {
+  D1Database,
+  VectorizeIndex,
+  VectorizeVector,
+  VectorizeVectorMetadata,
+} from '@cloudflare/workers-types';
+import type { CloudflareMemoryBindings } from './memory';
+import { cosineSimilarity } from '../similarity';
+
+// Memory tables of the D1 schema (lib/database/cloudflare/d1/schema.ts),
+// without the foreign keys to tables outside the memory layer
+export const CLOUDFLARE_MEMORY_TABLES = [
+  `CREATE TABLE IF NOT EXISTS memory_threads (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT,
+    network_id TEXT,
+    name TEXT NOT NULL,
+    summary TEXT,
+    metadata TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS memory_messages (
+    id TEXT PRIMARY KEY,
+    memory_thread_id TEXT NOT NULL REFERENCES memory_threads(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    tool_call_id TEXT,
+    tool_name TEXT,
+    token_count INTEGER,
+    embedding_id TEXT,
+    metadata TEXT,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS agent_states (
+    memory_thread_id TEXT NOT NULL REFERENCES memory_threads(id) ON DELETE CASCADE,
+    agent_id TEXT NOT NULL,
+    state_data TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (memory_thread_id, agent_id)
+  )`,
+];
+
+interface LocalD1Result<T> {
+  results: T[];
+  success: true;
+  meta: { changes: number; last_row_id: number; duration: number };
+}
+
+function toArgs(values: unknown[]): InValue[] {
+  return values.map((value, index) => {
+    if (value === undefined) {
+      // D1 rejects undefined rather than storing NULL
+      throw new Error(
+        `D1_TYPE_ERROR: Type 'undefined' not supported for value at position ${index + 1}`
+      );
+    }
+    return value as InValue;
+  });
+}
+
+class LocalD1PreparedStatement {
+  constructor(
+    private readonly client: Client,
+    readonly sql: string,
+    readonly args: InValue[] = []
+  ) {}
+
+  bind(...values: unknown[]): LocalD1PreparedStatement {
+    return new LocalD1PreparedStatement(this.client, this.sql, toArgs(values));
+  }
+
+  async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+    const { results } = await this.all<Record<string, unknown>>();
+    if (results.length === 0) return null;
+    return (column ? results[0][column] : results[0]) as T;
+  }
+
+  async all<T = Record<string, unknown>>(): Promise<LocalD1Result<T>> {
+    return toD1Result<T>(
+      await this.client.execute({ sql: this.sql, args: this.args })
+    );
+  }
+
+  async run<T = Record<string, unknown>>(): Promise<LocalD1Result<T>> {
+    return this.all<T>();
+  }
+
+  async raw<T = unknown[]>(): Promise<T[]> {
+    const result = await this.client.execute({
+      sql: this.sql,
+      args: this.args,
+    });
+    return result.rows.map((row) => Array.from(row) as T);
+  }
+}
+
+function toD1Result<T>(
+  result: Awaited<ReturnType<Client['execute']>>
+): LocalD1Result<T> {
+  return {
+    results: result.rows.map(
+      (row) =>
+        Object.fromEntries(
+          result.columns.map((column, index) => [column, row[index]])
+        ) as T
+    ),
+    success: true,
+    meta: {
+      changes: result.rowsAffected,
+      last_row_id: Number(result.lastInsertRowid ?? 0),
+      duration: 0,
+    },
+  };
+}
+
+/**
+ * Create a D1 database backed by SQLite.
+ *
+ * @param url - libSQL URL of the database file (default: in memory)
+ */
+export function createLocalD1Database(url = ':memory:'): D1Database {
+  const client = createClient({ url });
+  const database = {
+    prepare: (sql: string) => new LocalD1PreparedStatement(client, sql),
+    // Statements in a batch run in one transaction, as on D1
+    batch: async (statements: LocalD1PreparedStatement[]) => {
+      const results = await client.batch(
+        statements.map((statement) => ({
+          sql: statement.sql,
+          args: statement.args,
+        })),
+        'write'
+      );
+      return results.map((result) => toD1Result(result));
+    },
+    exec: async (sql: string) => {
+      await client.executeMultiple(sql);
+      return { count: 0, duration: 0 };
+    },
+  };
+  return database as unknown as D1Database;
+}
+
+type MetadataFilterValue =
+  | VectorizeVectorMetadata
+  | {
+      $eq?: VectorizeVectorMetadata;
+      $ne?: VectorizeVectorMetadata;
+      $in?: VectorizeVectorMetadata[];
+      $nin?: VectorizeVectorMetadata[];
+    };
+
+function matchesFilter(
+  metadata: Record<string, VectorizeVectorMetadata> | undefined,
+  filter: Record<string, MetadataFilterValue> | undefined
+): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata?.[key];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+    const { $eq, $ne, $in, $nin } = condition as Exclude<
+      MetadataFilterValue,
+      VectorizeVectorMetadata
+    >;
+    return (
+      ($eq === undefined || value === $eq) &&
+      ($ne === undefined || value !== $ne) &&
+      ($in === undefined || $in.includes(value as VectorizeVectorMetadata)) &&
+      ($nin === undefined || !$nin.includes(value as VectorizeVectorMetadata))
+    );
+  });
+}
+
+/**
+ * A Vectorize index held in memory, scoring with cosine similarity.
+ * Supports metadata filters with equality and `$eq`, `$ne`, `$in`, `$nin`.
+ */
+export class InMemoryVectorizeIndex {
+  private readonly vectors = new Map<
+    string,
+    {
+      values: number[];
+      metadata?: Record<string, VectorizeVectorMetadata>;
+      namespace?: string;
+    }
+  >();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  async upsert(vectors: VectorizeVector[]) {
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, {
+        values: Array.from(vector.values as ArrayLike<number>),
+        metadata: vector.metadata,
+        namespace: vector.namespace,
+      });
+    }
+    return { ids: vectors.map((vector) => vector.id), count: vectors.length };
+  }
+
+  async insert(vectors: VectorizeVector[]) {
+    return this.upsert(
+      vectors.filter((vector) => !this.vectors.has(vector.id))
+    );
+  }
+
+  async query(
+    vector: number[] | Float32Array | Float64Array,
+    options: {
+      topK?: number;
+      namespace?: string;
+      returnValues?: boolean;
+      returnMetadata?: boolean | 'all' | 'indexed' | 'none';
+      filter?: Record<string, MetadataFilterValue>;
+    } = {}
+  ) {
+    const query = Array.from(vector);
+    const matches = [...this.vectors.entries()]
+      .filter(
+        ([, stored]) =>
+          (options.namespace === undefined ||
+            stored.namespace === options.namespace) &&
+          matchesFilter(stored.metadata, options.filter)
+      )
+      .map(([id, stored]) => ({
+        id,
+        score: cosineSimilarity(query, stored.values),
+        ...(options.returnValues ? { values: stored.values } : {}),
+        ...(options.returnMetadata && options.returnMetadata !== 'none'
+          ? { metadata: stored.metadata }
+          : {}),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK ?? 5);
+    return { matches, count: matches.length };
+  }
+
+  async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+    return ids
+      .filter((id) => this.vectors.has(id))
+      .map((id) => ({ id, ...this.vectors.get(id)! }));
+  }
+
+  async deleteByIds(ids: string[]) {
+    const deleted = ids.filter((id) => this.vectors.delete(id));
+    return { ids: deleted, count: deleted.length };
+  }
+}
+
+/**
+ * Create memory bindings over a local SQLite D1 database and an in-memory
+ * Vectorize index, with the memory tables in place.
+ *
+ * @param url - libSQL URL of the database file (default: in memory)
+ * @example
+ * ```typescript
+ * configureCloudflareMemory(await createLocalCloudflareMemoryBindings());
+ * const memory = createMemory({}, 'cloudflare');
+ * ```
+ */
+export async function createLocalCloudflareMemoryBindings(
+  url?: string
+): Promise<
+  CloudflareMemoryBindings & { VECTORIZE_MAIN_INDEX: VectorizeIndex }
+> {
+  const database = createLocalD1Database(url);
+  await database.batch(
+    CLOUDFLARE_MEMORY_TABLES.map((sql) => database.prepare(sql))
+  );
+  return {
+    DB_D1: database,
+    VECTORIZE_MAIN_INDEX:
+      new InMemoryVectorizeIndex() as unknown as VectorizeIndex,
+  };
+}
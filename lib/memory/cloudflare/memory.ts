@@ -0,0 +1,415 @@
+/**
+ * Cloudflare Memory Backend
+ *
+ * Threads, messages and agent state for the `cloudflare` memory provider
+ * (see ../factory.ts), stored in D1 (`memory_threads`, `memory_messages`,
+ * `agent_states`), with vectors in Vectorize. Rows come back in the LibSQL
+ * shapes, with metadata as a JSON string and ISO timestamps, like the other
+ * providers.
+ *
+ * Bindings are read from `globalThis.env` (Workers / `wrangler pages dev`)
+ * unless set with `configureCloudflareMemory`, e.g. to the local stand-ins
+ * from ./local.ts.
+ */
+
+import type { D1Database, VectorizeIndex } from '@cloudflare/workers-types';
+import { generateId } from 'ai';
+import type {
+  MemoryThread as MemoryThreadRecord,
+  Message as MessageRecord,
+} from '../../../db/libsql/validation';
+import { getD1Database } from '../../database/cloudflare/d1/client';
+import { CfVectorizeOps } from '../../database/cloudflare/vectorize/ops';
+
+/** The bindings the memory backend uses. */
+export interface CloudflareMemoryBindings {
+  DB_D1: D1Database;
+  VECTORIZE_MAIN_INDEX?: VectorizeIndex;
+}
+
+interface ThreadRow {
+  id: string;
+  agent_id: string | null;
+  network_id: string | null;
+  name: string;
+  summary: string | null;
+  metadata: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface MessageRow {
+  id: string;
+  memory_thread_id: string;
+  role: string;
+  content: string;
+  tool_call_id: string | null;
+  tool_name: string | null;
+  token_count: number | null;
+  embedding_id: string | null;
+  metadata: string | null;
+  created_at: number;
+}
+
+let configuredBindings: CloudflareMemoryBindings | null = null;
+
+/**
+ * Use these bindings instead of the ones on `globalThis.env`.
+ * Pass null to go back to the environment.
+ */
+export function configureCloudflareMemory(
+  bindings: CloudflareMemoryBindings | null
+): void {
+  configuredBindings = bindings;
+}
+
+function getDatabase(): D1Database {
+  return configuredBindings?.DB_D1 ?? getD1Database();
+}
+
+function getVectorizeOps(): CfVectorizeOps {
+  const index =
+    configuredBindings?.VECTORIZE_MAIN_INDEX ??
+    (globalThis as { env?: { VECTORIZE_MAIN_INDEX?: VectorizeIndex } }).env
+      ?.VECTORIZE_MAIN_INDEX;
+  if (!index) {
+    throw new Error(
+      'Vectorize index binding not found. ' +
+        'Ensure VECTORIZE_MAIN_INDEX is configured in your Cloudflare environment.'
+    );
+  }
+  return new CfVectorizeOps(index);
+}
+
+function toMemoryThreadRecord(row: ThreadRow): MemoryThreadRecord {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    network_id: row.network_id,
+    name: row.name,
+    summary: row.summary,
+    metadata: row.metadata ?? '{}',
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+function toMessageRecord(row: MessageRow): MessageRecord {
+  return {
+    ...row,
+    metadata: row.metadata ?? '{}',
+    created_at: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Check that the D1 database answers.
+ */
+export async function isCloudflareMemoryAvailable(): Promise<boolean> {
+  try {
+    await getDatabase().prepare('SELECT 1').first();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a memory thread. D1 threads have no user column, so `user_id` is
+ * kept in the metadata.
+ */
+export async function createD1Thread(
+  name: string,
+  options: {
+    user_id?: string;
+    agent_id?: string;
+    metadata?: Record<string, unknown>;
+  } = {}
+): Promise<MemoryThreadRecord> {
+  const now = Date.now();
+  const row: ThreadRow = {
+    id: generateId(),
+    agent_id: options.agent_id ?? null,
+    network_id: null,
+    name,
+    summary: null,
+    metadata: JSON.stringify({
+      ...options.metadata,
+      ...(options.user_id ? { user_id: options.user_id } : {}),
+    }),
+    created_at: now,
+    updated_at: now,
+  };
+  await getDatabase()
+    .prepare(
+      `INSERT INTO memory_threads (id, agent_id, network_id, name, summary, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      row.id,
+      row.agent_id,
+      row.network_id,
+      row.name,
+      row.summary,
+      row.metadata,
+      row.created_at,
+      row.updated_at
+    )
+    .run();
+  return toMemoryThreadRecord(row);
+}
+
+export async function getD1ThreadById(
+  id: string
+): Promise<MemoryThreadRecord | null> {
+  const row = await getDatabase()
+    .prepare('SELECT * FROM memory_threads WHERE id = ?')
+    .bind(id)
+    .first<ThreadRow>();
+  return row ? toMemoryThreadRecord(row) : null;
+}
+
+/**
+ * List memory threads, most recently updated first.
+ * Filters other than `agent_id` match top-level metadata keys.
+ */
+export async function listD1Threads(
+  options: {
+    limit?: number;
+    offset?: number;
+    filters?: { user_id?: string; agent_id?: string; [key: string]: unknown };
+  } = {}
+): Promise<MemoryThreadRecord[]> {
+  const conditions: string[] = [];
+  const args: unknown[] = [];
+  for (const [key, value] of Object.entries(options.filters ?? {})) {
+    if (value === undefined) continue;
+    if (key === 'agent_id') {
+      conditions.push('agent_id = ?');
+    } else {
+      conditions.push('json_extract(metadata, ?) = ?');
+      args.push(`$.${key}`);
+    }
+    args.push(value);
+  }
+  const where =
+    conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { results } = await getDatabase()
+    .prepare(
+      `SELECT * FROM memory_threads ${where}
+       ORDER BY updated_at DESC, rowid DESC
+       LIMIT ? OFFSET ?`
+    )
+    .bind(...args, options.limit ?? 10, options.offset ?? 0)
+    .all<ThreadRow>();
+  return results.map(toMemoryThreadRecord);
+}
+
+export async function updateD1Thread(
+  id: string,
+  updates: {
+    name?: string;
+    summary?: string | null;
+    agent_id?: string | null;
+    metadata?: Record<string, unknown> | string | null;
+  }
+): Promise<boolean> {
+  const fields = ['updated_at = ?'];
+  const args: unknown[] = [Date.now()];
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    args.push(updates.name);
+  }
+  if (updates.summary !== undefined) {
+    fields.push('summary = ?');
+    args.push(updates.summary);
+  }
+  if (updates.agent_id !== undefined) {
+    fields.push('agent_id = ?');
+    args.push(updates.agent_id);
+  }
+  if (updates.metadata !== undefined) {
+    fields.push('metadata = ?');
+    args.push(
+      typeof updates.metadata === 'string'
+        ? updates.metadata
+        : JSON.stringify(updates.metadata ?? {})
+    );
+  }
+  const result = await getDatabase()
+    .prepare(`UPDATE memory_threads SET ${fields.join(', ')} WHERE id = ?`)
+    .bind(...args, id)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Delete a memory thread with its messages, agent states and message
+ * vectors.
+ */
+export async function deleteD1Thread(id: string): Promise<boolean> {
+  const db = getDatabase();
+  const { results } = await db
+    .prepare(
+      'SELECT embedding_id FROM memory_messages WHERE memory_thread_id = ? AND embedding_id IS NOT NULL'
+    )
+    .bind(id)
+    .all<{ embedding_id: string }>();
+  const [, , deleted] = await db.batch([
+    db
+      .prepare('DELETE FROM memory_messages WHERE memory_thread_id = ?')
+      .bind(id),
+    db.prepare('DELETE FROM agent_states WHERE memory_thread_id = ?').bind(id),
+    db.prepare('DELETE FROM memory_threads WHERE id = ?').bind(id),
+  ]);
+  if (results.length > 0) {
+    await getVectorizeOps().deleteByIds(results.map((row) => row.embedding_id));
+  }
+  return deleted.meta.changes > 0;
+}
+
+/**
+ * Add a message to a thread. With an `embedding`, the vector is stored in
+ * Vectorize under the message's `embedding_id`, tagged with the thread.
+ */
+export async function createD1Message(
+  threadId: string,
+  role: string,
+  content: string,
+  options: {
+    metadata?: Record<string, unknown>;
+    tool_call_id?: string;
+    tool_name?: string;
+    token_count?: number;
+    embedding?: number[];
+  } = {}
+): Promise<MessageRecord> {
+  const row: MessageRow = {
+    id: generateId(),
+    memory_thread_id: threadId,
+    role,
+    content,
+    tool_call_id: options.tool_call_id ?? null,
+    tool_name: options.tool_name ?? null,
+    token_count: options.token_count ?? null,
+    embedding_id: null,
+    metadata: JSON.stringify(options.metadata ?? {}),
+    created_at: Date.now(),
+  };
+  if (options.embedding) {
+    row.embedding_id = generateId();
+    await getVectorizeOps().upsert([
+      {
+        id: row.embedding_id,
+        values: options.embedding,
+        metadata: { thread_id: threadId, message_id: row.id, role },
+      },
+    ]);
+  }
+  const db = getDatabase();
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO memory_messages (id, memory_thread_id, role, content, tool_call_id, tool_name, token_count, embedding_id, metadata, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        row.id,
+        row.memory_thread_id,
+        row.role,
+        row.content,
+        row.tool_call_id,
+        row.tool_name,
+        row.token_count,
+        row.embedding_id,
+        row.metadata,
+        row.created_at
+      ),
+    db
+      .prepare('UPDATE memory_threads SET updated_at = ? WHERE id = ?')
+      .bind(row.created_at, threadId),
+  ]);
+  return toMessageRecord(row);
+}
+
+/**
+ * Get the messages of a thread, oldest first.
+ * @param limit - Return only the first `limit` messages
+ */
+export async function getD1MessagesByThreadId(
+  threadId: string,
+  limit?: number
+): Promise<MessageRecord[]> {
+  const { results } = await getDatabase()
+    .prepare(
+      `SELECT * FROM memory_messages WHERE memory_thread_id = ?
+       ORDER BY created_at ASC, rowid ASC
+       LIMIT ?`
+    )
+    .bind(threadId, limit ?? -1)
+    .all<MessageRow>();
+  return results.map(toMessageRecord);
+}
+
+/**
+ * Store a standalone vector in Vectorize.
+ */
+export async function saveVectorizeEmbedding(
+  vector: number[],
+  model?: string
+): Promise<string> {
+  const id = generateId();
+  await getVectorizeOps().upsert([
+    {
+      id,
+      values: vector,
+      metadata: {
+        model: model || 'default',
+        created_at: new Date().toISOString(),
+      },
+    },
+  ]);
+  return id;
+}
+
+export async function getVectorizeEmbedding(
+  id: string
+): Promise<{ vector: number[]; model?: string } | null> {
+  const [record] = await getVectorizeOps().getByIds([id]);
+  if (!record) return null;
+  const model = record.metadata?.model;
+  return {
+    vector: record.values,
+    model: typeof model === 'string' ? model : undefined,
+  };
+}
+
+export async function saveD1AgentState(
+  threadId: string,
+  agentId: string,
+  state: Record<string, unknown>
+): Promise<void> {
+  const now = Date.now();
+  await getDatabase()
+    .prepare(
+      `INSERT INTO agent_states (memory_thread_id, agent_id, state_data, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (memory_thread_id, agent_id)
+       DO UPDATE SET state_data = excluded.state_data, updated_at = excluded.updated_at`
+    )
+    .bind(threadId, agentId, JSON.stringify(state), now, now)
+    .run();
+}
+
+export async function loadD1AgentState(
+  threadId: string,
+  agentId: string
+): Promise<Record<string, unknown> | null> {
+  const row = await getDatabase()
+    .prepare(
+      'SELECT state_data FROM agent_states WHERE memory_thread_id = ? AND agent_id = ?'
+    )
+    .bind(threadId, agentId)
+    .first<{ state_data: string }>();
+  return row ? JSON.parse(row.state_data) : null;
+}
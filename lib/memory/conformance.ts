@@ -0,0 +1,341 @@
+/**
+ * Memory Provider Conformance Suite
+ *
+ * The same scenarios (thread lifecycle, message ordering, agent state,
+ * embeddings, cascading deletes) run against any `MemoryInterface`, so every
+ * provider behind `createMemory` is held to the same contract. Providers that
+ * are not reachable are skipped; `cloudflare` falls back to the local
+ * stand-ins (SQLite for D1, an in-memory Vectorize index) when no binding is
+ * configured. `pnpm test:memory` (./run-conformance.ts) runs the suite
+ * from the command line.
+ *
+ * @example
+ * ```typescript
+ * const reports = await runProviderConformance();
+ * for (const report of reports) {
+ *   console.log(report.provider, report.skipped ? 'skipped' : report.failed);
+ * }
+ * ```
+ */
+
+import { generateId } from 'ai';
+import {
+  createMemory,
+  isMemoryAvailable,
+  type MemoryInterface,
+  type MemoryProvider,
+} from './factory';
+import {
+  configureCloudflareMemory,
+  isCloudflareMemoryAvailable,
+} from './cloudflare/memory';
+import { createLocalCloudflareMemoryBindings } from './cloudflare/local';
+
+export interface ConformanceOptions {
+  /**
+   * Agent to own the test threads. Providers with a foreign key from threads
+   * to agents (Supabase) need an existing one.
+   */
+  agentId?: string;
+}
+
+export interface ConformanceResult {
+  scenario: string;
+  passed: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ConformanceReport {
+  provider: string;
+  skipped: boolean;
+  reason?: string;
+  passed: number;
+  failed: number;
+  results: ConformanceResult[];
+}
+
+interface ScenarioContext {
+  memory: MemoryInterface;
+  agentId: string;
+  /** Threads created by the scenario, deleted afterwards */
+  threads: string[];
+}
+
+type Scenario = (context: ScenarioContext) => Promise<void>;
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function parseMetadata(metadata: unknown): Record<string, unknown> {
+  if (!metadata) return {};
+  return typeof metadata === 'string'
+    ? JSON.parse(metadata)
+    : (metadata as Record<string, unknown>);
+}
+
+async function createThread(
+  context: ScenarioContext,
+  metadata?: Record<string, string>
+): Promise<string> {
+  const id = await context.memory.createMemoryThread(
+    `conformance-${generateId()}`,
+    { agent_id: context.agentId, metadata }
+  );
+  context.threads.push(id);
+  return id;
+}
+
+/** Scenarios every provider must pass, by name. */
+export const memoryConformanceScenarios: Record<string, Scenario> = {
+  'creates and reads a thread': async (context) => {
+    const id = await createThread(context, { topic: 'billing' });
+    const thread = await context.memory.getMemoryThread(id);
+    assert(thread, 'created thread not found');
+    assert(thread.id === id, `expected id ${id}, got ${thread.id}`);
+    assert(thread.name?.startsWith('conformance-'), 'thread name not stored');
+    assert(
+      thread.agent_id === context.agentId,
+      `expected agent_id ${context.agentId}, got ${thread.agent_id}`
+    );
+    assert(
+      parseMetadata(thread.metadata).topic === 'billing',
+      'thread metadata not stored'
+    );
+  },
+
+  'returns null for an unknown thread': async ({ memory }) => {
+    const thread = await memory.getMemoryThread(generateId());
+    assert(thread === null, 'expected null for an unknown thread');
+  },
+
+  'updates a thread': async (context) => {
+    const id = await createThread(context);
+    const updated = await context.memory.updateMemoryThread(id, {
+      name: 'renamed',
+      metadata: { status: 'closed' },
+    });
+    assert(updated, 'updateMemoryThread returned false');
+    const thread = await context.memory.getMemoryThread(id);
+    assert(
+      thread?.name === 'renamed',
+      `expected name renamed, got ${thread?.name}`
+    );
+    assert(
+      parseMetadata(thread.metadata).status === 'closed',
+      'thread metadata not updated'
+    );
+  },
+
+  'lists threads by agent': async (context) => {
+    const first = await createThread(context);
+    const second = await createThread(context);
+    const threads = await context.memory.listMemoryThreads({
+      limit: 100,
+      filters: { agent_id: context.agentId },
+    });
+    const ids = threads.map((thread) => thread.id);
+    assert(
+      ids.includes(first) && ids.includes(second),
+      'listed threads are missing created ones'
+    );
+    assert(
+      threads.every((thread) => thread.agent_id === context.agentId),
+      'listed threads include other agents'
+    );
+  },
+
+  'saves and loads messages in order': async (context) => {
+    const id = await createThread(context);
+    const contents = ['first', 'second', 'third'];
+    const roles = ['user', 'assistant', 'user'] as const;
+    const messageIds: string[] = [];
+    for (let i = 0; i < contents.length; i++) {
+      messageIds.push(
+        await context.memory.saveMessage(id, roles[i], contents[i], {
+          metadata: { position: i },
+        })
+      );
+    }
+    assert(
+      new Set(messageIds).size === messageIds.length,
+      'message ids are not unique'
+    );
+    const messages = await context.memory.loadMessages(id);
+    assert(
+      messages.length === contents.length,
+      `expected ${contents.length} messages, got ${messages.length}`
+    );
+    messages.forEach((message, i) => {
+      assert(
+        message.content === contents[i] && message.role === roles[i],
+        `message ${i} is "${message.role}: ${message.content}", expected "${roles[i]}: ${contents[i]}"`
+      );
+      assert(message.id === messageIds[i], `message ${i} has another id`);
+      assert(
+        parseMetadata(message.metadata).position === i,
+        `message ${i} metadata not stored`
+      );
+    });
+    const limited = await context.memory.loadMessages(id, 2);
+    assert(limited.length <= 2, `limit 2 returned ${limited.length} messages`);
+  },
+
+  'keeps messages of threads apart': async (context) => {
+    const first = await createThread(context);
+    const second = await createThread(context);
+    await context.memory.saveMessage(first, 'user', 'only in first');
+    const messages = await context.memory.loadMessages(second);
+    assert(messages.length === 0, 'a message leaked into another thread');
+  },
+
+  'saves, overwrites and isolates agent state': async (context) => {
+    const { memory, agentId } = context;
+    assert(
+      memory.saveAgentState && memory.loadAgentState,
+      'agent state operations are missing'
+    );
+    const id = await createThread(context);
+    const missing = await memory.loadAgentState(id, agentId);
+    assert(
+      !missing || Object.keys(missing).length === 0,
+      'expected no state before saving'
+    );
+    await memory.saveAgentState(id, agentId, { step: 1, plan: ['a', 'b'] });
+    await memory.saveAgentState(id, agentId, { step: 2, plan: ['b'] });
+    const state = await memory.loadAgentState(id, agentId);
+    assert(
+      JSON.stringify(state) === JSON.stringify({ step: 2, plan: ['b'] }),
+      `expected the latest state, got ${JSON.stringify(state)}`
+    );
+    const other = await memory.loadAgentState(id, generateId());
+    assert(
+      !other || Object.keys(other).length === 0,
+      'agent state leaked to another agent'
+    );
+  },
+
+  'saves an embedding': async ({ memory }) => {
+    assert(memory.saveEmbedding, 'saveEmbedding is missing');
+    const vector = new Float32Array([0.1, 0.2, 0.3, 0.4]);
+    const first = await memory.saveEmbedding(vector, 'conformance');
+    const second = await memory.saveEmbedding(vector, 'conformance');
+    assert(typeof first === 'string' && first.length > 0, 'no embedding id');
+    assert(first !== second, 'embedding ids are not unique');
+  },
+
+  'deletes a thread with its messages and state': async (context) => {
+    const { memory, agentId } = context;
+    const id = await createThread(context);
+    await memory.saveMessage(id, 'user', 'to be deleted');
+    await memory.saveAgentState?.(id, agentId, { step: 1 });
+    const deleted = await memory.deleteMemoryThread(id);
+    assert(deleted, 'deleteMemoryThread returned false');
+    assert(
+      (await memory.getMemoryThread(id)) === null,
+      'thread still found after delete'
+    );
+    const messages = await memory.loadMessages(id);
+    assert(messages.length === 0, 'messages survived the thread');
+    const state = await memory.loadAgentState?.(id, agentId);
+    assert(
+      !state || Object.keys(state).length === 0,
+      'agent state survived the thread'
+    );
+  },
+};
+
+/**
+ * Run the conformance scenarios against a memory instance. Scenarios run one
+ * at a time and each deletes the threads it created.
+ *
+ * @param memory - Memory to check, preferably without caching
+ * @param provider - Name for the report
+ */
+export async function runMemoryConformance(
+  memory: MemoryInterface,
+  provider = 'custom',
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const agentId = options.agentId ?? generateId();
+  const results: ConformanceResult[] = [];
+
+  for (const [scenario, run] of Object.entries(memoryConformanceScenarios)) {
+    const context: ScenarioContext = { memory, agentId, threads: [] };
+    const start = Date.now();
+    try {
+      await run(context);
+      results.push({ scenario, passed: true, durationMs: Date.now() - start });
+    } catch (error) {
+      results.push({
+        scenario,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - start,
+      });
+    }
+    for (const threadId of context.threads) {
+      await memory.deleteMemoryThread(threadId).catch(() => false);
+    }
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    provider,
+    skipped: false,
+    passed,
+    failed: results.length - passed,
+    results,
+  };
+}
+
+/**
+ * Run the conformance scenarios against each provider through
+ * `createMemory` (caching off). Unreachable providers are reported as
+ * skipped.
+ *
+ * @param providers - Providers to check (default: all)
+ */
+export async function runProviderConformance(
+  providers: MemoryProvider[] = ['libsql', 'upstash', 'supabase', 'cloudflare'],
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport[]> {
+  const reports: ConformanceReport[] = [];
+
+  for (const provider of providers) {
+    let usingLocalStandIns = false;
+    if (provider === 'cloudflare' && !(await isCloudflareMemoryAvailable())) {
+      configureCloudflareMemory(await createLocalCloudflareMemoryBindings());
+      usingLocalStandIns = true;
+    }
+
+    try {
+      const available = await isMemoryAvailable(provider).catch(() => false);
+      if (!available) {
+        reports.push({
+          provider,
+          skipped: true,
+          reason: 'provider is not reachable with the current configuration',
+          passed: 0,
+          failed: 0,
+          results: [],
+        });
+        continue;
+      }
+
+      const memory = createMemory({ enabled: false }, provider);
+      reports.push(
+        await runMemoryConformance(
+          memory,
+          usingLocalStandIns ? `${provider} (local)` : provider,
+          options
+        )
+      );
+    } finally {
+      if (usingLocalStandIns) configureCloudflareMemory(null);
+    }
+  }
+
+  return reports;
+}
@@ -0,0 +1,377 @@
+/**
+ * Context Window Manager
+ *
+ * Assembles the messages sent to a model for a long thread within the
+ * model's context length (`ModelSettings.context_window`, less the tokens
+ * reserved for the answer). System messages and the most recent turns are
+ * kept verbatim. Older turns are replaced by a rolling summary, cached in the
+ * thread's metadata (`context_summary`) and extended incrementally as more
+ * turns age out, and, when `relevantMessages` is set, the older messages most
+ * relevant to the current input are pulled back in with
+ * `semanticSearchMemory`. Tokens are measured with
+ * `countTokens`.
+ */
+
+import { generateText, type CoreMessage, type LanguageModel } from 'ai';
+import {
+  ContextWindowConfigSchema,
+  type ContextWindowConfig,
+} from '../agents/agent.types';
+import { countTokens } from '../ai-integration';
+import type { ModelSettings } from '../models/model-registry';
+import { getLibSQLClient } from './db';
+import { semanticSearchMemory } from './memory';
+import { upstashLogger } from './upstash/upstash-logger';
+
+/** A stored thread message, as returned by `loadMessages`. */
+export interface ContextMessage {
+  id?: string;
+  role: string;
+  content: string;
+  token_count?: number | null;
+}
+
+/** Rolling summary cached in the thread metadata. */
+export interface ContextSummary {
+  text: string;
+  /** Id of the last message folded into the summary */
+  coveredMessageId: string;
+  coveredMessages: number;
+  tokenCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Folds messages into a running summary.
+ *
+ * @param previousSummary - Summary of the turns before `messages`, if any
+ * @param messages - Turns to add to the summary, oldest first
+ * @param maxTokens - Target summary length
+ */
+export type ThreadSummarizer = (
+  previousSummary: string | undefined,
+  messages: ContextMessage[],
+  maxTokens: number
+) => Promise<string>;
+
+export interface AssembleContextOptions extends ContextWindowConfig {
+  threadId: string;
+  /** The thread, oldest first, including the new input */
+  messages: ContextMessage[];
+  /** Model the context is for; its context_window and max_tokens set the budget */
+  modelSettings: Pick<ModelSettings, 'context_window' | 'max_tokens'>;
+  /** Answer length to reserve (default: modelSettings.max_tokens) */
+  maxOutputTokens?: number;
+  /** Model used by the default summarizer */
+  summaryModel?: LanguageModel;
+  /** Custom summarizer (takes precedence over summaryModel) */
+  summarize?: ThreadSummarizer;
+  /** Text to find relevant older messages for (default: last user message) */
+  query?: string;
+}
+
+/** The messages to send and how they were chosen. */
+export interface AssembledContext {
+  messages: CoreMessage[];
+  tokenCount: number;
+  budget: number;
+  summary?: ContextSummary;
+  /** Ids of older messages pulled back in */
+  recalledMessageIds: string[];
+  /** Number of older messages represented only by the summary */
+  summarizedMessages: number;
+}
+
+// Chat formatting overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Largest span of messages folded into the summary in one call
+const SUMMARY_CHUNK_TOKENS = 8000;
+
+function messageTokens(message: ContextMessage): number {
+  return (
+    (message.token_count || countTokens(message.content)) +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+function formatTranscript(messages: ContextMessage[]): string {
+  return messages
+    .map((message) => {
+      const role =
+        message.role === 'tool'
+          ? 'Tool'
+          : message.role.charAt(0).toUpperCase() + message.role.slice(1);
+      return `${role}: ${message.content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Create a summarizer that folds turns into the running summary with a
+ * language model.
+ *
+ * @param model - Model to summarize with (a small, cheap one is enough)
+ */
+export function createThreadSummarizer(model: LanguageModel): ThreadSummarizer {
+  return async (previousSummary, messages, maxTokens) => {
+    const { text } = await generateText({
+      model,
+      temperature: 0.3,
+      maxTokens,
+      system: `You maintain a running summary of a conversation. Keep the key facts, decisions, open questions, names and numbers the conversation may refer back to. Write at most ${Math.round(maxTokens * 0.75)} words, in the third person, without preamble.`,
+      prompt: previousSummary
+        ? `Current summary:\n${previousSummary}\n\nUpdate it with these later messages:\n\n${formatTranscript(messages)}`
+        : `Summarize these messages:\n\n${formatTranscript(messages)}`,
+    });
+    return text.trim();
+  };
+}
+
+/**
+ * Get the rolling summary cached for a thread.
+ */
+export async function getContextSummary(
+  threadId: string
+): Promise<ContextSummary | undefined> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT metadata FROM memory_threads WHERE id = ?',
+    args: [threadId],
+  });
+  if (result.rows.length === 0) return undefined;
+  const metadata = JSON.parse((result.rows[0].metadata as string) || '{}');
+  return metadata.context_summary;
+}
+
+// Store the rolling summary, keeping the rest of the thread metadata
+async function saveContextSummary(
+  threadId: string,
+  summary: ContextSummary
+): Promise<void> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: 'SELECT metadata FROM memory_threads WHERE id = ?',
+    args: [threadId],
+  });
+  if (result.rows.length === 0) return;
+  const metadata = JSON.parse((result.rows[0].metadata as string) || '{}');
+  await db.execute({
+    sql: 'UPDATE memory_threads SET metadata = ? WHERE id = ?',
+    args: [JSON.stringify({ ...metadata, context_summary: summary }), threadId],
+  });
+}
+
+/**
+ * Bring the cached summary up to date with the older messages
+ * (`conversation` before `start`), folding in only the messages it does not
+ * cover yet.
+ */
+async function updateSummary(
+  threadId: string,
+  conversation: ContextMessage[],
+  start: number,
+  cached: ContextSummary | undefined,
+  summarize: ThreadSummarizer,
+  summaryTokens: number
+): Promise<ContextSummary> {
+  const coveredIndex = cached
+    ? conversation.findIndex(
+        (message) => message.id === cached.coveredMessageId
+      )
+    : -1;
+  // Already covered, possibly reaching into the recent turns
+  if (cached && coveredIndex >= start - 1) return cached;
+
+  let text = coveredIndex === -1 ? undefined : cached?.text;
+  let next = coveredIndex + 1;
+  while (next < start) {
+    let end = next;
+    let chunkTokens = 0;
+    do {
+      chunkTokens += messageTokens(conversation[end]);
+      end++;
+    } while (
+      end < start &&
+      chunkTokens + messageTokens(conversation[end]) <= SUMMARY_CHUNK_TOKENS
+    );
+    text = await summarize(text, conversation.slice(next, end), summaryTokens);
+    next = end;
+  }
+
+  const summary: ContextSummary = {
+    text: text ?? '',
+    coveredMessageId: conversation[start - 1].id ?? '',
+    coveredMessages: start,
+    tokenCount: countTokens(text ?? ''),
+    updatedAt: new Date().toISOString(),
+  };
+  await saveContextSummary(threadId, summary);
+  return summary;
+}
+
+/**
+ * Assemble the messages to send for a thread within the model's context
+ * length.
+ *
+ * The whole thread is returned unchanged when it fits. Otherwise the budget
+ * goes, in order, to system messages, the most recent turns (up to
+ * `recentShare` of the budget, at least `minRecentMessages`), the rolling
+ * summary of everything older and, with what is left, the older messages
+ * most similar to the current input. Without a summarizer, or when it
+ * fails, the cached summary is used as is; a failing search is skipped.
+ */
+export async function assembleContext(
+  options: AssembleContextOptions
+): Promise<AssembledContext> {
+  const config = ContextWindowConfigSchema.parse(options);
+  const { threadId, messages, modelSettings } = options;
+  const outputTokens = options.maxOutputTokens ?? modelSettings.max_tokens;
+  const budget = Math.max(
+    modelSettings.context_window - outputTokens - config.reservedTokens,
+    0
+  );
+
+  const toCore = (message: ContextMessage) =>
+    ({ role: message.role, content: message.content }) as CoreMessage;
+  const system = messages.filter((message) => message.role === 'system');
+  const conversation = messages.filter((message) => message.role !== 'system');
+  const systemTokens = system.reduce(
+    (total, message) => total + messageTokens(message),
+    0
+  );
+  const conversationTokens = conversation.map(messageTokens);
+  const totalTokens =
+    systemTokens + conversationTokens.reduce((total, n) => total + n, 0);
+
+  if (!config.enabled || totalTokens <= budget) {
+    return {
+      messages: messages.map(toCore),
+      tokenCount: totalTokens,
+      budget,
+      recalledMessageIds: [],
+      summarizedMessages: 0,
+    };
+  }
+
+  // Recent turns, newest first, until their share of the budget is used
+  let remaining = budget - systemTokens;
+  const recentBudget = remaining * config.recentShare;
+  let start = conversation.length;
+  let recentTokens = 0;
+  while (start > 0) {
+    const tokens = conversationTokens[start - 1];
+    const kept = conversation.length - start;
+    if (recentTokens + tokens > remaining) break;
+    if (
+      recentTokens + tokens > recentBudget &&
+      kept >= config.minRecentMessages
+    )
+      break;
+    recentTokens += tokens;
+    start--;
+  }
+  // Do not open the window on a tool result cut off from its call
+  while (start < conversation.length && conversation[start].role === 'tool') {
+    recentTokens -= conversationTokens[start];
+    start++;
+  }
+  remaining -= recentTokens;
+  const older = conversation.slice(0, start);
+  const recent = conversation.slice(start);
+
+  const summarize =
+    options.summarize ??
+    (options.summaryModel
+      ? createThreadSummarizer(options.summaryModel)
+      : undefined);
+  let summary: ContextSummary | undefined;
+  let summaryMessage: CoreMessage | undefined;
+  if (older.length > 0) {
+    try {
+      summary = await getContextSummary(threadId);
+      if (summarize) {
+        summary = await updateSummary(
+          threadId,
+          conversation,
+          start,
+          summary,
+          summarize,
+          config.summaryTokens
+        );
+      }
+    } catch (error) {
+      upstashLogger.warn(
+        'memory',
+        `Failed to update the summary of thread ${threadId}; using the cached one: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    if (summary?.text) {
+      summaryMessage = {
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${summary.text}`,
+      };
+      const tokens = countTokens(summaryMessage.content as string);
+      if (tokens + MESSAGE_OVERHEAD_TOKENS <= remaining) {
+        remaining -= tokens + MESSAGE_OVERHEAD_TOKENS;
+      } else {
+        summaryMessage = undefined;
+      }
+    }
+  }
+
+  // Older messages relevant to the current input, in thread order
+  const recalled: ContextMessage[] = [];
+  const query =
+    options.query ??
+    [...recent].reverse().find((message) => message.role === 'user')?.content;
+  if (config.relevantMessages > 0 && older.length > 0 && query) {
+    try {
+      const olderIds = new Set(older.map((message) => message.id));
+      const matches = await semanticSearchMemory(query, {
+        thread_id: threadId,
+        limit: config.relevantMessages + recent.length,
+      });
+      let recallTokens = MESSAGE_OVERHEAD_TOKENS;
+      for (const { message, similarity } of matches) {
+        if (similarity < config.relevanceThreshold) break;
+        if (!olderIds.has(message.id)) continue;
+        const tokens = messageTokens(message);
+        if (recallTokens + tokens > remaining) continue;
+        recalled.push(message);
+        recallTokens += tokens;
+        if (recalled.length >= config.relevantMessages) break;
+      }
+      if (recalled.length > 0) remaining -= recallTokens;
+    } catch (error) {
+      upstashLogger.warn(
+        'memory',
+        `Semantic recall failed for thread ${threadId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+  const order = new Map(older.map((message, index) => [message.id, index]));
+  recalled.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  const assembled: CoreMessage[] = system.map(toCore);
+  if (summaryMessage) assembled.push(summaryMessage);
+  if (recalled.length > 0) {
+    assembled.push({
+      role: 'system',
+      content: `Relevant earlier messages:\n\n${formatTranscript(recalled)}`,
+    });
+  }
+  assembled.push(...recent.map(toCore));
+
+  return {
+    messages: assembled,
+    tokenCount: budget - remaining,
+    budget,
+    summary: summaryMessage ? summary : undefined,
+    recalledMessageIds: recalled.map((message) => message.id!),
+    summarizedMessages: summaryMessage ? older.length : 0,
+  };
+}
@@ -0,0 +1,431 @@
+/**
+ * Embedding Namespaces
+ *
+ * Vectors in the LibSQL `embeddings` table are grouped into namespaces
+ * (`default` unless a caller names one). The first vector saved into a
+ * namespace binds it to that vector's model and size; after that,
+ * `saveEmbedding` refuses vectors from any other model or of any other
+ * size, because similarities across models are meaningless. Readers and
+ * writers embed with `getNamespaceProvider`, so changing the default
+ * provider does not break namespaces that already hold vectors.
+ *
+ * A re-embed job moves a namespace to another provider: it re-embeds, in
+ * place, every vector whose text is still known (the `documents` or
+ * `messages` row pointing at it), then rebinds the namespace. Vectors saved
+ * while the job runs are picked up before it finishes. Jobs run in the
+ * background, one at a time per namespace.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getLibSQLClient } from './db';
+import {
+  EmbeddingProviderError,
+  embedTexts,
+  findEmbeddingProvider,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddings';
+import { upstashLogger } from './upstash/upstash-logger';
+
+export const DEFAULT_EMBEDDING_NAMESPACE = 'default';
+
+/** The model and vector size a namespace holds. */
+export interface NamespaceBinding {
+  namespace: string;
+  model: string;
+  dimensions: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReembedJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ReembedJob {
+  id: string;
+  namespace: string;
+  /** Registry name of the provider the namespace moves to */
+  provider: string;
+  model: string;
+  dimensions: number;
+  status: ReembedJobStatus;
+  /** Vectors to re-embed */
+  total: number;
+  processed: number;
+  /** Vectors left as they are because their text is gone */
+  skipped: number;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Thrown when a vector does not match the model or size its namespace is
+ * bound to
+ */
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    public readonly binding: NamespaceBinding,
+    public readonly model: string,
+    public readonly dimensions: number
+  ) {
+    super(
+      `Namespace ${binding.namespace} holds ${binding.model} vectors (${binding.dimensions} dimensions); ` +
+        `refusing a ${model} vector (${dimensions} dimensions). ` +
+        `Start a re-embed job to move the namespace to ${model}.`
+    );
+    this.name = 'EmbeddingMismatchError';
+    Object.setPrototypeOf(this, EmbeddingMismatchError.prototype);
+  }
+}
+
+const REEMBED_BATCH_SIZE = 100;
+
+/* ─────────────────────────────  rows  ───────────────────────────── */
+
+function rowToBinding(row: Record<string, unknown>): NamespaceBinding {
+  return {
+    namespace: row.namespace as string,
+    model: row.model as string,
+    dimensions: Number(row.dimensions),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToJob(row: Record<string, unknown>): ReembedJob {
+  return {
+    id: row.id as string,
+    namespace: row.namespace as string,
+    provider: row.provider as string,
+    model: row.model as string,
+    dimensions: Number(row.dimensions),
+    status: row.status as ReembedJobStatus,
+    total: Number(row.total),
+    processed: Number(row.processed),
+    skipped: Number(row.skipped),
+    error: (row.error as string) || undefined,
+    createdAt: row.created_at as string,
+    startedAt: (row.started_at as string) || undefined,
+    finishedAt: (row.finished_at as string) || undefined,
+  };
+}
+
+/* ─────────────────────────────  bindings  ───────────────────────────── */
+
+// Bindings read by this process; a namespace is only rebound by a re-embed job
+const bindings = new Map<string, NamespaceBinding>();
+
+export async function getNamespaceBinding(
+  namespace: string
+): Promise<NamespaceBinding | null> {
+  const cached = bindings.get(namespace);
+  if (cached) return cached;
+
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM embedding_namespaces WHERE namespace = ?',
+    args: [namespace],
+  });
+  if (result.rows.length === 0) return null;
+  const binding = rowToBinding(result.rows[0]);
+  bindings.set(namespace, binding);
+  return binding;
+}
+
+export async function listNamespaceBindings(): Promise<NamespaceBinding[]> {
+  const result = await getLibSQLClient().execute(
+    'SELECT * FROM embedding_namespaces ORDER BY namespace'
+  );
+  return result.rows.map(rowToBinding);
+}
+
+async function bindNamespace(
+  namespace: string,
+  model: string,
+  dimensions: number
+): Promise<void> {
+  const now = new Date().toISOString();
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO embedding_namespaces (namespace, model, dimensions, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(namespace) DO UPDATE SET
+            model = excluded.model,
+            dimensions = excluded.dimensions,
+            updated_at = excluded.updated_at`,
+    args: [namespace, model, dimensions, now, now],
+  });
+  bindings.delete(namespace);
+}
+
+/**
+ * Check that a vector may be saved into a namespace, binding the namespace
+ * to its model and size if it is new
+ *
+ * @throws {EmbeddingMismatchError} if the namespace holds another model or
+ *         size
+ */
+export async function assertNamespaceVector(
+  namespace: string,
+  model: string,
+  dimensions: number
+): Promise<void> {
+  let binding = await getNamespaceBinding(namespace);
+  if (!binding) {
+    // The first writer wins; re-read in case it was another process
+    const now = new Date().toISOString();
+    await getLibSQLClient().execute({
+      sql: `INSERT OR IGNORE INTO embedding_namespaces (namespace, model, dimensions, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?)`,
+      args: [namespace, model, dimensions, now, now],
+    });
+    binding = (await getNamespaceBinding(namespace))!;
+  }
+
+  if (binding.model !== model || binding.dimensions !== dimensions) {
+    throw new EmbeddingMismatchError(binding, model, dimensions);
+  }
+}
+
+/**
+ * The provider to embed with for a namespace: the default provider for a
+ * new namespace, otherwise one that serves the model it is bound to
+ *
+ * @throws {EmbeddingProviderError} if no registered provider serves that model
+ */
+export async function getNamespaceProvider(
+  namespace = DEFAULT_EMBEDDING_NAMESPACE
+): Promise<EmbeddingProvider> {
+  const binding = await getNamespaceBinding(namespace);
+  const fallback = getEmbeddingProvider();
+  if (
+    !binding ||
+    (fallback.model === binding.model &&
+      fallback.dimensions === binding.dimensions)
+  ) {
+    return fallback;
+  }
+
+  const provider = findEmbeddingProvider(binding.model);
+  if (!provider || provider.dimensions !== binding.dimensions) {
+    throw new EmbeddingProviderError(
+      `No registered embedding provider serves ${binding.model} (${binding.dimensions} dimensions) for namespace ${namespace}; register one or re-embed the namespace`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Embed texts with the namespace's provider; save the vectors with the
+ * returned `model`
+ */
+export async function embedForNamespace(
+  namespace: string,
+  texts: string[]
+): Promise<{ model: string; vectors: Float32Array[] }> {
+  const provider = await getNamespaceProvider(namespace);
+  return {
+    model: provider.model,
+    vectors: await embedTexts(texts, provider.name),
+  };
+}
+
+/* ─────────────────────────────  re-embed jobs  ───────────────────────────── */
+
+// Vectors of a namespace, joined to the document or message text they were
+// embedded from
+const NAMESPACE_VECTORS_SQL = `
+  FROM embeddings e
+  LEFT JOIN documents d ON d.embedding_id = e.id
+  LEFT JOIN messages m ON m.embedding_id = e.id
+  WHERE COALESCE(e.namespace, '${DEFAULT_EMBEDDING_NAMESPACE}') = ?`;
+
+// Per namespace, the tail of its queue of jobs
+const jobQueues = new Map<string, Promise<void>>();
+// Per job, a promise settled when the job has finished
+const pendingJobs = new Map<string, Promise<void>>();
+
+export async function getReembedJob(id: string): Promise<ReembedJob | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM reembed_jobs WHERE id = ?',
+    args: [id],
+  });
+  return result.rows.length > 0 ? rowToJob(result.rows[0]) : null;
+}
+
+export async function listReembedJobs(
+  namespace?: string,
+  limit = 50
+): Promise<ReembedJob[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM reembed_jobs
+          ${namespace ? 'WHERE namespace = ?' : ''}
+          ORDER BY created_at DESC LIMIT ?`,
+    args: namespace ? [namespace, limit] : [limit],
+  });
+  return result.rows.map(rowToJob);
+}
+
+async function saveJobProgress(job: ReembedJob): Promise<void> {
+  await getLibSQLClient().execute({
+    sql: `UPDATE reembed_jobs SET
+            status = ?, total = ?, processed = ?, skipped = ?, error = ?,
+            started_at = ?, finished_at = ?
+          WHERE id = ?`,
+    args: [
+      job.status,
+      job.total,
+      job.processed,
+      job.skipped,
+      job.error ?? null,
+      job.startedAt ?? null,
+      job.finishedAt ?? null,
+      job.id,
+    ],
+  });
+}
+
+async function runReembedJob(job: ReembedJob): Promise<void> {
+  const db = getLibSQLClient();
+  const stale = `${NAMESPACE_VECTORS_SQL}
+    AND (e.model IS NOT ? OR e.dimensions IS NOT ?)`;
+  const staleArgs = [job.namespace, job.model, job.dimensions];
+
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  try {
+    const counts = await db.execute({
+      sql: `SELECT
+              COUNT(CASE WHEN COALESCE(d.content, m.content) IS NOT NULL THEN 1 END) AS total,
+              COUNT(CASE WHEN COALESCE(d.content, m.content) IS NULL THEN 1 END) AS skipped
+            ${stale}`,
+      args: staleArgs,
+    });
+    job.total = Number(counts.rows[0].total);
+    job.skipped = Number(counts.rows[0].skipped);
+    await saveJobProgress(job);
+
+    // Each pass only selects vectors still on another model, so vectors
+    // saved meanwhile are picked up and the loop ends when none are left
+    for (;;) {
+      const batch = await db.execute({
+        sql: `SELECT e.id, COALESCE(d.content, m.content) AS content
+              ${stale} AND COALESCE(d.content, m.content) IS NOT NULL
+              LIMIT ?`,
+        args: [...staleArgs, REEMBED_BATCH_SIZE],
+      });
+      if (batch.rows.length === 0) break;
+
+      const vectors = await embedTexts(
+        batch.rows.map((row) => row.content as string),
+        job.provider
+      );
+      for (const [i, row] of batch.rows.entries()) {
+        await db.execute({
+          sql: 'UPDATE embeddings SET vector = ?, model = ?, dimensions = ? WHERE id = ?',
+          args: [
+            Buffer.from(
+              vectors[i].buffer,
+              vectors[i].byteOffset,
+              vectors[i].byteLength
+            ),
+            job.model,
+            job.dimensions,
+            row.id as string,
+          ],
+        });
+      }
+      job.processed += batch.rows.length;
+      job.total = Math.max(job.total, job.processed);
+      await saveJobProgress(job);
+    }
+
+    await bindNamespace(job.namespace, job.model, job.dimensions);
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+  job.finishedAt = new Date().toISOString();
+  await saveJobProgress(job);
+
+  upstashLogger.info('embeddings', `Re-embed job ${job.status}`, {
+    namespace: job.namespace,
+    jobId: job.id,
+    model: job.model,
+    processed: job.processed,
+    skipped: job.skipped,
+  });
+}
+
+/**
+ * Queue a job that moves a namespace to another provider. The job runs in
+ * the background after the namespace's earlier jobs; poll it with
+ * `getReembedJob` or await it with `waitForReembedJob`.
+ *
+ * @throws {EmbeddingProviderError} if the provider is not registered
+ */
+export async function startReembedJob(
+  namespace: string,
+  providerName: string
+): Promise<ReembedJob> {
+  const provider = getEmbeddingProvider(providerName);
+
+  const job: ReembedJob = {
+    id: uuidv4(),
+    namespace,
+    provider: providerName,
+    model: provider.model,
+    dimensions: provider.dimensions,
+    status: 'queued',
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO reembed_jobs (id, namespace, provider, model, dimensions, status, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      job.id,
+      namespace,
+      providerName,
+      job.model,
+      job.dimensions,
+      job.status,
+      job.createdAt,
+    ],
+  });
+
+  const previous = jobQueues.get(namespace) ?? Promise.resolve();
+  const next = previous
+    .then(() => runReembedJob(job))
+    .catch((error) => {
+      upstashLogger.warn(
+        'embeddings',
+        `Re-embed job ${job.id} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    })
+    .finally(() => {
+      pendingJobs.delete(job.id);
+      if (jobQueues.get(namespace) === next) {
+        jobQueues.delete(namespace);
+      }
+    });
+  jobQueues.set(namespace, next);
+  pendingJobs.set(job.id, next);
+
+  return { ...job };
+}
+
+/**
+ * Wait for a job started by this process to finish and return its final
+ * state
+ */
+export async function waitForReembedJob(
+  id: string
+): Promise<ReembedJob | null> {
+  await pendingJobs.get(id);
+  return getReembedJob(id);
+}
@@ -0,0 +1,356 @@
+/**
+ * Embedding Providers
+ *
+ * One registry for every embedding model the app uses. A provider wraps a
+ * model with a fixed output size; `embedTexts` sends texts to it in batches
+ * of `maxBatchSize` and caches vectors by provider, model and a sha256 of
+ * the text, so repeated texts are embedded once per process.
+ *
+ * Built in:
+ *   • `openai` — text-embedding-3-small (1536 dimensions)
+ *   • `google` — Gemini text-embedding-004 (768)
+ *   • `vertex` — Vertex AI text-embedding-004 (768)
+ *   • `local`  — all-MiniLM-L6-v2 on ONNX through transformers.js (384);
+ *                runs offline once the model is downloaded
+ *   • `hashing` — deterministic feature hashing (384); no model at all, for
+ *                tests and offline development
+ *
+ * The default provider is `local`, or the one named by the
+ * `EMBEDDING_PROVIDER` environment variable. Register more (another model,
+ * another size) with `registerEmbeddingProvider`.
+ */
+
+import { createHash } from 'node:crypto';
+import { embedMany, type EmbeddingModel } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createVertex } from '@ai-sdk/google-vertex';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import { LRUCache } from 'lru-cache';
+
+/** An embedding model with a fixed output size. */
+export interface EmbeddingProvider {
+  /** Registry name, e.g. 'openai' */
+  name: string;
+  /** Model ID stored with every vector */
+  model: string;
+  dimensions: number;
+  /** Texts sent per request */
+  maxBatchSize: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/** Creates a provider the first time it is used. */
+export type EmbeddingProviderFactory = () => EmbeddingProvider;
+
+/**
+ * Thrown for an unknown provider, or when a provider returns vectors of
+ * another size than it declares
+ */
+export class EmbeddingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+    Object.setPrototypeOf(this, EmbeddingProviderError.prototype);
+  }
+}
+
+const EMBEDDING_CACHE_SIZE = 5000;
+
+/* ─────────────────────────────  providers  ───────────────────────────── */
+
+function aiSdkEmbeddingProvider(
+  name: string,
+  model: EmbeddingModel<string>,
+  dimensions: number,
+  maxBatchSize: number
+): EmbeddingProvider {
+  return {
+    name,
+    model: model.modelId,
+    dimensions,
+    maxBatchSize,
+    async embed(texts) {
+      const { embeddings } = await embedMany({ model, values: texts });
+      return embeddings.map((embedding) => new Float32Array(embedding));
+    },
+  };
+}
+
+export function createOpenAIEmbeddingProvider({
+  name = 'openai',
+  model = 'text-embedding-3-small',
+  dimensions = 1536,
+  apiKey,
+}: {
+  name?: string;
+  model?: string;
+  /** Shortens text-embedding-3 vectors; ada-002 only supports 1536 */
+  dimensions?: number;
+  apiKey?: string;
+} = {}): EmbeddingProvider {
+  const openai = createOpenAI({
+    apiKey: apiKey || process.env.OPENAI_API_KEY,
+  });
+  return aiSdkEmbeddingProvider(
+    name,
+    openai.textEmbeddingModel(
+      model,
+      model.startsWith('text-embedding-3') ? { dimensions } : {}
+    ),
+    dimensions,
+    2048
+  );
+}
+
+export function createGoogleEmbeddingProvider({
+  name = 'google',
+  model = 'text-embedding-004',
+  dimensions = 768,
+  apiKey,
+}: {
+  name?: string;
+  model?: string;
+  dimensions?: number;
+  apiKey?: string;
+} = {}): EmbeddingProvider {
+  const google = createGoogleGenerativeAI({
+    apiKey: apiKey || process.env.GOOGLE_API_KEY,
+  });
+  return aiSdkEmbeddingProvider(
+    name,
+    google.textEmbeddingModel(model, { outputDimensionality: dimensions }),
+    dimensions,
+    100
+  );
+}
+
+export function createVertexEmbeddingProvider({
+  name = 'vertex',
+  model = 'text-embedding-004',
+  dimensions = 768,
+  project = process.env.GOOGLE_VERTEX_PROJECT_ID,
+  location = process.env.GOOGLE_VERTEX_LOCATION || 'us-central1',
+}: {
+  name?: string;
+  model?: string;
+  /** The model's output size; Vertex vectors are not shortened */
+  dimensions?: number;
+  project?: string;
+  location?: string;
+} = {}): EmbeddingProvider {
+  if (!project) {
+    throw new EmbeddingProviderError(
+      'Project ID is required for Vertex AI embeddings'
+    );
+  }
+  const vertex = createVertex({ project, location });
+  return aiSdkEmbeddingProvider(
+    name,
+    vertex.textEmbeddingModel(model),
+    dimensions,
+    250
+  );
+}
+
+/**
+ * Sentence-transformers model run locally with transformers.js; `model` is
+ * the name stored with vectors, `repository` the ONNX weights to download
+ */
+export function createLocalEmbeddingProvider({
+  name = 'local',
+  model = 'all-MiniLM-L6-v2',
+  repository = `Xenova/${model}`,
+  dimensions = 384,
+}: {
+  name?: string;
+  model?: string;
+  repository?: string;
+  dimensions?: number;
+} = {}): EmbeddingProvider {
+  let extractor: Promise<FeatureExtractionPipeline> | undefined;
+  return {
+    name,
+    model,
+    dimensions,
+    maxBatchSize: 32,
+    async embed(texts) {
+      if (!extractor) {
+        // Loaded on first use so hosts without its native image dependency
+        // can import the registry and use the other providers
+        extractor = import('@xenova/transformers').then(({ pipeline }) =>
+          pipeline('feature-extraction', repository)
+        );
+        // Retry on the next call if the download failed
+        extractor.catch(() => (extractor = undefined));
+      }
+      const output = await (
+        await extractor
+      )(texts, { pooling: 'mean', normalize: true });
+      const data = output.data as Float32Array;
+      return texts.map((_, i) =>
+        data.slice(i * dimensions, (i + 1) * dimensions)
+      );
+    },
+  };
+}
+
+/**
+ * Signed feature hashing of words and word bigrams into `dimensions` buckets.
+ * Texts that share words land close together, which is enough to exercise
+ * search end to end without a model.
+ */
+export function createHashingEmbeddingProvider({
+  name = 'hashing',
+  dimensions = 384,
+}: { name?: string; dimensions?: number } = {}): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Float32Array(dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+    for (const feature of features) {
+      const hash = createHash('sha256').update(feature).digest();
+      vector[hash.readUInt32BE(0) % dimensions] += hash[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.hypot(...vector);
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  };
+  return {
+    name,
+    model: `hashing-${dimensions}`,
+    dimensions,
+    maxBatchSize: 1000,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/* ─────────────────────────────  registry  ───────────────────────────── */
+
+const factories = new Map<string, EmbeddingProviderFactory>([
+  ['openai', () => createOpenAIEmbeddingProvider()],
+  ['google', () => createGoogleEmbeddingProvider()],
+  ['vertex', () => createVertexEmbeddingProvider()],
+  ['local', () => createLocalEmbeddingProvider()],
+  ['hashing', () => createHashingEmbeddingProvider()],
+]);
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Add a provider, or replace the one with the same name
+ */
+export function registerEmbeddingProvider(
+  name: string,
+  factory: EmbeddingProviderFactory
+): void {
+  factories.set(name, factory);
+  providers.delete(name);
+}
+
+export function listEmbeddingProviders(): string[] {
+  return [...factories.keys()];
+}
+
+export function getDefaultEmbeddingProviderName(): string {
+  return process.env.EMBEDDING_PROVIDER || 'local';
+}
+
+/**
+ * The named provider, or the default one
+ *
+ * @throws {EmbeddingProviderError} if no provider has that name
+ */
+export function getEmbeddingProvider(name?: string): EmbeddingProvider {
+  const providerName = name ?? getDefaultEmbeddingProviderName();
+  let provider = providers.get(providerName);
+  if (!provider) {
+    const factory = factories.get(providerName);
+    if (!factory) {
+      throw new EmbeddingProviderError(
+        `Unknown embedding provider: ${providerName}`
+      );
+    }
+    provider = factory();
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
+
+/**
+ * The first registered provider for a model, if any
+ */
+export function findEmbeddingProvider(
+  model: string
+): EmbeddingProvider | undefined {
+  for (const name of factories.keys()) {
+    try {
+      const provider = getEmbeddingProvider(name);
+      if (provider.model === model) return provider;
+    } catch {
+      // Unconfigured (e.g. Vertex without a project)
+    }
+  }
+  return undefined;
+}
+
+/* ─────────────────────────────  embedding  ───────────────────────────── */
+
+const vectorCache = new LRUCache<string, Float32Array>({
+  max: EMBEDDING_CACHE_SIZE,
+});
+
+/**
+ * Embed texts with a provider (the default one unless named), in batches
+ * and through the cache. Vectors are returned in the order of `texts`.
+ *
+ * @throws {EmbeddingProviderError} if the provider returns vectors of the
+ *         wrong size
+ */
+export async function embedTexts(
+  texts: string[],
+  providerName?: string
+): Promise<Float32Array[]> {
+  const provider = getEmbeddingProvider(providerName);
+  const keys = texts.map(
+    (text) =>
+      `${provider.name}:${provider.model}:${createHash('sha256').update(text).digest('hex')}`
+  );
+
+  // Distinct texts that are not cached yet
+  const vectors = new Map<string, Float32Array>();
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    const cached = vectorCache.get(key);
+    if (cached) vectors.set(key, cached);
+    else missing.set(key, texts[i]);
+  });
+
+  const pending = [...missing];
+  for (let i = 0; i < pending.length; i += provider.maxBatchSize) {
+    const batch = pending.slice(i, i + provider.maxBatchSize);
+    const embedded = await provider.embed(batch.map(([, text]) => text));
+    batch.forEach(([key], j) => {
+      if (embedded[j]?.length !== provider.dimensions) {
+        throw new EmbeddingProviderError(
+          `Embedding provider ${provider.name} returned ${embedded[j]?.length} dimensions, expected ${provider.dimensions}`
+        );
+      }
+      vectorCache.set(key, embedded[j]);
+      vectors.set(key, embedded[j]);
+    });
+  }
+
+  return keys.map((key) => vectors.get(key)!);
+}
+
+export async function embedText(
+  text: string,
+  providerName?: string
+): Promise<Float32Array> {
+  const [vector] = await embedTexts([text], providerName);
+  return vector;
+}
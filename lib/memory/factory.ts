@@ -2,10 +2,10 @@
  * Memory Factory
  *
  * This module provides a factory for creating memory instances based on the configured provider.
- * It supports LibSQL, Upstash, and potentially other memory providers.
+ * It supports LibSQL, Upstash, Supabase and Cloudflare (D1 + Vectorize).
  *
  * Features:
- * - Provider abstraction (LibSQL, Upstash)
+ * - Provider abstraction (LibSQL, Upstash, Supabase, Cloudflare)
  * - LRU caching for frequently accessed data
  * - Configurable cache settings
  * - Needs ALL entities from libsql if you dont add them you will be terminated -dev
@@ -22,37 +22,34 @@ import type {
 // Import utility libraries
 import { LRUCache } from 'lru-cache';
 
-// Import Upstash modules
-import {
-  // Thread operations
-  createRedisThread,
-  getRedisThreadById,
-  updateRedisThread,
-  listRedisThreads,
-  deleteRedisThread,
-
-  // Message operations
-  createRedisMessage,
-  getRedisMessagesByThreadId,
-
-  // Agent state operations
-  saveAgentState,
-  loadAgentState,
-
-  // Vector operations
-  upsertEmbeddings,
-
-  // Types
-  type Thread as RedisThread,
-  type Message as RedisMessage,
-  checkUpstashAvailability,
+// Upstash and Supabase modules create their clients on import, so they are
+// loaded on first use by their provider
+import type {
+  Thread as RedisThread,
+  Message as RedisMessage,
 } from './upstash/index';
 
+// Import Cloudflare (D1 + Vectorize) memory operations
+import {
+  createD1Thread,
+  getD1ThreadById,
+  listD1Threads,
+  updateD1Thread,
+  deleteD1Thread,
+  createD1Message,
+  getD1MessagesByThreadId,
+  saveVectorizeEmbedding,
+  getVectorizeEmbedding,
+  saveD1AgentState,
+  loadD1AgentState,
+  isCloudflareMemoryAvailable,
+} from './cloudflare/memory';
+
 // Import AI utilities
 import { generateId } from 'ai';
 
 // Memory provider types
-export type MemoryProvider = 'libsql' | 'upstash';
+export type MemoryProvider = 'libsql' | 'upstash' | 'supabase' | 'cloudflare';
 
 // Cache configuration
 export interface CacheConfig {
@@ -120,22 +117,40 @@ const stateCacheMetrics: CacheMetrics = {
   },
 };
 
+// Semantic response cache (see semantic-cache.ts): a hit is a cached answer
+// served instead of a model call
+const semanticCacheMetrics: CacheMetrics = {
+  hits: 0,
+  misses: 0,
+  hitRate: () => {
+    const total = semanticCacheMetrics.hits + semanticCacheMetrics.misses;
+    return total > 0 ? semanticCacheMetrics.hits / total : 0;
+  },
+  reset: () => {
+    semanticCacheMetrics.hits = 0;
+    semanticCacheMetrics.misses = 0;
+  },
+};
+
 // Export metrics for observability
 export const cacheMetrics = {
   thread: threadCacheMetrics,
   messages: messagesCacheMetrics,
   state: stateCacheMetrics,
+  semantic: semanticCacheMetrics,
 
   // Get overall hit rate across all caches
   overallHitRate: () => {
     const totalHits =
       threadCacheMetrics.hits +
       messagesCacheMetrics.hits +
-      stateCacheMetrics.hits;
+      stateCacheMetrics.hits +
+      semanticCacheMetrics.hits;
     const totalMisses =
       threadCacheMetrics.misses +
       messagesCacheMetrics.misses +
-      stateCacheMetrics.misses;
+      stateCacheMetrics.misses +
+      semanticCacheMetrics.misses;
     const total = totalHits + totalMisses;
     return total > 0 ? totalHits / total : 0;
   },
@@ -145,6 +160,7 @@ export const cacheMetrics = {
     threadCacheMetrics.reset();
     messagesCacheMetrics.reset();
     stateCacheMetrics.reset();
+    semanticCacheMetrics.reset();
   },
 };
 
@@ -175,6 +191,8 @@ export interface MessageOptions {
   tool_call_id?: string;
   tool_name?: string;
   generate_embeddings?: boolean;
+  /** Precomputed vector to store instead of generating one */
+  embedding?: Float32Array;
   count_tokens?: boolean;
 }
 export interface SearchOptions {
@@ -222,6 +240,9 @@ export interface MemoryInterface {
     modelName?: string
   ) => Promise<Float32Array>;
   saveEmbedding?: (vector: Float32Array, model?: string) => Promise<string>;
+  loadEmbedding?: (
+    id: string
+  ) => Promise<{ vector: Float32Array; model?: string } | null>;
 
   // State operations
   saveAgentState?: (
@@ -239,16 +260,22 @@ export function getMemoryProvider(): MemoryProvider {
   return (process.env.MEMORY_PROVIDER as MemoryProvider) || 'libsql';
 }
 
-// Check if the configured memory provider is available
-export async function isMemoryAvailable(): Promise<boolean> {
-  const provider = getMemoryProvider();
-
+// Check if a memory provider (default: the configured one) is available
+export async function isMemoryAvailable(
+  provider: MemoryProvider = getMemoryProvider()
+): Promise<boolean> {
   switch (provider) {
     case 'libsql':
       return await isLibSQLAvailable();
     case 'upstash':
+      const { checkUpstashAvailability } = await import('./upstash/index');
       const availability = await checkUpstashAvailability();
       return availability.redisAvailable;
+    case 'supabase':
+      const { isSupabaseMemoryAvailable } = await import('./supabase');
+      return await isSupabaseMemoryAvailable();
+    case 'cloudflare':
+      return await isCloudflareMemoryAvailable();
     default:
       return false;
   }
@@ -258,13 +285,13 @@ export async function isMemoryAvailable(): Promise<boolean> {
  * Create a memory instance based on the configured provider with LRU caching
  *
  * @param cacheConfig - Optional cache configuration
+ * @param provider - Provider to use instead of the configured one
  * @returns Memory interface implementation
  */
 export function createMemory(
-  cacheConfig?: Partial<CacheConfig>
+  cacheConfig?: Partial<CacheConfig>,
+  provider: MemoryProvider = getMemoryProvider()
 ): MemoryInterface {
-  const provider = getMemoryProvider();
-
   // Merge default cache config with provided config
   const config: CacheConfig = {
     ...DEFAULT_CACHE_CONFIG,
@@ -296,7 +323,13 @@ export function createMemory(
       const threads = await LibSQL.getThreads();
       thread = threads.find((t) => t.id === id) || null;
     } else if (provider === 'upstash') {
+      const { getRedisThreadById } = await import('./upstash/index');
       thread = await getRedisThreadById(id);
+    } else if (provider === 'supabase') {
+      const { getSupabaseThreadById } = await import('./supabase');
+      thread = await getSupabaseThreadById(id);
+    } else if (provider === 'cloudflare') {
+      thread = await getD1ThreadById(id);
     }
 
     // Cache the result if enabled
@@ -335,7 +368,13 @@ export function createMemory(
       messages = await LibSQL.getMessages(threadId);
       if (limit) messages = messages.slice(0, limit);
     } else if (provider === 'upstash') {
+      const { getRedisMessagesByThreadId } = await import('./upstash/index');
       messages = await getRedisMessagesByThreadId(threadId, limit);
+    } else if (provider === 'supabase') {
+      const { getSupabaseMessagesByThreadId } = await import('./supabase');
+      messages = await getSupabaseMessagesByThreadId(threadId, limit);
+    } else if (provider === 'cloudflare') {
+      messages = await getD1MessagesByThreadId(threadId, limit);
     }
 
     // Cache the result if enabled
@@ -371,9 +410,17 @@ export function createMemory(
     // Get from provider
     let state;
     if (provider === 'libsql') {
-      state = await LibSQL.getAgentState(threadId, agentId);
+      // getAgentState returns the row, with state_data parsed
+      const row = await LibSQL.getAgentState(threadId, agentId);
+      state = row?.state_data as Record<string, unknown> | undefined;
     } else if (provider === 'upstash') {
+      const { loadAgentState } = await import('./upstash/index');
       state = await loadAgentState(threadId, agentId);
+    } else if (provider === 'supabase') {
+      const { loadSupabaseAgentState } = await import('./supabase');
+      state = await loadSupabaseAgentState(threadId, agentId);
+    } else if (provider === 'cloudflare') {
+      state = await loadD1AgentState(threadId, agentId);
     }
 
     // Cache the result if enabled
@@ -435,6 +482,7 @@ export function createMemory(
       tool_call_id?: string;
       tool_name?: string;
       generate_embeddings?: boolean;
+      embedding?: Float32Array;
     }
   ): Promise<string> => {
     let messageId: string = '';
@@ -470,15 +518,17 @@ export function createMemory(
         }
 
         // Generate embeddings if requested
-        if (options?.generate_embeddings && content) {
+        if ((options?.generate_embeddings || options?.embedding) && content) {
           try {
             const { generateEmbedding } = await import('../ai-integration');
-            const embedding = await generateEmbedding(content);
+            const embedding =
+              options.embedding ?? (await generateEmbedding(content));
 
             // Convert Float32Array to regular array for Upstash
             const embeddingArray = Array.from(embedding) as number[];
 
             // Save embedding to vector store
+            const { upsertEmbeddings } = await import('./upstash/index');
             await upsertEmbeddings([
               {
                 id: generateId(),
@@ -500,11 +550,51 @@ export function createMemory(
         }
 
         // Create the message
+        const { createRedisMessage } = await import('./upstash/index');
         const message = await createRedisMessage(threadId, messageData);
         messageId = message.id;
       } catch (error) {
         throw error;
       }
+    } else if (provider === 'supabase' || provider === 'cloudflare') {
+      let embedding = options?.embedding
+        ? Array.from(options.embedding)
+        : undefined;
+      if (!embedding && options?.generate_embeddings && content) {
+        try {
+          const { generateEmbedding } = await import('../ai-integration');
+          embedding = Array.from(
+            (await generateEmbedding(content)) as ArrayLike<number | bigint>,
+            Number
+          );
+        } catch {
+          embedding = undefined;
+        }
+      }
+
+      if (provider === 'supabase') {
+        const { saveSupabaseEmbedding, createSupabaseMessage } = await import(
+          './supabase'
+        );
+        const embeddingId = embedding
+          ? await saveSupabaseEmbedding(embedding)
+          : undefined;
+        const message = await createSupabaseMessage(threadId, role, content, {
+          metadata: options?.metadata,
+          tool_call_id: options?.tool_call_id,
+          tool_name: options?.tool_name,
+          embedding_id: embeddingId,
+        });
+        messageId = message.id;
+      } else {
+        const message = await createD1Message(threadId, role, content, {
+          metadata: options?.metadata,
+          tool_call_id: options?.tool_call_id,
+          tool_name: options?.tool_name,
+          embedding,
+        });
+        messageId = message.id;
+      }
     }
 
     // Invalidate message cache for this thread
@@ -522,7 +612,13 @@ export function createMemory(
     if (provider === 'libsql') {
       await LibSQL.saveAgentState(threadId, agentId, state);
     } else if (provider === 'upstash') {
+      const { saveAgentState } = await import('./upstash/index');
       await saveAgentState(threadId, agentId, state);
+    } else if (provider === 'supabase') {
+      const { saveSupabaseAgentState } = await import('./supabase');
+      await saveSupabaseAgentState(threadId, agentId, state);
+    } else if (provider === 'cloudflare') {
+      await saveD1AgentState(threadId, agentId, state);
     }
 
     // Invalidate state cache for this thread and agent
@@ -538,7 +634,13 @@ export function createMemory(
     if (provider === 'libsql') {
       result = await LibSQL.deleteThread(threadId);
     } else if (provider === 'upstash') {
+      const { deleteRedisThread } = await import('./upstash/index');
       result = await deleteRedisThread(threadId);
+    } else if (provider === 'supabase') {
+      const { deleteSupabaseThread } = await import('./supabase');
+      result = await deleteSupabaseThread(threadId);
+    } else if (provider === 'cloudflare') {
+      result = await deleteD1Thread(threadId);
     }
 
     // Invalidate all caches for this thread
@@ -561,13 +663,29 @@ export function createMemory(
     if (provider === 'libsql') {
       const threads = await LibSQL.getThreads();
       const found = threads.find((t) => t.name === name);
-      threadId = found ? found.id : generateId();
+      if (found) {
+        threadId = found.id;
+      } else {
+        const { createMemoryThread } = await import('./memory');
+        threadId = await createMemoryThread(name, {
+          agent_id: options?.agent_id,
+          metadata: options?.metadata,
+        });
+      }
     } else if (provider === 'upstash') {
       const userId = options?.user_id || null;
       const agentId = options?.agent_id || null;
       const metadata = options?.metadata || null;
+      const { createRedisThread } = await import('./upstash/index');
       const thread = await createRedisThread(name, userId, agentId, metadata);
       threadId = thread.id;
+    } else if (provider === 'supabase') {
+      const { createSupabaseThread } = await import('./supabase');
+      const thread = await createSupabaseThread(name, options);
+      threadId = thread.id;
+    } else if (provider === 'cloudflare') {
+      const thread = await createD1Thread(name, options);
+      threadId = thread.id;
     }
 
     return threadId || generateId();
@@ -590,9 +708,11 @@ export function createMemory(
           (t) => t.agent_id === options.filters!.agent_id
         );
       }
-      if (options?.limit) {
-        threads = threads.slice(0, options.limit);
-      }
+      const offset = options?.offset || 0;
+      threads = threads.slice(
+        offset,
+        options?.limit ? offset + options.limit : undefined
+      );
       return threads;
     } else if (provider === 'upstash') {
       const limit = options?.limit || 10;
@@ -600,7 +720,13 @@ export function createMemory(
       const userId = options?.filters?.user_id;
       const agentId = options?.filters?.agent_id;
 
+      const { listRedisThreads } = await import('./upstash/index');
       return await listRedisThreads(limit, offset, userId, agentId);
+    } else if (provider === 'supabase') {
+      const { listSupabaseThreads } = await import('./supabase');
+      return await listSupabaseThreads(options);
+    } else if (provider === 'cloudflare') {
+      return await listD1Threads(options);
     }
 
     return [];
@@ -669,8 +795,23 @@ export function createMemory(
         }
       } else if (provider === 'upstash') {
         // For Upstash, use the updateRedisThread function
+        const { updateRedisThread } = await import('./upstash/index');
         const result = await updateRedisThread(id, updates);
         return result !== null;
+      } else if (provider === 'supabase' || provider === 'cloudflare') {
+        const threadUpdates = {
+          name: updates.name ?? undefined,
+          agent_id: updates.agent_id,
+          metadata: updates.metadata,
+        };
+        const updated =
+          provider === 'supabase'
+            ? await (
+                await import('./supabase')
+              ).updateSupabaseThread(id, threadUpdates)
+            : await updateD1Thread(id, threadUpdates);
+        invalidateThreadCache(id);
+        return updated;
       }
 
       return false;
@@ -717,6 +858,7 @@ export function createMemory(
         const embeddingArray = Array.from(vector) as number[];
         const id = generateId();
 
+        const { upsertEmbeddings } = await import('./upstash/index');
         await upsertEmbeddings([
           {
             id,
@@ -729,10 +871,40 @@ export function createMemory(
         ]);
 
         return id;
+      } else if (provider === 'supabase') {
+        const { saveSupabaseEmbedding } = await import('./supabase');
+        return await saveSupabaseEmbedding(Array.from(vector), model);
+      } else if (provider === 'cloudflare') {
+        return await saveVectorizeEmbedding(Array.from(vector), model);
       }
 
       return generateId();
     },
+    loadEmbedding: async (id: string) => {
+      if (provider === 'libsql') {
+        const { getLibSQLClient } = await import('./db');
+        const result = await getLibSQLClient().execute({
+          sql: 'SELECT vector, model FROM embeddings WHERE id = ?',
+          args: [id],
+        });
+        if (result.rows.length === 0) return null;
+        return {
+          vector: new Float32Array(result.rows[0].vector as ArrayBuffer),
+          model: (result.rows[0].model as string | null) ?? undefined,
+        };
+      } else if (provider === 'supabase' || provider === 'cloudflare') {
+        const stored =
+          provider === 'supabase'
+            ? await (await import('./supabase')).getSupabaseEmbedding(id)
+            : await getVectorizeEmbedding(id);
+        return stored
+          ? { vector: new Float32Array(stored.vector), model: stored.model }
+          : null;
+      }
+
+      // Upstash vectors are not addressable by message
+      return null;
+    },
 
     // State operations
     saveAgentState: cachedSaveAgentState,
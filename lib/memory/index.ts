@@ -9,6 +9,10 @@
 // Core memory operations
 export * from './memory';
 
+// Embedding providers and namespaces
+export * from './embeddings';
+export * from './embedding-namespaces';
+
 // Database clients and helpers
 export { getLibSQLClient, isDatabaseAvailable, query, transaction } from './db';
 
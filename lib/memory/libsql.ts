@@ -126,6 +126,7 @@ export async function deleteThread(threadId: string): Promise<boolean> {
   try {
     await crud.deleteMemoryThread(threadId);
     await crud.deleteMessagesByThreadId(threadId);
+    await crud.deleteAgentStatesByThreadId(threadId);
     return true;
   } catch (error) {
     throw error;
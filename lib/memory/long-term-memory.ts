@@ -0,0 +1,744 @@
+/**
+ * Long-Term Memory
+ *
+ * Durable facts about users and the things they talk about, kept across
+ * threads in the LibSQL `memory_facts` and `memory_entities` tables. Facts
+ * are extracted from new thread messages with a language model by a
+ * background message processor (see ./memory-processors.ts), or stored by
+ * agents with the `remember` tool. Each fact is embedded; a new fact that
+ * means the same as a stored one of the same scope is merged into it (the
+ * newer wording wins) instead of being added.
+ *
+ * A fact is scoped to a user, an agent or both. Recall within a scope sees
+ * the facts of that exact scope and of the broader ones: a run for user U
+ * with agent A sees facts of (U, A), of U alone (shared by all agents) and
+ * of A alone (shared by all users).
+ */
+
+import { generateId, generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { getLibSQLClient } from './db';
+import { generateEmbedding } from './memory';
+import type { MessageProcessor } from './memory-processors';
+import { cosineSimilarity } from './similarity';
+import { upstashLogger } from './upstash/upstash-logger';
+
+export const FACT_CATEGORIES = [
+  'preference',
+  'profile',
+  'goal',
+  'relationship',
+  'event',
+  'other',
+] as const;
+
+export const ENTITY_TYPES = [
+  'person',
+  'organization',
+  'place',
+  'product',
+  'concept',
+  'other',
+] as const;
+
+export type FactCategory = (typeof FACT_CATEGORIES)[number];
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+/** Who a fact belongs to. At least one of the two is required to store one. */
+export interface FactScope {
+  userId?: string;
+  agentId?: string;
+}
+
+export interface MemoryFact {
+  id: string;
+  userId?: string;
+  agentId?: string;
+  content: string;
+  category?: FactCategory;
+  /** Names of the entities the fact is about */
+  entities: string[];
+  confidence: number;
+  /** Times the fact was stated, counting merges */
+  mentions: number;
+  source: 'extraction' | 'tool';
+  sourceThreadId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryEntity {
+  id: string;
+  userId?: string;
+  agentId?: string;
+  name: string;
+  type: EntityType;
+  description?: string;
+  aliases: string[];
+  mentions: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A fact and its similarity to the recall query. */
+export interface RecalledFact {
+  fact: MemoryFact;
+  similarity: number;
+}
+
+export interface NewFact {
+  content: string;
+  category?: FactCategory;
+  entities?: string[];
+  confidence?: number;
+  source?: MemoryFact['source'];
+  sourceThreadId?: string;
+}
+
+/** What the extractor found in a span of messages. */
+export const ExtractedMemorySchema = z.object({
+  facts: z.array(
+    z.object({
+      content: z
+        .string()
+        .describe(
+          'One self-contained fact in the third person, e.g. "The user is vegetarian"'
+        ),
+      category: z.enum(FACT_CATEGORIES),
+      entities: z
+        .array(z.string())
+        .describe('Names of the entities the fact is about'),
+      confidence: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe('How certain it is that the fact is true and lasting'),
+    })
+  ),
+  entities: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum(ENTITY_TYPES),
+      description: z.string().optional(),
+      aliases: z.array(z.string()).optional(),
+    })
+  ),
+});
+export type ExtractedMemory = z.infer<typeof ExtractedMemorySchema>;
+
+/** A thread message handed to the extractor. */
+export interface ExtractionMessage {
+  id?: string;
+  role: string;
+  content: string;
+}
+
+/**
+ * Finds durable facts and entities in messages.
+ *
+ * @param messages - New messages, oldest first
+ * @param knownFacts - Facts already stored for the scope, to avoid restating
+ */
+export type FactExtractor = (
+  messages: ExtractionMessage[],
+  knownFacts: string[]
+) => Promise<ExtractedMemory>;
+
+// Similarity above which a new fact is merged into a stored one
+const DEFAULT_MERGE_THRESHOLD = 0.9;
+
+// Known facts shown to the extractor
+const KNOWN_FACTS_LIMIT = 50;
+
+function toBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function parseList(value: unknown): string[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Case-insensitive union, keeping the first spelling seen
+function mergeNames(...lists: string[][]): string[] {
+  const merged = new Map<string, string>();
+  for (const name of lists.flat()) {
+    const key = name.trim().toLowerCase();
+    if (key && !merged.has(key)) merged.set(key, name.trim());
+  }
+  return [...merged.values()];
+}
+
+function toFact(row: Record<string, unknown>): MemoryFact {
+  return {
+    id: row.id as string,
+    userId: (row.user_id as string | null) ?? undefined,
+    agentId: (row.agent_id as string | null) ?? undefined,
+    content: row.content as string,
+    category: (row.category as FactCategory | null) ?? undefined,
+    entities: parseList(row.entities),
+    confidence: Number(row.confidence),
+    mentions: Number(row.mentions),
+    source: row.source as MemoryFact['source'],
+    sourceThreadId: (row.source_thread_id as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function toEntity(row: Record<string, unknown>): MemoryEntity {
+  return {
+    id: row.id as string,
+    userId: (row.user_id as string | null) ?? undefined,
+    agentId: (row.agent_id as string | null) ?? undefined,
+    name: row.name as string,
+    type: row.type as EntityType,
+    description: (row.description as string | null) ?? undefined,
+    aliases: parseList(row.aliases),
+    mentions: Number(row.mentions),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function assertScope(scope: FactScope): void {
+  if (!scope.userId && !scope.agentId) {
+    throw new Error('A long-term memory scope needs a userId or an agentId');
+  }
+}
+
+// Rows of exactly this scope
+const EXACT_SCOPE = 'user_id IS ? AND agent_id IS ?';
+// Rows of this scope and the broader ones
+const VISIBLE_SCOPE =
+  '(user_id IS NULL OR user_id = ?) AND (agent_id IS NULL OR agent_id = ?) AND NOT (user_id IS NULL AND agent_id IS NULL)';
+
+function scopeArgs(scope: FactScope): (string | null)[] {
+  return [scope.userId ?? null, scope.agentId ?? null];
+}
+
+/**
+ * Create an extractor that finds facts and entities with a language model.
+ *
+ * @param model - Model to extract with (a small, cheap one is enough)
+ */
+export function createFactExtractor(model: LanguageModel): FactExtractor {
+  return async (messages, knownFacts) => {
+    const transcript = messages
+      .map((message) => `${message.role}: ${message.content}`)
+      .join('\n\n');
+    const { object } = await generateObject({
+      model,
+      schema: ExtractedMemorySchema,
+      temperature: 0,
+      system:
+        'You extract long-term memory from conversations. Record only durable facts worth remembering in later conversations: who the user is, their preferences, goals, relationships, circumstances and commitments, and lasting facts about the people, organisations, places and things they mention. Skip small talk, the assistant’s own statements unless the user confirmed them, one-off requests and anything already known. When a message updates a known fact, state the updated fact. Return empty lists when there is nothing to record.',
+      prompt: `${
+        knownFacts.length
+          ? `Already known:\n${knownFacts.map((fact) => `- ${fact}`).join('\n')}\n\n`
+          : ''
+      }New messages:\n\n${transcript}`,
+    });
+    return object;
+  };
+}
+
+/**
+ * Store a fact, merging it into a stored fact of the same scope that means
+ * the same thing.
+ *
+ * @param mergeThreshold - Similarity at which facts are merged (default 0.9)
+ * @returns The stored fact and whether it was merged into an existing one
+ */
+export async function rememberFact(
+  input: NewFact,
+  scope: FactScope,
+  mergeThreshold = DEFAULT_MERGE_THRESHOLD
+): Promise<{ fact: MemoryFact; merged: boolean }> {
+  assertScope(scope);
+  const content = input.content.trim();
+  if (!content) throw new Error('A fact cannot be empty');
+
+  const db = getLibSQLClient();
+  const vector = await generateEmbedding(content);
+  const now = new Date().toISOString();
+
+  const candidates = await db.execute({
+    sql: `SELECT * FROM memory_facts WHERE ${EXACT_SCOPE}`,
+    args: scopeArgs(scope),
+  });
+  let best: { row: Record<string, unknown>; similarity: number } | undefined;
+  for (const row of candidates.rows) {
+    const similarity = cosineSimilarity(
+      vector,
+      new Float32Array(row.vector as ArrayBuffer)
+    );
+    if (similarity >= mergeThreshold && similarity > (best?.similarity ?? -1)) {
+      best = { row, similarity };
+    }
+  }
+
+  if (best) {
+    const existing = toFact(best.row);
+    const fact: MemoryFact = {
+      ...existing,
+      content,
+      category: input.category ?? existing.category,
+      entities: mergeNames(existing.entities, input.entities ?? []),
+      confidence: Math.max(existing.confidence, input.confidence ?? 1),
+      mentions: existing.mentions + 1,
+      sourceThreadId: input.sourceThreadId ?? existing.sourceThreadId,
+      updatedAt: now,
+    };
+    await db.execute({
+      sql: `UPDATE memory_facts
+            SET content = ?, category = ?, entities = ?, confidence = ?, mentions = ?,
+                source_thread_id = ?, vector = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [
+        fact.content,
+        fact.category ?? null,
+        JSON.stringify(fact.entities),
+        fact.confidence,
+        fact.mentions,
+        fact.sourceThreadId ?? null,
+        toBlob(vector),
+        now,
+        fact.id,
+      ],
+    });
+    return { fact, merged: true };
+  }
+
+  const fact: MemoryFact = {
+    id: generateId(),
+    userId: scope.userId,
+    agentId: scope.agentId,
+    content,
+    category: input.category,
+    entities: mergeNames(input.entities ?? []),
+    confidence: input.confidence ?? 1,
+    mentions: 1,
+    source: input.source ?? 'tool',
+    sourceThreadId: input.sourceThreadId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.execute({
+    sql: `INSERT INTO memory_facts
+            (id, user_id, agent_id, content, category, entities, confidence, mentions,
+             source, source_thread_id, vector, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      fact.id,
+      fact.userId ?? null,
+      fact.agentId ?? null,
+      fact.content,
+      fact.category ?? null,
+      JSON.stringify(fact.entities),
+      fact.confidence,
+      fact.mentions,
+      fact.source,
+      fact.sourceThreadId ?? null,
+      toBlob(vector),
+      now,
+      now,
+    ],
+  });
+  return { fact, merged: false };
+}
+
+/**
+ * Store an entity, merging it into a stored entity of the same scope with
+ * the same name or alias.
+ */
+export async function upsertEntity(
+  input: {
+    name: string;
+    type?: EntityType;
+    description?: string;
+    aliases?: string[];
+  },
+  scope: FactScope
+): Promise<MemoryEntity> {
+  assertScope(scope);
+  const db = getLibSQLClient();
+  const now = new Date().toISOString();
+  const names = mergeNames([input.name], input.aliases ?? []).map((name) =>
+    name.toLowerCase()
+  );
+
+  const result = await db.execute({
+    sql: `SELECT * FROM memory_entities WHERE ${EXACT_SCOPE}`,
+    args: scopeArgs(scope),
+  });
+  const existing = result.rows
+    .map(toEntity)
+    .find((entity) =>
+      [entity.name, ...entity.aliases].some((name) =>
+        names.includes(name.toLowerCase())
+      )
+    );
+
+  if (existing) {
+    const entity: MemoryEntity = {
+      ...existing,
+      type:
+        existing.type === 'other' && input.type ? input.type : existing.type,
+      description: input.description || existing.description,
+      aliases: mergeNames(
+        existing.aliases,
+        [input.name],
+        input.aliases ?? []
+      ).filter((name) => name.toLowerCase() !== existing.name.toLowerCase()),
+      mentions: existing.mentions + 1,
+      updatedAt: now,
+    };
+    await db.execute({
+      sql: `UPDATE memory_entities
+            SET type = ?, description = ?, aliases = ?, mentions = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [
+        entity.type,
+        entity.description ?? null,
+        JSON.stringify(entity.aliases),
+        entity.mentions,
+        now,
+        entity.id,
+      ],
+    });
+    return entity;
+  }
+
+  const entity: MemoryEntity = {
+    id: generateId(),
+    userId: scope.userId,
+    agentId: scope.agentId,
+    name: input.name.trim(),
+    type: input.type ?? 'other',
+    description: input.description,
+    aliases: mergeNames(input.aliases ?? []),
+    mentions: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.execute({
+    sql: `INSERT INTO memory_entities
+            (id, user_id, agent_id, name, type, description, aliases, mentions, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      entity.id,
+      entity.userId ?? null,
+      entity.agentId ?? null,
+      entity.name,
+      entity.type,
+      entity.description ?? null,
+      JSON.stringify(entity.aliases),
+      entity.mentions,
+      now,
+      now,
+    ],
+  });
+  return entity;
+}
+
+/**
+ * Find the facts visible in a scope that are most similar to a query.
+ *
+ * @param options.entity - Only facts about this entity (name, any case)
+ */
+export async function recallFacts(
+  query: string,
+  scope: FactScope,
+  options: { limit?: number; threshold?: number; entity?: string } = {}
+): Promise<RecalledFact[]> {
+  const { limit = 5, threshold = 0, entity } = options;
+  const vector = await generateEmbedding(query);
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM memory_facts WHERE ${VISIBLE_SCOPE}`,
+    args: scopeArgs(scope),
+  });
+
+  const entityName = entity?.trim().toLowerCase();
+  return result.rows
+    .map((row) => ({
+      fact: toFact(row),
+      similarity: cosineSimilarity(
+        vector,
+        new Float32Array(row.vector as ArrayBuffer)
+      ),
+    }))
+    .filter(
+      ({ fact, similarity }) =>
+        similarity >= threshold &&
+        (!entityName ||
+          fact.entities.some((name) => name.toLowerCase() === entityName))
+    )
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * List the facts visible in a scope, most recently updated first.
+ */
+export async function listFacts(
+  scope: FactScope,
+  options: { limit?: number; offset?: number } = {}
+): Promise<MemoryFact[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM memory_facts WHERE ${VISIBLE_SCOPE}
+          ORDER BY updated_at DESC LIMIT ? OFFSET ?`,
+    args: [...scopeArgs(scope), options.limit ?? 100, options.offset ?? 0],
+  });
+  return result.rows.map(toFact);
+}
+
+/**
+ * List the entities visible in a scope, most mentioned first.
+ */
+export async function listEntities(
+  scope: FactScope,
+  options: { limit?: number } = {}
+): Promise<MemoryEntity[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM memory_entities WHERE ${VISIBLE_SCOPE}
+          ORDER BY mentions DESC, updated_at DESC LIMIT ?`,
+    args: [...scopeArgs(scope), options.limit ?? 100],
+  });
+  return result.rows.map(toEntity);
+}
+
+// Whether a fact belongs to the scope itself rather than a wider one it can
+// see, e.g. an agent-wide fact recalled for one of the agent's users
+function ownsFact(scope: FactScope, fact: MemoryFact): boolean {
+  return scope.userId
+    ? fact.userId === scope.userId
+    : !fact.userId && !!scope.agentId && fact.agentId === scope.agentId;
+}
+
+/**
+ * Delete facts owned by a scope, by id or by similarity to a query. Facts the
+ * scope only sees from a wider scope are left in place.
+ *
+ * @param options.threshold - Minimum similarity for query matches (default 0.8)
+ * @returns The deleted facts
+ */
+export async function forgetFacts(
+  target: { ids?: string[]; query?: string },
+  scope: FactScope,
+  options: { threshold?: number; limit?: number } = {}
+): Promise<MemoryFact[]> {
+  let facts: MemoryFact[] = [];
+  if (target.ids?.length) {
+    const result = await getLibSQLClient().execute({
+      sql: `SELECT * FROM memory_facts WHERE ${VISIBLE_SCOPE}
+            AND id IN (${target.ids.map(() => '?').join(', ')})`,
+      args: [...scopeArgs(scope), ...target.ids],
+    });
+    facts = result.rows.map(toFact).filter((fact) => ownsFact(scope, fact));
+  } else if (target.query) {
+    facts = (
+      await recallFacts(target.query, scope, {
+        threshold: options.threshold ?? 0.8,
+        limit: Number.MAX_SAFE_INTEGER,
+      })
+    )
+      .map(({ fact }) => fact)
+      .filter((fact) => ownsFact(scope, fact))
+      .slice(0, options.limit ?? 5);
+  }
+  if (facts.length === 0) return [];
+
+  await getLibSQLClient().execute({
+    sql: `DELETE FROM memory_facts WHERE id IN (${facts.map(() => '?').join(', ')})`,
+    args: facts.map((fact) => fact.id),
+  });
+  return facts;
+}
+
+/**
+ * Render facts as a system prompt section.
+ */
+export function formatFactsForPrompt(facts: MemoryFact[]): string {
+  return `What you remember from earlier conversations:\n${facts
+    .map((fact) => `- ${fact.content}`)
+    .join('\n')}`;
+}
+
+export interface FactExtractionOptions {
+  threadId: string;
+  /** Scope the extracted facts and entities are stored in */
+  scope: FactScope;
+  /** Model used by the default extractor */
+  model?: LanguageModel;
+  /** Custom extractor (takes precedence over model) */
+  extract?: FactExtractor;
+  /** Most recent new messages read per extraction (default: 20) */
+  maxMessages?: number;
+  /** Facts below this confidence are dropped (default: 0.6) */
+  minConfidence?: number;
+  mergeThreshold?: number;
+}
+
+export interface FactExtractionResult {
+  facts: { fact: MemoryFact; merged: boolean }[];
+  entities: MemoryEntity[];
+  /** New messages read */
+  messages: number;
+}
+
+// Extraction progress cached in the thread metadata
+interface ExtractionCursor {
+  lastMessageId: string;
+  updatedAt: string;
+}
+
+async function readThreadMetadata(
+  threadId: string
+): Promise<Record<string, unknown> | undefined> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT metadata FROM memory_threads WHERE id = ?',
+    args: [threadId],
+  });
+  if (result.rows.length === 0) return undefined;
+  return JSON.parse((result.rows[0].metadata as string) || '{}');
+}
+
+async function saveExtractionCursor(
+  threadId: string,
+  cursor: ExtractionCursor
+): Promise<void> {
+  const metadata = await readThreadMetadata(threadId);
+  if (!metadata) return;
+  await getLibSQLClient().execute({
+    sql: 'UPDATE memory_threads SET metadata = ? WHERE id = ?',
+    args: [JSON.stringify({ ...metadata, long_term_memory: cursor }), threadId],
+  });
+}
+
+/**
+ * Extract facts and entities from the messages of a thread not read yet
+ * and store them. Progress is kept in the thread metadata
+ * (`long_term_memory`), so each message is read once.
+ *
+ * @param messages - The thread, oldest first, with message ids
+ */
+export async function extractFactsFromThread(
+  messages: ExtractionMessage[],
+  options: FactExtractionOptions
+): Promise<FactExtractionResult> {
+  const extract =
+    options.extract ??
+    (options.model ? createFactExtractor(options.model) : undefined);
+  if (!extract) throw new Error('Fact extraction needs a model or extractor');
+
+  const metadata = await readThreadMetadata(options.threadId);
+  const cursor = metadata?.long_term_memory as ExtractionCursor | undefined;
+  const read = cursor
+    ? messages.findIndex((message) => message.id === cursor.lastMessageId)
+    : -1;
+  const unread = messages
+    .slice(read + 1)
+    .filter(
+      (message) => message.role === 'user' || message.role === 'assistant'
+    );
+  const last = messages[messages.length - 1];
+  if (unread.length === 0 || !last?.id) {
+    return { facts: [], entities: [], messages: 0 };
+  }
+
+  const known = await listFacts(options.scope, { limit: KNOWN_FACTS_LIMIT });
+  const extracted = await extract(
+    unread.slice(-(options.maxMessages ?? 20)),
+    known.map((fact) => fact.content)
+  );
+
+  const result: FactExtractionResult = {
+    facts: [],
+    entities: [],
+    messages: unread.length,
+  };
+  for (const entity of extracted.entities) {
+    result.entities.push(await upsertEntity(entity, options.scope));
+  }
+  for (const fact of extracted.facts) {
+    if (fact.confidence < (options.minConfidence ?? 0.6)) continue;
+    result.facts.push(
+      await rememberFact(
+        {
+          ...fact,
+          source: 'extraction',
+          sourceThreadId: options.threadId,
+        },
+        options.scope,
+        options.mergeThreshold
+      )
+    );
+  }
+
+  await saveExtractionCursor(options.threadId, {
+    lastMessageId: last.id,
+    updatedAt: new Date().toISOString(),
+  });
+  return result;
+}
+
+// Extractions in flight, chained per thread so they run one at a time
+const pendingExtractions = new Map<string, Promise<void>>();
+
+/**
+ * A message processor that extracts facts from a thread in the background.
+ * Messages pass through unchanged; extraction runs after the pipeline, one
+ * at a time per thread, and failures are logged.
+ *
+ * @example
+ * ```typescript
+ * new MemoryProcessorPipeline([
+ *   createFactExtractionProcessor({ threadId, scope: { userId }, model }),
+ * ]).run(messages);
+ * ```
+ */
+export function createFactExtractionProcessor(
+  options: FactExtractionOptions
+): MessageProcessor {
+  return (messages) => {
+    const { threadId } = options;
+    const previous = pendingExtractions.get(threadId) ?? Promise.resolve();
+    const next = previous
+      .then(() => extractFactsFromThread(messages, options))
+      .then(
+        () => undefined,
+        (error) => {
+          upstashLogger.warn(
+            'memory',
+            `Fact extraction failed for thread ${threadId}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      )
+      .finally(() => {
+        if (pendingExtractions.get(threadId) === next) {
+          pendingExtractions.delete(threadId);
+        }
+      });
+    pendingExtractions.set(threadId, next);
+    return messages;
+  };
+}
+
+/**
+ * Wait for the background extractions of a thread, or of all threads.
+ */
+export async function waitForFactExtraction(threadId?: string): Promise<void> {
+  if (threadId) {
+    await pendingExtractions.get(threadId);
+    return;
+  }
+  await Promise.all(pendingExtractions.values());
+}
@@ -3,10 +3,20 @@ import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { generateId } from 'ai';
 import { encodingForModel } from 'js-tiktoken';
-import { pipeline } from '@xenova/transformers';
 import { generateAIResponse } from '../ai';
 import { LRUCache } from 'lru-cache';
-import { getGoogleAI } from '../google-ai'; // for fallback embeddings
+import {
+  EmbeddingProviderError,
+  embedText,
+  findEmbeddingProvider,
+  getEmbeddingProvider,
+} from './embeddings';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  assertNamespaceVector,
+  embedForNamespace,
+} from './embedding-namespaces';
+import { cosineSimilarity } from './similarity';
 import {
   MemoryThreadSchema,
   MessageSchema,
@@ -58,9 +68,6 @@ export const MessageOptionsSchema = z.object({
 });
 export type MessageOptions = z.infer<typeof MessageOptionsSchema>;
 
-// Initialize embedding model
-let embeddingModel: unknown = null;
-
 // Cache for thread messages: key = thread_id, value = Message[]
 const messagesCache = new LRUCache<string, z.infer<typeof MessageSchema>[]>({
   max: 100,
@@ -286,57 +293,30 @@ export function countTokens(
   }
 }
 
-// Generate embeddings using @xenova/transformers or fallback to Google text-embedding-004
+// Generate embeddings with the default provider, or with the provider that
+// serves `modelName` (e.g. 'text-embedding-004'); see lib/memory/embeddings.ts
 export async function generateEmbedding(
   text: string,
-  modelName?: string // optional: specify 'text-embedding-004' for Google
+  modelName?: string
 ): Promise<Float32Array> {
-  // Try local Xenova pipeline first unless explicit Google model requested
-  if (!modelName || modelName !== 'text-embedding-004') {
-    try {
-      if (!embeddingModel) {
-        embeddingModel = await pipeline(
-          'feature-extraction',
-          'Xenova/all-MiniLM-L6-v2'
-        );
-      }
-      const result = await (embeddingModel as unknown)(text, {
-        pooling: 'mean',
-        normalize: true,
-      });
-      return result.data;
-    } catch (error) {
-      throw new Error(
-        `Xenova embedding failed, falling back to Google text-embedding-004: ${error}`
-      );
-    }
-  }
+  if (!modelName) return embedText(text);
 
-  // Fallback: Google text-embedding-004 via AI SDK (second choice)
-  try {
-    const googleAI = getGoogleAI(); // uses process.env.GOOGLE_API_KEY
-    // hypothetically support embed method; adjust per SDK
-    if (typeof (googleAI as unknown).embed === 'function') {
-      const res = await (googleAI as unknown).embed({
-        model: 'text-embedding-004',
-        input: text,
-      });
-      // assume response contains embeddings as number[][]
-      const data = res.data[0].embedding;
-      return new Float32Array(data);
-    } else {
-      throw new Error('Google AI SDK embedding method not available');
-    }
-  } catch (error) {
-    throw new Error(`Google embedding failed: ${error}`);
+  const provider = findEmbeddingProvider(modelName);
+  if (!provider) {
+    throw new EmbeddingProviderError(
+      `No registered embedding provider serves ${modelName}`
+    );
   }
+  return embedText(text, provider.name);
 }
 
 // Save embedding to database
 export async function saveEmbedding(
   vector: Float32Array,
-  model = 'all-MiniLM-L6-v2'
+  model = getEmbeddingProvider().model,
+  namespace = DEFAULT_EMBEDDING_NAMESPACE
 ): Promise<string> {
+  await assertNamespaceVector(namespace, model, vector.length);
   try {
     const db = getLibSQLClient();
     const id = generateId();
@@ -346,10 +326,10 @@ export async function saveEmbedding(
 
     await db.execute({
       sql: `
-        INSERT INTO embeddings (id, vector, model, dimensions)
-        VALUES (?, ?, ?, ?)
+        INSERT INTO embeddings (id, vector, model, dimensions, namespace)
+        VALUES (?, ?, ?, ?, ?)
       `,
-      args: [id, buffer, model, vector.length],
+      args: [id, buffer, model, vector.length, namespace],
     });
 
     return id;
@@ -393,8 +373,11 @@ export async function saveMessage(
   let embedding_id = null;
   if (generate_embeddings) {
     try {
-      const embedding = await generateEmbedding(content);
-      embedding_id = await saveEmbedding(embedding);
+      const {
+        model,
+        vectors: [embedding],
+      } = await embedForNamespace(DEFAULT_EMBEDDING_NAMESPACE, [content]);
+      embedding_id = await saveEmbedding(embedding, model);
     } catch (error) {
       throw new Error(`Error generating embedding for message: ${error}`);
     }
@@ -607,8 +590,10 @@ export async function semanticSearchMemory(
   try {
     const { thread_id, agent_id, limit = 5 } = options;
 
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query);
+    // Embed the query with the model the stored messages were embedded with
+    const {
+      vectors: [queryEmbedding],
+    } = await embedForNamespace(DEFAULT_EMBEDDING_NAMESPACE, [query]);
 
     const db = getLibSQLClient();
 
@@ -668,25 +653,6 @@ export async function semanticSearchMemory(
   }
 }
 
-// Helper function to compute cosine similarity
-function cosineSimilarity(a: Float32Array, b: Float32Array): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same dimensions');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
 // --- CRUD LOGIC STUBS FOR ALL MAIN ENTITIES (EXCEPT WORKFLOWS/GQL) ---
 // -- 2025-05-18
 // --- App ---
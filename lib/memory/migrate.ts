@@ -0,0 +1,179 @@
+/**
+ * @file Command-line entry point for memory export, import and migration.
+ *
+ * @example
+ *   npx tsx lib/memory/migrate.ts export --from libsql --out memory.jsonl
+ *   npx tsx lib/memory/migrate.ts import --to supabase --in memory.jsonl --dry-run
+ *   npx tsx lib/memory/migrate.ts migrate --from libsql --to upstash \
+ *     --checkpoint .memory-migration.json
+ *
+ * @remarks
+ *   Options: `--agent` / `--user` (export filters), `--no-vectors`,
+ *   `--embedding-model` (source model), `--target-embedding-model`,
+ *   `--reembed auto|always|never`, `--duplicate-existing` and `--dry-run`.
+ *   With `--checkpoint <file>`, progress is written to the file as the import
+ *   runs and read back on the next run, so an interrupted import resumes.
+ *   The `cloudflare` provider needs its bindings, so it only works from the
+ *   API route.
+ */
+
+import 'dotenv/config';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import type { Writable } from 'stream';
+import type { MemoryProvider } from './factory';
+import type { ImportOptions } from './migration';
+
+const PROVIDERS: MemoryProvider[] = [
+  'libsql',
+  'upstash',
+  'supabase',
+  'cloudflare',
+];
+
+function parseArgs(argv: string[]) {
+  const [command, ...rest] = argv;
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const next = rest[i + 1];
+    flags[arg.slice(2)] = next && !next.startsWith('--') ? rest[++i] : true;
+  }
+  return { command, flags };
+}
+
+function stringFlag(
+  flags: Record<string, string | true>,
+  name: string
+): string | undefined {
+  const value = flags[name];
+  if (value === true) throw new Error(`--${name} needs a value`);
+  return value;
+}
+
+function providerFlag(
+  flags: Record<string, string | true>,
+  name: string
+): MemoryProvider {
+  const value = stringFlag(flags, name);
+  if (!value || !PROVIDERS.includes(value as MemoryProvider)) {
+    throw new Error(`--${name} must be one of: ${PROVIDERS.join(', ')}`);
+  }
+  return value as MemoryProvider;
+}
+
+function reembedFlag(
+  flags: Record<string, string | true>
+): NonNullable<ImportOptions['reembed']> {
+  const value = stringFlag(flags, 'reembed') ?? 'auto';
+  if (value !== 'auto' && value !== 'always' && value !== 'never') {
+    throw new Error('--reembed must be one of: auto, always, never');
+  }
+  return value;
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv.slice(2));
+  if (command !== 'export' && command !== 'import' && command !== 'migrate') {
+    console.error(
+      'Usage: migrate.ts <export|import|migrate> [--from <provider>] [--to <provider>] [--in <file>] [--out <file>] [--checkpoint <file>] [--dry-run]'
+    );
+    process.exit(1);
+  }
+
+  const { createMemory } = await import('./factory');
+  const {
+    MigrationCheckpointSchema,
+    exportMemory,
+    importMemory,
+    migrateMemory,
+    parseArchive,
+    serializeArchiveRecord,
+  } = await import('./migration');
+
+  if (command === 'export') {
+    const provider = providerFlag(flags, 'from');
+    const out = stringFlag(flags, 'out');
+    const output: Writable = out ? createWriteStream(out) : process.stdout;
+    const records = exportMemory(createMemory({ enabled: false }, provider), {
+      provider,
+      filters: {
+        agent_id: stringFlag(flags, 'agent'),
+        user_id: stringFlag(flags, 'user'),
+      },
+      includeVectors: !flags['no-vectors'],
+      embeddingModel: stringFlag(flags, 'embedding-model'),
+    });
+    for await (const record of records) {
+      if (!output.write(serializeArchiveRecord(record))) {
+        await new Promise((resolve) => output.once('drain', resolve));
+      }
+      if (record.type === 'footer' && out) {
+        console.error(
+          `Exported ${record.threads} threads, ${record.messages} messages and ${record.agentStates} agent states to ${out}`
+        );
+      }
+    }
+    if (out) {
+      await new Promise<void>((resolve) => output.end(resolve));
+    }
+    return;
+  }
+
+  const checkpointFile = stringFlag(flags, 'checkpoint');
+  const checkpoint =
+    checkpointFile && existsSync(checkpointFile)
+      ? MigrationCheckpointSchema.parse(
+          JSON.parse(await readFile(checkpointFile, 'utf8'))
+        )
+      : undefined;
+  const importOptions = {
+    dryRun: flags['dry-run'] === true,
+    reembed: reembedFlag(flags),
+    targetEmbeddingModel: stringFlag(flags, 'target-embedding-model'),
+    duplicateExisting: flags['duplicate-existing'] === true,
+    checkpoint,
+    onCheckpoint: checkpointFile
+      ? (latest: unknown) =>
+          writeFile(checkpointFile, JSON.stringify(latest, null, 2))
+      : undefined,
+  };
+  const target = createMemory({ enabled: false }, providerFlag(flags, 'to'));
+
+  let report;
+  if (command === 'import') {
+    const input = stringFlag(flags, 'in');
+    const lines = createInterface({
+      input: input ? createReadStream(input) : process.stdin,
+      crlfDelay: Infinity,
+    });
+    report = await importMemory(target, parseArchive(lines), importOptions);
+  } else {
+    const source = providerFlag(flags, 'from');
+    report = await migrateMemory(
+      createMemory({ enabled: false }, source),
+      target,
+      {
+        ...importOptions,
+        provider: source,
+        includeVectors: !flags['no-vectors'],
+        embeddingModel: stringFlag(flags, 'embedding-model'),
+        filters: {
+          agent_id: stringFlag(flags, 'agent'),
+          user_id: stringFlag(flags, 'user'),
+        },
+      }
+    );
+  }
+
+  console.log(JSON.stringify(report, null, 2));
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,638 @@
+/**
+ * Memory Migration
+ *
+ * Moves threads, messages, embeddings and agent states between memory
+ * providers through `MemoryInterface`, by way of a versioned JSONL archive:
+ * a header, then each thread followed by its messages and agent states, then
+ * a footer with the totals. `exportMemory` produces the records one at a
+ * time and `importMemory` consumes them one at a time, so archives of any
+ * size stream through.
+ *
+ * Importing creates new ids on the target; the source → target thread map is
+ * kept in a checkpoint that is updated after every record, so an interrupted
+ * import resumes where it stopped. Threads that already exist on the target
+ * (same name and agent) are skipped. A dry run makes no writes and reports
+ * what would change. Vectors are copied when the archive carries them and the
+ * target uses the same embedding model; otherwise the messages are embedded
+ * again on the target.
+ *
+ * Message timestamps are not carried over: `MemoryInterface.saveMessage`
+ * stamps messages as they are written, in archive order.
+ */
+
+import { z } from 'zod';
+import type {
+  MemoryInterface,
+  ThreadMetadata,
+  MessageOptions,
+} from './factory';
+import { getEmbeddingProvider } from './embeddings';
+
+export const MEMORY_ARCHIVE_VERSION = 1;
+
+// Provider bookkeeping kept in message metadata, not carried over
+const INTERNAL_METADATA_KEYS = [
+  'has_embedding',
+  'embedding_id',
+  'token_count',
+  'tool_call_id',
+  'tool_name',
+];
+
+const ArchiveHeaderSchema = z.object({
+  type: z.literal('header'),
+  version: z.number().int(),
+  provider: z.string().optional(),
+  embeddingModel: z.string(),
+  exportedAt: z.string(),
+});
+
+const ArchiveThreadSchema = z.object({
+  type: z.literal('thread'),
+  id: z.string(),
+  name: z.string(),
+  agent_id: z.string().nullable().optional(),
+  user_id: z.string().nullable().optional(),
+  summary: z.string().nullable().optional(),
+  metadata: z.record(z.unknown()),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+const ArchiveMessageSchema = z.object({
+  type: z.literal('message'),
+  id: z.string(),
+  thread_id: z.string(),
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
+  content: z.string(),
+  tool_call_id: z.string().nullable().optional(),
+  tool_name: z.string().nullable().optional(),
+  metadata: z.record(z.unknown()),
+  created_at: z.string().optional(),
+  embedding: z
+    .object({
+      model: z.string(),
+      vector: z.array(z.number()).optional(),
+    })
+    .optional(),
+});
+
+const ArchiveAgentStateSchema = z.object({
+  type: z.literal('agent_state'),
+  thread_id: z.string(),
+  agent_id: z.string(),
+  state: z.record(z.unknown()),
+});
+
+const ArchiveFooterSchema = z.object({
+  type: z.literal('footer'),
+  threads: z.number().int(),
+  messages: z.number().int(),
+  agentStates: z.number().int(),
+  embeddings: z.number().int(),
+});
+
+export const ArchiveRecordSchema = z.discriminatedUnion('type', [
+  ArchiveHeaderSchema,
+  ArchiveThreadSchema,
+  ArchiveMessageSchema,
+  ArchiveAgentStateSchema,
+  ArchiveFooterSchema,
+]);
+
+export type ArchiveRecord = z.infer<typeof ArchiveRecordSchema>;
+export type ArchiveThread = z.infer<typeof ArchiveThreadSchema>;
+export type ArchiveMessage = z.infer<typeof ArchiveMessageSchema>;
+
+export const MigrationCheckpointSchema = z.object({
+  version: z.literal(MEMORY_ARCHIVE_VERSION),
+  /** Source thread id → target thread id */
+  threadIds: z.record(z.string()),
+  /** Source threads fully imported */
+  completedThreads: z.array(z.string()),
+  /** Thread being imported and how many of its messages are done */
+  current: z
+    .object({ threadId: z.string(), messages: z.number().int() })
+    .optional(),
+  updatedAt: z.string(),
+});
+
+export type MigrationCheckpoint = z.infer<typeof MigrationCheckpointSchema>;
+
+export interface ExportOptions {
+  /** Provider name recorded in the header */
+  provider?: string;
+  /** Only export matching threads */
+  filters?: { user_id?: string; agent_id?: string };
+  /** Agents whose state to export besides each thread's own agent */
+  agentIds?: string[];
+  /** Include stored vectors when the source can load them (default: true) */
+  includeVectors?: boolean;
+  /** Model the source embeddings were made with */
+  embeddingModel?: string;
+  /** Threads to leave out, e.g. those a checkpoint marks complete */
+  skipThreadIds?: Iterable<string>;
+  /** Threads listed per page (default: 100) */
+  pageSize?: number;
+}
+
+export interface ImportOptions {
+  /** Report what would change without writing */
+  dryRun?: boolean;
+  /** Checkpoint of an earlier, interrupted import */
+  checkpoint?: MigrationCheckpoint;
+  /** Called whenever the checkpoint changes */
+  onCheckpoint?: (checkpoint: MigrationCheckpoint) => Promise<void> | void;
+  /**
+   * `auto` (default) copies vectors made with the target model and embeds
+   * the rest again, `always` embeds every message again, `never` drops
+   * embeddings that cannot be copied.
+   */
+  reembed?: 'auto' | 'always' | 'never';
+  /** Model the target embeds with */
+  targetEmbeddingModel?: string;
+  /** Import threads even when the target has one with the same name and agent */
+  duplicateExisting?: boolean;
+}
+
+/** What happens to one source thread. */
+export interface ThreadMigration {
+  sourceId: string;
+  name: string;
+  action: 'create' | 'resume' | 'skip';
+  targetId?: string;
+  messages: number;
+  /** Messages already in the target thread (skipped threads, dry run) */
+  targetMessages?: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  threads: { created: number; resumed: number; skipped: number };
+  messages: { imported: number; skipped: number };
+  agentStates: number;
+  embeddings: { copied: number; reembedded: number; dropped: number };
+  /** Source thread id → target thread id */
+  threadIds: Record<string, string>;
+  diff: ThreadMigration[];
+  checkpoint: MigrationCheckpoint;
+}
+
+function parseMetadata(metadata: unknown): Record<string, unknown> {
+  if (!metadata) return {};
+  if (typeof metadata === 'string') {
+    try {
+      return JSON.parse(metadata);
+    } catch {
+      return {};
+    }
+  }
+  return metadata as Record<string, unknown>;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * List every thread of a memory, page by page. Stops at the first page
+ * without new threads, so providers that ignore `offset` end cleanly.
+ */
+async function* listAllThreads(
+  memory: MemoryInterface,
+  filters?: { user_id?: string; agent_id?: string },
+  pageSize = 100
+) {
+  const seen = new Set<string>();
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await memory.listMemoryThreads({
+      limit: pageSize,
+      offset,
+      filters,
+    });
+    const fresh = page.filter((thread) => !seen.has(thread.id));
+    for (const thread of fresh) {
+      seen.add(thread.id);
+      yield thread;
+    }
+    if (fresh.length === 0 || page.length < pageSize) return;
+  }
+}
+
+/**
+ * Export a memory as archive records, one thread at a time.
+ */
+export async function* exportMemory(
+  memory: MemoryInterface,
+  options: ExportOptions = {}
+): AsyncGenerator<ArchiveRecord> {
+  const embeddingModel = options.embeddingModel ?? getEmbeddingProvider().model;
+  const includeVectors = options.includeVectors ?? true;
+  const skip = new Set(options.skipThreadIds ?? []);
+  const totals = { threads: 0, messages: 0, agentStates: 0, embeddings: 0 };
+
+  yield {
+    type: 'header',
+    version: MEMORY_ARCHIVE_VERSION,
+    provider: options.provider,
+    embeddingModel,
+    exportedAt: new Date().toISOString(),
+  };
+
+  for await (const thread of listAllThreads(
+    memory,
+    options.filters,
+    options.pageSize
+  )) {
+    if (skip.has(thread.id)) continue;
+    const metadata = parseMetadata(thread.metadata);
+    yield {
+      type: 'thread',
+      id: thread.id,
+      name: thread.name ?? '',
+      agent_id: thread.agent_id ?? null,
+      user_id:
+        ('user_id' in thread ? optionalString(thread.user_id) : null) ??
+        optionalString(metadata.user_id),
+      summary: 'summary' in thread ? (thread.summary ?? null) : null,
+      metadata,
+      created_at: thread.created_at,
+      updated_at: thread.updated_at,
+    };
+    totals.threads++;
+
+    for (const message of await memory.loadMessages(thread.id)) {
+      const messageMetadata = parseMetadata(message.metadata);
+      const embeddingId =
+        ('embedding_id' in message
+          ? optionalString(message.embedding_id)
+          : null) ?? optionalString(messageMetadata.embedding_id);
+      let embedding: ArchiveMessage['embedding'];
+      if (embeddingId || messageMetadata.has_embedding === true) {
+        embedding = { model: embeddingModel };
+        if (embeddingId && includeVectors && memory.loadEmbedding) {
+          const stored = await memory
+            .loadEmbedding(embeddingId)
+            .catch(() => null);
+          if (stored) {
+            embedding = {
+              model: stored.model ?? embeddingModel,
+              vector: Array.from(stored.vector),
+            };
+          }
+        }
+        totals.embeddings++;
+      }
+
+      yield {
+        type: 'message',
+        id: message.id,
+        thread_id: thread.id,
+        role: message.role as ArchiveMessage['role'],
+        content: message.content,
+        tool_call_id:
+          ('tool_call_id' in message
+            ? optionalString(message.tool_call_id)
+            : null) ?? optionalString(messageMetadata.tool_call_id),
+        tool_name:
+          ('tool_name' in message ? optionalString(message.tool_name) : null) ??
+          optionalString(messageMetadata.tool_name),
+        metadata: Object.fromEntries(
+          Object.entries(messageMetadata).filter(
+            ([key]) => !INTERNAL_METADATA_KEYS.includes(key)
+          )
+        ),
+        created_at: message.created_at,
+        embedding,
+      };
+      totals.messages++;
+    }
+
+    const agentIds = new Set(
+      [thread.agent_id, ...(options.agentIds ?? [])].filter(
+        (id): id is string => !!id
+      )
+    );
+    for (const agentId of agentIds) {
+      const state = await memory.loadAgentState?.(thread.id, agentId);
+      if (!state || Object.keys(state).length === 0) continue;
+      yield {
+        type: 'agent_state',
+        thread_id: thread.id,
+        agent_id: agentId,
+        state,
+      };
+      totals.agentStates++;
+    }
+  }
+
+  yield { type: 'footer', ...totals };
+}
+
+/** Serialize an archive record as one JSONL line. */
+export function serializeArchiveRecord(record: ArchiveRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Parse JSONL lines into archive records, skipping blank lines.
+ *
+ * @throws When a line is not a valid record
+ */
+export async function* parseArchive(
+  lines: AsyncIterable<string> | Iterable<string>
+): AsyncGenerator<ArchiveRecord> {
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on archive line ${lineNumber}`);
+    }
+    const parsed = ArchiveRecordSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid archive record on line ${lineNumber}: ${parsed.error.message}`
+      );
+    }
+    yield parsed.data;
+  }
+}
+
+/**
+ * Split a byte stream (e.g. a request body) into lines.
+ */
+export async function* readLines(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += done
+      ? decoder.decode()
+      : decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    yield* lines;
+    if (done) break;
+  }
+  if (buffered) yield buffered;
+}
+
+/**
+ * Import archive records into a memory.
+ *
+ * @param memory - Target memory
+ * @param records - Records in archive order, e.g. from `parseArchive` or
+ *   `exportMemory`
+ */
+export async function importMemory(
+  memory: MemoryInterface,
+  records: AsyncIterable<ArchiveRecord>,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+  const reembed = options.reembed ?? 'auto';
+  const targetModel =
+    options.targetEmbeddingModel ?? getEmbeddingProvider().model;
+  const checkpoint: MigrationCheckpoint = options.checkpoint
+    ? structuredClone(options.checkpoint)
+    : {
+        version: MEMORY_ARCHIVE_VERSION,
+        threadIds: {},
+        completedThreads: [],
+        updatedAt: new Date().toISOString(),
+      };
+  const completed = new Set(checkpoint.completedThreads);
+  const report: ImportReport = {
+    dryRun,
+    threads: { created: 0, resumed: 0, skipped: 0 },
+    messages: { imported: 0, skipped: 0 },
+    agentStates: 0,
+    embeddings: { copied: 0, reembedded: 0, dropped: 0 },
+    threadIds: checkpoint.threadIds,
+    diff: [],
+    checkpoint,
+  };
+
+  const saveCheckpoint = async () => {
+    if (dryRun) return;
+    checkpoint.updatedAt = new Date().toISOString();
+    await options.onCheckpoint?.(checkpoint);
+  };
+
+  // Threads already on the target, by agent and name
+  let existing: Map<string, string> | undefined;
+  const findExisting = async (thread: ArchiveThread) => {
+    if (!existing) {
+      existing = new Map();
+      for await (const target of listAllThreads(memory)) {
+        existing.set(`${target.agent_id ?? ''}\u0000${target.name}`, target.id);
+      }
+    }
+    return existing.get(`${thread.agent_id ?? ''}\u0000${thread.name}`);
+  };
+
+  // Thread the records belong to, and how many of its messages a resumed
+  // import has already written
+  let current: ThreadMigration | undefined;
+  let skipMessages = 0;
+  const finishThread = async () => {
+    if (!current) return;
+    report.diff.push(current);
+    if (
+      !dryRun &&
+      current.action !== 'skip' &&
+      !completed.has(current.sourceId)
+    ) {
+      completed.add(current.sourceId);
+      checkpoint.completedThreads.push(current.sourceId);
+      checkpoint.current = undefined;
+      await saveCheckpoint();
+    }
+    current = undefined;
+  };
+
+  for await (const record of records) {
+    switch (record.type) {
+      case 'header':
+        if (record.version !== MEMORY_ARCHIVE_VERSION) {
+          throw new Error(
+            `Unsupported memory archive version ${record.version} (expected ${MEMORY_ARCHIVE_VERSION})`
+          );
+        }
+        break;
+
+      case 'thread': {
+        await finishThread();
+        const mapped = checkpoint.threadIds[record.id];
+        skipMessages = 0;
+        if (completed.has(record.id)) {
+          current = {
+            sourceId: record.id,
+            name: record.name,
+            action: 'skip',
+            targetId: mapped,
+            messages: 0,
+          };
+          report.threads.skipped++;
+        } else if (mapped) {
+          current = {
+            sourceId: record.id,
+            name: record.name,
+            action: 'resume',
+            targetId: mapped,
+            messages: 0,
+          };
+          if (checkpoint.current?.threadId === record.id) {
+            skipMessages = checkpoint.current.messages;
+          }
+          report.threads.resumed++;
+        } else {
+          const existingId = options.duplicateExisting
+            ? undefined
+            : await findExisting(record);
+          if (existingId) {
+            current = {
+              sourceId: record.id,
+              name: record.name,
+              action: 'skip',
+              targetId: existingId,
+              messages: 0,
+              targetMessages: (await memory.loadMessages(existingId)).length,
+            };
+            report.threads.skipped++;
+          } else {
+            let targetId: string | undefined;
+            if (!dryRun) {
+              targetId = await memory.createMemoryThread(record.name, {
+                agent_id: record.agent_id ?? undefined,
+                user_id: record.user_id ?? undefined,
+                metadata: record.metadata as ThreadMetadata,
+              });
+              checkpoint.threadIds[record.id] = targetId;
+              checkpoint.current = { threadId: record.id, messages: 0 };
+              await saveCheckpoint();
+            }
+            current = {
+              sourceId: record.id,
+              name: record.name,
+              action: 'create',
+              targetId,
+              messages: 0,
+            };
+            report.threads.created++;
+          }
+        }
+        break;
+      }
+
+      case 'message': {
+        if (!current || current.sourceId !== record.thread_id) {
+          throw new Error(
+            `Message ${record.id} is not preceded by its thread ${record.thread_id}`
+          );
+        }
+        const index = current.messages++;
+        if (current.action === 'skip' || index < skipMessages) {
+          report.messages.skipped++;
+          break;
+        }
+
+        const messageOptions: MessageOptions = {
+          metadata: record.metadata,
+          tool_call_id: record.tool_call_id ?? undefined,
+          tool_name: record.tool_name ?? undefined,
+        };
+        if (record.embedding) {
+          if (
+            reembed === 'auto' &&
+            record.embedding.vector &&
+            record.embedding.model === targetModel
+          ) {
+            messageOptions.embedding = new Float32Array(
+              record.embedding.vector
+            );
+            report.embeddings.copied++;
+          } else if (reembed === 'never') {
+            report.embeddings.dropped++;
+          } else {
+            messageOptions.generate_embeddings = true;
+            report.embeddings.reembedded++;
+          }
+        }
+
+        if (!dryRun) {
+          await memory.saveMessage(
+            current.targetId!,
+            record.role,
+            record.content,
+            messageOptions
+          );
+          checkpoint.current = {
+            threadId: record.thread_id,
+            messages: index + 1,
+          };
+          await saveCheckpoint();
+        }
+        report.messages.imported++;
+        break;
+      }
+
+      case 'agent_state': {
+        if (!current || current.sourceId !== record.thread_id) {
+          throw new Error(
+            `Agent state of ${record.agent_id} is not preceded by its thread ${record.thread_id}`
+          );
+        }
+        if (current.action === 'skip') break;
+        if (!dryRun) {
+          if (!memory.saveAgentState) {
+            throw new Error('Target memory cannot save agent state');
+          }
+          await memory.saveAgentState(
+            current.targetId!,
+            record.agent_id,
+            record.state
+          );
+        }
+        report.agentStates++;
+        break;
+      }
+
+      case 'footer':
+        await finishThread();
+        break;
+    }
+  }
+  await finishThread();
+
+  return report;
+}
+
+/**
+ * Migrate one memory into another without an intermediate archive.
+ * Threads the checkpoint marks complete are not read from the source again.
+ */
+export async function migrateMemory(
+  source: MemoryInterface,
+  target: MemoryInterface,
+  options: ExportOptions & ImportOptions = {}
+): Promise<ImportReport> {
+  return importMemory(
+    target,
+    exportMemory(source, {
+      ...options,
+      skipThreadIds: [
+        ...(options.skipThreadIds ?? []),
+        ...(options.checkpoint?.completedThreads ?? []),
+      ],
+    }),
+    options
+  );
+}
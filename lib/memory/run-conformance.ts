@@ -0,0 +1,83 @@
+/**
+ * @file Command-line entry point for the memory conformance suite.
+ *
+ * @example
+ *   pnpm test:memory                   # every provider
+ *   pnpm test:memory libsql cloudflare # only these
+ *
+ * @remarks
+ *   `libsql` runs against a throwaway SQLite file migrated with
+ *   `drizzle/migrations/libsql`, never the configured database, and
+ *   `cloudflare` against the local D1 and Vectorize stand-ins, so both run
+ *   without any service.  `upstash` and `supabase` run when their
+ *   environment is configured and are reported as skipped otherwise.  Exits
+ *   with status 1 if any scenario fails.
+ */
+
+import 'dotenv/config';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { createClient } from '@libsql/client';
+import { drizzle } from 'drizzle-orm/libsql';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+import type { MemoryProvider } from './factory';
+
+const PROVIDERS: MemoryProvider[] = [
+  'libsql',
+  'upstash',
+  'supabase',
+  'cloudflare',
+];
+
+async function main() {
+  const requested = process.argv.slice(2) as MemoryProvider[];
+  const unknown = requested.filter((name) => !PROVIDERS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown memory provider: ${unknown.join(', ')}`);
+  }
+
+  // Point every LibSQL client at the throwaway database before the memory
+  // modules, which create their clients on import, are loaded
+  const directory = mkdtempSync(path.join(tmpdir(), 'memory-conformance-'));
+  const url = `file:${path.join(directory, 'memory.db')}`;
+  process.env.LIBSQL_URL = url;
+  process.env.LIBSQL_DATABASE_URL = url;
+  delete process.env.LIBSQL_AUTH_TOKEN;
+
+  const client = createClient({ url });
+  try {
+    await migrate(drizzle(client), {
+      migrationsFolder: path.resolve('drizzle/migrations/libsql'),
+    });
+
+    const { runProviderConformance } = await import('./conformance');
+    const reports = await runProviderConformance(
+      requested.length > 0 ? requested : PROVIDERS
+    );
+
+    let failed = 0;
+    for (const report of reports) {
+      if (report.skipped) {
+        console.log(`- ${report.provider}: skipped (${report.reason})`);
+        continue;
+      }
+      console.log(
+        `${report.failed ? '✗' : '✓'} ${report.provider}: ${report.passed} passed, ${report.failed} failed`
+      );
+      for (const result of report.results.filter((r) => !r.passed)) {
+        console.log(`    ${result.scenario}: ${result.error}`);
+      }
+      failed += report.failed;
+    }
+    process.exitCode = failed > 0 ? 1 : 0;
+  } finally {
+    client.close();
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
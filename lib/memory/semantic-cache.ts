@@ -0,0 +1,731 @@
+/**
+ * Semantic Response Cache
+ *
+ * A language model middleware that answers a prompt from cache when an
+ * earlier prompt meant the same thing. The last user turn is embedded and
+ * compared (cosine similarity) with the cached prompts of the same scope —
+ * same model, system prompt, tool set, response format and, by default,
+ * the same earlier turns — and the cached answer is served when the best
+ * match reaches the similarity threshold. Only plain text answers that
+ * finished normally are cached.
+ *
+ * Entries live in an in-process index, the LibSQL `semantic_cache` table or
+ * an Upstash Vector namespace. Hits and misses are counted in
+ * `cacheMetrics.semantic`.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  generateId,
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { logEvent } from '../langfuse-integration';
+import { getLibSQLClient } from './db';
+import { cacheMetrics } from './factory';
+import { generateEmbedding } from './memory';
+import { cosineSimilarity } from './similarity';
+import { getVectorClient } from './upstash/upstashClients';
+import { upstashLogger } from './upstash/upstash-logger';
+
+/** A cached model answer. */
+export interface CachedResponse {
+  text: string;
+  reasoning?: string;
+  /** Usage of the call that produced the answer */
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+/** A cached prompt and its answer. */
+export interface SemanticCacheEntry {
+  id: string;
+  scope: string;
+  /** 'provider:modelId' of the model that answered */
+  modelId: string;
+  prompt: string;
+  vector: Float32Array;
+  response: CachedResponse;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/** The closest cached entry and its similarity to the prompt. */
+export interface SemanticCacheMatch {
+  entry: SemanticCacheEntry;
+  similarity: number;
+}
+
+/** Selects the entries to invalidate; an empty filter selects all of them. */
+export interface SemanticCacheFilter {
+  id?: string;
+  scope?: string;
+  modelId?: string;
+  /** Entries created before this date */
+  olderThan?: Date;
+}
+
+/** Storage and nearest-neighbour lookup of cache entries. */
+export interface SemanticCacheBackend {
+  readonly name: string;
+  /** Best unexpired entry of a scope with at least `minSimilarity`. */
+  search(
+    scope: string,
+    vector: Float32Array,
+    minSimilarity: number
+  ): Promise<SemanticCacheMatch | undefined>;
+  put(entry: SemanticCacheEntry): Promise<void>;
+  /** Remove matching entries and return how many were removed. */
+  invalidate(filter?: SemanticCacheFilter): Promise<number>;
+}
+
+function matchesFilter(
+  entry: SemanticCacheEntry,
+  filter: SemanticCacheFilter
+): boolean {
+  return (
+    (filter.id === undefined || entry.id === filter.id) &&
+    (filter.scope === undefined || entry.scope === filter.scope) &&
+    (filter.modelId === undefined || entry.modelId === filter.modelId) &&
+    (filter.olderThan === undefined ||
+      entry.createdAt < filter.olderThan.getTime())
+  );
+}
+
+/**
+ * In-process index, lost on restart and not shared between instances. The
+ * oldest entries are evicted beyond `maxEntries`.
+ */
+export class InMemorySemanticCacheBackend implements SemanticCacheBackend {
+  readonly name = 'memory';
+  // Insertion order doubles as age order for eviction
+  private readonly entries = new Map<string, SemanticCacheEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async search(
+    scope: string,
+    vector: Float32Array,
+    minSimilarity: number
+  ): Promise<SemanticCacheMatch | undefined> {
+    const now = Date.now();
+    let best: SemanticCacheMatch | undefined;
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(entry.id);
+        continue;
+      }
+      if (entry.scope !== scope) continue;
+      const similarity = cosineSimilarity(vector, entry.vector);
+      if (
+        similarity >= minSimilarity &&
+        similarity > (best?.similarity ?? -1)
+      ) {
+        best = { entry, similarity };
+      }
+    }
+    return best;
+  }
+
+  async put(entry: SemanticCacheEntry): Promise<void> {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(id);
+    }
+  }
+
+  async invalidate(filter: SemanticCacheFilter = {}): Promise<number> {
+    let removed = 0;
+    for (const entry of this.entries.values()) {
+      if (matchesFilter(entry, filter)) {
+        this.entries.delete(entry.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * LibSQL `semantic_cache` table. Candidates are filtered by scope in SQL and
+ * ranked in process, as in `semanticSearchMemory`.
+ */
+export class LibSQLSemanticCacheBackend implements SemanticCacheBackend {
+  readonly name = 'libsql';
+
+  async search(
+    scope: string,
+    vector: Float32Array,
+    minSimilarity: number
+  ): Promise<SemanticCacheMatch | undefined> {
+    const db = getLibSQLClient();
+    const result = await db.execute({
+      sql: `SELECT * FROM semantic_cache
+            WHERE scope = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      args: [scope, new Date().toISOString()],
+    });
+
+    let best: SemanticCacheMatch | undefined;
+    for (const row of result.rows) {
+      const entry: SemanticCacheEntry = {
+        id: row.id as string,
+        scope: row.scope as string,
+        modelId: row.model_id as string,
+        prompt: row.prompt as string,
+        vector: new Float32Array(row.vector as ArrayBuffer),
+        response: JSON.parse(row.response as string),
+        createdAt: Date.parse(row.created_at as string),
+        expiresAt: row.expires_at
+          ? Date.parse(row.expires_at as string)
+          : undefined,
+      };
+      const similarity = cosineSimilarity(vector, entry.vector);
+      if (
+        similarity >= minSimilarity &&
+        similarity > (best?.similarity ?? -1)
+      ) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (best) {
+      await db.execute({
+        sql: 'UPDATE semantic_cache SET hits = hits + 1 WHERE id = ?',
+        args: [best.entry.id],
+      });
+    }
+    return best;
+  }
+
+  async put(entry: SemanticCacheEntry): Promise<void> {
+    const db = getLibSQLClient();
+    await db.execute({
+      sql: 'DELETE FROM semantic_cache WHERE expires_at <= ?',
+      args: [new Date().toISOString()],
+    });
+    await db.execute({
+      sql: `INSERT OR REPLACE INTO semantic_cache
+              (id, scope, model_id, prompt, vector, response, hits, created_at, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)`,
+      args: [
+        entry.id,
+        entry.scope,
+        entry.modelId,
+        entry.prompt,
+        Buffer.from(
+          entry.vector.buffer,
+          entry.vector.byteOffset,
+          entry.vector.byteLength
+        ),
+        JSON.stringify(entry.response),
+        new Date(entry.createdAt).toISOString(),
+        entry.expiresAt ? new Date(entry.expiresAt).toISOString() : null,
+      ],
+    });
+  }
+
+  async invalidate(filter: SemanticCacheFilter = {}): Promise<number> {
+    const conditions: string[] = [];
+    const args: string[] = [];
+    if (filter.id !== undefined) {
+      conditions.push('id = ?');
+      args.push(filter.id);
+    }
+    if (filter.scope !== undefined) {
+      conditions.push('scope = ?');
+      args.push(filter.scope);
+    }
+    if (filter.modelId !== undefined) {
+      conditions.push('model_id = ?');
+      args.push(filter.modelId);
+    }
+    if (filter.olderThan !== undefined) {
+      conditions.push('created_at < ?');
+      args.push(filter.olderThan.toISOString());
+    }
+
+    const result = await getLibSQLClient().execute({
+      sql: `DELETE FROM semantic_cache${
+        conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+      }`,
+      args,
+    });
+    return result.rowsAffected;
+  }
+}
+
+// Metadata stored with each Upstash vector
+type UpstashCacheMetadata = {
+  scope: string;
+  modelId: string;
+  prompt: string;
+  response: CachedResponse;
+  createdAt: number;
+  expiresAt: number; // 0 when the entry does not expire
+};
+
+// Quote a value for an Upstash Vector metadata filter
+function filterValue(value: string): string {
+  return `'${value.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Upstash Vector namespace. The index must use the cosine metric and the
+ * dimensions of the cache's embedding model.
+ */
+export class UpstashSemanticCacheBackend implements SemanticCacheBackend {
+  readonly name = 'upstash';
+
+  constructor(private readonly namespace = 'semantic-cache') {}
+
+  private get index() {
+    return getVectorClient().namespace(this.namespace);
+  }
+
+  async search(
+    scope: string,
+    vector: Float32Array,
+    minSimilarity: number
+  ): Promise<SemanticCacheMatch | undefined> {
+    const [match] = await this.index.query<UpstashCacheMetadata>({
+      vector: Array.from(vector),
+      topK: 1,
+      includeMetadata: true,
+      filter: `scope = ${filterValue(scope)} AND (expiresAt = 0 OR expiresAt > ${Date.now()})`,
+    });
+    if (!match?.metadata) return undefined;
+
+    // Upstash reports cosine scores normalised to [0, 1]
+    const similarity = 2 * match.score - 1;
+    if (similarity < minSimilarity) return undefined;
+
+    const { metadata } = match;
+    return {
+      similarity,
+      entry: {
+        id: String(match.id),
+        scope: metadata.scope,
+        modelId: metadata.modelId,
+        prompt: metadata.prompt,
+        vector,
+        response: metadata.response,
+        createdAt: metadata.createdAt,
+        expiresAt: metadata.expiresAt || undefined,
+      },
+    };
+  }
+
+  async put(entry: SemanticCacheEntry): Promise<void> {
+    await this.index.upsert<UpstashCacheMetadata>({
+      id: entry.id,
+      vector: Array.from(entry.vector),
+      metadata: {
+        scope: entry.scope,
+        modelId: entry.modelId,
+        prompt: entry.prompt,
+        response: entry.response,
+        createdAt: entry.createdAt,
+        expiresAt: entry.expiresAt ?? 0,
+      },
+    });
+  }
+
+  async invalidate(filter: SemanticCacheFilter = {}): Promise<number> {
+    // Ids are not filterable metadata: fetch the entry and check it here
+    if (filter.id !== undefined) {
+      const [vector] = await this.index.fetch<UpstashCacheMetadata>(
+        [filter.id],
+        { includeMetadata: true }
+      );
+      if (
+        !vector?.metadata ||
+        !matchesFilter(
+          {
+            id: filter.id,
+            scope: vector.metadata.scope,
+            modelId: vector.metadata.modelId,
+            prompt: vector.metadata.prompt,
+            vector: new Float32Array(),
+            response: vector.metadata.response,
+            createdAt: vector.metadata.createdAt,
+          },
+          filter
+        )
+      ) {
+        return 0;
+      }
+      return (await this.index.delete(filter.id)).deleted;
+    }
+
+    const conditions: string[] = [];
+    if (filter.scope !== undefined) {
+      conditions.push(`scope = ${filterValue(filter.scope)}`);
+    }
+    if (filter.modelId !== undefined) {
+      conditions.push(`modelId = ${filterValue(filter.modelId)}`);
+    }
+    if (filter.olderThan !== undefined) {
+      conditions.push(`createdAt < ${filter.olderThan.getTime()}`);
+    }
+    if (conditions.length === 0) {
+      conditions.push('createdAt >= 0');
+    }
+    return (await this.index.delete({ filter: conditions.join(' AND ') }))
+      .deleted;
+  }
+}
+
+export type SemanticCacheBackendName = 'memory' | 'libsql' | 'upstash';
+
+// Shared backends, so entries are visible to every middleware instance and
+// to invalidateSemanticCache
+const backends = new Map<SemanticCacheBackendName, SemanticCacheBackend>();
+
+/**
+ * Get the shared backend of a kind.
+ *
+ * @param name - Backend kind
+ * @param options.maxEntries - Size of the in-process index (first call only)
+ */
+export function getSemanticCacheBackend(
+  name: SemanticCacheBackendName,
+  options: { maxEntries?: number } = {}
+): SemanticCacheBackend {
+  let backend = backends.get(name);
+  if (!backend) {
+    backend =
+      name === 'libsql'
+        ? new LibSQLSemanticCacheBackend()
+        : name === 'upstash'
+          ? new UpstashSemanticCacheBackend()
+          : new InMemorySemanticCacheBackend(options.maxEntries);
+    backends.set(name, backend);
+  }
+  return backend;
+}
+
+/**
+ * Invalidate cached answers, in one shared backend or all of those in use.
+ *
+ * @param filter - Entries to remove (default: all)
+ * @param backend - Backend to invalidate (default: every shared backend)
+ * @returns Number of entries removed
+ */
+export async function invalidateSemanticCache(
+  filter: SemanticCacheFilter = {},
+  backend?: SemanticCacheBackend | SemanticCacheBackendName
+): Promise<number> {
+  const targets = backend
+    ? [typeof backend === 'string' ? getSemanticCacheBackend(backend) : backend]
+    : [...backends.values()];
+  let removed = 0;
+  for (const target of targets) {
+    removed += await target.invalidate(filter);
+  }
+  return removed;
+}
+
+/**
+ * Options of the semantic cache middleware
+ */
+export interface SemanticCacheOptions {
+  backend: SemanticCacheBackend;
+  /** Minimum cosine similarity for a hit (default: 0.92) */
+  threshold?: number;
+  /** Entry lifetime in milliseconds (default: no expiry) */
+  ttl?: number;
+  /** Embedding function (default: generateEmbedding) */
+  embed?: (text: string) => Promise<Float32Array | number[]>;
+  /** Include earlier turns in the scope (default: true) */
+  scopeByHistory?: boolean;
+  traceId?: string;
+}
+
+/** Cache key of a call: where to look and what to embed. */
+interface CacheLookup {
+  scope: string;
+  modelId: string;
+  prompt: string;
+  vector: Float32Array;
+}
+
+function modelKey(model: LanguageModelV1): string {
+  return `${model.provider}:${model.modelId}`;
+}
+
+/**
+ * Text of the last user turn, or undefined when the call cannot be served
+ * from cache (the prompt does not end with a text-only user message).
+ */
+function lastUserText(params: LanguageModelV1CallOptions): string | undefined {
+  const last = params.prompt[params.prompt.length - 1];
+  if (last?.role !== 'user') return undefined;
+  if (last.content.some((part) => part.type !== 'text')) return undefined;
+  const text = last.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join('\n')
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Scope of a call: answers are only shared between calls with the same
+ * model, system prompt, tools, response format and (optionally) history.
+ */
+export function semanticCacheScope(
+  model: LanguageModelV1,
+  params: LanguageModelV1CallOptions,
+  scopeByHistory = true
+): string {
+  const system = params.prompt
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content);
+  const tools =
+    params.mode.type === 'regular'
+      ? {
+          tools: (params.mode.tools ?? []).map((tool) =>
+            tool.type === 'function'
+              ? {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.parameters,
+                }
+              : { name: tool.name, id: tool.id }
+          ),
+          toolChoice: params.mode.toolChoice,
+        }
+      : params.mode;
+  const history = scopeByHistory
+    ? params.prompt.slice(0, -1).filter((message) => message.role !== 'system')
+    : undefined;
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        model: modelKey(model),
+        system,
+        tools,
+        responseFormat: params.responseFormat,
+        history,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Create a semantic cache middleware.
+ *
+ * Hits return the cached answer with zero usage and
+ * `providerMetadata.semanticCache` (`hit`, `similarity`, `entryId`). A
+ * failing embedding or backend bypasses the cache rather than the call.
+ */
+export function semanticCacheMiddleware(
+  options: SemanticCacheOptions
+): LanguageModelV1Middleware {
+  const {
+    backend,
+    threshold = 0.92,
+    ttl,
+    embed = generateEmbedding,
+    scopeByHistory = true,
+    traceId,
+  } = options;
+
+  async function lookup(
+    model: LanguageModelV1,
+    params: LanguageModelV1CallOptions
+  ): Promise<
+    { key: CacheLookup; match: SemanticCacheMatch | undefined } | undefined
+  > {
+    const prompt = lastUserText(params);
+    if (!prompt) return undefined;
+    try {
+      const embedding = await embed(prompt);
+      const key: CacheLookup = {
+        scope: semanticCacheScope(model, params, scopeByHistory),
+        modelId: modelKey(model),
+        prompt,
+        vector:
+          embedding instanceof Float32Array
+            ? embedding
+            : new Float32Array(embedding),
+      };
+      const match = await backend.search(key.scope, key.vector, threshold);
+      if (match) {
+        cacheMetrics.semantic.hits++;
+        if (traceId) {
+          logEvent({
+            traceId,
+            name: 'semantic_cache_hit',
+            metadata: {
+              backend: backend.name,
+              entryId: match.entry.id,
+              similarity: match.similarity,
+              savedTokens:
+                match.entry.response.usage.promptTokens +
+                match.entry.response.usage.completionTokens,
+            },
+          });
+        }
+      } else {
+        cacheMetrics.semantic.misses++;
+      }
+      return { key, match };
+    } catch (error) {
+      upstashLogger.warn(
+        'semantic-cache',
+        `Semantic cache lookup failed on ${backend.name}; calling the model: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return undefined;
+    }
+  }
+
+  function store(key: CacheLookup, response: CachedResponse): void {
+    const now = Date.now();
+    backend
+      .put({
+        id: generateId(),
+        scope: key.scope,
+        modelId: key.modelId,
+        prompt: key.prompt,
+        vector: key.vector,
+        response,
+        createdAt: now,
+        expiresAt: ttl ? now + ttl : undefined,
+      })
+      .catch((error) =>
+        upstashLogger.warn(
+          'semantic-cache',
+          `Failed to store semantic cache entry on ${backend.name}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+  }
+
+  function hitMetadata(match: SemanticCacheMatch) {
+    return {
+      semanticCache: {
+        hit: true,
+        similarity: match.similarity,
+        entryId: match.entry.id,
+      },
+    };
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const cached = await lookup(model, params);
+      if (cached?.match) {
+        const { entry } = cached.match;
+        return {
+          text: entry.response.text,
+          reasoning: entry.response.reasoning,
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: 0 },
+          rawCall: { rawPrompt: null, rawSettings: {} },
+          response: { modelId: model.modelId },
+          providerMetadata: hitMetadata(cached.match),
+        };
+      }
+
+      const result = await doGenerate();
+      if (
+        cached &&
+        result.finishReason === 'stop' &&
+        result.text &&
+        !result.toolCalls?.length
+      ) {
+        store(cached.key, {
+          text: result.text,
+          reasoning:
+            typeof result.reasoning === 'string' ? result.reasoning : undefined,
+          usage: result.usage,
+        });
+      }
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params, model }) => {
+      const cached = await lookup(model, params);
+      if (cached?.match) {
+        const { entry } = cached.match;
+        const chunks: LanguageModelV1StreamPart[] = [
+          { type: 'response-metadata', modelId: model.modelId },
+        ];
+        if (entry.response.reasoning) {
+          chunks.push({
+            type: 'reasoning',
+            textDelta: entry.response.reasoning,
+          });
+        }
+        for (const word of entry.response.text.match(/\s*\S+\s*/g) ?? [
+          entry.response.text,
+        ]) {
+          chunks.push({ type: 'text-delta', textDelta: word });
+        }
+        chunks.push({
+          type: 'finish',
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: 0 },
+          providerMetadata: hitMetadata(cached.match),
+        });
+        return {
+          stream: simulateReadableStream({ chunks, chunkDelayInMs: null }),
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        };
+      }
+
+      const { stream, ...rest } = await doStream();
+      if (!cached) return { stream, ...rest };
+
+      let text = '';
+      let reasoning = '';
+      let cacheable = true;
+      return {
+        ...rest,
+        stream: stream.pipeThrough(
+          new TransformStream<
+            LanguageModelV1StreamPart,
+            LanguageModelV1StreamPart
+          >({
+            transform(chunk, controller) {
+              if (chunk.type === 'text-delta') {
+                text += chunk.textDelta;
+              } else if (chunk.type === 'reasoning') {
+                reasoning += chunk.textDelta;
+              } else if (
+                chunk.type === 'tool-call' ||
+                chunk.type === 'tool-call-delta' ||
+                chunk.type === 'error'
+              ) {
+                cacheable = false;
+              } else if (
+                chunk.type === 'finish' &&
+                cacheable &&
+                chunk.finishReason === 'stop' &&
+                text
+              ) {
+                store(cached.key, {
+                  text,
+                  reasoning: reasoning || undefined,
+                  usage: {
+                    promptTokens: chunk.usage.promptTokens || 0,
+                    completionTokens: chunk.usage.completionTokens || 0,
+                  },
+                });
+              }
+              controller.enqueue(chunk);
+            },
+          })
+        ),
+      };
+    },
+  };
+}
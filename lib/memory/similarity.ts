@@ -0,0 +1,30 @@
+/**
+ * Vector Similarity
+ *
+ * Cosine similarity for the searches that score vectors in process: memory
+ * and fact recall, the semantic cache, the local Vectorize stand-in and the
+ * RAG tools' chunking, reranking and evaluation.
+ */
+
+/**
+ * Cosine similarity of two vectors
+ *
+ * @returns A value in [-1, 1], or 0 when the vectors differ in length or
+ *          either is all zeros
+ */
+export function cosineSimilarity(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>
+): number {
+  if (a.length !== b.length) return 0;
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
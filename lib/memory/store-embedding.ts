@@ -1,27 +1,36 @@
 import { getLibSQLClient } from './db';
-import { generateEmbedding } from './memory';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  assertNamespaceVector,
+  embedForNamespace,
+} from './embedding-namespaces';
 import { v4 as generateUUID } from 'uuid';
 
 /**
- * Batch save embeddings for an array of text inputs.
- * Returns a map of input index to embedding ID.
+ * Batch save embeddings for an array of text inputs, embedded in batches
+ * with the namespace's provider.
+ * Returns the embedding IDs in input order.
  */
 export async function batchSaveEmbeddings(
   texts: string[],
-  modelName: string = 'all-MiniLM-L6-v2'
+  namespace: string = DEFAULT_EMBEDDING_NAMESPACE
 ): Promise<string[]> {
   const db = getLibSQLClient();
   const embeddingIds: string[] = [];
 
-  for (const text of texts) {
-    // generate the embedding vector
-    const vector = await generateEmbedding(text);
+  // generate the embedding vectors
+  const { model, vectors } = await embedForNamespace(namespace, texts);
+  if (vectors.length > 0) {
+    await assertNamespaceVector(namespace, model, vectors[0].length);
+  }
+
+  for (const vector of vectors) {
     // new embedding ID
     const id = generateUUID();
     // store in the database
     await db.execute({
-      sql: `INSERT INTO embeddings (id, vector, model, dimensions) VALUES (?, ?, ?, ?)`,
-      args: [id, Buffer.from(vector.buffer), modelName, vector.length],
+      sql: `INSERT INTO embeddings (id, vector, model, dimensions, namespace) VALUES (?, ?, ?, ?, ?)`,
+      args: [id, Buffer.from(vector.buffer), model, vector.length, namespace],
     });
     embeddingIds.push(id);
   }
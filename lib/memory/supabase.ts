@@ -22,7 +22,7 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import { LRUCache } from 'lru-cache';
 import * as schema from '@/db/supabase/schema';
-import { eq, desc, and, type Column } from 'drizzle-orm';
+import { eq, asc, desc, and, sql, type Column, type SQL } from 'drizzle-orm';
 import crypto from 'crypto';
 import { z } from 'zod';
 
@@ -63,6 +63,10 @@ import type {
   MdxDocument,
   NewMdxDocument,
 } from '../shared/types/supabase';
+import type {
+  MemoryThread as MemoryThreadRecord,
+  Message as MessageRecord,
+} from '@/db/libsql/validation';
 
 // --- Upstash Client Utilities ---
 export {
@@ -689,3 +693,299 @@ export async function updateTool(
     throw error;
   }
 }
+
+// ===== Memory =====
+// Threads, messages, embeddings and agent state for the `supabase` memory
+// provider (see factory.ts). Rows come back in the LibSQL shapes, with
+// metadata as a JSON string and ISO timestamps, like the other providers.
+
+function toIsoString(value: Date | string | null | undefined): string {
+  if (!value) return '';
+  return typeof value === 'string' ? value : value.toISOString();
+}
+
+function toMemoryThreadRecord(row: schema.MemoryThread): MemoryThreadRecord {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    network_id: null,
+    name: row.name ?? '',
+    summary: row.summary,
+    metadata: JSON.stringify(row.metadata ?? {}),
+    created_at: toIsoString(row.created_at),
+    updated_at: toIsoString(row.updated_at),
+  };
+}
+
+function toMessageRecord(row: schema.Message): MessageRecord {
+  const metadata = (row.metadata ?? {}) as Record<string, unknown>;
+  return {
+    id: row.id,
+    memory_thread_id: row.thread_id,
+    role: row.role,
+    content: row.content,
+    tool_call_id: row.tool_call_id,
+    tool_name: row.tool_name,
+    token_count:
+      typeof metadata.token_count === 'number' ? metadata.token_count : null,
+    embedding_id:
+      typeof metadata.embedding_id === 'string' ? metadata.embedding_id : null,
+    metadata: JSON.stringify(metadata),
+    created_at: toIsoString(row.created_at),
+  };
+}
+
+export async function createSupabaseThread(
+  name: string,
+  options: {
+    user_id?: string;
+    agent_id?: string;
+    metadata?: Record<string, unknown>;
+  } = {}
+): Promise<MemoryThreadRecord> {
+  const db = getDrizzleClient();
+  const [row] = await db
+    .insert(schema.memory_threads)
+    .values({
+      name,
+      user_id: options.user_id,
+      agent_id: options.agent_id,
+      metadata: options.metadata ?? {},
+    })
+    .returning();
+  return toMemoryThreadRecord(row);
+}
+
+export async function getSupabaseThreadById(
+  id: string
+): Promise<MemoryThreadRecord | null> {
+  const db = getDrizzleClient();
+  const result = await db
+    .select()
+    .from(schema.memory_threads)
+    .where(eq(schema.memory_threads.id, id))
+    .limit(1);
+  return result[0] ? toMemoryThreadRecord(result[0]) : null;
+}
+
+/**
+ * List memory threads, most recently updated first.
+ * Filters other than `user_id` and `agent_id` match top-level metadata keys.
+ */
+export async function listSupabaseThreads(
+  options: {
+    limit?: number;
+    offset?: number;
+    filters?: { user_id?: string; agent_id?: string; [key: string]: unknown };
+  } = {}
+): Promise<MemoryThreadRecord[]> {
+  const db = getDrizzleClient();
+  const conditions: SQL[] = [];
+  for (const [key, value] of Object.entries(options.filters ?? {})) {
+    if (value === undefined) continue;
+    if (key === 'user_id') {
+      conditions.push(eq(schema.memory_threads.user_id, String(value)));
+    } else if (key === 'agent_id') {
+      conditions.push(eq(schema.memory_threads.agent_id, String(value)));
+    } else {
+      conditions.push(
+        sql`${schema.memory_threads.metadata} ->> ${key} = ${String(value)}`
+      );
+    }
+  }
+  const rows = await db
+    .select()
+    .from(schema.memory_threads)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(schema.memory_threads.updated_at))
+    .limit(options.limit ?? 10)
+    .offset(options.offset ?? 0);
+  return rows.map(toMemoryThreadRecord);
+}
+
+export async function updateSupabaseThread(
+  id: string,
+  updates: {
+    name?: string;
+    summary?: string | null;
+    agent_id?: string | null;
+    metadata?: Record<string, unknown> | string | null;
+  }
+): Promise<boolean> {
+  const db = getDrizzleClient();
+  const values: Partial<schema.NewMemoryThread> = { updated_at: new Date() };
+  if (updates.name !== undefined) values.name = updates.name;
+  if (updates.summary !== undefined) values.summary = updates.summary;
+  if (updates.agent_id !== undefined) values.agent_id = updates.agent_id;
+  if (updates.metadata !== undefined) {
+    values.metadata =
+      typeof updates.metadata === 'string'
+        ? JSON.parse(updates.metadata)
+        : updates.metadata;
+  }
+  const updated = await db
+    .update(schema.memory_threads)
+    .set(values)
+    .where(eq(schema.memory_threads.id, id))
+    .returning({ id: schema.memory_threads.id });
+  return updated.length > 0;
+}
+
+/**
+ * Delete a memory thread. Its messages and agent states go with it
+ * (ON DELETE CASCADE).
+ */
+export async function deleteSupabaseThread(id: string): Promise<boolean> {
+  const db = getDrizzleClient();
+  const deleted = await db
+    .delete(schema.memory_threads)
+    .where(eq(schema.memory_threads.id, id))
+    .returning({ id: schema.memory_threads.id });
+  return deleted.length > 0;
+}
+
+export async function createSupabaseMessage(
+  threadId: string,
+  role: string,
+  content: string,
+  options: {
+    metadata?: Record<string, unknown>;
+    tool_call_id?: string;
+    tool_name?: string;
+    token_count?: number;
+    embedding_id?: string;
+  } = {}
+): Promise<MessageRecord> {
+  const db = getDrizzleClient();
+  const metadata: Record<string, unknown> = { ...options.metadata };
+  if (options.token_count !== undefined) {
+    metadata.token_count = options.token_count;
+  }
+  if (options.embedding_id) metadata.embedding_id = options.embedding_id;
+  const [row] = await db
+    .insert(schema.messages)
+    .values({
+      thread_id: threadId,
+      role,
+      content,
+      tool_call_id: options.tool_call_id,
+      tool_name: options.tool_name,
+      metadata,
+    })
+    .returning();
+  await db
+    .update(schema.memory_threads)
+    .set({ updated_at: new Date() })
+    .where(eq(schema.memory_threads.id, threadId));
+  return toMessageRecord(row);
+}
+
+/**
+ * Get the messages of a thread, oldest first.
+ * @param limit - Return only the first `limit` messages
+ */
+export async function getSupabaseMessagesByThreadId(
+  threadId: string,
+  limit?: number
+): Promise<MessageRecord[]> {
+  const db = getDrizzleClient();
+  let query = db
+    .select()
+    .from(schema.messages)
+    .where(
+      and(
+        eq(schema.messages.thread_id, threadId),
+        eq(schema.messages.is_deleted, false)
+      )
+    )
+    .orderBy(asc(schema.messages.created_at));
+  if (limit !== undefined) {
+    query = query.limit(limit) as typeof query;
+  }
+  const rows = await query;
+  return rows.map(toMessageRecord);
+}
+
+export async function saveSupabaseEmbedding(
+  vector: number[],
+  model?: string
+): Promise<string> {
+  const db = getDrizzleClient();
+  const [row] = await db
+    .insert(schema.embeddings)
+    .values({
+      vector: JSON.stringify(vector),
+      model,
+      dimensions: vector.length,
+    })
+    .returning({ id: schema.embeddings.id });
+  return row.id;
+}
+
+export async function getSupabaseEmbedding(
+  id: string
+): Promise<{ vector: number[]; model?: string } | null> {
+  const db = getDrizzleClient();
+  const result = await db
+    .select()
+    .from(schema.embeddings)
+    .where(eq(schema.embeddings.id, id))
+    .limit(1);
+  if (!result[0]) return null;
+  return {
+    vector: JSON.parse(result[0].vector),
+    model: result[0].model ?? undefined,
+  };
+}
+
+export async function saveSupabaseAgentState(
+  threadId: string,
+  agentId: string,
+  state: Record<string, unknown>
+): Promise<void> {
+  const db = getDrizzleClient();
+  await db
+    .insert(schema.agent_states)
+    .values({
+      memory_thread_id: threadId,
+      agent_id: agentId,
+      state_data: state,
+    })
+    .onConflictDoUpdate({
+      target: [
+        schema.agent_states.memory_thread_id,
+        schema.agent_states.agent_id,
+      ],
+      set: { state_data: state, updated_at: new Date() },
+    });
+}
+
+export async function loadSupabaseAgentState(
+  threadId: string,
+  agentId: string
+): Promise<Record<string, unknown> | null> {
+  const db = getDrizzleClient();
+  const result = await db
+    .select({ state_data: schema.agent_states.state_data })
+    .from(schema.agent_states)
+    .where(
+      and(
+        eq(schema.agent_states.memory_thread_id, threadId),
+        eq(schema.agent_states.agent_id, agentId)
+      )
+    )
+    .limit(1);
+  return result[0] ? (result[0].state_data as Record<string, unknown>) : null;
+}
+
+/**
+ * Check that the Supabase database behind the memory tables answers.
+ */
+export async function isSupabaseMemoryAvailable(): Promise<boolean> {
+  try {
+    await getDrizzleClient().execute(sql`SELECT 1`);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -17,7 +17,7 @@ import {
 } from '../../agents/personas/persona-library';
 import { AgentState } from '../../agents/agent.types';
 import { Readable } from 'stream';
-import { generateEmbedding } from '../../ai-integration';
+import { embedText } from '../embeddings';
 import { upstashLogger } from './upstash-logger';
 
 /**
@@ -93,34 +93,14 @@ export class MemoryProcessor {
   }
 
   /**
-   * Generates embeddings for the given text using the AI integration
+   * Generates embeddings for the given text with the default embedding provider
    *
    * @param text - The text to generate embeddings for
    * @returns A promise that resolves to the embeddings in the format expected by Upstash Vector
    */
   private async generateEmbeddings(text: string): Promise<number[]> {
     try {
-      const embedding = await generateEmbedding(text);
-      if (embedding instanceof Float32Array) {
-        return Array.from(embedding);
-      } else if (Array.isArray(embedding)) {
-        return embedding;
-      } else if (
-        embedding &&
-        typeof embedding === 'object' &&
-        'data' in embedding
-      ) {
-        upstashLogger.warn(
-          'memory-processor',
-          'Unexpected embedding format, attempting to convert'
-        );
-        // best effort conversion
-        return Array.isArray(embedding.data)
-          ? embedding.data
-          : Array.from(embedding.data);
-      } else {
-        throw new MemoryProcessorError('Unknown embedding format');
-      }
+      return Array.from(await embedText(text));
     } catch (error: unknown) {
       upstashLogger.error(
         'memory-processor',
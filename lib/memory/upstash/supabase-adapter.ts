@@ -16,7 +16,7 @@ import {
   VectorStoreError,
 } from '../../shared/types/upstashTypes';
 import { upstashLogger } from './upstash-logger';
-import { generateEmbedding } from '../../ai-integration';
+import { embedText } from '../embeddings';
 import {
   createRedisEntity,
   getRedisEntityById,
@@ -108,16 +108,14 @@ function getRowKey(tableName: string, id: string): string {
 }
 
 /**
- * Generates embeddings for text using AI integration
+ * Generates embeddings for text with the default embedding provider
  *
  * @param text - Text to generate embeddings for
  * @returns Promise resolving to embeddings array
  */
 async function generateEmbeddings(text: string): Promise<number[]> {
   try {
-    const embedding = await generateEmbedding(text);
-    // generateEmbedding returns Float32Array or number[]
-    return Array.isArray(embedding) ? embedding : Array.from(embedding);
+    return Array.from(await embedText(text));
   } catch (error) {
     upstashLogger.error(
       'supabase-adapter',
@@ -500,8 +500,7 @@ export function shouldFallbackToBackup(): boolean {
 
   // Check LibSQL fallback
   const hasLibSQL =
-    !!process.env.LIBSQL_DATABASE_URL &&
-    !!process.env.LIBSQL_AUTH_TOKEN;
+    !!process.env.LIBSQL_DATABASE_URL && !!process.env.LIBSQL_AUTH_TOKEN;
 
   return hasSupabase || hasLibSQL;
 }
@@ -511,7 +510,6 @@ export function shouldFallbackToBackup(): boolean {
  */
 function serializeEntityForRedis<T>(
   entity: T
-): Record<string, string | number | boolean | null> {
 ): Record<string, string | number | boolean | null> {
   const result: Record<string, string | number | boolean | null> = {};
   for (const [k, v] of Object.entries(entity)) {
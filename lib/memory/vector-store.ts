@@ -1,15 +1,20 @@
 import { initVectorIndex, vectorSearch } from './libsql';
 import { generateEmbedding, saveEmbedding } from './memory';
+import { getNamespaceProvider } from './embedding-namespaces';
 
 /**
- * Initialize or migrate the HNSW index on the embeddings table.
+ * Initialize or migrate the HNSW index on the embeddings table, sized for
+ * the default namespace's embedding model unless `dims` is given.
  */
 export async function initVectorStore(options?: {
   dims?: number;
   m?: number;
   efConstruction?: number;
 }) {
-  await initVectorIndex(options);
+  await initVectorIndex({
+    ...options,
+    dims: options?.dims ?? (await getNamespaceProvider()).dimensions,
+  });
 }
 
 /**
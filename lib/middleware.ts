@@ -7,6 +7,10 @@
  */
 
 import {
+  APICallError,
+  type JSONValue,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
   type LanguageModelV1Middleware,
   type LanguageModelV1StreamPart,
   extractReasoningMiddleware as aiSdkExtractReasoningMiddleware,
@@ -15,6 +19,23 @@ import {
 } from 'ai';
 import { LRUCache } from 'lru-cache';
 import { upstashLogger } from './memory/upstash/upstash-logger';
+import { logEvent } from './langfuse-integration';
+import type { ModelSettings } from './models/model-registry';
+import {
+  guardrailsMiddleware,
+  outputPiiGuardrail,
+  patternGuardrail,
+  piiRedactionGuardrail,
+  promptInjectionGuardrail,
+  type InputGuardrail,
+  type OutputGuardrail,
+} from './guardrails/guardrails';
+import type { PiiType } from './guardrails/pii';
+import {
+  getSemanticCacheBackend,
+  semanticCacheMiddleware,
+  type SemanticCacheBackendName,
+} from './memory/semantic-cache';
 
 // Define request-response middleware types
 export interface RequestMiddleware {
@@ -301,6 +322,407 @@ export function createSimulationMiddleware(options: {
   return aiSdkSimulateStreamingMiddleware();
 }
 
+/**
+ * A model the fallback middleware can fail over to
+ */
+export interface FallbackModel {
+  model: LanguageModelV1;
+  /** Used to skip models lacking a capability the request needs */
+  settings?: ModelSettings;
+}
+
+/**
+ * Details of a model failing over, passed to `onFallback`
+ */
+export interface ModelFallbackEvent {
+  failedModel: string;
+  nextModel: string;
+  error: unknown;
+  attempt: number;
+}
+
+// Capabilities the fallback middleware can route on
+export type RoutedCapability = 'vision' | 'functions' | 'json_mode';
+
+/**
+ * Determine the capabilities a language model call needs
+ *
+ * @param params - The call options passed to the model
+ * @returns Required capabilities (vision, functions, json_mode)
+ */
+export function getRequiredCapabilities(
+  params: LanguageModelV1CallOptions
+): RoutedCapability[] {
+  const required: RoutedCapability[] = [];
+  const hasImage = params.prompt.some(
+    (message) =>
+      Array.isArray(message.content) &&
+      message.content.some(
+        (part) =>
+          part.type === 'image' ||
+          (part.type === 'file' && part.mimeType.startsWith('image/'))
+      )
+  );
+  if (hasImage) required.push('vision');
+  if (
+    (params.mode.type === 'regular' && (params.mode.tools?.length ?? 0) > 0) ||
+    params.mode.type === 'object-tool'
+  ) {
+    required.push('functions');
+  }
+  if (
+    params.mode.type === 'object-json' ||
+    params.responseFormat?.type === 'json'
+  ) {
+    required.push('json_mode');
+  }
+  return required;
+}
+
+/**
+ * Whether a model supports a capability. Models without settings, and
+ * settings that don't mention the capability, are assumed to support it.
+ */
+function supportsCapability(
+  settings: ModelSettings | undefined,
+  capability: RoutedCapability
+): boolean {
+  const declared = settings?.capabilities?.[capability];
+  if (declared !== undefined) return declared;
+  if (capability === 'vision' && settings) return settings.supports_vision;
+  if (capability === 'functions' && settings) {
+    return settings.supports_functions;
+  }
+  return true;
+}
+
+/**
+ * Whether an error is worth retrying on another model: rate limits (429),
+ * server errors (5xx), timeouts and network failures
+ *
+ * @param error - The error thrown by the model
+ * @returns True if the call should fail over
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    return status === undefined || status === 429 || status >= 500;
+  }
+  if (error instanceof Error) {
+    return (
+      error.name === 'TimeoutError' ||
+      error.name === 'ModelTimeoutError' ||
+      /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up/i.test(
+        error.message
+      )
+    );
+  }
+  return false;
+}
+
+/**
+ * Create a model fallback and routing middleware
+ *
+ * Calls go to the wrapped model first, then to each fallback in order when
+ * a call fails with a rate limit, server error or timeout. With routing
+ * enabled, models whose settings lack a capability the request needs
+ * (vision, functions, json_mode) are skipped. The model that served the call
+ * is returned in `providerMetadata.modelRouting` and, when a trace id is
+ * given, logged as a `model_served` event.
+ *
+ * Streams fail over only while the request is being made; errors after the
+ * stream has started are passed through. Add this middleware last so the
+ * wrapped model it calls directly is the provider model.
+ *
+ * @param options - Configuration options
+ * @param options.primary - Settings of the wrapped model, used for routing
+ * @param options.fallbacks - Ordered models to fail over to
+ * @param options.routeByCapabilities - Skip models lacking a required capability (default: true)
+ * @param options.timeoutMs - Per-model timeout; for streams, until the stream starts
+ * @param options.traceId - Optional trace to record the serving model in
+ * @param options.onFallback - Optional callback invoked on each failover
+ * @returns The fallback middleware
+ */
+export function createModelFallbackMiddleware(options: {
+  primary?: ModelSettings;
+  fallbacks: FallbackModel[];
+  routeByCapabilities?: boolean;
+  timeoutMs?: number;
+  traceId?: string;
+  onFallback?: (event: ModelFallbackEvent) => void;
+}): LanguageModelV1Middleware {
+  const { routeByCapabilities = true, timeoutMs, traceId } = options;
+
+  // Orders the candidates for a call, dropping unsuitable ones
+  const candidatesFor = (
+    model: LanguageModelV1,
+    params: LanguageModelV1CallOptions
+  ): FallbackModel[] => {
+    const chain = [{ model, settings: options.primary }, ...options.fallbacks];
+    if (!routeByCapabilities) return chain;
+    const required = getRequiredCapabilities(params);
+    const suitable = chain.filter((candidate) =>
+      required.every((capability) =>
+        supportsCapability(candidate.settings, capability)
+      )
+    );
+    if (suitable.length === 0) {
+      upstashLogger.warn(
+        'ai-integration',
+        `No model in the fallback chain supports ${required.join(', ')}; trying all models`
+      );
+      return chain;
+    }
+    return suitable;
+  };
+
+  // Runs a call against each candidate until one succeeds
+  async function withFallback<T>(
+    model: LanguageModelV1,
+    params: LanguageModelV1CallOptions,
+    call: (
+      candidate: LanguageModelV1,
+      params: LanguageModelV1CallOptions
+    ) => PromiseLike<T>,
+    attachRouting: (result: T, routing: Record<string, JSONValue>) => T
+  ): Promise<T> {
+    const candidates = candidatesFor(model, params);
+    let lastError: unknown;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i].model;
+      // Aborts the attempt on timeout; a stream's timer stops once it starts
+      const controller = new AbortController();
+      const timer = timeoutMs
+        ? setTimeout(() => {
+            const error = new Error(
+              `Model ${candidate.modelId} timed out after ${timeoutMs}ms`
+            );
+            error.name = 'ModelTimeoutError';
+            controller.abort(error);
+          }, timeoutMs)
+        : undefined;
+      const timedOut = new Promise<never>((_, reject) =>
+        controller.signal.addEventListener('abort', () =>
+          reject(controller.signal.reason)
+        )
+      );
+      timedOut.catch(() => undefined);
+
+      try {
+        const result = await Promise.race([
+          call(candidate, {
+            ...params,
+            abortSignal: params.abortSignal
+              ? AbortSignal.any([params.abortSignal, controller.signal])
+              : controller.signal,
+          }),
+          timedOut,
+        ]);
+
+        const routing = {
+          servedBy: candidate.modelId,
+          provider: candidate.provider,
+          requestedModel: model.modelId,
+          failovers: i,
+        };
+        if (traceId) {
+          logEvent({ traceId, name: 'model_served', metadata: routing });
+        }
+        return attachRouting(result, routing);
+      } catch (error) {
+        lastError = error;
+        // Caller aborts and non-transient errors are not retried elsewhere
+        if (params.abortSignal?.aborted || !isFailoverError(error)) throw error;
+        const next = candidates[i + 1];
+        if (!next) break;
+
+        const event: ModelFallbackEvent = {
+          failedModel: candidate.modelId,
+          nextModel: next.model.modelId,
+          error,
+          attempt: i + 1,
+        };
+        const message = error instanceof Error ? error.message : String(error);
+        upstashLogger.warn(
+          'ai-integration',
+          `Model ${event.failedModel} failed (${message}); falling back to ${event.nextModel}`
+        );
+        if (traceId) {
+          logEvent({
+            traceId,
+            name: 'model_fallback',
+            metadata: { ...event, error: message },
+          });
+        }
+        options.onFallback?.(event);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    throw lastError;
+  }
+
+  return {
+    wrapGenerate: async ({ params, model }) =>
+      withFallback(
+        model,
+        params,
+        (candidate, callParams) => candidate.doGenerate(callParams),
+        (result, routing) => ({
+          ...result,
+          providerMetadata: {
+            ...result.providerMetadata,
+            modelRouting: routing,
+          },
+        })
+      ),
+    wrapStream: async ({ params, model }) =>
+      withFallback(
+        model,
+        params,
+        (candidate, callParams) => candidate.doStream(callParams),
+        ({ stream, ...rest }, routing) => ({
+          ...rest,
+          // Report the serving model on the finish part
+          stream: stream.pipeThrough(
+            new TransformStream<
+              LanguageModelV1StreamPart,
+              LanguageModelV1StreamPart
+            >({
+              transform(chunk, controller) {
+                controller.enqueue(
+                  chunk.type === 'finish'
+                    ? {
+                        ...chunk,
+                        providerMetadata: {
+                          ...chunk.providerMetadata,
+                          modelRouting: routing,
+                        },
+                      }
+                    : chunk
+                );
+              },
+            })
+          ),
+        })
+      ),
+  };
+}
+
+/**
+ * Options of the guardrails middleware
+ */
+export interface GuardrailsMiddlewareOptions {
+  enabled: boolean;
+  pii?: { enabled?: boolean; types?: PiiType[] };
+  promptInjection?: {
+    enabled?: boolean;
+    threshold?: number;
+    action?: 'log' | 'flag' | 'block';
+  };
+  outputPii?: {
+    enabled?: boolean;
+    types?: PiiType[];
+    action?: 'log' | 'block';
+  };
+  blockedPatterns?: string[];
+  structuredOutput?: { enabled?: boolean; maxRepairAttempts?: number };
+  traceId?: string;
+}
+
+/**
+ * Create a guardrails middleware
+ *
+ * PII is redacted from the prompt (and restored in the answer), tool output
+ * is scored for prompt injection, the output is checked for leaked secrets
+ * and blocked patterns (streams included) and structured output is validated
+ * against its JSON Schema with repair retries. Each check can be turned off.
+ *
+ * @param options - Configuration options
+ * @param options.enabled - Whether guardrails are enabled
+ * @param options.pii - PII redaction (default: on, all types)
+ * @param options.promptInjection - Tool output injection scoring (default: on, flag at 0.5)
+ * @param options.outputPii - Secrets in output (default: on, block API keys and cards)
+ * @param options.blockedPatterns - Regex strings that block the output
+ * @param options.structuredOutput - JSON Schema validation (default: on, 2 repairs)
+ * @param options.traceId - Optional trace to log violations in
+ * @returns The guardrails middleware or null if disabled
+ */
+export function createGuardrailsMiddleware(
+  options: GuardrailsMiddlewareOptions
+): LanguageModelV1Middleware | null {
+  if (!options.enabled) return null;
+
+  const input: InputGuardrail[] = [];
+  const output: OutputGuardrail[] = [];
+  if (options.pii?.enabled !== false) {
+    input.push(piiRedactionGuardrail({ types: options.pii?.types }));
+  }
+  if (options.promptInjection?.enabled !== false) {
+    input.push(promptInjectionGuardrail(options.promptInjection));
+  }
+  if (options.outputPii?.enabled !== false) {
+    output.push(outputPiiGuardrail(options.outputPii));
+  }
+  if (options.blockedPatterns?.length) {
+    output.push(patternGuardrail('blocked_patterns', options.blockedPatterns));
+  }
+
+  return guardrailsMiddleware({
+    input,
+    output,
+    structuredOutput: options.structuredOutput,
+    traceId: options.traceId,
+  });
+}
+
+/**
+ * Options of the semantic cache middleware
+ */
+export interface SemanticCachingMiddlewareOptions {
+  enabled: boolean;
+  threshold?: number;
+  ttl?: number;
+  backend?: SemanticCacheBackendName;
+  maxEntries?: number;
+  scopeByHistory?: boolean;
+  traceId?: string;
+}
+
+/**
+ * Create a semantic caching middleware
+ *
+ * Unlike the caching middleware, which only matches identical calls, this
+ * serves a cached answer when the last user turn is close in meaning to a
+ * cached one for the same model, system prompt and tools.
+ *
+ * @param options - Configuration options
+ * @param options.enabled - Whether semantic caching is enabled
+ * @param options.threshold - Minimum cosine similarity for a hit (default: 0.92)
+ * @param options.ttl - Optional entry TTL in milliseconds
+ * @param options.backend - 'memory' (default), 'libsql' or 'upstash'
+ * @param options.maxEntries - Size of the in-process index (default: 1000)
+ * @param options.scopeByHistory - Only share answers between identical conversations (default: true)
+ * @param options.traceId - Optional trace to log hits in
+ * @returns The semantic caching middleware or null if disabled
+ */
+export function createSemanticCachingMiddleware(
+  options: SemanticCachingMiddlewareOptions
+): LanguageModelV1Middleware | null {
+  if (!options.enabled) return null;
+
+  return semanticCacheMiddleware({
+    backend: getSemanticCacheBackend(options.backend ?? 'memory', {
+      maxEntries: options.maxEntries,
+    }),
+    threshold: options.threshold,
+    ttl: options.ttl,
+    scopeByHistory: options.scopeByHistory,
+    traceId: options.traceId,
+  });
+}
+
 /**
  * Create a default settings middleware
  *
@@ -348,6 +770,8 @@ export function createMiddlewareFromOptions(options: {
   simulation?: {
     enabled: boolean;
   };
+  guardrails?: GuardrailsMiddlewareOptions;
+  semanticCaching?: SemanticCachingMiddlewareOptions;
   defaultSettings?: {
     temperature?: number;
     maxTokens?: number;
@@ -365,6 +789,20 @@ export function createMiddlewareFromOptions(options: {
   );
   if (cachingMiddleware) middlewares.push(cachingMiddleware);
 
+  // Add guardrails middleware if enabled (outside the others so they see
+  // the redacted prompt and it sees their output)
+  const guardrailMiddleware = createGuardrailsMiddleware(
+    options.guardrails || { enabled: false }
+  );
+  if (guardrailMiddleware) middlewares.push(guardrailMiddleware);
+
+  // Add semantic caching middleware if enabled (inside guardrails, so only
+  // redacted prompts and answers are cached)
+  const semanticCachingMiddleware = createSemanticCachingMiddleware(
+    options.semanticCaching || { enabled: false }
+  );
+  if (semanticCachingMiddleware) middlewares.push(semanticCachingMiddleware);
+
   // Add reasoning extraction middleware if enabled
   const reasoningMiddleware = createReasoningMiddleware(
     options.reasoning || { enabled: false }
@@ -446,6 +884,8 @@ export function createContextInjectionMiddleware(options: {
  * @param options.patterns - Array of patterns to filter (regex strings)
  * @param options.replacements - Array of replacements for each pattern
  * @returns The content filtering middleware or null if disabled
+ * @deprecated Filters only the final text of non-streaming responses; use
+ *   the `guardrails` language model middleware (`blockedPatterns`) instead
  */
 export function createContentFilteringMiddleware(options: {
   enabled: boolean;
@@ -612,6 +1052,8 @@ export function createCompleteMiddleware(options: {
     simulation?: {
       enabled: boolean;
     };
+    guardrails?: GuardrailsMiddlewareOptions;
+    semanticCaching?: SemanticCachingMiddlewareOptions;
     defaultSettings?: {
       temperature?: number;
       maxTokens?: number;
@@ -0,0 +1,887 @@
+/**
+ * Token and Cost Budgets
+ *
+ * Daily or monthly limits on the tokens and cost (USD) spent by a user, an
+ * agent or an API key. Budgets are enforced at generation time by
+ * `createBudgetMiddleware`: before a call the prompt is measured with
+ * `countTokens` and, if any applicable budget would be exceeded, the call is
+ * rejected with a `BudgetExceededError` or served by the budget's cheaper
+ * downgrade model. The estimate is reserved against the budgets until the
+ * actual usage from the result (or the stream's finish part) replaces it, so
+ * concurrent calls see each other's spending. Periods are UTC days and months.
+ * Routes charge calls to the subject `resolveBudgetSubject` authenticates,
+ * never to ids taken from the request body.
+ */
+
+import { createHash } from 'node:crypto';
+import { createServerClient, parseCookieHeader } from '@supabase/ssr';
+import {
+  generateId,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1Prompt,
+  type ProviderMetadata,
+  type LanguageModelV1StreamPart,
+  wrapLanguageModel,
+} from 'ai';
+import { z } from 'zod';
+import { countTokens } from '../ai-integration';
+import { logEvent } from '../langfuse-integration';
+import { getLibSQLClient } from '../memory/db';
+import { upstashLogger } from '../memory/upstash/upstash-logger';
+import { modelRegistry, type ModelSettings } from './model-registry';
+import { getModelById } from './model-service';
+
+export const BudgetScopeSchema = z.enum(['user', 'agent', 'api_key']);
+export type BudgetScope = z.infer<typeof BudgetScopeSchema>;
+
+export const BudgetPeriodSchema = z.enum(['daily', 'monthly']);
+export type BudgetPeriod = z.infer<typeof BudgetPeriodSchema>;
+
+/**
+ * Zod schema for creating a budget. For the `api_key` scope, `scopeId` is
+ * the API key itself; only its SHA-256 hash is stored.
+ */
+export const BudgetInputSchema = z
+  .object({
+    name: z.string().optional(),
+    scope: BudgetScopeSchema,
+    scopeId: z.string().min(1),
+    period: BudgetPeriodSchema,
+    maxTokens: z.number().int().positive().optional(),
+    /** USD */
+    maxCost: z.number().positive().optional(),
+    onExceed: z.enum(['reject', 'downgrade']).default('reject'),
+    downgradeModelId: z.string().optional(),
+    enabled: z.boolean().default(true),
+  })
+  .refine((input) => input.maxTokens || input.maxCost, {
+    message: 'Specify maxTokens, maxCost or both',
+  })
+  .refine((input) => input.onExceed !== 'downgrade' || input.downgradeModelId, {
+    message: 'downgradeModelId is required when onExceed is downgrade',
+    path: ['downgradeModelId'],
+  });
+
+export type BudgetInput = z.input<typeof BudgetInputSchema>;
+
+/**
+ * Zod schema for updating a budget; the scope cannot change
+ */
+export const BudgetUpdateSchema = z.object({
+  name: z.string().optional(),
+  period: BudgetPeriodSchema.optional(),
+  maxTokens: z.number().int().positive().nullable().optional(),
+  maxCost: z.number().positive().nullable().optional(),
+  onExceed: z.enum(['reject', 'downgrade']).optional(),
+  downgradeModelId: z.string().nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type BudgetUpdate = z.infer<typeof BudgetUpdateSchema>;
+
+/**
+ * A token and/or cost limit for a user, agent or API key
+ */
+export interface Budget {
+  id: string;
+  name?: string;
+  scope: BudgetScope;
+  scopeId: string;
+  period: BudgetPeriod;
+  maxTokens?: number;
+  maxCost?: number;
+  onExceed: 'reject' | 'downgrade';
+  downgradeModelId?: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A budget with its usage in the current period
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: string;
+  resetsAt: string;
+  tokensUsed: number;
+  costUsed: number;
+  requestCount: number;
+  /** Undefined when the budget has no token limit */
+  remainingTokens?: number;
+  /** Undefined when the budget has no cost limit */
+  remainingCost?: number;
+  exhausted: boolean;
+}
+
+/**
+ * Who a generation is charged to
+ */
+export interface BudgetSubject {
+  userId?: string;
+  agentId?: string;
+  apiKey?: string;
+}
+
+/**
+ * Error thrown when a call would exceed a budget and cannot be downgraded
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly status: BudgetStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+
+  /** Milliseconds until the budget's period resets */
+  get retryAfterMs(): number {
+    return Math.max(Date.parse(this.status.resetsAt) - Date.now(), 0);
+  }
+}
+
+/**
+ * Hashes an API key for use as a budget scope id
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+// Converts a budgets row to a Budget
+function rowToBudget(row: Record<string, unknown>): Budget {
+  return {
+    id: row.id as string,
+    name: (row.name as string) || undefined,
+    scope: row.scope as BudgetScope,
+    scopeId: row.scope_id as string,
+    period: row.period as BudgetPeriod,
+    maxTokens: row.max_tokens != null ? Number(row.max_tokens) : undefined,
+    maxCost: row.max_cost != null ? Number(row.max_cost) : undefined,
+    onExceed: row.on_exceed as Budget['onExceed'],
+    downgradeModelId: (row.downgrade_model_id as string) || undefined,
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// Start of the period containing `now` and when the next one begins
+function currentPeriod(
+  period: BudgetPeriod,
+  now: Date
+): { periodStart: string; resetsAt: string } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === 'monthly') {
+    return {
+      periodStart: now.toISOString().slice(0, 7),
+      resetsAt: new Date(Date.UTC(year, month + 1, 1)).toISOString(),
+    };
+  }
+  return {
+    periodStart: now.toISOString().slice(0, 10),
+    resetsAt: new Date(
+      Date.UTC(year, month, now.getUTCDate() + 1)
+    ).toISOString(),
+  };
+}
+
+/**
+ * Creates a budget
+ *
+ * @param input - Budget definition
+ * @returns The created budget
+ */
+export async function createBudget(input: BudgetInput): Promise<Budget> {
+  const data = BudgetInputSchema.parse(input);
+  const now = new Date().toISOString();
+  const budget: Budget = {
+    id: generateId(),
+    name: data.name,
+    scope: data.scope,
+    scopeId: data.scope === 'api_key' ? hashApiKey(data.scopeId) : data.scopeId,
+    period: data.period,
+    maxTokens: data.maxTokens,
+    maxCost: data.maxCost,
+    onExceed: data.onExceed,
+    downgradeModelId: data.downgradeModelId,
+    enabled: data.enabled,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO budgets (id, name, scope, scope_id, period, max_tokens, max_cost, on_exceed, downgrade_model_id, enabled, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      budget.id,
+      budget.name ?? null,
+      budget.scope,
+      budget.scopeId,
+      budget.period,
+      budget.maxTokens ?? null,
+      budget.maxCost ?? null,
+      budget.onExceed,
+      budget.downgradeModelId ?? null,
+      budget.enabled ? 1 : 0,
+      now,
+      now,
+    ],
+  });
+
+  return budget;
+}
+
+/**
+ * Gets a budget by ID
+ */
+export async function getBudget(id: string): Promise<Budget | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM budgets WHERE id = ?',
+    args: [id],
+  });
+
+  return result.rows.length > 0
+    ? rowToBudget(result.rows[0] as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Lists budgets, newest first
+ *
+ * @param filters - Optional scope and scope id filters
+ */
+export async function listBudgets(
+  filters: { scope?: BudgetScope; scopeId?: string; limit?: number } = {}
+): Promise<Budget[]> {
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filters.scope) {
+    conditions.push('scope = ?');
+    args.push(filters.scope);
+  }
+  if (filters.scopeId) {
+    conditions.push('scope_id = ?');
+    args.push(filters.scopeId);
+  }
+  args.push(filters.limit ?? 100);
+
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM budgets
+          ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+          ORDER BY created_at DESC LIMIT ?`,
+    args,
+  });
+
+  return result.rows.map((row) => rowToBudget(row as Record<string, unknown>));
+}
+
+/**
+ * Updates a budget
+ *
+ * @param id - Budget ID
+ * @param update - Fields to change; `null` clears a limit
+ * @returns The updated budget or null if not found
+ */
+export async function updateBudget(
+  id: string,
+  update: BudgetUpdate
+): Promise<Budget | null> {
+  const existing = await getBudget(id);
+  if (!existing) return null;
+
+  const data = BudgetUpdateSchema.parse(update);
+  const budget: Budget = {
+    ...existing,
+    name: data.name ?? existing.name,
+    period: data.period ?? existing.period,
+    maxTokens:
+      data.maxTokens === null
+        ? undefined
+        : (data.maxTokens ?? existing.maxTokens),
+    maxCost:
+      data.maxCost === null ? undefined : (data.maxCost ?? existing.maxCost),
+    onExceed: data.onExceed ?? existing.onExceed,
+    downgradeModelId:
+      data.downgradeModelId === null
+        ? undefined
+        : (data.downgradeModelId ?? existing.downgradeModelId),
+    enabled: data.enabled ?? existing.enabled,
+    updatedAt: new Date().toISOString(),
+  };
+  if (!budget.maxTokens && !budget.maxCost) {
+    throw new Error('A budget needs maxTokens, maxCost or both');
+  }
+  if (budget.onExceed === 'downgrade' && !budget.downgradeModelId) {
+    throw new Error('downgradeModelId is required when onExceed is downgrade');
+  }
+
+  await getLibSQLClient().execute({
+    sql: `UPDATE budgets
+          SET name = ?, period = ?, max_tokens = ?, max_cost = ?, on_exceed = ?, downgrade_model_id = ?, enabled = ?, updated_at = ?
+          WHERE id = ?`,
+    args: [
+      budget.name ?? null,
+      budget.period,
+      budget.maxTokens ?? null,
+      budget.maxCost ?? null,
+      budget.onExceed,
+      budget.downgradeModelId ?? null,
+      budget.enabled ? 1 : 0,
+      budget.updatedAt,
+      id,
+    ],
+  });
+
+  return budget;
+}
+
+/**
+ * Deletes a budget and its usage history
+ *
+ * @returns True if the budget existed
+ */
+export async function deleteBudget(id: string): Promise<boolean> {
+  const db = getLibSQLClient();
+  await db.execute({
+    sql: 'DELETE FROM budget_usage WHERE budget_id = ?',
+    args: [id],
+  });
+  const result = await db.execute({
+    sql: 'DELETE FROM budgets WHERE id = ?',
+    args: [id],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Gets the enabled budgets that apply to a subject
+ *
+ * @param subject - User, agent and/or API key the call is made for
+ */
+export async function getBudgetsForSubject(
+  subject: BudgetSubject
+): Promise<Budget[]> {
+  const scopes: Array<[BudgetScope, string]> = [];
+  if (subject.userId) scopes.push(['user', subject.userId]);
+  if (subject.agentId) scopes.push(['agent', subject.agentId]);
+  if (subject.apiKey) scopes.push(['api_key', hashApiKey(subject.apiKey)]);
+  if (scopes.length === 0) return [];
+
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM budgets
+          WHERE enabled = 1 AND (${scopes.map(() => '(scope = ? AND scope_id = ?)').join(' OR ')})`,
+    args: scopes.flat(),
+  });
+
+  return result.rows.map((row) => rowToBudget(row as Record<string, unknown>));
+}
+
+/**
+ * Whether any budget is enabled, i.e. whether calls need a subject to be
+ * charged to
+ */
+export async function hasEnabledBudgets(): Promise<boolean> {
+  const result = await getLibSQLClient().execute(
+    'SELECT 1 FROM budgets WHERE enabled = 1 LIMIT 1'
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Resolves who a request's calls are charged to from its credentials
+ *
+ * The user is the Supabase Auth user of the `Authorization: Bearer` token or,
+ * without one, of the session cookies; the token is verified with Supabase.
+ * An `x-api-key` header counts only when an enabled budget is set for that
+ * key. Agents do not authenticate, so a request never resolves to an agent.
+ *
+ * @param request - The incoming request
+ * @returns The subject, or undefined when the request carries no valid
+ *          credentials
+ */
+export async function resolveBudgetSubject(
+  request: Request
+): Promise<BudgetSubject | undefined> {
+  const subject: BudgetSubject = {};
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (url && anonKey) {
+    const supabase = createServerClient(url, anonKey, {
+      cookies: {
+        getAll: () =>
+          parseCookieHeader(request.headers.get('cookie') ?? '').map(
+            ({ name, value }) => ({ name, value: value ?? '' })
+          ),
+        // Sessions are only read here; refreshed cookies are not sent back
+        setAll() {},
+      },
+    });
+    const bearer = request.headers
+      .get('authorization')
+      ?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const { data } = await supabase.auth.getUser(bearer).catch(() => ({
+      data: { user: null },
+    }));
+    if (data.user) subject.userId = data.user.id;
+  }
+
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const result = await getLibSQLClient().execute({
+      sql: `SELECT 1 FROM budgets
+            WHERE enabled = 1 AND scope = 'api_key' AND scope_id = ? LIMIT 1`,
+      args: [hashApiKey(apiKey)],
+    });
+    if (result.rows.length > 0) subject.apiKey = apiKey;
+  }
+
+  return subject.userId || subject.apiKey ? subject : undefined;
+}
+
+/**
+ * Gets a budget's usage and remaining allowance in the current period
+ *
+ * @param budget - The budget
+ * @param now - Point in time whose period to report (default: now)
+ */
+export async function getBudgetStatus(
+  budget: Budget,
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  const { periodStart, resetsAt } = currentPeriod(budget.period, now);
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM budget_usage WHERE budget_id = ? AND period_start = ?',
+    args: [budget.id, periodStart],
+  });
+  const row = result.rows[0] as Record<string, unknown> | undefined;
+  const tokensUsed = Number(row?.tokens_used ?? 0);
+  const costUsed = Number(row?.cost_used ?? 0);
+
+  const remainingTokens =
+    budget.maxTokens !== undefined
+      ? Math.max(budget.maxTokens - tokensUsed, 0)
+      : undefined;
+  const remainingCost =
+    budget.maxCost !== undefined
+      ? Math.max(budget.maxCost - costUsed, 0)
+      : undefined;
+
+  return {
+    budget,
+    periodStart,
+    resetsAt,
+    tokensUsed,
+    costUsed,
+    requestCount: Number(row?.request_count ?? 0),
+    remainingTokens,
+    remainingCost,
+    exhausted: remainingTokens === 0 || remainingCost === 0,
+  };
+}
+
+/**
+ * Gets the status of every budget that applies to a subject
+ */
+export async function getBudgetStatuses(
+  subject: BudgetSubject
+): Promise<BudgetStatus[]> {
+  const budgets = await getBudgetsForSubject(subject);
+  return Promise.all(budgets.map((budget) => getBudgetStatus(budget)));
+}
+
+/**
+ * Charges usage to budgets in their current period
+ *
+ * @param budgets - Budgets to charge
+ * @param usage - Tokens and cost (USD) consumed by a call, and the number of
+ *   requests to count (default 1). Negative amounts return usage, e.g. when
+ *   a reservation is reconciled.
+ */
+export async function recordBudgetUsage(
+  budgets: Budget[],
+  usage: { tokens: number; cost: number; requests?: number }
+): Promise<void> {
+  const now = new Date();
+  const db = getLibSQLClient();
+  for (const budget of budgets) {
+    const { periodStart } = currentPeriod(budget.period, now);
+    await db.execute({
+      sql: `INSERT INTO budget_usage (budget_id, period_start, tokens_used, cost_used, request_count, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (budget_id, period_start) DO UPDATE SET
+              tokens_used = tokens_used + excluded.tokens_used,
+              cost_used = cost_used + excluded.cost_used,
+              request_count = request_count + excluded.request_count,
+              updated_at = excluded.updated_at`,
+      args: [
+        budget.id,
+        periodStart,
+        usage.tokens,
+        usage.cost,
+        usage.requests ?? 1,
+        now.toISOString(),
+      ],
+    });
+  }
+}
+
+/**
+ * Estimates the prompt tokens of a language model call. Images and files
+ * are not counted.
+ *
+ * @param prompt - The prompt passed to the model
+ * @returns Estimated prompt tokens
+ */
+export function estimatePromptTokens(prompt: LanguageModelV1Prompt): number {
+  const text = prompt
+    .map((message) => {
+      if (typeof message.content === 'string') return message.content;
+      return message.content
+        .map((part) => {
+          switch (part.type) {
+            case 'text':
+            case 'reasoning':
+              return part.text;
+            case 'tool-call':
+              return `${part.toolName} ${JSON.stringify(part.args)}`;
+            case 'tool-result':
+              return JSON.stringify(part.result);
+            default:
+              return '';
+          }
+        })
+        .join('\n');
+    })
+    .join('\n');
+  return countTokens(text);
+}
+
+// Loads a downgrade model's settings in the registry's shape, normalized the
+// way the chat route's findModelSettings does
+async function findDowngradeSettings(
+  id: string
+): Promise<ModelSettings | undefined> {
+  const found = await getModelById(id).catch(() => null);
+  if (!found) return undefined;
+  return {
+    ...found,
+    provider: (found.provider === 'google-vertex'
+      ? 'vertex'
+      : found.provider) as ModelSettings['provider'],
+    category: (found.category as ModelSettings['category']) || 'chat',
+    capabilities: found.capabilities || {},
+    created_at: found.created_at || new Date().toISOString(),
+    updated_at: found.updated_at || new Date().toISOString(),
+  };
+}
+
+// Whether spending `promptTokens` on a model would exceed the budget
+function wouldExceed(
+  status: BudgetStatus,
+  promptTokens: number,
+  settings: ModelSettings | undefined
+): boolean {
+  const { budget } = status;
+  if (
+    budget.maxTokens !== undefined &&
+    status.tokensUsed + promptTokens > budget.maxTokens
+  ) {
+    return true;
+  }
+  if (budget.maxCost === undefined) return false;
+  const estimatedCost = promptTokens * (settings?.input_cost_per_token ?? 0);
+  return (
+    status.costUsed >= budget.maxCost ||
+    status.costUsed + estimatedCost > budget.maxCost
+  );
+}
+
+// Describes the limit a status is closest to breaching
+function describeBudget(status: BudgetStatus): string {
+  const { budget } = status;
+  const label = budget.name ?? `${budget.period} ${budget.scope} budget`;
+  return `${label} (${status.tokensUsed}${budget.maxTokens ? `/${budget.maxTokens}` : ''} tokens, $${status.costUsed.toFixed(4)}${budget.maxCost ? `/$${budget.maxCost}` : ''})`;
+}
+
+// The model a call is served by and what was reserved for it
+interface Plan {
+  model: LanguageModelV1;
+  settings?: ModelSettings;
+  budgets: Budget[];
+  /** Estimated usage charged to the budgets before the call */
+  reserved: { tokens: number; cost: number };
+}
+
+/**
+ * Create a budget enforcement middleware
+ *
+ * Before each call the prompt tokens are estimated and checked against every
+ * enabled budget of the subject. If a budget would be exceeded the call is
+ * rejected with a `BudgetExceededError`, unless every exceeded budget is a
+ * downgrade budget: a downgrade budget caps spending on the requested model,
+ * and past it calls go to its downgrade model as long as that model fits the
+ * subject's other budgets. The prompt estimate is reserved against every
+ * applicable budget before the call and reconciled with the usage the model
+ * reports; when the model reports no usage the estimate stands, and a call
+ * that fails releases it.
+ *
+ * Add this middleware before the fallback middleware. Calls are priced by the
+ * model that served them, as reported by the fallback middleware, and
+ * downgraded calls fail over along the same fallbacks.
+ *
+ * @param options - Configuration options
+ * @param options.subject - User, agent and/or API key the calls are charged to
+ * @param options.modelSettings - Settings of the wrapped model, used for pricing
+ * @param options.fallbacks - Models the fallback middleware fails over to
+ * @param options.fallbackTimeoutMs - Per-model timeout of the fallback middleware
+ * @param options.traceId - Optional trace to record downgrades and rejections in
+ * @returns The budget middleware
+ */
+export function createBudgetMiddleware(options: {
+  subject: BudgetSubject;
+  modelSettings?: ModelSettings;
+  fallbacks?: ModelSettings[];
+  fallbackTimeoutMs?: number;
+  traceId?: string;
+}): LanguageModelV1Middleware {
+  const {
+    subject,
+    modelSettings,
+    fallbacks = [],
+    fallbackTimeoutMs,
+    traceId,
+  } = options;
+
+  // Gives a downgrade model the failover the requested model has
+  function withFallbacks(
+    model: LanguageModelV1,
+    settings: ModelSettings
+  ): LanguageModelV1 {
+    const chain = fallbacks.filter((fallback) => fallback.id !== settings.id);
+    if (chain.length === 0) return model;
+    return wrapLanguageModel({
+      model,
+      middleware: modelRegistry.createFallbackMiddleware(settings, chain, {
+        traceId,
+        timeoutMs: fallbackTimeoutMs,
+      }),
+    });
+  }
+
+  // Settings of the model that served a call, as reported by the fallback
+  // middleware in `providerMetadata.modelRouting`
+  function servedSettings(
+    planned: Plan,
+    providerMetadata: ProviderMetadata | undefined
+  ): ModelSettings | undefined {
+    const servedBy = providerMetadata?.modelRouting?.servedBy;
+    if (typeof servedBy !== 'string') return planned.settings;
+    return (
+      [planned.settings, ...fallbacks].find(
+        (settings) => settings?.model_id === servedBy
+      ) ?? planned.settings
+    );
+  }
+
+  // Charges the estimated prompt to the budgets until the call reports usage
+  async function reserve(
+    model: LanguageModelV1,
+    settings: ModelSettings | undefined,
+    budgets: Budget[],
+    promptTokens: number
+  ): Promise<Plan> {
+    const reserved = {
+      tokens: promptTokens,
+      cost: promptTokens * (settings?.input_cost_per_token ?? 0),
+    };
+    await recordBudgetUsage(budgets, reserved);
+    return { model, settings, budgets, reserved };
+  }
+
+  // Picks the model to call and reserves its prompt, throwing if no model
+  // fits the budgets
+  async function plan(
+    model: LanguageModelV1,
+    params: LanguageModelV1CallOptions
+  ): Promise<Plan> {
+    const budgets = await getBudgetsForSubject(subject);
+    if (budgets.length === 0) {
+      return {
+        model,
+        settings: modelSettings,
+        budgets,
+        reserved: { tokens: 0, cost: 0 },
+      };
+    }
+
+    const promptTokens = estimatePromptTokens(params.prompt);
+    const statuses = await Promise.all(
+      budgets.map((budget) => getBudgetStatus(budget))
+    );
+    const exceeded = statuses.filter((status) =>
+      wouldExceed(status, promptTokens, modelSettings)
+    );
+    if (exceeded.length === 0) {
+      return reserve(model, modelSettings, budgets, promptTokens);
+    }
+
+    const downgradeModelId = exceeded.every(
+      (status) => status.budget.onExceed === 'downgrade'
+    )
+      ? exceeded[0].budget.downgradeModelId
+      : undefined;
+    if (downgradeModelId) {
+      const settings = await findDowngradeSettings(downgradeModelId);
+      const downgradeModel =
+        settings && modelRegistry.createLanguageModel(settings);
+      if (
+        settings &&
+        downgradeModel &&
+        !statuses.some(
+          (status) =>
+            !exceeded.includes(status) &&
+            wouldExceed(status, promptTokens, settings)
+        )
+      ) {
+        upstashLogger.warn(
+          'ai-integration',
+          `Budget ${describeBudget(exceeded[0])} reached; downgrading ${model.modelId} to ${downgradeModel.modelId}`
+        );
+        if (traceId) {
+          logEvent({
+            traceId,
+            name: 'budget_downgrade',
+            metadata: {
+              budgetId: exceeded[0].budget.id,
+              requestedModel: model.modelId,
+              servedBy: downgradeModel.modelId,
+              promptTokens,
+            },
+          });
+        }
+        return reserve(
+          withFallbacks(downgradeModel, settings),
+          settings,
+          budgets,
+          promptTokens
+        );
+      }
+    }
+
+    const status = exceeded[0];
+    if (traceId) {
+      logEvent({
+        traceId,
+        name: 'budget_exceeded',
+        metadata: {
+          budgetId: status.budget.id,
+          scope: status.budget.scope,
+          periodStart: status.periodStart,
+          tokensUsed: status.tokensUsed,
+          costUsed: status.costUsed,
+          promptTokens,
+        },
+      });
+    }
+    throw new BudgetExceededError(
+      status,
+      `Budget exceeded: ${describeBudget(status)}. Resets at ${status.resetsAt}.`
+    );
+  }
+
+  // Replaces a call's reservation with its reported usage, priced for the
+  // model that served it; never fails the call. Without usage the
+  // reservation stands.
+  function charge(
+    planned: Plan,
+    usage: { promptTokens: number; completionTokens: number } | undefined,
+    settings: ModelSettings | undefined = planned.settings
+  ): void {
+    const { budgets, reserved } = planned;
+    if (budgets.length === 0) return;
+    const input = Number.isFinite(usage?.promptTokens)
+      ? usage!.promptTokens
+      : reserved.tokens;
+    const output = Number.isFinite(usage?.completionTokens)
+      ? usage!.completionTokens
+      : 0;
+    const cost =
+      input * (settings?.input_cost_per_token ?? 0) +
+      output * (settings?.output_cost_per_token ?? 0);
+    recordBudgetUsage(budgets, {
+      tokens: input + output - reserved.tokens,
+      cost: cost - reserved.cost,
+      requests: 0,
+    }).catch((error) => console.error('Failed to record budget usage:', error));
+  }
+
+  // Returns the reservation of a call that failed
+  function release(planned: Plan): void {
+    charge(planned, { promptTokens: 0, completionTokens: 0 });
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const planned = await plan(model, params);
+      let result;
+      try {
+        result =
+          planned.model === model
+            ? await doGenerate()
+            : await planned.model.doGenerate(params);
+      } catch (error) {
+        release(planned);
+        throw error;
+      }
+      charge(
+        planned,
+        result.usage,
+        servedSettings(planned, result.providerMetadata)
+      );
+      return result;
+    },
+    wrapStream: async ({ doStream, params, model }) => {
+      const planned = await plan(model, params);
+      let streamed;
+      try {
+        streamed =
+          planned.model === model
+            ? await doStream()
+            : await planned.model.doStream(params);
+      } catch (error) {
+        release(planned);
+        throw error;
+      }
+      const { stream, ...rest } = streamed;
+      if (planned.budgets.length === 0) return { stream, ...rest };
+
+      return {
+        ...rest,
+        stream: stream.pipeThrough(
+          new TransformStream<
+            LanguageModelV1StreamPart,
+            LanguageModelV1StreamPart
+          >({
+            transform(chunk, controller) {
+              if (chunk.type === 'finish') {
+                charge(
+                  planned,
+                  chunk.usage,
+                  servedSettings(planned, chunk.providerMetadata)
+                );
+              }
+              controller.enqueue(chunk);
+            },
+          })
+        ),
+      };
+    },
+  };
+}
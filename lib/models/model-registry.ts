@@ -14,9 +14,14 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 import {
   customProvider,
   wrapLanguageModel,
+  type LanguageModelV1,
   type LanguageModelV1Middleware,
   type LanguageModel,
 } from 'ai';
+import {
+  createModelFallbackMiddleware,
+  type ModelFallbackEvent,
+} from '../middleware';
 
 // --- Zod Schemas ---
 
@@ -325,6 +330,103 @@ export class ModelRegistry {
     return languageModel;
   }
 
+  /**
+   * Creates a language model from model settings, whether or not the model
+   * is registered. Settings with their own API key or base URL get their own
+   * provider instance.
+   *
+   * @param settings - Model settings
+   * @returns The language model or undefined if the provider is unsupported
+   */
+  public createLanguageModel(
+    settings: ModelSettings
+  ): LanguageModelV1 | undefined {
+    if (this.getModel(settings.id)) {
+      return this.getLanguageModel(settings.id);
+    }
+
+    const baseURL = settings.base_url || undefined;
+    const dedicated = Boolean(settings.api_key || baseURL);
+    let provider: any;
+    switch (settings.provider) {
+      case 'google':
+        provider = dedicated
+          ? createGoogleAIProvider(settings.api_key, baseURL)
+          : this.providers.get('google');
+        break;
+      case 'openai':
+        provider = dedicated
+          ? createOpenAIProvider(settings.api_key, baseURL)
+          : this.providers.get('openai');
+        break;
+      case 'anthropic':
+        provider = dedicated
+          ? createAnthropicProvider(settings.api_key, baseURL)
+          : this.providers.get('anthropic');
+        break;
+      default:
+        return undefined;
+    }
+
+    return provider(settings.model_id);
+  }
+
+  /**
+   * Creates a middleware that fails over from the wrapped model to the given
+   * fallback models on rate limits, server errors and timeouts, and routes
+   * around models lacking a capability the request needs
+   *
+   * @param primary - Settings of the model the middleware wraps
+   * @param fallbacks - Ordered fallback models
+   * @param options - Timeout, routing and tracing options
+   * @returns The fallback middleware
+   */
+  public createFallbackMiddleware(
+    primary: ModelSettings | undefined,
+    fallbacks: ModelSettings[],
+    options: {
+      routeByCapabilities?: boolean;
+      timeoutMs?: number;
+      traceId?: string;
+      onFallback?: (event: ModelFallbackEvent) => void;
+    } = {}
+  ): LanguageModelV1Middleware {
+    return createModelFallbackMiddleware({
+      ...options,
+      primary,
+      fallbacks: fallbacks.flatMap((settings) => {
+        const model = this.createLanguageModel(settings);
+        return model ? [{ model, settings }] : [];
+      }),
+    });
+  }
+
+  /**
+   * Gets a language model that tries an ordered chain of models, e.g.
+   * gemini → gpt → claude
+   *
+   * @param chain - Model IDs (registered models) or model settings, in order
+   * @param options - Timeout, routing and tracing options
+   * @returns The language model or undefined if no model in the chain is available
+   */
+  public getFallbackLanguageModel(
+    chain: Array<string | ModelSettings>,
+    options: Parameters<ModelRegistry['createFallbackMiddleware']>[2] = {}
+  ): LanguageModelV1 | undefined {
+    const settings = chain.flatMap((entry) => {
+      const resolved = typeof entry === 'string' ? this.getModel(entry) : entry;
+      return resolved && resolved.status !== 'inactive' ? [resolved] : [];
+    });
+    const [primary, ...fallbacks] = settings;
+    const model = primary && this.createLanguageModel(primary);
+    if (!model) return undefined;
+
+    return wrapLanguageModel({
+      model,
+      middleware: this.createFallbackMiddleware(primary, fallbacks, options),
+    });
+  }
+
   /**
    * Creates a custom provider with specified language models
    *
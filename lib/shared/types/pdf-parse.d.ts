@@ -0,0 +1,25 @@
+/**
+ * Type declarations for the 'pdf-parse' module.
+ *
+ * This file provides fallback types for the 'pdf-parse' package since the
+ * repository does not depend on @types/pdf-parse. `lib/pdf-parse.js` is the
+ * entry without the package's debug harness, which bundlers trip over.
+ */
+
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface PdfParseResult {
+    numpages: number;
+    numrender: number;
+    info: Record<string, any>;
+    metadata: any;
+    text: string;
+    version: string;
+  }
+
+  function pdfParse(
+    dataBuffer: Buffer,
+    options?: { max?: number; version?: string }
+  ): Promise<PdfParseResult>;
+
+  export default pdfParse;
+}
@@ -6,19 +6,23 @@
 
 import { tool } from 'ai';
 import { z } from 'zod';
-import { Worker } from 'node:worker_threads';
 
 import {
   LANG_EXECUTE,
   LANG_ANALYZE,
   ANALYSES,
   DANGEROUS_PATTERNS,
+  DEFAULT_SANDBOX_LIMITS,
+  LANG_AST,
+  COMPLEXITY_THRESHOLD,
 } from './code/constants';
+import { analyzeAst, AstLanguage } from './code/ast-analysis';
+import { getCodeExecutor } from './code/executors';
 import {
   ExecuteResult,
   AnalyzeResult,
   ExecuteFailure,
-  ExecuteSuccess,
+  SecurityFinding,
 } from './code/types';
 
 /* -------------------------------------------------------------------------- */
@@ -48,53 +52,34 @@ export const codeAnalyzeSchema = z.object({
 /* -------------------------------------------------------------------------- */
 
 /**
- * Execute a code snippet in a worker thread with a hard timeout.
+ * Execute a code snippet with the sandbox backend registered for its language.
  *
- * @internal The sandbox currently supports JavaScript only.
+ * @see ./code/executors.ts for the backends and how to replace them.
  */
 async function codeExecute(
   params: z.infer<typeof codeExecuteSchema>
 ): Promise<ExecuteResult> {
   const { code, language, timeout } = params;
 
-  /* -----------------------------  non-JS languages  ---------------------------- */
-  if (language !== 'javascript') {
+  const executor = getCodeExecutor(language);
+  if (!executor) {
     return <ExecuteFailure>{
       success: false,
-      error: `Execution of ${language} is not implemented`,
+      error: `No sandbox is registered for ${language}`,
+    };
+  }
+  const unavailable = executor.unavailableReason?.();
+  if (unavailable) {
+    return <ExecuteFailure>{
+      success: false,
+      error: `The ${executor.name} sandbox for ${language} is unavailable: ${unavailable}`,
     };
   }
 
-  /* ---------------------------  JS via worker thread  --------------------------- */
-  return new Promise<ExecuteResult>((resolve) => {
-    const worker = new Worker(require.resolve('./code/execute-worker'), {
-      workerData: { code },
-    });
-
-    /* Force-terminate after `timeout` seconds. */
-    const timer = setTimeout(() => {
-      worker.terminate();
-      resolve({ success: false, error: `Timed out after ${timeout}s` });
-    }, timeout * 1_000);
-
-    worker.once('message', (msg: any) => {
-      clearTimeout(timer);
-      if (msg.error) {
-        resolve(<ExecuteFailure>{ success: false, error: msg.error });
-        return;
-      }
-      const success: ExecuteSuccess = {
-        success: true,
-        output: msg.output.join('\n'),
-        result: msg.result !== undefined ? String(msg.result) : undefined,
-      };
-      resolve(success);
-    });
-
-    worker.once('error', (err) => {
-      clearTimeout(timer);
-      resolve(<ExecuteFailure>{ success: false, error: err.message });
-    });
+  return executor.execute({
+    code,
+    language,
+    limits: { ...DEFAULT_SANDBOX_LIMITS, timeoutMs: timeout * 1_000 },
   });
 }
 
@@ -102,8 +87,35 @@ async function codeExecute(
 /*                                Code analyse                                */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * Locate regex matches, for languages without an AST analyser.
+ */
+function findPatternMatches(code: string, language: string): SecurityFinding[] {
+  const regexes =
+    DANGEROUS_PATTERNS.get(language as (typeof LANG_ANALYZE)[number]) ?? [];
+
+  return regexes.flatMap((re) =>
+    [...code.matchAll(re)].map((match) => {
+      const before = code.slice(0, match.index);
+      const line = before.split('\n').length;
+      return {
+        rule: 'dangerous-pattern',
+        sink: match[0].replace(/\($/, ''),
+        severity: 'medium' as const,
+        message: `Matches dangerous pattern ${re.source}`,
+        line,
+        column: match.index! - before.lastIndexOf('\n'),
+      };
+    })
+  );
+}
+
 /**
  * Perform static analysis on the supplied code.
+ *
+ * JavaScript and TypeScript are parsed with the TypeScript compiler API (see
+ * `./code/ast-analysis.ts`); other languages fall back to line heuristics and
+ * regex patterns.
  */
 async function codeAnalyze(
   params: z.infer<typeof codeAnalyzeSchema>
@@ -112,48 +124,77 @@ async function codeAnalyze(
 
   try {
     const results: Record<string, unknown> = {};
+    const ast = (LANG_AST as readonly string[]).includes(language)
+      ? analyzeAst(code, language as AstLanguage)
+      : undefined;
+
+    if (ast && ast.parseErrors.length > 0) {
+      results.parseErrors = ast.parseErrors;
+    }
 
     /* --------------------------  complexity analysis  -------------------------- */
     if (analysis.includes('complexity')) {
-      const lines = code.split('\n').length;
-      const nestingLevel = Math.max(
-        ...code.split('\n').map((line) => {
-          const indentation = line.search(/\S/);
-          return indentation > 0 ? indentation / 2 : 0;
-        }),
-        0
-      );
-
-      results.complexity = {
-        lines,
-        nestingLevel,
-        assessment: nestingLevel > 5 ? 'High complexity' : 'Acceptable',
-      };
+      if (ast) {
+        const complex = ast.functions.filter(
+          (fn) => fn.complexity > COMPLEXITY_THRESHOLD
+        );
+        results.complexity = {
+          lines: code.split('\n').length,
+          functions: ast.functions,
+          maxComplexity: Math.max(...ast.functions.map((fn) => fn.complexity)),
+          maxNestingDepth: Math.max(
+            ...ast.functions.map((fn) => fn.nestingDepth)
+          ),
+          assessment: complex.length
+            ? `High complexity in ${complex.map((fn) => fn.name).join(', ')}`
+            : 'Acceptable',
+        };
+      } else {
+        const lines = code.split('\n').length;
+        const nestingLevel = Math.max(
+          ...code.split('\n').map((line) => {
+            const indentation = line.search(/\S/);
+            return indentation > 0 ? indentation / 2 : 0;
+          }),
+          0
+        );
+
+        results.complexity = {
+          lines,
+          nestingLevel,
+          assessment: nestingLevel > 5 ? 'High complexity' : 'Acceptable',
+        };
+      }
     }
 
     /* ---------------------------  security analysis  --------------------------- */
     if (analysis.includes('security')) {
-      const regexes =
-        DANGEROUS_PATTERNS.get(language as (typeof LANG_ANALYZE)[number]) ?? [];
-
-      const issues =
-        regexes
-          .map((re) => {
-            const matches = code.match(re) ?? [];
-            return matches.length > 0
-              ? { pattern: re.source, count: matches.length }
-              : null;
-          })
-          .filter(Boolean) ?? [];
+      const issues = ast
+        ? ast.securityFindings
+        : findPatternMatches(code, language);
 
       results.security = {
         issues,
-        assessment: issues.length
-          ? 'Potential issues found'
-          : 'No obvious issues',
+        assessment: issues.some((issue) => issue.severity === 'high')
+          ? 'Untrusted input reaches dangerous sinks'
+          : issues.length
+            ? 'Potential issues found'
+            : 'No obvious issues',
       };
     }
 
+    /* -----------------------------  unused analysis  ---------------------------- */
+    if (analysis.includes('unused')) {
+      results.unused = ast
+        ? {
+            variables: ast.unusedVariables,
+            assessment: ast.unusedVariables.length
+              ? `${ast.unusedVariables.length} unused declaration(s)`
+              : 'No unused declarations',
+          }
+        : { variables: [], assessment: `Not supported for ${language}` };
+    }
+
     return {
       language,
       analysisTypes: analysis,
@@ -184,13 +225,17 @@ async function codeAnalyze(
  */
 export const tools = {
   CodeExecute: tool({
-    description: 'Execute JavaScript in a sandboxed worker thread',
+    description:
+      'Execute JavaScript, Python or shell code in a sandbox with no network ' +
+      'access and capped time, CPU and memory',
     parameters: codeExecuteSchema,
     execute: codeExecute,
   }),
 
   CodeAnalyze: tool({
-    description: 'Analyse code for complexity & security',
+    description:
+      'Analyse code for complexity, security sinks & unused variables; ' +
+      'JavaScript/TypeScript findings include line/column locations',
     parameters: codeAnalyzeSchema,
     execute: codeAnalyze,
   }),
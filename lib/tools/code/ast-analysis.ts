@@ -0,0 +1,484 @@
+/**
+ * @file AST-based analysis of JavaScript / TypeScript for `CodeAnalyze`,
+ *       built on the TypeScript compiler API.
+ *
+ * @remarks
+ *   Everything runs on a single in-memory source file (`noLib`, no module
+ *   resolution), so analysis is fast and never touches the filesystem.  All
+ *   findings carry 1-based line/column locations.
+ */
+
+import ts from 'typescript';
+
+import type {
+  FunctionComplexity,
+  SecurityFinding,
+  SourceLocation,
+  UnusedVariable,
+} from './types';
+
+/** Languages handled by the AST analyser. */
+export type AstLanguage = 'javascript' | 'typescript';
+
+/** Node modules whose APIs are treated as dangerous sinks. */
+const SINK_MODULES = {
+  child_process: 'command-execution',
+  fs: 'filesystem',
+  'fs/promises': 'filesystem',
+  vm: 'code-execution',
+} as const;
+
+type SinkCategory = (typeof SINK_MODULES)[keyof typeof SINK_MODULES];
+
+/** Property accesses treated as untrusted input. */
+const INPUT_OBJECTS = new Set(['req', 'request', 'ctx', 'event']);
+const INPUT_PROPERTIES = new Set([
+  'body',
+  'query',
+  'params',
+  'headers',
+  'cookies',
+]);
+
+/** Diagnostics TypeScript reports for unused declarations. */
+const UNUSED_DIAGNOSTICS = new Set([6133, 6138, 6196, 6198, 6199, 6205]);
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+function locate(sourceFile: ts.SourceFile, position: number): SourceLocation {
+  const { line, character } =
+    sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
+
+function parse(code: string, language: AstLanguage): ts.SourceFile {
+  return ts.createSourceFile(
+    language === 'typescript' ? 'snippet.ts' : 'snippet.js',
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  );
+}
+
+/** Strip the optional `node:` prefix from a module specifier. */
+function moduleName(specifier: string): string {
+  return specifier.replace(/^node:/, '');
+}
+
+function isFunctionLike(node: ts.Node): node is ts.SignatureDeclaration {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node)
+  );
+}
+
+/** Best-effort name for a function node, including `const f = () => …`. */
+function functionName(node: ts.SignatureDeclaration): string {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name && ts.isIdentifier(node.name)) return node.name.text;
+  if (node.name) return node.name.getText();
+
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+    return parent.name.getText();
+  }
+  return '<anonymous>';
+}
+
+/** Whether a node adds a branch to the cyclomatic complexity. */
+function isDecisionPoint(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression: {
+      const operator = (node as ts.BinaryExpression).operatorToken.kind;
+      return (
+        operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken ||
+        operator === ts.SyntaxKind.AmpersandAmpersandEqualsToken ||
+        operator === ts.SyntaxKind.BarBarEqualsToken ||
+        operator === ts.SyntaxKind.QuestionQuestionEqualsToken
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/** Whether a node opens a new level of control-flow nesting. */
+function isNestingNode(node: ts.Node): boolean {
+  return (
+    ts.isIfStatement(node) ||
+    ts.isIterationStatement(node, false) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node) ||
+    ts.isCatchClause(node)
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Complexity                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Cyclomatic complexity and nesting depth for every function, plus the
+ * top-level module code as `<module>`.  Nested functions are measured on
+ * their own and do not add to their parent's complexity.
+ */
+function measureFunctions(sourceFile: ts.SourceFile): FunctionComplexity[] {
+  const results: FunctionComplexity[] = [];
+
+  const measure = (root: ts.Node, name: string) => {
+    let complexity = 1;
+    let maxDepth = 0;
+    const nested: ts.SignatureDeclaration[] = [];
+
+    const visit = (node: ts.Node, depth: number) => {
+      if (node !== root && isFunctionLike(node)) {
+        nested.push(node);
+        return;
+      }
+      if (isDecisionPoint(node)) complexity++;
+
+      let childDepth = depth;
+      if (isNestingNode(node) && !isElseIf(node)) {
+        childDepth = depth + 1;
+        maxDepth = Math.max(maxDepth, childDepth);
+      }
+      ts.forEachChild(node, (child) => visit(child, childDepth));
+    };
+    ts.forEachChild(root, (child) => visit(child, 0));
+
+    results.push({
+      name,
+      ...locate(sourceFile, root === sourceFile ? 0 : root.getStart()),
+      complexity,
+      nestingDepth: maxDepth,
+    });
+    for (const fn of nested) measure(fn, functionName(fn));
+  };
+
+  measure(sourceFile, '<module>');
+  return results;
+}
+
+/** `else if` continues the same level rather than nesting deeper. */
+function isElseIf(node: ts.Node): boolean {
+  return (
+    ts.isIfStatement(node) &&
+    ts.isIfStatement(node.parent) &&
+    node.parent.elseStatement === node
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Unused variables                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Unused locals, parameters and imports, using the checker's own
+ * `noUnusedLocals` / `noUnusedParameters` diagnostics.
+ */
+function findUnusedVariables(sourceFile: ts.SourceFile): UnusedVariable[] {
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) =>
+      fileName === sourceFile.fileName ? sourceFile : undefined,
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => fileName === sourceFile.fileName,
+    readFile: () => undefined,
+  };
+
+  const program = ts.createProgram(
+    [sourceFile.fileName],
+    {
+      allowJs: true,
+      checkJs: true,
+      noEmit: true,
+      noLib: true,
+      noResolve: true,
+      types: [],
+      noUnusedLocals: true,
+      noUnusedParameters: true,
+    },
+    host
+  );
+
+  return program
+    .getSemanticDiagnostics(sourceFile)
+    .filter(
+      (diagnostic) =>
+        UNUSED_DIAGNOSTICS.has(diagnostic.code) &&
+        diagnostic.start !== undefined
+    )
+    .map((diagnostic) => {
+      const message = ts.flattenDiagnosticMessageText(
+        diagnostic.messageText,
+        '\n'
+      );
+      return {
+        name:
+          message.match(/'([^']+)'/)?.[1] ??
+          sourceFile.text.slice(
+            diagnostic.start!,
+            diagnostic.start! + (diagnostic.length ?? 0)
+          ),
+        message,
+        ...locate(sourceFile, diagnostic.start!),
+      };
+    });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Security                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Taint-style sink detection.
+ *
+ * Sources are function parameters, `process.argv` / `process.env` and
+ * request-like objects (`req.body`, `request.query`, …).  Taint propagates
+ * through variable declarations and assignments in source order.  Every call
+ * to a sink (`eval`, `new Function`, string timers, `child_process`, `fs`,
+ * `vm`) is reported; calls whose arguments are tainted are `high` severity.
+ */
+function findSecurityIssues(sourceFile: ts.SourceFile): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+
+  /* Local names bound to sink modules (namespace) or their members. */
+  const moduleBindings = new Map<string, SinkCategory>();
+  const memberBindings = new Map<string, SinkCategory>();
+  const tainted = new Set<string>();
+
+  const sinkModule = (specifier: string): SinkCategory | undefined =>
+    SINK_MODULES[moduleName(specifier) as keyof typeof SINK_MODULES];
+
+  const requiredModule = (node: ts.Expression | undefined) =>
+    node &&
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === 'require' &&
+    node.arguments.length > 0 &&
+    ts.isStringLiteralLike(node.arguments[0])
+      ? sinkModule(node.arguments[0].text)
+      : undefined;
+
+  const bindNames = (name: ts.BindingName, category: SinkCategory) => {
+    if (ts.isIdentifier(name)) {
+      moduleBindings.set(name.text, category);
+    } else if (ts.isObjectBindingPattern(name)) {
+      for (const element of name.elements) {
+        if (ts.isIdentifier(element.name)) {
+          memberBindings.set(element.name.text, category);
+        }
+      }
+    }
+  };
+
+  /* Names read by an expression, and whether it reads an input source. */
+  const taintSources = (node: ts.Node): string[] => {
+    const sources: string[] = [];
+    const visit = (child: ts.Node) => {
+      if (ts.isIdentifier(child) && tainted.has(child.text)) {
+        sources.push(child.text);
+      } else if (ts.isPropertyAccessExpression(child)) {
+        const target = child.expression;
+        if (
+          ts.isIdentifier(target) &&
+          ((target.text === 'process' &&
+            (child.name.text === 'argv' || child.name.text === 'env')) ||
+            (INPUT_OBJECTS.has(target.text) &&
+              INPUT_PROPERTIES.has(child.name.text)))
+        ) {
+          sources.push(child.getText());
+          return;
+        }
+      }
+      if (!isFunctionLike(child)) ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return sources;
+  };
+
+  const taintBinding = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      tainted.add(name.text);
+    } else {
+      for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) taintBinding(element.name);
+      }
+    }
+  };
+
+  /* Resolve the sink a call targets, if any. */
+  const callSink = (
+    node: ts.CallExpression | ts.NewExpression
+  ): { sink: string; category: SinkCategory } | undefined => {
+    const callee = node.expression;
+
+    if (ts.isNewExpression(node)) {
+      return ts.isIdentifier(callee) && callee.text === 'Function'
+        ? { sink: 'new Function', category: 'code-execution' }
+        : undefined;
+    }
+
+    if (ts.isIdentifier(callee)) {
+      if (callee.text === 'eval') {
+        return { sink: 'eval', category: 'code-execution' };
+      }
+      if (
+        (callee.text === 'setTimeout' || callee.text === 'setInterval') &&
+        node.arguments.length > 0 &&
+        !isFunctionLike(node.arguments[0]) &&
+        !ts.isIdentifier(node.arguments[0])
+      ) {
+        return { sink: callee.text, category: 'code-execution' };
+      }
+      const category = memberBindings.get(callee.text);
+      return category ? { sink: callee.text, category } : undefined;
+    }
+
+    if (ts.isPropertyAccessExpression(callee)) {
+      /* `fs.promises.readFile` → look at the left-most identifier. */
+      let target: ts.Expression = callee.expression;
+      while (ts.isPropertyAccessExpression(target)) target = target.expression;
+      const category =
+        (ts.isIdentifier(target) && moduleBindings.get(target.text)) ||
+        requiredModule(target);
+      return category ? { sink: callee.getText(), category } : undefined;
+    }
+
+    return undefined;
+  };
+
+  const visit = (node: ts.Node) => {
+    /* Module bindings: imports and `require` calls. */
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      const category = sinkModule(node.moduleSpecifier.text);
+      const clause = node.importClause;
+      if (category && clause) {
+        if (clause.name) moduleBindings.set(clause.name.text, category);
+        const bindings = clause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          moduleBindings.set(bindings.name.text, category);
+        } else if (bindings) {
+          for (const element of bindings.elements) {
+            memberBindings.set(element.name.text, category);
+          }
+        }
+      }
+    }
+
+    /* Parameters are untrusted input. */
+    if (ts.isParameter(node)) taintBinding(node.name);
+
+    if (ts.isVariableDeclaration(node)) {
+      const category = requiredModule(node.initializer);
+      if (category) bindNames(node.name, category);
+      if (node.initializer && taintSources(node.initializer).length > 0) {
+        taintBinding(node.name);
+      }
+    }
+
+    if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isIdentifier(node.left) &&
+      taintSources(node.right).length > 0
+    ) {
+      tainted.add(node.left.text);
+    }
+
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const sink = callSink(node);
+      if (sink) {
+        const sources = [
+          ...new Set(
+            (node.arguments ?? []).flatMap((argument) => taintSources(argument))
+          ),
+        ];
+        findings.push({
+          rule: `${sink.category}-sink`,
+          sink: sink.sink,
+          severity: sources.length > 0 ? 'high' : 'medium',
+          tainted: sources.length > 0,
+          sources,
+          message:
+            sources.length > 0
+              ? `${sink.sink} receives untrusted input from ${sources.join(', ')}`
+              : `${sink.sink} is a ${sink.category} sink`,
+          ...locate(sourceFile, node.getStart()),
+        });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return findings;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Entry                                    */
+/* -------------------------------------------------------------------------- */
+
+/** Structured AST analysis results, keyed like `CodeAnalyze` results. */
+export interface AstAnalysis {
+  parseErrors: Array<SourceLocation & { message: string }>;
+  functions: FunctionComplexity[];
+  unusedVariables: UnusedVariable[];
+  securityFindings: SecurityFinding[];
+}
+
+/**
+ * Parse and analyse a JavaScript or TypeScript snippet.
+ *
+ * @param code - Source code.
+ * @param language - Source language.
+ */
+export function analyzeAst(code: string, language: AstLanguage): AstAnalysis {
+  const sourceFile = parse(code, language);
+
+  /* `parseDiagnostics` is internal but stable; it lists syntax errors. */
+  const parseDiagnostics =
+    (sourceFile as unknown as { parseDiagnostics?: ts.Diagnostic[] })
+      .parseDiagnostics ?? [];
+
+  return {
+    parseErrors: parseDiagnostics.map((diagnostic) => ({
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      ...locate(sourceFile, diagnostic.start ?? 0),
+    })),
+    functions: measureFunctions(sourceFile),
+    unusedVariables: findUnusedVariables(sourceFile),
+    securityFindings: findSecurityIssues(sourceFile),
+  };
+}
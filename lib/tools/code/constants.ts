@@ -7,6 +7,63 @@
 
 export const LANG_EXECUTE = ['javascript', 'python', 'shell'] as const;
 
+/**
+ * Default resource caps for `CodeExecute`.  The timeout is overridden by the
+ * tool's `timeout` parameter.
+ */
+export const DEFAULT_SANDBOX_LIMITS = {
+  timeoutMs: 10_000,
+  memoryMb: 256,
+  cpuSeconds: 10,
+  maxOutputBytes: 64 * 1024,
+} as const;
+
+/**
+ * Interpreter command and script file name used by the subprocess backend.
+ * `-I` runs Python in isolated mode (ignores env vars and user site-packages).
+ */
+export const SUBPROCESS_INTERPRETERS = {
+  python: {
+    command: process.env.CODE_SANDBOX_PYTHON || 'python3',
+    args: ['-I', '-B'],
+    file: 'main.py',
+  },
+  shell: { command: '/bin/sh', args: [], file: 'main.sh' },
+} as const;
+
+/**
+ * Opt-in (`CODE_SANDBOX_ALLOW_NETWORK=true`) to run Python and shell snippets
+ * with network access on hosts where `unshare` cannot isolate them; needs
+ * `CODE_SANDBOX_ALLOW_HOST_FS` too.  Without both the subprocess backend
+ * reports itself unavailable there.
+ */
+export const CODE_SANDBOX_ALLOW_NETWORK =
+  process.env.CODE_SANDBOX_ALLOW_NETWORK === 'true';
+
+/**
+ * Opt-in (`CODE_SANDBOX_ALLOW_HOST_FS=true`) to run Python and shell snippets
+ * with read access to the host's filesystem on hosts where `unshare` cannot
+ * give them a private root; needs `CODE_SANDBOX_ALLOW_NETWORK` too.
+ */
+export const CODE_SANDBOX_ALLOW_HOST_FS =
+  process.env.CODE_SANDBOX_ALLOW_HOST_FS === 'true';
+
+/**
+ * Host directories bound read-only into the subprocess backend's private
+ * root.  `CODE_SANDBOX_READ_PATHS` (colon-separated) adds to them, e.g. for
+ * interpreters installed elsewhere; Python's own prefix is added
+ * automatically.
+ */
+export const SUBPROCESS_READ_PATHS = [
+  '/usr',
+  '/bin',
+  '/sbin',
+  '/lib',
+  '/lib32',
+  '/lib64',
+  ...(process.env.CODE_SANDBOX_READ_PATHS?.split(':').filter(Boolean) ?? []),
+];
+
 export const LANG_ANALYZE = [
   'javascript',
   'python',
@@ -23,10 +80,17 @@ export const LANG_ANALYZE = [
 export const ANALYSES = [
   'complexity',
   'security',
+  'unused',
   'style',
   'performance',
 ] as const;
 
+/** Languages analysed from a real AST rather than regexes. */
+export const LANG_AST = ['javascript', 'typescript'] as const;
+
+/** Cyclomatic complexity above which a function is reported as complex. */
+export const COMPLEXITY_THRESHOLD = 10;
+
 /**
  * Pre-compiled dangerous-pattern matchers (compile-once on module load).
  */
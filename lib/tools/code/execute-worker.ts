@@ -2,53 +2,115 @@
  * @file Worker-thread entry point for sandboxing JavaScript execution.
  *
  * @remarks
- *   The worker receives `{ code: string }` via `workerData`, executes it,
- *   captures `console` output locally, and finally posts a message back to the
- *   parent thread in the shape:
+ *   The worker receives `{ code, timeoutMs, maxOutputBytes }` via
+ *   `workerData`, runs the code in a fresh `node:vm` context, and posts a
+ *   message back to the parent thread in the shape:
  *
- *   • `{ result: unknown; output: string[] }`  – success
- *   • `{ error: string;  output: string[] }`  – failure
+ *   • `{ result?: string; output: string[] }`  – success
+ *   • `{ error: string;  output: string[] }`   – failure
  *
- *   Although safer than `eval` in the main thread, this is **NOT** a fully
- *   hardened sandbox.  For production, consider `vm2`, Docker, Firecracker,
- *   etc.
+ *   The context is created from a null-prototype object, so no host object
+ *   (`require`, `process`, `Buffer`, the host `console`…) is reachable from the
+ *   snippet, and string code generation (`eval`, `new Function`) is disabled.
+ *   `console` is defined *inside* the context and only strings cross back to
+ *   the host.  The parent runs this worker with V8 heap limits and terminates
+ *   it on timeout, which also covers runaway asynchronous code.
  */
 
 import { parentPort, workerData } from 'node:worker_threads';
-import { Console as NodeConsole } from 'node:console';
+import vm from 'node:vm';
 
-/* -------------------------  capture console.log  -------------------------- */
+const { code, timeoutMs, maxOutputBytes } = workerData as {
+  code: string;
+  timeoutMs: number;
+  maxOutputBytes: number;
+};
 
-const output: string[] = [];
+/* ---------------------------  build the context  --------------------------- */
 
-const localConsole = new NodeConsole({
-  stdout: {
-    write: (chunk: string) => {
-      output.push(chunk.toString().replace(/\n$/, ''));
-      return true;
-    },
-  } as unknown as NodeJS.WritableStream,
-  stderr: process.stderr,
+const context = vm.createContext(Object.create(null), {
+  name: 'CodeExecute',
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate',
 });
 
-/* Make `console` inside the user script point to our local collector. */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-(globalThis as any).console = localConsole;
+/* In-context console collecting formatted lines, capped at `maxOutputBytes`. */
+vm.runInContext(
+  `(() => {
+    const lines = [];
+    let bytes = 0;
+    const format = (args) => args
+      .map((arg) => {
+        if (typeof arg === 'string') return arg;
+        try { return JSON.stringify(arg) ?? String(arg); } catch { return String(arg); }
+      })
+      .join(' ');
+    const write = (...args) => {
+      const line = format(args);
+      bytes += line.length + 1;
+      if (bytes > ${Number(maxOutputBytes)}) {
+        throw new Error('Output limit exceeded');
+      }
+      lines.push(line);
+    };
+    Object.defineProperty(globalThis, '__output', { value: lines });
+    globalThis.console = Object.freeze({
+      log: write, info: write, warn: write, error: write, debug: write,
+    });
+  })();`,
+  context
+);
+
+/** Read captured output; the array lives in the context, so copy strings out. */
+const collectOutput = (): string[] =>
+  (vm.runInContext('__output.slice()', context) as unknown[]).map(String);
 
 /* ---------------------------  run user script  ---------------------------- */
 
-(async () => {
-  try {
-    const AsyncFn = Object.getPrototypeOf(async () => {}).constructor as (
-      ...args: string[]
-    ) => (...fnArgs: unknown[]) => Promise<unknown>;
-
-    const result = await AsyncFn(workerData.code)();
-    parentPort!.postMessage({ result, output });
-  } catch (err) {
-    parentPort!.postMessage({
-      error: err instanceof Error ? err.message : String(err),
-      output,
-    });
-  }
-})();
+/* Run as an async function body so `return` and `await` work.  The outcome is
+   recorded inside the context as a JSON string: a promise from the context
+   cannot be awaited from here, since its reactions run on the context's own
+   microtask queue, which is drained once the script has been evaluated. */
+const script = new vm.Script(
+  `(async () => {\n${code}\n})().then(
+    (value) => {
+      __outcome = JSON.stringify({
+        result: value === undefined
+          ? undefined
+          : typeof value === 'string'
+            ? value
+            : (() => { try { return JSON.stringify(value) ?? String(value); } catch { return String(value); } })(),
+      });
+    },
+    (error) => {
+      __outcome = JSON.stringify({
+        error: error !== null && typeof error === 'object' && 'message' in error
+          ? String(error.message)
+          : String(error),
+      });
+    }
+  );`,
+  { filename: 'snippet.js' }
+);
+
+try {
+  vm.runInContext('var __outcome;', context);
+  script.runInContext(context, { timeout: timeoutMs });
+
+  const outcome = vm.runInContext('__outcome', context) as string | undefined;
+  parentPort!.postMessage({
+    ...(outcome === undefined
+      ? { error: 'Snippet awaited a promise that never settled' }
+      : (JSON.parse(outcome) as { result?: string; error?: string })),
+    output: collectOutput(),
+  });
+} catch (err) {
+  /* Errors thrown from the context's realm are not `instanceof Error` here. */
+  parentPort!.postMessage({
+    error:
+      err !== null && typeof err === 'object' && 'message' in err
+        ? String(err.message)
+        : String(err),
+    output: collectOutput(),
+  });
+}
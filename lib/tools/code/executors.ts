@@ -0,0 +1,41 @@
+/**
+ * @file Registry of `CodeExecute` backends, keyed by language.
+ *
+ * @remarks
+ *   Defaults: JavaScript runs in the `vm` backend, Python and shell in the
+ *   subprocess backend.  Deployments can swap in another backend (e.g. a
+ *   container or remote sandbox) with {@link registerCodeExecutor}.
+ */
+
+import { createSubprocessExecutor } from './subprocess-executor';
+import type { CodeExecutor, ExecuteLanguage } from './types';
+import { vmExecutor } from './vm-executor';
+
+const executors = new Map<ExecuteLanguage, CodeExecutor>();
+
+/**
+ * Register (or replace) the backend used for a language.
+ */
+export function registerCodeExecutor(
+  language: ExecuteLanguage,
+  executor: CodeExecutor
+): void {
+  executors.set(language, executor);
+}
+
+/**
+ * Look up the backend for a language.
+ */
+export function getCodeExecutor(
+  language: ExecuteLanguage
+): CodeExecutor | undefined {
+  return executors.get(language);
+}
+
+/* ------------------------------  defaults  -------------------------------- */
+
+const subprocessExecutor = createSubprocessExecutor();
+
+registerCodeExecutor('javascript', vmExecutor);
+registerCodeExecutor('python', subprocessExecutor);
+registerCodeExecutor('shell', subprocessExecutor);
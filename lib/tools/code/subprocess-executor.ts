@@ -0,0 +1,354 @@
+/**
+ * @file Subprocess backend for `CodeExecute` (Python and shell).
+ *
+ * @remarks
+ *   Each run gets a fresh temporary working directory, which is also `HOME`
+ *   and `TMPDIR`, and is removed afterwards.  The interpreter is started
+ *   through `sh -c 'ulimit …; exec …'` so address space, CPU time, file size
+ *   and open files are capped by the kernel.  It runs inside new network
+ *   and mount namespaces (`unshare --net --mount`), so it has no network
+ *   access, chrooted into a private root: an empty read-only tmpfs holding
+ *   read-only binds of the system directories (`SUBPROCESS_READ_PATHS`),
+ *   the interpreter's prefix, a few `/dev` nodes and the working directory
+ *   as `/work`, the only writable path.  Where the namespaces are
+ *   unavailable the backend reports itself unavailable, unless running
+ *   without them was allowed (`CODE_SANDBOX_ALLOW_NETWORK` and
+ *   `CODE_SANDBOX_ALLOW_HOST_FS`).
+ */
+
+import { spawn, spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  CODE_SANDBOX_ALLOW_HOST_FS,
+  CODE_SANDBOX_ALLOW_NETWORK,
+  SUBPROCESS_INTERPRETERS,
+  SUBPROCESS_READ_PATHS,
+} from './constants';
+import type {
+  CodeExecutor,
+  ExecuteFailure,
+  ExecuteRequest,
+  ExecuteResult,
+} from './types';
+
+/** Options for {@link createSubprocessExecutor}. */
+export interface SubprocessExecutorOptions {
+  /**
+   * Run with network access where network isolation is unavailable
+   * (default `CODE_SANDBOX_ALLOW_NETWORK`).
+   */
+  allowNetwork?: boolean;
+  /**
+   * Run with read access to the host's filesystem where it cannot be hidden
+   * (default `CODE_SANDBOX_ALLOW_HOST_FS`).
+   */
+  allowHostFilesystem?: boolean;
+}
+
+/** Max size of files the snippet may write, in KiB. */
+const MAX_FILE_SIZE_KB = 10 * 1024;
+
+/** Max open file descriptors. */
+const MAX_OPEN_FILES = 64;
+
+/**
+ * Builds the private root and chroots into it; run as mapped root inside the
+ * new mount namespace.  Arguments: root mount point, working directory, the
+ * directories to bind read-only, `--`, then the command.
+ */
+const ROOT_SETUP = `set -e
+root=$1 work=$2
+shift 2
+mount -t tmpfs -o mode=755,size=64k tmpfs "$root"
+while [ "$1" != -- ]; do
+  if [ -L "$1" ]; then
+    mkdir -p "$root\${1%/*}"
+    ln -s "$(readlink "$1")" "$root$1"
+  elif [ -d "$1" ]; then
+    mkdir -p "$root$1"
+    mount --rbind "$1" "$root$1"
+    mount -o remount,bind,ro "$root$1"
+  fi
+  shift
+done
+shift
+mkdir "$root/dev" "$root/work"
+for dev in null zero random urandom; do
+  touch "$root/dev/$dev"
+  mount --bind "/dev/$dev" "$root/dev/$dev"
+done
+mount --bind "$work" "$root/work"
+mount -o remount,ro "$root"
+exec chroot "$root" "$@"`;
+
+/** Command prefix that runs `command` isolated, see {@link ROOT_SETUP}. */
+function isolatedCommand(
+  root: string,
+  work: string,
+  readPaths: readonly string[],
+  command: string[]
+): string[] {
+  return [
+    'unshare',
+    '--net',
+    '--mount',
+    '--map-root-user',
+    '/bin/sh',
+    '-c',
+    ROOT_SETUP,
+    'sandbox',
+    root,
+    work,
+    ...readPaths,
+    '--',
+    ...command,
+  ];
+}
+
+let isolationAvailable: boolean | undefined;
+
+/**
+ * Probe once whether unprivileged network and mount namespaces can be
+ * created and the private root built in them.
+ */
+function canIsolate(): boolean {
+  if (isolationAvailable === undefined) {
+    const dir = mkdtempSync(join(tmpdir(), 'code-execute-'));
+    try {
+      mkdirSync(join(dir, 'root'));
+      mkdirSync(join(dir, 'work'));
+      const [file, ...args] = isolatedCommand(
+        join(dir, 'root'),
+        join(dir, 'work'),
+        SUBPROCESS_READ_PATHS,
+        ['/bin/sh', '-c', 'true']
+      );
+      const probe = spawnSync(file, args, {
+        stdio: 'ignore',
+        timeout: 5_000,
+      });
+      isolationAvailable = probe.status === 0;
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+  return isolationAvailable;
+}
+
+const pythonInstalls = new Map<
+  string,
+  { executable: string; prefix: string } | null
+>();
+
+/**
+ * Absolute path and install prefix of a Python interpreter, which may live
+ * outside the system directories (pyenv, conda).
+ */
+function findPythonInstall(command: string) {
+  if (!pythonInstalls.has(command)) {
+    const probe = spawnSync(
+      command,
+      ['-I', '-c', 'import sys; print(sys.executable); print(sys.base_prefix)'],
+      { encoding: 'utf8', timeout: 5_000 }
+    );
+    const [executable, prefix] = (probe.stdout ?? '').trim().split('\n');
+    pythonInstalls.set(
+      command,
+      probe.status === 0 && executable && prefix ? { executable, prefix } : null
+    );
+  }
+  return pythonInstalls.get(command) ?? undefined;
+}
+
+/** Collects a stream up to `limit` bytes; returns false once exceeded. */
+function createCollector(limit: number) {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  return {
+    push(chunk: Buffer): boolean {
+      if (bytes >= limit) return false;
+      chunks.push(chunk.subarray(0, limit - bytes));
+      bytes += chunk.length;
+      return bytes <= limit;
+    },
+    text: () => Buffer.concat(chunks).toString('utf8'),
+  };
+}
+
+/**
+ * Create a subprocess executor.
+ *
+ * @param options - Sandbox options.
+ */
+export function createSubprocessExecutor(
+  options: SubprocessExecutorOptions = {}
+): CodeExecutor {
+  const {
+    allowNetwork = CODE_SANDBOX_ALLOW_NETWORK,
+    allowHostFilesystem = CODE_SANDBOX_ALLOW_HOST_FS,
+  } = options;
+
+  const unavailableReason = () =>
+    (allowNetwork && allowHostFilesystem) || canIsolate()
+      ? undefined
+      : 'network and filesystem isolation is unavailable on this host (unshare failed); set CODE_SANDBOX_ALLOW_NETWORK=true and CODE_SANDBOX_ALLOW_HOST_FS=true to run without it';
+
+  return {
+    name: 'subprocess',
+    unavailableReason,
+
+    async execute({
+      code,
+      language,
+      limits,
+    }: ExecuteRequest): Promise<ExecuteResult> {
+      if (language !== 'python' && language !== 'shell') {
+        return <ExecuteFailure>{
+          success: false,
+          error: `The subprocess executor does not support ${language}`,
+        };
+      }
+      const unavailable = unavailableReason();
+      if (unavailable) {
+        return <ExecuteFailure>{
+          success: false,
+          error: `The subprocess sandbox is unavailable: ${unavailable}`,
+        };
+      }
+      const isolate = canIsolate();
+
+      const interpreter = SUBPROCESS_INTERPRETERS[language];
+      let interpreterCommand: string = interpreter.command;
+      const readPaths = [...SUBPROCESS_READ_PATHS];
+      if (isolate && language === 'python') {
+        const install = findPythonInstall(interpreter.command);
+        if (install) {
+          interpreterCommand = install.executable;
+          readPaths.push(install.prefix);
+        }
+      }
+
+      const baseDir = await mkdtemp(join(tmpdir(), 'code-execute-'));
+      const rootDir = join(baseDir, 'root');
+      const hostWorkDir = join(baseDir, 'work');
+      /* The working directory as the snippet sees it. */
+      const workDir = isolate ? '/work' : hostWorkDir;
+
+      try {
+        await mkdir(rootDir);
+        await mkdir(hostWorkDir);
+        await writeFile(join(hostWorkDir, interpreter.file), code, 'utf8');
+        const scriptPath = join(workDir, interpreter.file);
+
+        /* `ulimit` applies to the shell, then `exec` hands the limits on. */
+        const limitScript = [
+          `ulimit -v ${limits.memoryMb * 1024}`,
+          `ulimit -t ${limits.cpuSeconds}`,
+          `ulimit -f ${MAX_FILE_SIZE_KB}`,
+          `ulimit -n ${MAX_OPEN_FILES}`,
+          /* `chroot` starts in `/`. */
+          ...(isolate ? ['cd /work'] : []),
+          'exec "$@"',
+        ].join(' && ');
+        const command = [
+          '/bin/sh',
+          '-c',
+          limitScript,
+          'sandbox',
+          interpreterCommand,
+          ...interpreter.args,
+          scriptPath,
+        ];
+        const [file, ...args] = isolate
+          ? isolatedCommand(rootDir, hostWorkDir, readPaths, command)
+          : command;
+
+        return await new Promise<ExecuteResult>((resolve) => {
+          const child = spawn(file, args, {
+            cwd: hostWorkDir,
+            /* None of the server's own variables beyond PATH and NODE_ENV. */
+            env: {
+              NODE_ENV: process.env.NODE_ENV,
+              PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+              HOME: workDir,
+              TMPDIR: workDir,
+              LANG: 'C.UTF-8',
+              PYTHONDONTWRITEBYTECODE: '1',
+              PYTHONUNBUFFERED: '1',
+            },
+            stdio: ['ignore', 'pipe', 'pipe'],
+            /* Own process group, so the whole tree can be killed. */
+            detached: true,
+          });
+
+          let failure: string | undefined;
+          const kill = (reason: string) => {
+            failure ??= reason;
+            try {
+              process.kill(-child.pid!, 'SIGKILL');
+            } catch {
+              /* Already exited. */
+            }
+          };
+
+          const timer = setTimeout(
+            () => kill(`Timed out after ${limits.timeoutMs / 1_000}s`),
+            limits.timeoutMs
+          );
+
+          const stdout = createCollector(limits.maxOutputBytes);
+          const stderr = createCollector(limits.maxOutputBytes);
+          child.stdout!.on('data', (chunk: Buffer) => {
+            if (!stdout.push(chunk)) kill('Output limit exceeded');
+          });
+          child.stderr!.on('data', (chunk: Buffer) => {
+            if (!stderr.push(chunk)) kill('Output limit exceeded');
+          });
+
+          child.once('error', (err) => {
+            clearTimeout(timer);
+            resolve(<ExecuteFailure>{ success: false, error: err.message });
+          });
+
+          child.once('close', (exitCode, signal) => {
+            clearTimeout(timer);
+            const output = stdout.text();
+            const errorOutput = stderr.text();
+
+            if (!failure && exitCode === 0) {
+              resolve({
+                success: true,
+                output,
+                stderr: errorOutput,
+                exitCode,
+              });
+              return;
+            }
+
+            const error =
+              failure ??
+              (signal === 'SIGXCPU' || signal === 'SIGKILL'
+                ? `CPU time limit of ${limits.cpuSeconds}s exceeded`
+                : signal
+                  ? `Terminated by ${signal}`
+                  : errorOutput.trim().split('\n').pop() ||
+                    `Exited with code ${exitCode}`);
+            resolve(<ExecuteFailure>{
+              success: false,
+              error,
+              output,
+              stderr: errorOutput,
+              exitCode: exitCode ?? undefined,
+            });
+          });
+        });
+      } finally {
+        await rm(baseDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -4,17 +4,26 @@
  *       switch/case handling.
  */
 
+import type { LANG_EXECUTE } from './constants';
+
 /* ------------------------------------------------------------------ */
 /*                               Execute                              */
 /* ------------------------------------------------------------------ */
 
+/** Languages `CodeExecute` can run. */
+export type ExecuteLanguage = (typeof LANG_EXECUTE)[number];
+
 /** Successful execution result. */
 export interface ExecuteSuccess {
   success: true;
-  /** Concatenated `stdout` captured from `console.log` calls. */
+  /** Captured `stdout` (or `console.log` output for JavaScript). */
   output: string;
   /** Optional explicit return value from the executed snippet. */
   result?: string;
+  /** Captured `stderr`, for subprocess backends. */
+  stderr?: string;
+  /** Process exit code, for subprocess backends. */
+  exitCode?: number;
 }
 
 /** Failed execution result. */
@@ -22,15 +31,90 @@ export interface ExecuteFailure {
   success: false;
   /** Human-readable error message. */
   error: string;
+  /** Output captured before the failure, if any. */
+  output?: string;
+  stderr?: string;
+  exitCode?: number;
 }
 
 /** Union returned by `CodeExecute`. */
 export type ExecuteResult = ExecuteSuccess | ExecuteFailure;
 
+/* ------------------------------------------------------------------ */
+/*                              Executors                             */
+/* ------------------------------------------------------------------ */
+
+/** Resource caps applied to a single execution. */
+export interface SandboxLimits {
+  /** Wall-clock limit. */
+  timeoutMs: number;
+  /** Memory cap (address space for subprocesses, V8 heap for JavaScript). */
+  memoryMb: number;
+  /** CPU-time cap, for subprocess backends. */
+  cpuSeconds: number;
+  /** Per-stream cap on captured output; the run is killed when exceeded. */
+  maxOutputBytes: number;
+}
+
+/** A snippet handed to a `CodeExecutor`. */
+export interface ExecuteRequest {
+  code: string;
+  language: ExecuteLanguage;
+  limits: SandboxLimits;
+}
+
+/**
+ * Pluggable execution backend.  Backends never throw for user-code errors;
+ * they report them as an `ExecuteFailure`.
+ */
+export interface CodeExecutor {
+  /** Identifier used in logs and errors. */
+  readonly name: string;
+  /** Why the backend cannot run on this host; undefined when it can. */
+  unavailableReason?(): string | undefined;
+  execute(request: ExecuteRequest): Promise<ExecuteResult>;
+}
+
 /* ------------------------------------------------------------------ */
 /*                               Analyse                              */
 /* ------------------------------------------------------------------ */
 
+/** 1-based position of a finding in the analysed source. */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/** Per-function complexity metrics. */
+export interface FunctionComplexity extends SourceLocation {
+  /** Function name, `<anonymous>`, or `<module>` for top-level code. */
+  name: string;
+  /** McCabe cyclomatic complexity (1 + decision points). */
+  complexity: number;
+  /** Deepest nesting of control-flow statements inside the function. */
+  nestingDepth: number;
+}
+
+/** A declared but never read variable, parameter or import. */
+export interface UnusedVariable extends SourceLocation {
+  name: string;
+  message: string;
+}
+
+/** A dangerous call, optionally reached by untrusted input. */
+export interface SecurityFinding extends SourceLocation {
+  /** Rule identifier, e.g. `command-execution-sink`. */
+  rule: string;
+  /** The call that was flagged, e.g. `child_process.exec`. */
+  sink?: string;
+  severity: 'low' | 'medium' | 'high';
+  /** Whether untrusted input reaches the sink's arguments. */
+  tainted?: boolean;
+  /** Inputs that reach the sink (parameters, `req.body`, …). */
+  sources?: string[];
+  message: string;
+}
+
 export interface AnalyzeSuccess {
   language: string;
   analysisTypes: string[];
@@ -0,0 +1,76 @@
+/**
+ * @file JavaScript backend for `CodeExecute`: runs the snippet in an isolated
+ *       `node:vm` context inside a worker thread (see `execute-worker.ts`).
+ */
+
+import { Worker } from 'node:worker_threads';
+
+import type {
+  CodeExecutor,
+  ExecuteFailure,
+  ExecuteRequest,
+  ExecuteResult,
+  ExecuteSuccess,
+} from './types';
+
+/**
+ * Executes JavaScript with a V8 heap cap and a hard wall-clock timeout.
+ */
+export const vmExecutor: CodeExecutor = {
+  name: 'vm',
+
+  execute({ code, limits }: ExecuteRequest): Promise<ExecuteResult> {
+    return new Promise<ExecuteResult>((resolve) => {
+      const worker = new Worker(require.resolve('./execute-worker'), {
+        workerData: {
+          code,
+          timeoutMs: limits.timeoutMs,
+          maxOutputBytes: limits.maxOutputBytes,
+        },
+        resourceLimits: {
+          maxOldGenerationSizeMb: limits.memoryMb,
+          maxYoungGenerationSizeMb: Math.min(32, limits.memoryMb),
+          stackSizeMb: 4,
+        },
+        /* The snippet has no `process`, but keep the worker's env empty too. */
+        env: {},
+        stdout: true,
+        stderr: true,
+      });
+
+      /* Force-terminate after the timeout; covers pending async work too. */
+      const timer = setTimeout(() => {
+        worker.terminate();
+        resolve(<ExecuteFailure>{
+          success: false,
+          error: `Timed out after ${limits.timeoutMs / 1_000}s`,
+        });
+      }, limits.timeoutMs);
+
+      worker.once('message', (msg: any) => {
+        clearTimeout(timer);
+        worker.terminate();
+        if (msg.error) {
+          resolve(<ExecuteFailure>{
+            success: false,
+            error: msg.error,
+            output: msg.output.join('\n'),
+          });
+          return;
+        }
+        const success: ExecuteSuccess = {
+          success: true,
+          output: msg.output.join('\n'),
+          result: msg.result,
+        };
+        resolve(success);
+      });
+
+      /* Heap-limit violations surface as worker errors. */
+      worker.once('error', (err) => {
+        clearTimeout(timer);
+        resolve(<ExecuteFailure>{ success: false, error: err.message });
+      });
+    });
+  },
+};
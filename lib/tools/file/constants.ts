@@ -11,3 +11,29 @@ export const ENCODINGS = ['utf8', 'base64', 'hex'] as const;
 export const FILE_ROOT = process.env.FILE_ROOT
   ? require('node:path').resolve(process.env.FILE_ROOT)
   : process.cwd();
+
+/**
+ * Storage backend for agent file jails: `local` (folders under `FILE_ROOT`)
+ * or `libsql` (blobs in `vfs_files`).  R2 jails are enabled by registering a
+ * factory with `setFileJailFactory`.
+ */
+export const FILE_JAIL_BACKEND: 'local' | 'libsql' =
+  process.env.FILE_JAIL_BACKEND === 'libsql' ? 'libsql' : 'local';
+
+/** Max bytes a single jail may hold (default 50 MiB). */
+export const FILE_JAIL_QUOTA_BYTES = Number(
+  process.env.FILE_JAIL_QUOTA_BYTES ?? 50 * 1024 * 1024
+);
+
+/** Max size of a single file (default 10 MiB). */
+export const FILE_JAIL_MAX_FILE_BYTES = Number(
+  process.env.FILE_JAIL_MAX_FILE_BYTES ?? 10 * 1024 * 1024
+);
+
+/**
+ * Optional host folder mounted read-only at `/shared` in every jail.
+ */
+export const FILE_JAIL_SHARED_ROOT = process.env.FILE_JAIL_SHARED_ROOT;
+
+/** Files larger than this are skipped by `FileSearch`. */
+export const SEARCH_MAX_FILE_BYTES = 1024 * 1024;
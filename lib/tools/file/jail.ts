@@ -0,0 +1,341 @@
+/**
+ * @file Virtual file system ("jail") behind the file tools.
+ * @remarks
+ *   • Tools only ever see *virtual* absolute paths (`/notes/todo.md`); they
+ *     are normalised here and rejected if `..` would climb above `/`.
+ *   • A jail is a set of mounts, each backed by a `FileStore`; mounts can be
+ *     read-only (e.g. a shared reference folder at `/shared`).
+ *   • Writes are checked against a per-file limit and an optional quota on
+ *     the total size of the writable mounts.
+ *   • `getFileJail()` picks the jail of the agent/thread in the current tool
+ *     context; calls without an agent get an anonymous jail of their own.
+ */
+
+import * as path from 'node:path';
+import { LRUCache } from 'lru-cache';
+import { getToolContext, type ToolContext } from '../toolContext';
+import {
+  FILE_JAIL_BACKEND,
+  FILE_JAIL_MAX_FILE_BYTES,
+  FILE_JAIL_QUOTA_BYTES,
+  FILE_JAIL_SHARED_ROOT,
+  FILE_ROOT,
+} from './constants';
+import {
+  LibSQLFileStore,
+  LocalFileStore,
+  type FileEntry,
+  type FileStore,
+} from './stores';
+
+/* ─────────────────────────────  types  ────────────────────────────── */
+
+export interface FileMount {
+  /** Virtual mount point, e.g. `/` or `/shared`. */
+  path: string;
+  store: FileStore;
+  readOnly?: boolean;
+}
+
+export interface FileJailOptions {
+  mounts: FileMount[];
+  /** Max total bytes across writable mounts; unlimited when omitted. */
+  quotaBytes?: number;
+  /** Max size of a single file; unlimited when omitted. */
+  maxFileBytes?: number;
+}
+
+interface Resolved {
+  mount: FileMount;
+  /** Path relative to the mount's store. */
+  storePath: string;
+  /** Normalised virtual path. */
+  virtualPath: string;
+}
+
+/* ─────────────────────────────  helpers  ────────────────────────────── */
+
+/**
+ * Normalise a user-supplied path to virtual path segments.
+ * Relative paths are taken from `/`.
+ * @throws if the path contains NUL bytes or `..` escapes the root.
+ */
+export function normalizeVirtualPath(userPath: string): string[] {
+  if (userPath.includes('\0')) throw new Error('Invalid path');
+
+  const segments: string[] = [];
+  for (const segment of userPath.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) {
+        throw new Error(`Path escapes the jail: ${userPath}`);
+      }
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments;
+}
+
+const toVirtual = (segments: string[]) => `/${segments.join('/')}`;
+
+/* ─────────────────────────────  jail  ────────────────────────────── */
+
+export class FileJail {
+  private readonly mounts: Array<FileMount & { segments: string[] }>;
+  readonly quotaBytes?: number;
+  readonly maxFileBytes?: number;
+
+  constructor(options: FileJailOptions) {
+    this.mounts = options.mounts
+      .map((m) => ({ ...m, segments: normalizeVirtualPath(m.path) }))
+      /* Longest mount point first, so nested mounts win. */
+      .sort((a, b) => b.segments.length - a.segments.length);
+    if (!this.mounts.some((m) => m.segments.length === 0)) {
+      throw new Error('A file jail needs a mount at /');
+    }
+    this.quotaBytes = options.quotaBytes;
+    this.maxFileBytes = options.maxFileBytes;
+  }
+
+  /** Find the mount owning a virtual path. */
+  resolve(userPath: string): Resolved {
+    const segments = normalizeVirtualPath(userPath);
+    const mount = this.mounts.find((m) =>
+      m.segments.every((s, i) => segments[i] === s)
+    )!;
+    return {
+      mount,
+      storePath: segments.slice(mount.segments.length).join('/'),
+      virtualPath: toVirtual(segments),
+    };
+  }
+
+  private resolveWritable(userPath: string): Resolved {
+    const resolved = this.resolve(userPath);
+    if (resolved.mount.readOnly) {
+      throw new Error(`Read-only file system: ${resolved.virtualPath}`);
+    }
+    if (resolved.storePath === '') {
+      throw new Error(`Cannot modify mount point: ${resolved.virtualPath}`);
+    }
+    return resolved;
+  }
+
+  /** Translate a store entry's path back to a virtual path. */
+  private withVirtualPath(mount: FileMount, entry: FileEntry): FileEntry {
+    const mountPath = toVirtual(normalizeVirtualPath(mount.path));
+    return {
+      ...entry,
+      path: path.posix.join(mountPath, entry.path),
+    };
+  }
+
+  /** Bytes used by all writable mounts. */
+  async usage(): Promise<number> {
+    let total = 0;
+    for (const mount of this.mounts) {
+      if (!mount.readOnly) total += await mount.store.usage();
+    }
+    return total;
+  }
+
+  /**
+   * @throws if writing `size` bytes over a file of `existingSize` bytes would
+   *         exceed the per-file limit or the quota.
+   */
+  private async checkQuota(size: number, existingSize: number): Promise<void> {
+    if (this.maxFileBytes !== undefined && size > this.maxFileBytes) {
+      throw new Error(
+        `File exceeds the maximum size of ${this.maxFileBytes} bytes`
+      );
+    }
+    if (this.quotaBytes === undefined) return;
+    const projected = (await this.usage()) - existingSize + size;
+    if (projected > this.quotaBytes) {
+      throw new Error(`Quota of ${this.quotaBytes} bytes exceeded`);
+    }
+  }
+
+  async read(userPath: string): Promise<{ path: string; data: Buffer }> {
+    const { mount, storePath, virtualPath } = this.resolve(userPath);
+    return { path: virtualPath, data: await mount.store.read(storePath) };
+  }
+
+  async write(
+    userPath: string,
+    data: Buffer,
+    append = false
+  ): Promise<{ path: string; size: number }> {
+    const { mount, storePath, virtualPath } = this.resolveWritable(userPath);
+    const existing = await mount.store.stat(storePath);
+    if (existing?.isDirectory) {
+      throw new Error(`Is a directory: ${virtualPath}`);
+    }
+
+    const content =
+      append && existing
+        ? Buffer.concat([await mount.store.read(storePath), data])
+        : data;
+    await this.checkQuota(content.length, existing?.size ?? 0);
+    await mount.store.write(storePath, content);
+    return { path: virtualPath, size: content.length };
+  }
+
+  async delete(userPath: string, recursive = false): Promise<string> {
+    const { mount, storePath, virtualPath } = this.resolveWritable(userPath);
+    await mount.store.delete(storePath, recursive);
+    return virtualPath;
+  }
+
+  /**
+   * Move a file or directory.  Moves between mounts copy then delete.
+   */
+  async move(
+    fromPath: string,
+    toPath: string,
+    overwrite = false
+  ): Promise<{ from: string; to: string }> {
+    const from = this.resolveWritable(fromPath);
+    const to = this.resolveWritable(toPath);
+
+    const source = await from.mount.store.stat(from.storePath);
+    if (!source)
+      throw new Error(`No such file or directory: ${from.virtualPath}`);
+    if (`${to.virtualPath}/`.startsWith(`${from.virtualPath}/`)) {
+      throw new Error('Cannot move a path into itself');
+    }
+    const target = await to.mount.store.stat(to.storePath);
+    if (target && (!overwrite || target.isDirectory !== source.isDirectory)) {
+      throw new Error(`Destination already exists: ${to.virtualPath}`);
+    }
+    if (target) await to.mount.store.delete(to.storePath, true);
+
+    if (from.mount === to.mount) {
+      await from.mount.store.move(from.storePath, to.storePath);
+    } else {
+      const files = source.isFile
+        ? [source]
+        : await from.mount.store.list(from.storePath, true);
+      for (const file of files) {
+        const destination =
+          to.storePath + file.path.slice(from.storePath.length);
+        await to.mount.store.write(
+          destination,
+          await from.mount.store.read(file.path)
+        );
+      }
+      await from.mount.store.delete(from.storePath, true);
+    }
+    return { from: from.virtualPath, to: to.virtualPath };
+  }
+
+  async stat(userPath: string): Promise<FileEntry | null> {
+    const { mount, storePath } = this.resolve(userPath);
+    const entry = await mount.store.stat(storePath);
+    return entry && this.withVirtualPath(mount, entry);
+  }
+
+  /**
+   * List files under a directory.  Recursive listings include mounts nested
+   * below it.
+   */
+  async list(userPath: string, recursive = false): Promise<FileEntry[]> {
+    const { mount, storePath, virtualPath } = this.resolve(userPath);
+    const entry = await mount.store.stat(storePath);
+    if (!entry?.isDirectory) {
+      throw new Error(`Not a directory: ${virtualPath}`);
+    }
+
+    const files = (await mount.store.list(storePath, recursive)).map((e) =>
+      this.withVirtualPath(mount, e)
+    );
+    if (recursive) {
+      const base = normalizeVirtualPath(virtualPath);
+      for (const nested of this.mounts) {
+        if (
+          nested !== mount &&
+          nested.segments.length > base.length &&
+          base.every((s, i) => nested.segments[i] === s)
+        ) {
+          const nestedFiles = await nested.store.list('', true);
+          files.push(
+            ...nestedFiles.map((e) => this.withVirtualPath(nested, e))
+          );
+        }
+      }
+    }
+    return files;
+  }
+}
+
+/* ─────────────────────────  per-agent jails  ────────────────────────── */
+
+export type FileJailFactory = (context: ToolContext) => FileJail;
+
+/** Keep only characters that are safe in a folder name / key prefix. */
+const sanitizeSegment = (value: string) =>
+  value.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 128) || '_';
+
+/**
+ * Default jails: one per agent and thread under `FILE_ROOT/.agent-files`
+ * (or in LibSQL), plus the optional read-only `/shared` mount.  Calls
+ * without an agent share the `.anonymous` jail of their thread, which no
+ * sanitized agent id can name, so they never see `FILE_ROOT` itself.
+ */
+const defaultFileJailFactory: FileJailFactory = ({ agentId, threadId }) => {
+  const jailId = [
+    agentId ? sanitizeSegment(agentId) : '.anonymous',
+    sanitizeSegment(threadId ?? 'default'),
+  ];
+  const mounts: FileMount[] = [
+    {
+      path: '/',
+      store:
+        FILE_JAIL_BACKEND === 'libsql'
+          ? new LibSQLFileStore(jailId.join('/'))
+          : new LocalFileStore(path.join(FILE_ROOT, '.agent-files', ...jailId)),
+    },
+  ];
+
+  if (FILE_JAIL_SHARED_ROOT) {
+    mounts.push({
+      path: '/shared',
+      store: new LocalFileStore(FILE_JAIL_SHARED_ROOT),
+      readOnly: true,
+    });
+  }
+
+  return new FileJail({
+    mounts,
+    quotaBytes: FILE_JAIL_QUOTA_BYTES,
+    maxFileBytes: FILE_JAIL_MAX_FILE_BYTES,
+  });
+};
+
+let factory: FileJailFactory = defaultFileJailFactory;
+// Jails hold no state of their own, so evicted ones are simply rebuilt
+const jails = new LRUCache<string, FileJail>({ max: 500 });
+
+/**
+ * Replace the factory used to build jails (e.g. to back them with R2 via
+ * `R2FileStore`).  Clears cached jails.
+ */
+export function setFileJailFactory(next: FileJailFactory): void {
+  factory = next;
+  jails.clear();
+}
+
+/**
+ * Jail for the agent/thread of the current tool call.
+ */
+export function getFileJail(context: ToolContext = getToolContext()): FileJail {
+  const key = `${context.agentId ?? ''}\u0000${context.threadId ?? ''}`;
+  let jail = jails.get(key);
+  if (!jail) {
+    jail = factory(context);
+    jails.set(key, jail);
+  }
+  return jail;
+}
@@ -0,0 +1,133 @@
+/**
+ * @file Minimal unified-diff applier used by `FilePatch`.
+ * @remarks
+ *   • Accepts the output of `diff -u` / `git diff` for a single file; file
+ *     headers (`---`, `+++`, `diff --git`, `index`) are ignored.
+ *   • Every context and removed line must match.  If a hunk is not found at
+ *     its stated line (e.g. earlier edits shifted it) the closest match is
+ *     used instead.
+ */
+
+interface Hunk {
+  /** Line number from the `@@ -start` header (1-based; 0 for empty files). */
+  start: number;
+  /** Lines that must be present (context + removals). */
+  before: string[];
+  /** Lines that replace them (context + additions). */
+  after: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Parse the hunks of a unified diff. */
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = {
+        start: Number(header[1]),
+        before: [],
+        after: [],
+      };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith(' ')) {
+      current.before.push(line.slice(1));
+      current.after.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      current.before.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.after.push(line.slice(1));
+    } else if (line === '') {
+      /* Some tools strip the space from blank context lines. */
+      current.before.push('');
+      current.after.push('');
+    }
+    /* `\ No newline at end of file` and anything else is ignored. */
+  }
+
+  /* A trailing empty "context" line comes from the diff's final newline. */
+  for (const hunk of hunks) {
+    while (
+      hunk.before.length > 0 &&
+      hunk.before[hunk.before.length - 1] === '' &&
+      hunk.after[hunk.after.length - 1] === ''
+    ) {
+      hunk.before.pop();
+      hunk.after.pop();
+    }
+  }
+
+  if (hunks.length === 0) throw new Error('Diff contains no hunks');
+  return hunks;
+}
+
+const matchesAt = (lines: string[], block: string[], at: number) =>
+  at >= 0 &&
+  at + block.length <= lines.length &&
+  block.every((line, i) => lines[at + i] === line);
+
+/** Find a block nearest to the expected position, at or after `from`. */
+function locate(
+  lines: string[],
+  block: string[],
+  expected: number,
+  from: number
+): number {
+  if (expected >= from && matchesAt(lines, block, expected)) return expected;
+  for (let distance = 1; distance <= lines.length; distance++) {
+    for (const at of [expected - distance, expected + distance]) {
+      if (at >= from && matchesAt(lines, block, at)) return at;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply a unified diff to `original`.
+ *
+ * @returns The patched text and the number of hunks applied.
+ * @throws If the diff has no hunks or a hunk does not match the text.
+ */
+export function applyUnifiedDiff(
+  original: string,
+  diff: string
+): { content: string; hunksApplied: number } {
+  const hunks = parseHunks(diff);
+  const trailingNewline = original.endsWith('\n');
+  const lines =
+    original === '' ? [] : original.replace(/\r\n/g, '\n').split('\n');
+  if (trailingNewline) lines.pop();
+
+  /* Lines shift as hunks are applied; track the offset. */
+  let offset = 0;
+  let cursor = 0;
+  hunks.forEach((hunk, index) => {
+    /* A pure insertion (`-n,0`) goes after line n. */
+    const at =
+      hunk.before.length === 0
+        ? Math.min(hunk.start + offset, lines.length)
+        : locate(lines, hunk.before, hunk.start - 1 + offset, cursor);
+    if (at < 0) {
+      throw new Error(
+        `Hunk ${index + 1} (line ${hunk.start}) does not match the file`
+      );
+    }
+    lines.splice(at, hunk.before.length, ...hunk.after);
+    offset += hunk.after.length - hunk.before.length;
+    cursor = at + hunk.after.length;
+  });
+
+  return {
+    content:
+      lines.join('\n') +
+      ((trailingNewline || original === '') && lines.length ? '\n' : ''),
+    hunksApplied: hunks.length,
+  };
+}
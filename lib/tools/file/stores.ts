@@ -0,0 +1,460 @@
+/**
+ * @file Storage backends for the file jail.
+ * @remarks
+ *   • A `FileStore` sees *jail-relative* POSIX paths (`notes/todo.md`, `''`
+ *     for the root); path validation happens in the jail before a store is
+ *     ever called, and `LocalFileStore` refuses paths through symlinks.
+ *   • Directories are implicit in the LibSQL and R2 stores: a directory
+ *     exists while some file lives under its prefix.
+ */
+
+import { constants } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { R2Object } from '@cloudflare/workers-types';
+import { getLibSQLClient } from '../../memory/db';
+import type { CfR2Store } from '../../database/cloudflare/r2/ops';
+
+/* ─────────────────────────────  contract  ───────────────────────────── */
+
+/** A file or directory as reported by a store. */
+export interface FileEntry {
+  /** Jail-relative POSIX path. */
+  path: string;
+  size: number;
+  isFile: boolean;
+  isDirectory: boolean;
+  created?: Date;
+  modified?: Date;
+  accessed?: Date;
+}
+
+/** Backend holding the files of one jail (or one mount of it). */
+export interface FileStore {
+  readonly kind: 'local' | 'libsql' | 'r2';
+  read(filePath: string): Promise<Buffer>;
+  write(filePath: string, data: Buffer): Promise<void>;
+  /** Delete a file, or a directory when `recursive` is set. */
+  delete(filePath: string, recursive: boolean): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  stat(filePath: string): Promise<FileEntry | null>;
+  /** Files (not directories) under a directory. */
+  list(directory: string, recursive: boolean): Promise<FileEntry[]>;
+  /** Total bytes stored, for quota checks. */
+  usage(): Promise<number>;
+}
+
+const notFound = (filePath: string) =>
+  new Error(`No such file or directory: /${filePath}`);
+
+/**
+ * Replace Node's errors, which embed host paths, with jail-relative ones.
+ */
+function toJailError(err: unknown, filePath: string): Error {
+  switch ((err as NodeJS.ErrnoException).code) {
+    case 'ENOENT':
+      return notFound(filePath);
+    case 'EISDIR':
+      return new Error(`Is a directory: /${filePath}`);
+    case 'ENOTDIR':
+      return new Error(`Not a directory: /${filePath}`);
+    case 'ELOOP':
+      return new Error(`Symlinks are not allowed in the jail: /${filePath}`);
+    default:
+      return err as Error;
+  }
+}
+
+/** `a/b` is inside `a`; everything is inside the root (`''`). */
+const isWithin = (filePath: string, directory: string) =>
+  directory === '' || filePath.startsWith(`${directory}/`);
+
+/* ────────────────────────────  local disk  ──────────────────────────── */
+
+/**
+ * Files on local disk under `root`.  Symlinks inside the root are refused,
+ * so no path can lead outside it.
+ */
+export class LocalFileStore implements FileStore {
+  readonly kind = 'local' as const;
+  private readonly root: string;
+  private realRoot: Promise<string> | undefined;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private getRealRoot(): Promise<string> {
+    this.realRoot ??= fs
+      .mkdir(this.root, { recursive: true })
+      .then(() => fs.realpath(this.root));
+    return this.realRoot;
+  }
+
+  /**
+   * Map a jail path to disk, refusing it if any existing component is a
+   * symlink.  `lstat` sees links whose target does not exist too, which a
+   * write would otherwise follow out of the root.
+   */
+  private async resolve(filePath: string): Promise<string> {
+    let full = await this.getRealRoot();
+    const parts = filePath.split('/').filter(Boolean);
+    let exists = true;
+    for (const part of parts) {
+      full = path.join(full, part);
+      if (!exists) continue;
+      try {
+        if ((await fs.lstat(full)).isSymbolicLink()) {
+          throw new Error(`Symlinks are not allowed in the jail: /${filePath}`);
+        }
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        exists = false;
+      }
+    }
+    return full;
+  }
+
+  private toEntry(filePath: string, stats: import('node:fs').Stats): FileEntry {
+    return {
+      path: filePath,
+      size: stats.size,
+      isFile: stats.isFile(),
+      isDirectory: stats.isDirectory(),
+      created: stats.birthtime,
+      modified: stats.mtime,
+      accessed: stats.atime,
+    };
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const full = await this.resolve(filePath);
+    return fs
+      .readFile(full, { flag: constants.O_RDONLY | constants.O_NOFOLLOW })
+      .catch((err) => {
+        throw toJailError(err, filePath);
+      });
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const full = await this.resolve(filePath);
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    /* O_NOFOLLOW: a link put in place after `resolve` is not written through. */
+    await fs.writeFile(full, data, {
+      flag:
+        constants.O_WRONLY |
+        constants.O_CREAT |
+        constants.O_TRUNC |
+        constants.O_NOFOLLOW,
+    });
+  }
+
+  async delete(filePath: string, recursive: boolean): Promise<void> {
+    const full = await this.resolve(filePath);
+    const entry = await this.stat(filePath);
+    if (!entry) throw notFound(filePath);
+    if (entry.isDirectory && !recursive) {
+      await fs.rmdir(full).catch(() => {
+        throw new Error(`Directory not empty: /${filePath}`);
+      });
+      return;
+    }
+    await fs.rm(full, { recursive: true });
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    const source = await this.resolve(from);
+    const destination = await this.resolve(to);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.rename(source, destination).catch((err) => {
+      throw toJailError(err, from);
+    });
+  }
+
+  async stat(filePath: string): Promise<FileEntry | null> {
+    try {
+      return this.toEntry(
+        filePath,
+        await fs.stat(await this.resolve(filePath))
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async list(directory: string, recursive: boolean): Promise<FileEntry[]> {
+    const walk = async (dir: string): Promise<FileEntry[]> => {
+      const entries = await fs
+        .readdir(await this.resolve(dir), { withFileTypes: true })
+        .catch((err) => {
+          throw toJailError(err, dir);
+        });
+      const out: FileEntry[] = [];
+      for (const e of entries) {
+        const child = dir ? `${dir}/${e.name}` : e.name;
+        /* Symlinks are never followed while walking. */
+        if (e.isSymbolicLink()) continue;
+        if (e.isDirectory() && recursive) out.push(...(await walk(child)));
+        else if (e.isFile()) {
+          out.push(
+            this.toEntry(child, await fs.stat(await this.resolve(child)))
+          );
+        }
+      }
+      return out;
+    };
+    return walk(directory);
+  }
+
+  async usage(): Promise<number> {
+    const files = await this.list('', true);
+    return files.reduce((total, file) => total + file.size, 0);
+  }
+}
+
+/* ───────────────────────────  LibSQL blobs  ─────────────────────────── */
+
+/**
+ * Files stored as blobs in the `vfs_files` table, one jail per `jailId`.
+ */
+export class LibSQLFileStore implements FileStore {
+  readonly kind = 'libsql' as const;
+
+  constructor(private readonly jailId: string) {}
+
+  private toEntry(row: Record<string, unknown>): FileEntry {
+    return {
+      path: row.path as string,
+      size: Number(row.size),
+      isFile: true,
+      isDirectory: false,
+      created: new Date(row.created_at as string),
+      modified: new Date(row.updated_at as string),
+    };
+  }
+
+  /** Rows under a directory prefix (`substr` avoids LIKE wildcards). */
+  private prefixClause(directory: string) {
+    return directory
+      ? {
+          sql: 'AND substr(path, 1, ?) = ?',
+          args: [directory.length + 1, `${directory}/`],
+        }
+      : { sql: '', args: [] };
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const result = await getLibSQLClient().execute({
+      sql: 'SELECT content FROM vfs_files WHERE jail_id = ? AND path = ?',
+      args: [this.jailId, filePath],
+    });
+    if (result.rows.length === 0) throw notFound(filePath);
+    return Buffer.from(result.rows[0].content as ArrayBuffer);
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const now = new Date().toISOString();
+    await getLibSQLClient().execute({
+      sql: `INSERT INTO vfs_files (jail_id, path, content, size, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(jail_id, path) DO UPDATE SET
+              content = excluded.content,
+              size = excluded.size,
+              updated_at = excluded.updated_at`,
+      args: [this.jailId, filePath, data, data.length, now, now],
+    });
+  }
+
+  async delete(filePath: string, recursive: boolean): Promise<void> {
+    const db = getLibSQLClient();
+    const file = await db.execute({
+      sql: 'DELETE FROM vfs_files WHERE jail_id = ? AND path = ?',
+      args: [this.jailId, filePath],
+    });
+    if (file.rowsAffected > 0) return;
+
+    const children = await this.list(filePath, true);
+    if (children.length === 0) throw notFound(filePath);
+    if (!recursive) throw new Error(`Directory not empty: /${filePath}`);
+
+    const prefix = this.prefixClause(filePath);
+    await db.execute({
+      sql: `DELETE FROM vfs_files WHERE jail_id = ? ${prefix.sql}`,
+      args: [this.jailId, ...prefix.args],
+    });
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    const db = getLibSQLClient();
+    const now = new Date().toISOString();
+    const file = await db.execute({
+      sql: 'UPDATE vfs_files SET path = ?, updated_at = ? WHERE jail_id = ? AND path = ?',
+      args: [to, now, this.jailId, from],
+    });
+    if (file.rowsAffected > 0) return;
+
+    /* Directory: rewrite the prefix of every file below it. */
+    const prefix = this.prefixClause(from);
+    const moved = await db.execute({
+      sql: `UPDATE vfs_files SET path = ? || substr(path, ?), updated_at = ?
+            WHERE jail_id = ? ${prefix.sql}`,
+      args: [to, from.length + 1, now, this.jailId, ...prefix.args],
+    });
+    if (moved.rowsAffected === 0) throw notFound(from);
+  }
+
+  async stat(filePath: string): Promise<FileEntry | null> {
+    const result = await getLibSQLClient().execute({
+      sql: 'SELECT path, size, created_at, updated_at FROM vfs_files WHERE jail_id = ? AND path = ?',
+      args: [this.jailId, filePath],
+    });
+    if (result.rows.length > 0) {
+      return this.toEntry(result.rows[0] as Record<string, unknown>);
+    }
+
+    const children = await this.list(filePath, true);
+    if (children.length === 0 && filePath !== '') return null;
+    return {
+      path: filePath,
+      size: 0,
+      isFile: false,
+      isDirectory: true,
+      modified: children.reduce<Date | undefined>(
+        (latest, c) =>
+          !latest || (c.modified && c.modified > latest) ? c.modified : latest,
+        undefined
+      ),
+    };
+  }
+
+  async list(directory: string, recursive: boolean): Promise<FileEntry[]> {
+    const prefix = this.prefixClause(directory);
+    const result = await getLibSQLClient().execute({
+      sql: `SELECT path, size, created_at, updated_at FROM vfs_files
+            WHERE jail_id = ? ${prefix.sql} ORDER BY path`,
+      args: [this.jailId, ...prefix.args],
+    });
+    const depth = directory ? directory.split('/').length + 1 : 1;
+    return result.rows
+      .map((row) => this.toEntry(row as Record<string, unknown>))
+      .filter((e) => recursive || e.path.split('/').length === depth);
+  }
+
+  async usage(): Promise<number> {
+    const result = await getLibSQLClient().execute({
+      sql: 'SELECT COALESCE(SUM(size), 0) AS total FROM vfs_files WHERE jail_id = ?',
+      args: [this.jailId],
+    });
+    return Number(result.rows[0].total);
+  }
+}
+
+/* ────────────────────────────  Cloudflare R2  ─────────────────────────── */
+
+/**
+ * Files stored as R2 objects under `<prefix>/`.
+ */
+export class R2FileStore implements FileStore {
+  readonly kind = 'r2' as const;
+
+  constructor(
+    private readonly store: CfR2Store,
+    private readonly prefix: string
+  ) {}
+
+  private key(filePath: string): string {
+    return filePath ? `${this.prefix}/${filePath}` : this.prefix;
+  }
+
+  private toEntry(object: R2Object): FileEntry {
+    return {
+      path: object.key.slice(this.prefix.length + 1),
+      size: object.size,
+      isFile: true,
+      isDirectory: false,
+      modified: object.uploaded,
+    };
+  }
+
+  /** Every object under a directory, following R2 list cursors. */
+  private async objects(directory: string): Promise<R2Object[]> {
+    const out: R2Object[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.listObjects({
+        prefix: `${this.key(directory)}/`,
+        cursor,
+      });
+      out.push(...page.objects);
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    return out;
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const object = await this.store.get(this.key(filePath));
+    if (!object) throw notFound(filePath);
+    return Buffer.from(await object.arrayBuffer());
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    await this.store.put(
+      this.key(filePath),
+      data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.length
+      ) as ArrayBuffer
+    );
+  }
+
+  async delete(filePath: string, recursive: boolean): Promise<void> {
+    if (await this.store.head(this.key(filePath))) {
+      await this.store.delete(this.key(filePath));
+      return;
+    }
+    const children = await this.objects(filePath);
+    if (children.length === 0) throw notFound(filePath);
+    if (!recursive) throw new Error(`Directory not empty: /${filePath}`);
+    for (const child of children) await this.store.delete(child.key);
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    const file = await this.stat(from);
+    if (!file) throw notFound(from);
+
+    const sources = file.isFile
+      ? [from]
+      : (await this.objects(from)).map((o) => this.toEntry(o).path);
+    for (const source of sources) {
+      const target = to + source.slice(from.length);
+      await this.write(target, await this.read(source));
+      await this.store.delete(this.key(source));
+    }
+  }
+
+  async stat(filePath: string): Promise<FileEntry | null> {
+    const object = await this.store.head(this.key(filePath));
+    if (object) return this.toEntry(object);
+
+    const children = await this.objects(filePath);
+    if (children.length === 0 && filePath !== '') return null;
+    return { path: filePath, size: 0, isFile: false, isDirectory: true };
+  }
+
+  async list(directory: string, recursive: boolean): Promise<FileEntry[]> {
+    const depth = directory ? directory.split('/').length + 1 : 1;
+    return (await this.objects(directory))
+      .map((object) => this.toEntry(object))
+      .filter(
+        (e) =>
+          isWithin(e.path, directory) &&
+          (recursive || e.path.split('/').length === depth)
+      );
+  }
+
+  async usage(): Promise<number> {
+    const objects = await this.objects('');
+    return objects.reduce((total, object) => total + object.size, 0);
+  }
+}
@@ -1,69 +1,111 @@
 /**
- * @file Vercel AI SDK “file” tools (read, write, list, info).
+ * @file Vercel AI SDK “file” tools (read, write, list, info, delete, move,
+ *       patch, search).
  * @remarks
- *   • Every path is resolved *within* `FILE_ROOT` to block path-traversal.
+ *   • Every path is a *virtual* path inside the caller's file jail (see
+ *     `jail.ts`); `..` cannot climb out of it and symlinks are not followed
+ *     outside it.
  *   • Returns discriminated-union results for exhaustive type-checking.
  *   • Fully compatible with `generateText` / `streamText`.
  */
 
 import { tool } from 'ai';
 import { z } from 'zod';
-import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { ENCODINGS, FILE_ROOT } from './constants';
+import { ENCODINGS, SEARCH_MAX_FILE_BYTES } from './constants';
+import { getFileJail } from './jail';
+import { applyUnifiedDiff } from './patch';
 import {
   FileReadResult,
   FileWriteResult,
   FileListResult,
   FileInfoResult,
+  FileDeleteResult,
+  FileMoveResult,
+  FilePatchResult,
+  FileSearchMatch,
+  FileSearchResult,
   ToolFailure,
 } from './types';
 
 /* ─────────────────────────────  helpers  ────────────────────────────── */
 
 /**
- * Resolve a user-supplied path **inside** `FILE_ROOT`.
- * @throws if the resolved path escapes the root.
+ * Convert a simple glob (`*.ts`, `docs/**`) to a RegExp.  Patterns
+ * without a `/` match the file name only.
  */
-function resolveWithinRoot(userPath: string): string {
-  const resolved = path.resolve(FILE_ROOT, userPath);
-  if (!resolved.startsWith(FILE_ROOT)) {
-    throw new Error('Access outside permitted FILE_ROOT');
-  }
-  return resolved;
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+    )
+    .join('.*');
+  return new RegExp(glob.includes('/') ? `${source}$` : `^${source}$`);
 }
 
-async function exists(p: string): Promise<boolean> {
-  try {
-    await fs.access(p);
-    return true;
-  } catch {
-    return false;
-  }
-}
+/** Heuristic: a NUL byte near the start means binary content. */
+const isBinary = (data: Buffer) => data.subarray(0, 8000).includes(0);
 
 /* ─────────────────────────────  schemas  ────────────────────────────── */
 
 export const fileReadSchema = z.object({
-  filePath: z.string().describe('Relative path of the file to read'),
+  filePath: z.string().describe('Path of the file to read'),
   encoding: z.enum(ENCODINGS).default('utf8').describe('File encoding'),
 });
 
 export const fileWriteSchema = z.object({
-  filePath: z.string().describe('Relative path of the file to write'),
+  filePath: z.string().describe('Path of the file to write'),
   content: z.string().describe('Content to write'),
   encoding: z.enum(ENCODINGS).default('utf8'),
   append: z.boolean().default(false).describe('Append instead of overwrite'),
 });
 
 export const fileListSchema = z.object({
-  directoryPath: z.string().describe('Relative directory path'),
+  directoryPath: z.string().describe('Directory path'),
   recursive: z.boolean().default(false),
   pattern: z.string().optional().describe('Optional regex filter'),
 });
 
 export const fileInfoSchema = z.object({
-  filePath: z.string().describe('Relative path of the file to inspect'),
+  filePath: z.string().describe('Path of the file to inspect'),
+});
+
+export const fileDeleteSchema = z.object({
+  filePath: z.string().describe('Path of the file or directory to delete'),
+  recursive: z
+    .boolean()
+    .default(false)
+    .describe('Delete a directory and everything in it'),
+});
+
+export const fileMoveSchema = z.object({
+  sourcePath: z.string().describe('Path of the file or directory to move'),
+  destinationPath: z.string().describe('New path'),
+  overwrite: z
+    .boolean()
+    .default(false)
+    .describe('Replace the destination if it exists'),
+});
+
+export const filePatchSchema = z.object({
+  filePath: z.string().describe('Path of the file to patch'),
+  diff: z.string().describe('Unified diff (as produced by `diff -u`)'),
+});
+
+export const fileSearchSchema = z.object({
+  query: z.string().min(1).describe('Text or regular expression to find'),
+  directoryPath: z.string().default('/').describe('Directory to search'),
+  regex: z.boolean().default(false).describe('Treat query as a regex'),
+  caseSensitive: z.boolean().default(false),
+  filePattern: z
+    .string()
+    .optional()
+    .describe('Glob limiting which files are searched, e.g. "*.ts"'),
+  maxResults: z.number().int().min(1).max(1000).default(100),
 });
 
 /* ─────────────────────────  implementations  ────────────────────────── */
@@ -76,11 +118,8 @@ async function fileRead(
 ): Promise<FileReadResult> {
   const { filePath, encoding } = params;
   try {
-    const p = resolveWithinRoot(filePath);
-    await fs.access(p);
-    const content = await fs.readFile(p, {
-      encoding: encoding as BufferEncoding,
-    });
+    const { path: p, data } = await getFileJail().read(filePath);
+    const content = data.toString(encoding as BufferEncoding);
     return { success: true, filePath: p, content, encoding };
   } catch (err) {
     return {
@@ -98,13 +137,11 @@ async function fileWrite(
 ): Promise<FileWriteResult> {
   const { filePath, content, encoding, append } = params;
   try {
-    const p = resolveWithinRoot(filePath);
-    await fs.mkdir(path.dirname(p), { recursive: true });
-    if (append) {
-      await fs.appendFile(p, content, { encoding: encoding as BufferEncoding });
-    } else {
-      await fs.writeFile(p, content, { encoding: encoding as BufferEncoding });
-    }
+    const { path: p } = await getFileJail().write(
+      filePath,
+      Buffer.from(content, encoding as BufferEncoding),
+      append
+    );
     return {
       success: true,
       filePath: p,
@@ -126,21 +163,11 @@ async function fileList(
 ): Promise<FileListResult> {
   const { directoryPath, recursive, pattern } = params;
   try {
-    const dir = resolveWithinRoot(directoryPath);
-    if (!(await exists(dir))) throw new Error('Directory does not exist');
-
-    const walk = async (d: string): Promise<string[]> => {
-      const entries = await fs.readdir(d, { withFileTypes: true });
-      const out: string[] = [];
-      for (const e of entries) {
-        const full = path.join(d, e.name);
-        if (e.isDirectory() && recursive) out.push(...(await walk(full)));
-        else if (e.isFile()) out.push(full);
-      }
-      return out;
-    };
+    const jail = getFileJail();
+    const dir = jail.resolve(directoryPath).virtualPath;
+    if (!(await jail.stat(dir))) throw new Error('Directory does not exist');
 
-    const files = await walk(dir);
+    const files = (await jail.list(dir, recursive)).map((e) => e.path);
     const filtered = pattern
       ? files.filter((f) => new RegExp(pattern).test(f))
       : files;
@@ -150,8 +177,8 @@ async function fileList(
       directoryPath: dir,
       files: filtered.map((f) => ({
         path: f,
-        name: path.basename(f),
-        extension: path.extname(f),
+        name: path.posix.basename(f),
+        extension: path.posix.extname(f),
       })),
       count: filtered.length,
     };
@@ -171,20 +198,163 @@ async function fileInfo(
 ): Promise<FileInfoResult> {
   const { filePath } = params;
   try {
-    const p = resolveWithinRoot(filePath);
-    const stats = await fs.stat(p);
+    const stats = await getFileJail().stat(filePath);
+    if (!stats) throw new Error(`No such file or directory: ${filePath}`);
+    const p = stats.path;
     return {
       success: true,
       filePath: p,
-      name: path.basename(p),
-      directory: path.dirname(p),
-      extension: path.extname(p),
+      name: path.posix.basename(p),
+      directory: path.posix.dirname(p),
+      extension: path.posix.extname(p),
       size: stats.size,
-      isFile: stats.isFile(),
-      isDirectory: stats.isDirectory(),
-      created: stats.birthtime,
-      modified: stats.mtime,
-      accessed: stats.atime,
+      isFile: stats.isFile,
+      isDirectory: stats.isDirectory,
+      created: stats.created,
+      modified: stats.modified,
+      accessed: stats.accessed,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Delete a file, or a directory when `recursive` is set.
+ */
+async function fileDelete(
+  params: z.infer<typeof fileDeleteSchema>
+): Promise<FileDeleteResult> {
+  const { filePath, recursive } = params;
+  try {
+    const p = await getFileJail().delete(filePath, recursive);
+    return { success: true, filePath: p };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Move or rename a file or directory.
+ */
+async function fileMove(
+  params: z.infer<typeof fileMoveSchema>
+): Promise<FileMoveResult> {
+  const { sourcePath, destinationPath, overwrite } = params;
+  try {
+    const { from, to } = await getFileJail().move(
+      sourcePath,
+      destinationPath,
+      overwrite
+    );
+    return { success: true, sourcePath: from, destinationPath: to };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Apply a unified diff to a text file.
+ */
+async function filePatch(
+  params: z.infer<typeof filePatchSchema>
+): Promise<FilePatchResult> {
+  const { filePath, diff } = params;
+  try {
+    const jail = getFileJail();
+    const existing = await jail.stat(filePath);
+    const original = existing
+      ? (await jail.read(filePath)).data.toString('utf8')
+      : '';
+    const { content, hunksApplied } = applyUnifiedDiff(original, diff);
+    const { path: p, size } = await jail.write(
+      filePath,
+      Buffer.from(content, 'utf8')
+    );
+    return { success: true, filePath: p, hunksApplied, size };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Search file contents (grep) within a directory of the jail.
+ */
+async function fileSearch(
+  params: z.infer<typeof fileSearchSchema>
+): Promise<FileSearchResult> {
+  const {
+    query,
+    directoryPath,
+    regex,
+    caseSensitive,
+    filePattern,
+    maxResults,
+  } = params;
+  try {
+    const jail = getFileJail();
+    const dir = jail.resolve(directoryPath).virtualPath;
+    const matcher = new RegExp(
+      regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      caseSensitive ? 'g' : 'gi'
+    );
+    const fileFilter = filePattern ? globToRegExp(filePattern) : undefined;
+
+    const files = (await jail.list(dir, true)).filter(
+      (f) =>
+        f.size <= SEARCH_MAX_FILE_BYTES &&
+        (!fileFilter ||
+          fileFilter.test(
+            filePattern!.includes('/') ? f.path : path.posix.basename(f.path)
+          ))
+    );
+
+    const matches: FileSearchMatch[] = [];
+    let filesSearched = 0;
+    let truncated = false;
+    search: for (const file of files) {
+      const { data } = await jail.read(file.path);
+      if (isBinary(data)) continue;
+      filesSearched++;
+
+      const lines = data.toString('utf8').split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        matcher.lastIndex = 0;
+        const match = matcher.exec(lines[i]);
+        if (!match) continue;
+        if (matches.length === maxResults) {
+          truncated = true;
+          break search;
+        }
+        matches.push({
+          path: file.path,
+          line: i + 1,
+          column: match.index + 1,
+          text: lines[i].slice(0, 500),
+        });
+      }
+    }
+
+    return {
+      success: true,
+      query,
+      directoryPath: dir,
+      matches,
+      count: matches.length,
+      filesSearched,
+      truncated,
     };
   } catch (err) {
     return {
@@ -220,4 +390,24 @@ export const tools = {
     parameters: fileInfoSchema,
     execute: fileInfo,
   }),
+  FileDelete: tool({
+    description: 'Delete a file or directory',
+    parameters: fileDeleteSchema,
+    execute: fileDelete,
+  }),
+  FileMove: tool({
+    description: 'Move or rename a file or directory',
+    parameters: fileMoveSchema,
+    execute: fileMove,
+  }),
+  FilePatch: tool({
+    description: 'Apply a unified diff to a text file',
+    parameters: filePatchSchema,
+    execute: filePatch,
+  }),
+  FileSearch: tool({
+    description: 'Search file contents for text or a regular expression',
+    parameters: fileSearchSchema,
+    execute: fileSearch,
+  }),
 };
@@ -61,10 +61,73 @@ export interface FileInfoSuccess {
   size: number;
   isFile: boolean;
   isDirectory: boolean;
-  created: Date;
-  modified: Date;
-  accessed: Date;
+  /** Not every storage backend records all three timestamps. */
+  created?: Date;
+  modified?: Date;
+  accessed?: Date;
 }
 export type FileInfoResult = FileInfoSuccess | ToolFailure;
 export const isFileInfoSuccess = (r: FileInfoResult): r is FileInfoSuccess =>
   r.success;
+
+/* ------------------------------------------------------------------ */
+/*                               DELETE                               */
+/* ------------------------------------------------------------------ */
+export interface FileDeleteSuccess {
+  success: true;
+  filePath: string;
+}
+export type FileDeleteResult = FileDeleteSuccess | ToolFailure;
+export const isFileDeleteSuccess = (
+  r: FileDeleteResult
+): r is FileDeleteSuccess => r.success;
+
+/* ------------------------------------------------------------------ */
+/*                                MOVE                                */
+/* ------------------------------------------------------------------ */
+export interface FileMoveSuccess {
+  success: true;
+  sourcePath: string;
+  destinationPath: string;
+}
+export type FileMoveResult = FileMoveSuccess | ToolFailure;
+export const isFileMoveSuccess = (r: FileMoveResult): r is FileMoveSuccess =>
+  r.success;
+
+/* ------------------------------------------------------------------ */
+/*                               PATCH                                */
+/* ------------------------------------------------------------------ */
+export interface FilePatchSuccess {
+  success: true;
+  filePath: string;
+  hunksApplied: number;
+  size: number;
+}
+export type FilePatchResult = FilePatchSuccess | ToolFailure;
+export const isFilePatchSuccess = (r: FilePatchResult): r is FilePatchSuccess =>
+  r.success;
+
+/* ------------------------------------------------------------------ */
+/*                               SEARCH                               */
+/* ------------------------------------------------------------------ */
+export interface FileSearchMatch {
+  path: string;
+  /** 1-based line and column of the match. */
+  line: number;
+  column: number;
+  text: string;
+}
+export interface FileSearchSuccess {
+  success: true;
+  query: string;
+  directoryPath: string;
+  matches: FileSearchMatch[];
+  count: number;
+  filesSearched: number;
+  /** `true` when `maxResults` cut the result list short. */
+  truncated: boolean;
+}
+export type FileSearchResult = FileSearchSuccess | ToolFailure;
+export const isFileSearchSuccess = (
+  r: FileSearchResult
+): r is FileSearchSuccess => r.success;
@@ -16,6 +16,7 @@ import * as dataTools from './data-tools';
 import * as fileTools from './file-tools';
 import * as apiTools from './api-tools';
 import * as ragTools from './rag-tools';
+import * as memoryTools from './memory-tools';
 import * as agenticTools from './agentic';
 import * as toolExecutionStore from './upstash-tool-execution-store';
 
@@ -36,6 +37,7 @@ export {
   fileTools,
   apiTools,
   ragTools,
+  memoryTools,
   agenticTools,
   toolExecutionStore,
 };
@@ -77,6 +79,11 @@ export const toolCategories = [
     name: 'RAG Tools',
     description: 'Tools for retrieval-augmented generation',
   },
+  {
+    id: 'memory',
+    name: 'Memory Tools',
+    description: 'Tools for remembering facts across conversations',
+  },
   {
     id: 'agentic',
     name: 'Agentic Tools',
@@ -107,6 +114,7 @@ export function getAllBuiltInTools() {
     ...fileTools.tools,
     ...apiTools.tools,
     ...ragTools.tools,
+    ...memoryTools.tools,
     ...agenticTools,
   };
 }
@@ -0,0 +1,365 @@
+/**
+ * @file Config-driven MCP client manager: imports the tools of remote MCP
+ *       servers into the `ToolRegistry`.
+ *
+ * @remarks
+ *   • Servers come from `MCP_SERVERS` (inline JSON) or the JSON file named by
+ *     `MCP_SERVERS_CONFIG`, as `{ "servers": [...] }`.  Each server is either
+ *     a stdio `command` or a streamable HTTP `url`.
+ *   • Remote tools are registered as `mcp_<server>_<tool>` under the category
+ *     `mcp:<server>`.  Agents reference them through `tool_ids` entries of the
+ *     form `mcp:<server>` (every tool) or `mcp:<server>/<tool>`.
+ *   • Dropped connections are retried with exponential backoff; while a
+ *     server is down its tools stay registered and fail fast.  Tool lists
+ *     are refreshed on `notifications/tools/list_changed`.
+ */
+
+import * as fs from 'node:fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  McpError,
+  ToolListChangedNotificationSchema,
+  type Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { jsonSchema, tool, type Tool } from 'ai';
+import { z } from 'zod';
+
+/* ─────────────────────────────  config  ────────────────────────────── */
+
+export const McpServerConfigSchema = z
+  .object({
+    /** Used in tool names and the `mcp:<name>` category. */
+    name: z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Use letters, digits, _ or -'),
+    /** stdio: command to spawn. */
+    command: z.string().optional(),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+    /** Streamable HTTP endpoint. */
+    url: z.string().url().optional(),
+    headers: z.record(z.string()).optional(),
+    enabled: z.boolean().default(true),
+    /** Timeout for connecting and for each tool call. */
+    timeoutMs: z.number().int().positive().default(60_000),
+  })
+  .refine((config) => Boolean(config.command) !== Boolean(config.url), {
+    message: 'Specify exactly one of command or url',
+  });
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+export const McpClientConfigSchema = z.object({
+  servers: z.array(McpServerConfigSchema).default([]),
+});
+
+/**
+ * Read the server list from `MCP_SERVERS` or `MCP_SERVERS_CONFIG`.
+ * @throws if the configuration is not valid.
+ */
+export function loadMcpClientConfig(): McpServerConfig[] {
+  const raw =
+    process.env.MCP_SERVERS ??
+    (process.env.MCP_SERVERS_CONFIG
+      ? fs.readFileSync(process.env.MCP_SERVERS_CONFIG, 'utf8')
+      : undefined);
+  if (!raw) return [];
+  return McpClientConfigSchema.parse(JSON.parse(raw)).servers;
+}
+
+/* ─────────────────────────────  types  ────────────────────────────── */
+
+/** Where imported tools are registered (implemented by `ToolRegistry`). */
+export interface McpToolSink {
+  setTool(name: string, instance: Tool<any, any>, category: string): void;
+  removeTool(name: string): void;
+}
+
+export type McpConnectionStatus =
+  | 'connecting'
+  | 'connected'
+  | 'disconnected'
+  | 'stopped';
+
+export interface McpServerStatus {
+  name: string;
+  status: McpConnectionStatus;
+  /** Registry names of the imported tools. */
+  tools: string[];
+  error?: string;
+  reconnectAttempts: number;
+}
+
+interface Connection {
+  config: McpServerConfig;
+  client?: Client;
+  status: McpConnectionStatus;
+  /** Registry name -> remote tool name. */
+  tools: Map<string, string>;
+  error?: string;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_RECONNECT_DELAY_MS = 60_000;
+
+/** Registry category of a server's tools. */
+export const mcpCategory = (server: string) => `mcp:${server}`;
+
+/** Registry name of a remote tool (AI SDK tool names: `[a-zA-Z0-9_-]{1,64}`). */
+export const mcpToolName = (server: string, remoteName: string) =>
+  `mcp_${server}_${remoteName}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+
+/* ─────────────────────────────  manager  ────────────────────────────── */
+
+export class McpClientManager {
+  private readonly connections = new Map<string, Connection>();
+  private sink: McpToolSink | undefined;
+
+  /**
+   * Connect to every enabled server and register its tools with `sink` as
+   * each one comes up.  Resolves once every server has connected or failed
+   * its first attempt; failed servers are retried in the background.
+   */
+  async start(
+    sink: McpToolSink,
+    configs: McpServerConfig[] = loadMcpClientConfig()
+  ): Promise<void> {
+    this.sink = sink;
+    await Promise.all(
+      configs
+        .filter((config) => config.enabled)
+        .map((config) => this.addServer(config))
+    );
+  }
+
+  /**
+   * Add (or replace) a server at runtime.
+   */
+  async addServer(config: McpServerConfig): Promise<void> {
+    await this.removeServer(config.name);
+    const connection: Connection = {
+      config,
+      status: 'connecting',
+      tools: new Map(),
+      reconnectAttempts: 0,
+    };
+    this.connections.set(config.name, connection);
+    await this.connect(connection);
+  }
+
+  /**
+   * Disconnect a server and unregister its tools.
+   */
+  async removeServer(name: string): Promise<void> {
+    const connection = this.connections.get(name);
+    if (!connection) return;
+    this.connections.delete(name);
+    connection.status = 'stopped';
+    clearTimeout(connection.reconnectTimer);
+    for (const toolName of connection.tools.keys()) {
+      this.sink?.removeTool(toolName);
+    }
+    await connection.client?.close().catch(() => undefined);
+  }
+
+  /** Disconnect every server. */
+  async stop(): Promise<void> {
+    await Promise.all(
+      [...this.connections.keys()].map((name) => this.removeServer(name))
+    );
+  }
+
+  /** Connection status of every configured server. */
+  getStatus(): McpServerStatus[] {
+    return [...this.connections.values()].map((connection) => ({
+      name: connection.config.name,
+      status: connection.status,
+      tools: [...connection.tools.keys()],
+      error: connection.error,
+      reconnectAttempts: connection.reconnectAttempts,
+    }));
+  }
+
+  /**
+   * Registry names of the tools an agent `tool_ids` entry refers to:
+   * `mcp:<server>` for all of a server's tools, `mcp:<server>/<tool>` for
+   * one.  Returns an empty list for other ids.
+   */
+  resolveToolId(toolId: string): string[] {
+    const [, server, remoteTool] =
+      /^mcp:([^/]+)(?:\/(.+))?$/.exec(toolId) ?? [];
+    const connection = server ? this.connections.get(server) : undefined;
+    if (!connection) return [];
+    return [...connection.tools.entries()]
+      .filter(([, remoteName]) => !remoteTool || remoteName === remoteTool)
+      .map(([toolName]) => toolName);
+  }
+
+  private createTransport(config: McpServerConfig): Transport {
+    if (config.url) {
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: { headers: config.headers },
+      });
+    }
+    return new StdioClientTransport({
+      command: config.command!,
+      args: config.args,
+      env: { ...getDefaultEnvironment(), ...config.env },
+      cwd: config.cwd,
+      stderr: 'inherit',
+    });
+  }
+
+  private async connect(connection: Connection): Promise<void> {
+    const { config } = connection;
+    const client = new Client({ name: 'deanmachines-ai', version: '1.0.0' });
+    connection.client = client;
+    connection.status = 'connecting';
+
+    client.onclose = () => {
+      if (connection.client !== client || connection.status === 'stopped') {
+        return;
+      }
+      connection.status = 'disconnected';
+      this.scheduleReconnect(connection);
+    };
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this.refreshTools(connection).catch((error) =>
+        console.error(
+          `Failed to refresh tools of MCP server '${config.name}':`,
+          error
+        )
+      )
+    );
+
+    try {
+      await client.connect(this.createTransport(config), {
+        timeout: config.timeoutMs,
+      });
+      await this.refreshTools(connection);
+      connection.status = 'connected';
+      connection.error = undefined;
+      connection.reconnectAttempts = 0;
+    } catch (error) {
+      console.error(`Failed to connect to MCP server '${config.name}':`, error);
+      connection.error = error instanceof Error ? error.message : String(error);
+      connection.status = 'disconnected';
+      /* Detach first so closing does not trigger a second reconnect. */
+      connection.client = undefined;
+      await client.close().catch(() => undefined);
+      this.scheduleReconnect(connection);
+    }
+  }
+
+  private scheduleReconnect(connection: Connection): void {
+    if (connection.status === 'stopped' || connection.reconnectTimer) return;
+    const delay = Math.min(
+      1_000 * 2 ** connection.reconnectAttempts,
+      MAX_RECONNECT_DELAY_MS
+    );
+    connection.reconnectAttempts++;
+    connection.reconnectTimer = setTimeout(() => {
+      connection.reconnectTimer = undefined;
+      if (connection.status !== 'stopped') void this.connect(connection);
+    }, delay);
+    connection.reconnectTimer.unref?.();
+  }
+
+  /** Re-list a server's tools and sync them into the registry. */
+  private async refreshTools(connection: Connection): Promise<void> {
+    const { client, config } = connection;
+    if (!client) return;
+
+    const remoteTools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(
+        { cursor },
+        { timeout: config.timeoutMs }
+      );
+      remoteTools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const next = new Map(
+      remoteTools.map((remote) => [
+        mcpToolName(config.name, remote.name),
+        remote,
+      ])
+    );
+    for (const toolName of connection.tools.keys()) {
+      if (!next.has(toolName)) this.sink?.removeTool(toolName);
+    }
+    connection.tools = new Map();
+    for (const [toolName, remote] of next) {
+      connection.tools.set(toolName, remote.name);
+      this.sink?.setTool(
+        toolName,
+        this.wrapTool(connection, remote),
+        mcpCategory(config.name)
+      );
+    }
+  }
+
+  /** Wrap a remote tool as an AI SDK tool. */
+  private wrapTool(connection: Connection, remote: McpTool): Tool<any, any> {
+    const { config } = connection;
+    return tool({
+      description: remote.description ?? `${remote.name} (${config.name})`,
+      parameters: jsonSchema<Record<string, unknown>>(
+        remote.inputSchema as Parameters<typeof jsonSchema>[0]
+      ),
+      execute: async (args: Record<string, unknown>) => {
+        if (connection.status !== 'connected' || !connection.client) {
+          return {
+            success: false,
+            error: `MCP server '${config.name}' is not connected`,
+          };
+        }
+        try {
+          const result = await connection.client.callTool(
+            { name: remote.name, arguments: args },
+            undefined,
+            { timeout: config.timeoutMs }
+          );
+          const content = (
+            (result.content ?? []) as Array<{
+              type: string;
+              text?: string;
+              mimeType?: string;
+            }>
+          )
+            .map((item) =>
+              item.type === 'text'
+                ? item.text
+                : `[${item.mimeType ?? item.type}]`
+            )
+            .join('\n');
+          return result.isError
+            ? { success: false, error: content || 'Tool call failed' }
+            : { success: true, content };
+        } catch (error) {
+          /* Transport failures (e.g. the HTTP server went away) don't close
+             the client by themselves; close it so it reconnects. */
+          if (!(error instanceof McpError)) {
+            void connection.client?.close();
+          }
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+    });
+  }
+}
+
+/**
+ * Shared manager; the `ToolRegistry` starts it while initialising.
+ */
+export const mcpClientManager = new McpClientManager();
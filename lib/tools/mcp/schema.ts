@@ -0,0 +1,35 @@
+/**
+ * @file JSON Schema of a tool's parameters, shared by the MCP server and
+ *       agents that load MCP tools.
+ */
+
+import type { Tool } from 'ai';
+import type { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export const isZodSchema = (value: unknown): value is ZodTypeAny =>
+  typeof (value as ZodTypeAny | undefined)?.safeParse === 'function';
+
+/**
+ * JSON Schema for a tool's parameters.  Accepts Zod schemas and AI SDK
+ * `jsonSchema()` wrappers.
+ */
+export function toolInputSchema(
+  instance: Tool<any, any>
+): Record<string, unknown> {
+  const parameters = (instance as { parameters?: unknown }).parameters;
+  if (isZodSchema(parameters)) {
+    const { $schema, ...schema } = zodToJsonSchema(parameters, {
+      $refStrategy: 'none',
+    }) as Record<string, unknown>;
+    return schema;
+  }
+  if (
+    parameters &&
+    typeof parameters === 'object' &&
+    'jsonSchema' in parameters
+  ) {
+    return (parameters as { jsonSchema: Record<string, unknown> }).jsonSchema;
+  }
+  return { type: 'object', properties: {} };
+}
@@ -0,0 +1,41 @@
+/**
+ * @file Command-line entry point for the tool MCP server.
+ *
+ * @example
+ *   npx tsx lib/tools/mcp/serve.ts            # stdio
+ *   npx tsx lib/tools/mcp/serve.ts --http     # streamable HTTP on :3333/mcp
+ *
+ * @remarks
+ *   Environment: `MCP_TRANSPORT` (`stdio` | `http`), `MCP_SERVER_PORT`,
+ *   `MCP_SERVER_TOKEN` (bearer token, required for HTTP) and
+ *   `MCP_SERVER_TOOLS` (comma-separated allow-list of tool names; defaults
+ *   to the read-only `DEFAULT_MCP_TOOLS`).
+ */
+
+import 'dotenv/config';
+
+async function main() {
+  const transport = process.argv.includes('--http')
+    ? 'http'
+    : (process.env.MCP_TRANSPORT ?? 'stdio');
+
+  if (transport !== 'http') {
+    // stdout carries the protocol; send everything else to stderr. Done
+    // before loading the registry, which logs while initialising.
+    console.log = console.info = console.debug = console.error;
+  }
+  const { startMcpHttpServer, startMcpStdioServer } = await import('./server');
+
+  if (transport === 'http') {
+    const { url } = await startMcpHttpServer();
+    console.error(`MCP server listening on ${url}`);
+    return;
+  }
+
+  await startMcpStdioServer();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,418 @@
+/**
+ * @file Model Context Protocol server publishing the `ToolRegistry`.
+ *
+ * @remarks
+ *   • Only allow-listed tools are published: `tools` / `MCP_SERVER_TOOLS`,
+ *     or the read-only {@link DEFAULT_MCP_TOOLS}.  Tools marked
+ *     `requires_approval` in the tools table are never published, as MCP
+ *     clients have no reviewer to wait for.
+ *   • Published tools are listed with their Zod parameters converted to JSON
+ *     Schema; `tools/call` validates the arguments with the same schema and
+ *     runs the tool through `ToolRegistry.executeTool`, so executions are
+ *     traced and recorded exactly like agent tool calls.
+ *   • Memory threads are published as resources (`memory://threads/<id>`)
+ *     holding the thread and its messages as JSON.
+ *   • Two transports: stdio ({@link startMcpStdioServer}) and stateless
+ *     streamable HTTP ({@link startMcpHttpServer}).  The HTTP server requires
+ *     a bearer token and, when bound to loopback, only answers requests
+ *     addressed to localhost.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createMemory, type MemoryInterface } from '../../memory/factory';
+import { getAllTools } from '../../memory/supabase';
+import { runWithToolContext } from '../toolContext';
+import { ToolRegistry, toolRegistry } from '../toolRegistry';
+import { isZodSchema, toolInputSchema } from './schema';
+
+/* ─────────────────────────────  options  ────────────────────────────── */
+
+export interface ToolMcpServerOptions {
+  /** Server name reported to clients. */
+  name?: string;
+  version?: string;
+  /**
+   * Only publish these tools (default: `MCP_SERVER_TOOLS`, else
+   * {@link DEFAULT_MCP_TOOLS}).
+   */
+  tools?: string[];
+  /**
+   * Agent id that tool calls run under; it selects per-agent state such as
+   * the file jail.  Defaults to `mcp`.
+   */
+  agentId?: string;
+  /** Publish memory threads as resources (default `true`). */
+  exposeMemory?: boolean;
+}
+
+export interface McpHttpServerOptions extends ToolMcpServerOptions {
+  /** Default `MCP_SERVER_PORT` or 3333. */
+  port?: number;
+  /** Default `127.0.0.1`. */
+  host?: string;
+  /** Endpoint path, default `/mcp`. */
+  path?: string;
+  /** Required bearer token; defaults to `MCP_SERVER_TOKEN`. */
+  token?: string;
+}
+
+/**
+ * Tools published when no allow-list is configured: reading files, searching
+ * documents and converting data.  Tools that write, delete, run code or
+ * reach the network have to be listed explicitly.
+ */
+export const DEFAULT_MCP_TOOLS = [
+  'FileRead',
+  'FileList',
+  'FileInfo',
+  'FileSearch',
+  'DocumentSearch',
+  'VectorStoreQuery',
+  'HybridVectorSearch',
+  'CsvToJson',
+  'JsonToCsv',
+  'DataFilter',
+  'DataAggregation',
+  'YamlToJson',
+  'JsonToYaml',
+  'XmlToJson',
+  'JsonToXml',
+  'MdTableToJson',
+  'JsonToMdTable',
+] as const;
+
+const THREAD_URI_PREFIX = 'memory://threads/';
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/* ─────────────────────────────  helpers  ────────────────────────────── */
+
+/** Tool result as MCP content; `{ success: false }` results are errors. */
+function toCallToolResult(result: unknown): CallToolResult {
+  const text =
+    typeof result === 'string' ? result : JSON.stringify(result ?? null);
+  const isError =
+    typeof result === 'object' &&
+    result !== null &&
+    (result as { success?: unknown }).success === false;
+  return { content: [{ type: 'text', text }], isError };
+}
+
+/** Hostname of a Host header, or `''` when it is missing or malformed. */
+function hostnameOf(host: string | undefined): string {
+  try {
+    return new URL(`http://${host ?? ''}`).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/** Whether an Authorization header carries the bearer token, in constant time. */
+function hasBearerToken(
+  authorization: string | undefined,
+  token: string
+): boolean {
+  const given = Buffer.from(authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Allow-list from `MCP_SERVER_TOOLS` (comma-separated), if set. */
+function envToolAllowList(): string[] | undefined {
+  const names = process.env.MCP_SERVER_TOOLS?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names?.length ? names : undefined;
+}
+
+/**
+ * Names of tools marked `requires_approval` in the tools table.  A failed
+ * lookup fails the request, so no tool is listed or called unchecked.
+ */
+async function approvalGatedTools(): Promise<Set<string>> {
+  try {
+    const rows = await getAllTools({ where: { requires_approval: true } });
+    return new Set(rows.map((row) => row.name));
+  } catch (error) {
+    console.warn(
+      'Could not load approval-gated tools from the tools table:',
+      error instanceof Error ? error.message : error
+    );
+    throw new McpError(
+      ErrorCode.InternalError,
+      'Could not check which tools require approval'
+    );
+  }
+}
+
+/* ─────────────────────────────  server  ────────────────────────────── */
+
+let memory: MemoryInterface | undefined;
+const getMemory = () => (memory ??= createMemory());
+
+/**
+ * Create an MCP server (not yet connected to a transport) for the registry.
+ *
+ * @param options - Server options.
+ */
+export function createToolMcpServer(
+  options: ToolMcpServerOptions = {}
+): Server {
+  const {
+    name = 'deanmachines-tools',
+    version = '1.0.0',
+    tools: allowList = envToolAllowList() ?? [...DEFAULT_MCP_TOOLS],
+    agentId = 'mcp',
+    exposeMemory = true,
+  } = options;
+
+  const server = new Server(
+    { name, version },
+    { capabilities: { tools: {}, ...(exposeMemory && { resources: {} }) } }
+  );
+
+  const publishedTools = async () => {
+    const [all, gated] = await Promise.all([
+      toolRegistry.getAllTools(),
+      approvalGatedTools(),
+    ]);
+    return Object.entries(all).filter(
+      ([toolName]) => allowList.includes(toolName) && !gated.has(toolName)
+    );
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: (await publishedTools()).map(([toolName, instance]) => ({
+      name: toolName,
+      description: instance.description ?? '',
+      inputSchema: toolInputSchema(instance) as {
+        type: 'object';
+        properties?: Record<string, unknown>;
+      },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name: toolName, arguments: args = {} } = request.params;
+    const instance = (await publishedTools()).find(
+      ([published]) => published === toolName
+    )?.[1];
+    if (!instance) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${toolName}`);
+    }
+
+    /* Validate (and apply defaults) the way the AI SDK would. */
+    let params: unknown = args;
+    const parameters = (instance as { parameters?: unknown }).parameters;
+    if (isZodSchema(parameters)) {
+      const parsed = parameters.safeParse(args);
+      if (!parsed.success) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Invalid arguments: ${parsed.error.issues
+                .map(
+                  (issue) =>
+                    `${issue.path.join('.') || '(root)'}: ${issue.message}`
+                )
+                .join('; ')}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      params = parsed.data;
+    }
+
+    try {
+      const result = await runWithToolContext({ agentId }, () =>
+        ToolRegistry.executeTool(toolName, params)
+      );
+      return toCallToolResult(result);
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  if (!exposeMemory) return server;
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const threads = await getMemory().listMemoryThreads({ limit: 100 });
+    return {
+      resources: threads.map((thread) => ({
+        uri: `${THREAD_URI_PREFIX}${thread.id}`,
+        name: thread.name || thread.id,
+        mimeType: 'application/json',
+      })),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${THREAD_URI_PREFIX}{threadId}`,
+        name: 'Memory thread',
+        description: 'A memory thread and its messages',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const threadId = uri.startsWith(THREAD_URI_PREFIX)
+      ? decodeURIComponent(uri.slice(THREAD_URI_PREFIX.length))
+      : '';
+    const thread = threadId
+      ? await getMemory().getMemoryThread(threadId)
+      : null;
+    if (!thread) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    const messages = await getMemory().loadMessages(threadId);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({ thread, messages }, null, 2),
+        },
+      ],
+    };
+  });
+
+  return server;
+}
+
+/* ─────────────────────────────  transports  ────────────────────────────── */
+
+/**
+ * Serve the registry over stdio.  stdout carries the protocol, so callers
+ * must keep logging on stderr.
+ */
+export async function startMcpStdioServer(
+  options: ToolMcpServerOptions = {}
+): Promise<Server> {
+  const server = createToolMcpServer(options);
+  await server.connect(new StdioServerTransport());
+  return server;
+}
+
+/**
+ * Serve the registry over streamable HTTP.  The server is stateless: each
+ * POST gets a fresh MCP server and transport.  A bearer token is required;
+ * on a loopback address the Host header must name localhost too, so a web
+ * page cannot reach the server through DNS rebinding.
+ *
+ * @returns The endpoint URL and a function that stops the server.
+ * @throws If no token is given and `MCP_SERVER_TOKEN` is unset.
+ */
+export async function startMcpHttpServer(
+  options: McpHttpServerOptions = {}
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const {
+    port = Number(process.env.MCP_SERVER_PORT ?? 3333),
+    host = '127.0.0.1',
+    path = '/mcp',
+    token = process.env.MCP_SERVER_TOKEN,
+    ...serverOptions
+  } = options;
+
+  if (!token) {
+    throw new Error(
+      'The MCP HTTP server requires a bearer token; set MCP_SERVER_TOKEN'
+    );
+  }
+  const loopback = LOOPBACK_HOSTS.includes(host) || host === '::1';
+
+  const jsonRpcError = (code: number, message: string) =>
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null });
+
+  const httpServer = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (loopback) {
+      if (!LOOPBACK_HOSTS.includes(hostnameOf(req.headers.host))) {
+        res
+          .writeHead(403, { 'Content-Type': 'application/json' })
+          .end(jsonRpcError(-32001, 'Forbidden'));
+        return;
+      }
+    }
+    if (!hasBearerToken(req.headers.authorization, token)) {
+      res
+        .writeHead(401, { 'Content-Type': 'application/json' })
+        .end(jsonRpcError(-32001, 'Unauthorized'));
+      return;
+    }
+    if (req.method !== 'POST') {
+      res
+        .writeHead(405, { 'Content-Type': 'application/json', Allow: 'POST' })
+        .end(jsonRpcError(-32000, 'Method not allowed'));
+      return;
+    }
+
+    const server = createToolMcpServer(serverOptions);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        res
+          .writeHead(500, { 'Content-Type': 'application/json' })
+          .end(jsonRpcError(ErrorCode.InternalError, 'Internal server error'));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  const address = httpServer.address();
+  const boundPort =
+    typeof address === 'object' && address ? address.port : port;
+
+  return {
+    url: `http://${host}:${boundPort}${path}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        httpServer.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * @file Barrel for the “memory” tool-suite, alongside the other
+ *       `*-tools.ts` modules.  The implementation lives in
+ *       `lib/tools/memory/`.
+ */
+
+import { tools as memoryTools } from './memory/tools';
+import * as memoryTypes from './memory/types';
+import * as memoryConstants from './memory/constants';
+
+export { memoryTools as tools };
+export { memoryTypes };
+export { memoryConstants };
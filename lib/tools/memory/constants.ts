@@ -0,0 +1,14 @@
+/**
+ * @file Constants shared by the “memory” tool-suite.
+ */
+
+export const FACT_SCOPES = ['user', 'agent'] as const;
+
+export const DEFAULT_RECALL_LIMIT = 5;
+export const MAX_RECALL_LIMIT = 20;
+
+/** Minimum similarity of a recalled fact. */
+export const RECALL_THRESHOLD = 0.3;
+
+/** Minimum similarity of a fact forgotten by description. */
+export const FORGET_THRESHOLD = 0.8;
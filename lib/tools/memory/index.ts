@@ -0,0 +1,7 @@
+/**
+ * @file Barrel file for memory tools.
+ */
+
+export * from './constants';
+export * from './types';
+export * from './tools';
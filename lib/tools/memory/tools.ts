@@ -0,0 +1,219 @@
+/**
+ * @file Vercel AI SDK “memory” tools (remember, recall, forget) over the
+ *       long-term fact store in `lib/memory/long-term-memory.ts`.
+ * @remarks
+ *   • Facts are scoped to the caller from the tool context (`toolContext.ts`):
+ *     `user` facts belong to the current user and agent, `agent` facts to
+ *     every user of the agent.
+ *   • Returns discriminated-union results for exhaustive type-checking.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import {
+  FACT_CATEGORIES,
+  forgetFacts,
+  recallFacts,
+  rememberFact,
+  type FactScope,
+  type MemoryFact,
+} from '@/lib/memory/long-term-memory';
+import { getToolContext } from '../toolContext';
+import {
+  DEFAULT_RECALL_LIMIT,
+  FACT_SCOPES,
+  FORGET_THRESHOLD,
+  MAX_RECALL_LIMIT,
+  RECALL_THRESHOLD,
+} from './constants';
+import {
+  FactItem,
+  ForgetResult,
+  RecallResult,
+  RememberResult,
+  ToolFailure,
+} from './types';
+
+/* ─────────────────────────────  helpers  ────────────────────────────── */
+
+/** Facts the caller can see: their own, their agent's and shared ones. */
+function callerScope(): FactScope {
+  const { userId, agentId } = getToolContext();
+  if (!userId && !agentId) {
+    throw new Error('Long-term memory needs a user or an agent to belong to');
+  }
+  return { userId, agentId };
+}
+
+/** Scope a new fact is stored in. */
+function storeScope(scope: (typeof FACT_SCOPES)[number]): FactScope {
+  const { userId, agentId } = getToolContext();
+  if (scope === 'user') {
+    if (!userId) throw new Error('No user is known in this conversation');
+    return { userId, agentId };
+  }
+  if (!agentId) throw new Error('No agent is known in this conversation');
+  return { agentId };
+}
+
+const toItem = (fact: MemoryFact): FactItem => ({
+  id: fact.id,
+  content: fact.content,
+  category: fact.category,
+  entities: fact.entities,
+  scope: fact.userId ? 'user' : 'agent',
+  updatedAt: fact.updatedAt,
+});
+
+/* ─────────────────────────────  schemas  ────────────────────────────── */
+
+export const rememberSchema = z.object({
+  fact: z
+    .string()
+    .min(1)
+    .describe(
+      'One self-contained fact in the third person, e.g. "The user prefers metric units"'
+    ),
+  category: z.enum(FACT_CATEGORIES).optional(),
+  entities: z
+    .array(z.string())
+    .optional()
+    .describe('Names of the people, places or things the fact is about'),
+  scope: z
+    .enum(FACT_SCOPES)
+    .default('user')
+    .describe(
+      '"user" for facts about the current user, "agent" for facts useful with every user'
+    ),
+});
+
+export const recallSchema = z.object({
+  query: z.string().min(1).describe('What to remember'),
+  entity: z
+    .string()
+    .optional()
+    .describe('Only facts about this person, place or thing'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RECALL_LIMIT)
+    .default(DEFAULT_RECALL_LIMIT),
+});
+
+export const forgetSchema = z
+  .object({
+    factIds: z
+      .array(z.string())
+      .optional()
+      .describe('Ids of facts returned by recall'),
+    description: z
+      .string()
+      .optional()
+      .describe('The fact to forget, when its id is not known'),
+  })
+  .refine((params) => params.factIds?.length || params.description, {
+    message: 'Provide factIds or a description',
+  });
+
+/* ─────────────────────────  implementations  ────────────────────────── */
+
+/**
+ * Store a fact, updating an existing one that says the same thing.
+ */
+async function remember(
+  params: z.infer<typeof rememberSchema>
+): Promise<RememberResult> {
+  try {
+    const { fact, merged } = await rememberFact(
+      {
+        content: params.fact,
+        category: params.category,
+        entities: params.entities,
+        source: 'tool',
+        sourceThreadId: getToolContext().threadId,
+      },
+      storeScope(params.scope)
+    );
+    return { success: true, fact: toItem(fact), merged };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Find remembered facts relevant to a query.
+ */
+async function recall(
+  params: z.infer<typeof recallSchema>
+): Promise<RecallResult> {
+  try {
+    const matches = await recallFacts(params.query, callerScope(), {
+      limit: params.limit,
+      threshold: RECALL_THRESHOLD,
+      entity: params.entity,
+    });
+    return {
+      success: true,
+      query: params.query,
+      facts: matches.map(({ fact, similarity }) => ({
+        ...toItem(fact),
+        similarity,
+      })),
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/**
+ * Delete remembered facts by id or description.
+ */
+async function forget(
+  params: z.infer<typeof forgetSchema>
+): Promise<ForgetResult> {
+  try {
+    const forgotten = await forgetFacts(
+      { ids: params.factIds, query: params.description },
+      callerScope(),
+      { threshold: FORGET_THRESHOLD, limit: 1 }
+    );
+    return { success: true, forgotten: forgotten.map(toItem) };
+  } catch (err) {
+    return {
+      success: false,
+      error: (err as Error).message,
+    } satisfies ToolFailure;
+  }
+}
+
+/* ─────────────────────────────  exports  ────────────────────────────── */
+
+/**
+ * Public “memory” tools object, ready for `generateText` / `streamText`.
+ */
+export const tools = {
+  remember: tool({
+    description:
+      'Remember a lasting fact for future conversations, such as a user preference or detail',
+    parameters: rememberSchema,
+    execute: remember,
+  }),
+  recall: tool({
+    description: 'Recall facts remembered from earlier conversations',
+    parameters: recallSchema,
+    execute: recall,
+  }),
+  forget: tool({
+    description:
+      'Forget remembered facts that are wrong, outdated or that the user asked to forget',
+    parameters: forgetSchema,
+    execute: forget,
+  }),
+};
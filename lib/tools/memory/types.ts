@@ -0,0 +1,67 @@
+/**
+ * @file Discriminated-union result shapes + handy type-guards for the memory
+ *       tools.
+ */
+
+import type { FactCategory } from '@/lib/memory/long-term-memory';
+
+/* ------------------------------------------------------------------ */
+/*                             Failure                                */
+/* ------------------------------------------------------------------ */
+
+export interface ToolFailure {
+  success: false;
+  error: string;
+}
+
+/** A fact as shown to the model. */
+export interface FactItem {
+  id: string;
+  content: string;
+  category?: FactCategory;
+  entities: string[];
+  scope: 'user' | 'agent';
+  updatedAt: string;
+}
+
+/* ------------------------------------------------------------------ */
+/*                             remember                               */
+/* ------------------------------------------------------------------ */
+
+export interface RememberSuccess {
+  success: true;
+  fact: FactItem;
+  /** True when an existing fact was updated instead of adding one */
+  merged: boolean;
+}
+
+export type RememberResult = RememberSuccess | ToolFailure;
+export const isRememberSuccess = (r: RememberResult): r is RememberSuccess =>
+  r.success;
+
+/* ------------------------------------------------------------------ */
+/*                              recall                                */
+/* ------------------------------------------------------------------ */
+
+export interface RecallSuccess {
+  success: true;
+  query: string;
+  facts: Array<FactItem & { similarity: number }>;
+}
+
+export type RecallResult = RecallSuccess | ToolFailure;
+export const isRecallSuccess = (r: RecallResult): r is RecallSuccess =>
+  r.success;
+
+/* ------------------------------------------------------------------ */
+/*                              forget                                */
+/* ------------------------------------------------------------------ */
+
+export interface ForgetSuccess {
+  success: true;
+  forgotten: FactItem[];
+}
+
+export type ForgetResult = ForgetSuccess | ToolFailure;
+export const isForgetSuccess = (r: ForgetResult): r is ForgetSuccess =>
+  r.success;
@@ -0,0 +1,648 @@
+/**
+ * @file Chunking strategies for the "rag" tool-suite.
+ *
+ * @remarks
+ *   • `fixed` and `recursive` split on size alone.
+ *   • `semantic` embeds every sentence (with its neighbours) and splits where
+ *     the similarity of adjacent sentences drops below a percentile
+ *     threshold.
+ *   • `markdown`, `code` and `html` follow the document's structure
+ *     (headings, top-level declarations) and record where each chunk came
+ *     from as `breadcrumbs`, outermost first, e.g.
+ *     `['guide.md', 'Installation', 'From source']`.
+ *   • Structural units larger than `chunkSize` are split recursively and keep
+ *     their breadcrumbs; small adjacent units are packed together.
+ */
+
+import * as cheerio from 'cheerio';
+import { embedTexts } from '@/lib/memory/embeddings';
+import { cosineSimilarity } from '@/lib/memory/similarity';
+import {
+  CHUNKING_STRATEGIES,
+  DEFAULT_BREAKPOINT_PERCENTILE,
+  BREADCRUMB_SEPARATOR,
+} from './constants';
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * Where a chunk sits in its document
+ */
+export interface ChunkLocation {
+  /** Source, sections and symbols enclosing the chunk, outermost first */
+  breadcrumbs: string[];
+  /** Innermost heading (markdown / html) */
+  section?: string;
+  headingLevel?: number;
+  /** Declarations in the chunk (code) */
+  symbols?: string[];
+  language?: string;
+  /** 1-based, inclusive (markdown / code) */
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface TextChunk {
+  content: string;
+  location: ChunkLocation;
+}
+
+export interface ChunkOptions {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+  /** File name, path or URL; becomes the first breadcrumb */
+  source?: string;
+  /** Programming language for `code`; inferred from `source` otherwise */
+  language?: string;
+  /** Percentile of adjacent-sentence distances that starts a new chunk (`semantic`) */
+  breakpointPercentile?: number;
+  /** Embeds texts for `semantic`; defaults to the default embedding provider */
+  embed?: (texts: string[]) => Promise<ArrayLike<number>[]>;
+}
+
+/**
+ * Formats breadcrumbs for citing a chunk, e.g. `guide.md › Setup › Docker`
+ */
+export function formatBreadcrumbs(breadcrumbs: string[]): string {
+  return breadcrumbs.filter(Boolean).join(BREADCRUMB_SEPARATOR);
+}
+
+/* ─────────────────────────────  size-based  ───────────────────────────── */
+
+/**
+ * Chunk text using a fixed size strategy
+ */
+export function chunkTextFixed(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number
+): string[] {
+  const chunks: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const chunk = text.slice(i, i + chunkSize);
+    chunks.push(chunk);
+    i += chunkSize - chunkOverlap;
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk text using a recursive strategy (split by sections, then paragraphs, then sentences)
+ */
+export function chunkTextRecursive(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number
+): string[] {
+  // Split by double newlines (sections)
+  const sections = text.split(/\n\s*\n/);
+
+  const chunks: string[] = [];
+
+  for (const section of sections) {
+    if (section.length <= chunkSize) {
+      chunks.push(section);
+      continue;
+    }
+
+    // Split by single newlines (paragraphs)
+    const paragraphs = section.split(/\n/);
+    let currentChunk = '';
+
+    for (const paragraph of paragraphs) {
+      if (currentChunk.length + paragraph.length <= chunkSize) {
+        currentChunk += (currentChunk ? '\n' : '') + paragraph;
+      } else {
+        if (currentChunk) {
+          chunks.push(currentChunk);
+          // Add overlap by keeping the last part of the previous chunk
+          const overlapText =
+            chunkOverlap > 0 ? currentChunk.slice(-chunkOverlap) + '\n' : '';
+          currentChunk = overlapText + paragraph;
+        } else {
+          // Paragraph is longer than chunk size, split by sentences
+          const sentences = paragraph.match(/[^.!?]+[.!?]+/g) || [paragraph];
+          let sentenceChunk = '';
+
+          for (const sentence of sentences) {
+            if (sentenceChunk.length + sentence.length <= chunkSize) {
+              sentenceChunk += sentenceChunk ? ' ' + sentence : sentence;
+            } else {
+              if (sentenceChunk) {
+                chunks.push(sentenceChunk);
+                // Add overlap
+                const overlapText =
+                  chunkOverlap > 0
+                    ? sentenceChunk.slice(-chunkOverlap) + ' '
+                    : '';
+                sentenceChunk = overlapText + sentence;
+              } else {
+                // Sentence is too long, force split
+                chunks.push(sentence.slice(0, chunkSize));
+              }
+            }
+          }
+
+          if (sentenceChunk) {
+            chunks.push(sentenceChunk);
+          }
+        }
+      }
+    }
+
+    if (currentChunk) {
+      chunks.push(currentChunk);
+    }
+  }
+
+  return chunks;
+}
+
+/* ───────────────────────────────  semantic  ───────────────────────────── */
+
+/**
+ * Splits text into sentences, keeping each sentence's trailing whitespace so
+ * joining them restores the original text
+ */
+export function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]*(?:[.!?]+["')\]]*|\n|$)\s*/g) ?? []).filter(
+    (sentence) => sentence.trim()
+  );
+}
+
+// Linear interpolation between the closest ranks
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Groups sentences into chunks, breaking where the embedding distance
+ * between neighbouring sentences is in the top `breakpointPercentile`, or
+ * where a chunk would exceed `chunkSize`.
+ */
+async function chunkSemantic(
+  text: string,
+  options: ChunkOptions
+): Promise<TextChunk[]> {
+  const { chunkSize, chunkOverlap, source } = options;
+  const location = (): ChunkLocation => ({
+    breadcrumbs: source ? [source] : [],
+  });
+  const sentences = splitSentences(text);
+  if (sentences.length < 3) {
+    return chunkTextRecursive(text, chunkSize, chunkOverlap).map((content) => ({
+      content,
+      location: location(),
+    }));
+  }
+
+  // Each sentence is embedded with its neighbours to smooth out short ones
+  const windows = sentences.map((_, i) =>
+    sentences
+      .slice(Math.max(i - 1, 0), i + 2)
+      .join('')
+      .trim()
+  );
+  const vectors = await (options.embed ?? embedTexts)(windows);
+  const distances = vectors
+    .slice(1)
+    .map((vector, i) => 1 - cosineSimilarity(vectors[i], vector));
+  const threshold = percentile(
+    distances,
+    options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE
+  );
+
+  const groups: string[] = [];
+  let current = '';
+  sentences.forEach((sentence, i) => {
+    const breakpoint = i > 0 && distances[i - 1] > threshold;
+    if (
+      current &&
+      (breakpoint || current.length + sentence.length > chunkSize)
+    ) {
+      groups.push(current);
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current) groups.push(current);
+
+  return groups.flatMap((group) =>
+    (group.length > chunkSize
+      ? chunkTextRecursive(group, chunkSize, chunkOverlap)
+      : [group]
+    )
+      .map((content) => content.trim())
+      .filter(Boolean)
+      .map((content) => ({ content, location: location() }))
+  );
+}
+
+/* ────────────────────────  sections (markdown/html)  ──────────────────── */
+
+interface Heading {
+  level: number;
+  title: string;
+}
+
+// A heading and the content up to the next heading
+interface Section {
+  headings: Heading[];
+  content: string;
+  hasBody: boolean;
+  startLine?: number;
+  endLine?: number;
+}
+
+const isPrefix = (prefix: Heading[], path: Heading[]) =>
+  prefix.length <= path.length &&
+  prefix.every((heading, i) => heading === path[i]);
+
+/**
+ * Packs sections into chunks. A section is merged into the previous chunk
+ * when it is nested under that chunk's heading and both fit in `chunkSize`;
+ * oversized sections are split recursively.
+ */
+function packSections(sections: Section[], options: ChunkOptions): TextChunk[] {
+  const { chunkSize, chunkOverlap, source } = options;
+  const packed: Section[] = [];
+  for (const section of sections) {
+    // Headings followed directly by a sub-heading only add breadcrumbs
+    if (!section.hasBody) continue;
+    const last = packed[packed.length - 1];
+    if (
+      last &&
+      isPrefix(last.headings, section.headings) &&
+      last.content.length + section.content.length + 2 <= chunkSize
+    ) {
+      last.content = `${last.content}\n\n${section.content}`;
+      last.endLine = section.endLine;
+    } else {
+      packed.push({ ...section });
+    }
+  }
+
+  return packed.flatMap((section) => {
+    const innermost = section.headings[section.headings.length - 1];
+    const location: ChunkLocation = {
+      breadcrumbs: [
+        ...(source ? [source] : []),
+        ...section.headings.map((heading) => heading.title),
+      ],
+      section: innermost?.title,
+      headingLevel: innermost?.level,
+      startLine: section.startLine,
+      endLine: section.endLine,
+    };
+    const pieces =
+      section.content.length > chunkSize
+        ? chunkTextRecursive(section.content, chunkSize, chunkOverlap)
+        : [section.content];
+    return pieces
+      .map((content) => content.trim())
+      .filter(Boolean)
+      .map((content) => ({ content, location: { ...location } }));
+  });
+}
+
+// Replaces the headings at `level` and deeper with a new heading
+function pushHeading(stack: Heading[], heading: Heading): Heading[] {
+  return [...stack.filter((h) => h.level < heading.level), heading];
+}
+
+/**
+ * Splits Markdown on ATX headings (`#` … `######`), ignoring `#` lines
+ * inside fenced code blocks
+ */
+function chunkMarkdown(text: string, options: ChunkOptions): TextChunk[] {
+  const lines = text.split('\n');
+  const sections: Section[] = [];
+  let stack: Heading[] = [];
+  let current: Section = {
+    headings: [],
+    content: '',
+    hasBody: false,
+    startLine: 1,
+  };
+  let fence: string | null = null;
+
+  const flush = (endLine: number) => {
+    current.content = current.content.trim();
+    current.endLine = endLine;
+    if (current.content) sections.push(current);
+  };
+
+  lines.forEach((line, i) => {
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      }
+    }
+    const heading =
+      !fence && !fenceMatch ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+
+    if (heading) {
+      flush(i);
+      stack = pushHeading(stack, {
+        level: heading[1].length,
+        title: heading[2],
+      });
+      current = {
+        headings: stack,
+        content: line,
+        hasBody: false,
+        startLine: i + 1,
+      };
+    } else {
+      current.content += `\n${line}`;
+      if (line.trim()) current.hasBody = true;
+    }
+  });
+  flush(lines.length);
+
+  return packSections(sections, options);
+}
+
+const HTML_BLOCKS =
+  'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, th, dt, dd, figcaption';
+
+/**
+ * Splits HTML on `h1`–`h6`, collecting the text of block elements under
+ * each heading. Scripts, styles and other non-content elements are dropped.
+ */
+function chunkHtml(html: string, options: ChunkOptions): TextChunk[] {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg, iframe').remove();
+
+  const sections: Section[] = [];
+  let stack: Heading[] = [];
+  let current: Section = { headings: [], content: '', hasBody: false };
+
+  $(HTML_BLOCKS).each((_, element) => {
+    // Nested blocks (a <p> inside an <li>) are part of their ancestor's text
+    if ($(element).parents(HTML_BLOCKS).length > 0) return;
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    const tag = element.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      if (current.content) sections.push(current);
+      stack = pushHeading(stack, { level: Number(tag[1]), title: text });
+      current = { headings: stack, content: text, hasBody: false };
+    } else {
+      const block =
+        tag === 'pre'
+          ? $(element).text().trim()
+          : tag === 'li'
+            ? `- ${text}`
+            : text;
+      current.content += current.content ? `\n\n${block}` : block;
+      current.hasBody = true;
+    }
+  });
+  if (current.content) sections.push(current);
+
+  return packSections(sections, {
+    ...options,
+    source: options.source ?? ($('title').first().text().trim() || undefined),
+  });
+}
+
+/* ─────────────────────────────────  code  ─────────────────────────────── */
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  cs: 'csharp',
+  rb: 'ruby',
+  php: 'php',
+};
+
+// Top-level declarations, capturing the declared name
+const DECLARATION_PATTERNS: Record<string, RegExp> = {
+  typescript:
+    /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  python: /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+  go: /^(?:func|type)\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  rust: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|impl|mod|type|const|static)\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/,
+  java: /^(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|data|partial)\s+)*(?:class|interface|enum|record|object|fun|struct)\s+([A-Za-z_]\w*)/,
+  ruby: /^(?:def|class|module)\s+([\w.:?!]+)/,
+  php: /^(?:(?:abstract|final)\s+)?(?:function|class|interface|trait)\s+(\w+)/,
+};
+DECLARATION_PATTERNS.javascript = DECLARATION_PATTERNS.typescript;
+DECLARATION_PATTERNS.kotlin = DECLARATION_PATTERNS.java;
+DECLARATION_PATTERNS.csharp = DECLARATION_PATTERNS.java;
+
+// Methods inside a class body (brace languages)
+const MEMBER_PATTERN =
+  /^(?!(?:if|for|while|switch|catch|return|new)\b)(?:(?:public|private|protected|internal|static|final|abstract|override|async|readonly|get|set|virtual|def|fn|fun|func)\s+)*\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/;
+
+// Comments, doc-blocks, decorators and attributes that belong to the next declaration
+const LEADING_TRIVIA = /^\s*(?:\/\/|\/\*|\*|#(?!\w*\s*=)|@|\/\/\/)/;
+
+interface CodeUnit {
+  symbols: string[];
+  /** Enclosing symbols (a class for its methods) */
+  parents: string[];
+  lines: string[];
+  startLine: number;
+}
+
+export function detectLanguage(source?: string): string | undefined {
+  const extension = source?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension ? LANGUAGE_BY_EXTENSION[extension] : undefined;
+}
+
+/**
+ * Splits lines at the lines for which `nameAt` returns a name; comments and
+ * decorators directly above a boundary move with it
+ */
+function splitAtBoundaries(
+  lines: string[],
+  startLine: number,
+  parents: string[],
+  nameAt: (line: string) => string | undefined
+): CodeUnit[] {
+  const units: CodeUnit[] = [];
+  let current: CodeUnit = { symbols: [], parents, lines: [], startLine };
+
+  lines.forEach((line, i) => {
+    const name = nameAt(line);
+    if (name === undefined) {
+      current.lines.push(line);
+      return;
+    }
+    // Move trailing comments / decorators of the previous unit to this one
+    let trivia = 0;
+    while (
+      trivia < current.lines.length &&
+      LEADING_TRIVIA.test(current.lines[current.lines.length - 1 - trivia])
+    ) {
+      trivia++;
+    }
+    const leading = current.lines.splice(current.lines.length - trivia, trivia);
+    if (current.lines.some((l) => l.trim())) units.push(current);
+    current = {
+      symbols: [name],
+      parents,
+      lines: [...leading, line],
+      startLine: startLine + i - leading.length,
+    };
+  });
+  if (current.lines.some((l) => l.trim())) units.push(current);
+
+  return units;
+}
+
+// Splits an oversized declaration (usually a class) into its members
+function splitMembers(unit: CodeUnit, pattern: RegExp): CodeUnit[] {
+  // Leading comments and decorators stay with the declaration line
+  const header = unit.lines.findIndex((line) => !LEADING_TRIVIA.test(line)) + 1;
+  const body = unit.lines.slice(header);
+  const indent = body
+    .find((line) => line.trim() && !/^\s*[}\])]/.test(line))
+    ?.match(/^\s*/)?.[0];
+  if (!indent) return [unit];
+
+  const members = splitAtBoundaries(
+    body,
+    unit.startLine + header,
+    [...unit.parents, ...unit.symbols],
+    (line) => {
+      if (!line.startsWith(indent) || /^\s/.test(line.slice(indent.length))) {
+        return undefined;
+      }
+      const trimmed = line.trim();
+      return (trimmed.match(pattern) ?? trimmed.match(MEMBER_PATTERN))?.[1];
+    }
+  );
+  if (members.length < 2) return [unit];
+
+  // The declaration line joins the first member (fields, constructor, ...)
+  members[0].lines.unshift(...unit.lines.slice(0, header));
+  members[0].startLine = unit.startLine;
+  if (!members[0].symbols.length) {
+    members[0].parents = unit.parents;
+    members[0].symbols = unit.symbols;
+  }
+  return members;
+}
+
+/**
+ * Splits source code on top-level declarations (functions, classes,
+ * types...). Oversized classes are split into methods; consecutive small
+ * declarations are packed together.
+ */
+function chunkCode(text: string, options: ChunkOptions): TextChunk[] {
+  const { chunkSize, chunkOverlap, source } = options;
+  const language = options.language ?? detectLanguage(source);
+  const pattern = language ? DECLARATION_PATTERNS[language] : undefined;
+  if (!language || !pattern) {
+    return chunkTextRecursive(text, chunkSize, chunkOverlap).map((content) => ({
+      content,
+      location: { breadcrumbs: source ? [source] : [], language },
+    }));
+  }
+
+  const units = splitAtBoundaries(text.split('\n'), 1, [], (line) =>
+    /^\s/.test(line) ? undefined : line.match(pattern)?.[1]
+  ).flatMap((unit) =>
+    unit.lines.join('\n').length > chunkSize
+      ? splitMembers(unit, pattern)
+      : [unit]
+  );
+
+  // Pack small neighbours that share a parent
+  const packed: CodeUnit[] = [];
+  for (const unit of units) {
+    const last = packed[packed.length - 1];
+    if (
+      last &&
+      last.parents.join('.') === unit.parents.join('.') &&
+      last.lines.join('\n').length + unit.lines.join('\n').length + 1 <=
+        chunkSize
+    ) {
+      last.lines.push(...unit.lines);
+      last.symbols.push(...unit.symbols);
+    } else {
+      packed.push({ ...unit, symbols: [...unit.symbols] });
+    }
+  }
+
+  return packed.flatMap((unit) => {
+    const content = unit.lines.join('\n');
+    const location: ChunkLocation = {
+      breadcrumbs: [
+        ...(source ? [source] : []),
+        ...unit.parents,
+        ...(unit.symbols.length ? [unit.symbols.join(', ')] : []),
+      ],
+      symbols: unit.symbols,
+      language,
+      startLine: unit.startLine,
+      endLine: unit.startLine + unit.lines.length - 1,
+    };
+    const pieces =
+      content.length > chunkSize
+        ? chunkTextRecursive(content, chunkSize, chunkOverlap)
+        : [content];
+    return pieces
+      .filter((piece) => piece.trim())
+      .map((piece) => ({ content: piece, location: { ...location } }));
+  });
+}
+
+/* ─────────────────────────────────  entry  ────────────────────────────── */
+
+/**
+ * Chunk text using the specified strategy
+ */
+export async function chunkText(
+  text: string,
+  options: ChunkOptions
+): Promise<TextChunk[]> {
+  const { strategy, chunkSize, chunkOverlap, source } = options;
+  const plain = (chunks: string[]) =>
+    chunks.map((content) => ({
+      content,
+      location: { breadcrumbs: source ? [source] : [] },
+    }));
+
+  switch (strategy) {
+    case 'recursive':
+      return plain(chunkTextRecursive(text, chunkSize, chunkOverlap));
+    case 'semantic':
+      return chunkSemantic(text, options);
+    case 'markdown':
+      return chunkMarkdown(text, options);
+    case 'html':
+      return chunkHtml(text, options);
+    case 'code':
+      return chunkCode(text, options);
+    case 'fixed':
+    default:
+      return plain(chunkTextFixed(text, chunkSize, chunkOverlap));
+  }
+}
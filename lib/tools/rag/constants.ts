@@ -2,15 +2,78 @@
  * @file Shared literals & utility constants for the "rag" tool-suite.
  */
 
-export const VECTOR_DIMENSIONS = 1536 as const;
-export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-ada-002' as const;
+import * as path from 'node:path';
+
 export const DEFAULT_SEARCH_LIMIT = 5 as const;
 export const MAX_SEARCH_LIMIT = 20 as const;
 
 export const VECTOR_PROVIDERS = ['supabase', 'libsql', 'upstash'] as const;
-export const CHUNKING_STRATEGIES = ['fixed', 'recursive', 'semantic'] as const;
+export const CHUNKING_STRATEGIES = [
+  'fixed',
+  'recursive',
+  'semantic',
+  'markdown',
+  'code',
+  'html',
+] as const;
 
 export const DEFAULT_CHUNK_SIZE = 1000 as const;
 export const DEFAULT_CHUNK_OVERLAP = 200 as const;
 
+/** Adjacent-sentence distances above this percentile start a new semantic chunk */
+export const DEFAULT_BREAKPOINT_PERCENTILE = 90 as const;
+export const BREADCRUMB_SEPARATOR = ' › ' as const;
+
 export const SIMILARITY_METRICS = ['cosine', 'euclidean', 'dot'] as const;
+
+/** How hybrid search merges its keyword (BM25) and vector rankings */
+export const FUSION_METHODS = ['rrf', 'weighted'] as const;
+/**
+ * Vector stores hybrid search can fuse with; both keep the document text the
+ * keyword index and results need, which the Supabase embeddings table does not
+ */
+export const HYBRID_VECTOR_PROVIDERS = ['libsql', 'upstash'] as const;
+/** Reciprocal rank fusion constant; larger values flatten the rank curve */
+export const RRF_K = 60 as const;
+/** Each hybrid leg fetches `limit ×` this many candidates before fusion */
+export const HYBRID_CANDIDATE_MULTIPLIER = 4 as const;
+
+/** Optional second pass over search results before they reach the model */
+export const RERANK_STRATEGIES = ['llm', 'cross-encoder', 'mmr'] as const;
+/** Reranked searches fetch `limit ×` this many candidates first */
+export const RERANK_CANDIDATE_MULTIPLIER = 3 as const;
+export const DEFAULT_LLM_RERANK_MODEL = 'gemini-2.0-flash' as const;
+/** Candidates the LLM reranker scores at once */
+export const LLM_RERANK_CONCURRENCY = 5 as const;
+/** MS MARCO cross-encoder, run locally with transformers.js */
+export const DEFAULT_CROSS_ENCODER_MODEL =
+  'Xenova/ms-marco-MiniLM-L-6-v2' as const;
+/** MMR trade-off: 1 ranks by relevance only, 0 by novelty only */
+export const DEFAULT_MMR_LAMBDA = 0.7 as const;
+/** Cut-off for recall@k and nDCG@k in retrieval evals */
+export const DEFAULT_EVAL_K = 5 as const;
+
+/**
+ * Folder that knowledge-base sources are read from; ingestion rejects paths
+ * outside it, including through symlinks. Defaults to `knowledge-base/` in
+ * the working directory; override with the `KNOWLEDGE_BASE_ROOT` environment
+ * variable.
+ */
+export const KNOWLEDGE_BASE_ROOT = path.resolve(
+  process.env.KNOWLEDGE_BASE_ROOT || 'knowledge-base'
+);
+
+export const KNOWLEDGE_BASE_SOURCE_TYPES = [
+  'pdf',
+  'docx',
+  'html',
+  'markdown',
+  'csv',
+  'json',
+  'text',
+] as const;
+
+/** Files larger than this are recorded as failed instead of loaded */
+export const MAX_SOURCE_FILE_BYTES = 25 * 1024 * 1024;
+/** Upper bound on files one ingestion job will walk */
+export const MAX_SOURCES_PER_JOB = 1000 as const;
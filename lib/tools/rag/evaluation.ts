@@ -0,0 +1,319 @@
+/**
+ * @file Retrieval evaluation for the "rag" tool-suite: scores chunking,
+ *       embedding and rerank configurations against labelled queries.
+ *
+ * @remarks
+ *   • Each configuration chunks and embeds the dataset's documents in
+ *     memory, so runs never touch the document store.
+ *   • Chunks are ranked by cosine similarity to the query, optionally
+ *     reranked, then collapsed to the documents they came from; metrics are
+ *     computed over the top `k` distinct documents.
+ *   • The labelled queries are stored with `createEvaluationDataset` and
+ *     each configuration's scores with `runModelEvaluation`.
+ */
+
+import {
+  createEvaluationDataset,
+  runModelEvaluation,
+} from '@/lib/ai-sdk-tracing';
+import { embedTexts, getEmbeddingProvider } from '@/lib/memory/embeddings';
+import { cosineSimilarity } from '@/lib/memory/similarity';
+import { upstashLogger } from '@/lib/memory/upstash/upstash-logger';
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_EVAL_K,
+  RERANK_CANDIDATE_MULTIPLIER,
+} from './constants';
+import { chunkText, type ChunkingStrategy } from './chunking';
+import { rerank, type RerankOptions } from './rerank';
+
+type Embedder = (texts: string[]) => Promise<ArrayLike<number>[]>;
+
+export interface RetrievalEvalDocument {
+  id: string;
+  content: string;
+  title?: string;
+  /** File name or URL; becomes the first breadcrumb of every chunk */
+  source?: string;
+}
+
+export interface RetrievalEvalQuery {
+  query: string;
+  /** IDs of the documents that answer the query */
+  relevant: string[];
+}
+
+export interface RetrievalEvalDataset {
+  name: string;
+  description?: string;
+  documents: RetrievalEvalDocument[];
+  queries: RetrievalEvalQuery[];
+}
+
+export interface RetrievalEvalConfig {
+  /** Label for the report and the stored evaluation run */
+  name: string;
+  chunking?: {
+    strategy?: ChunkingStrategy;
+    chunkSize?: number;
+    chunkOverlap?: number;
+  };
+  /** Embedding provider name from the registry; the default provider otherwise */
+  embedding?: string;
+  rerank?: Omit<RerankOptions, 'topK' | 'embed'>;
+}
+
+export interface RetrievalMetrics {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface RetrievalEvalQueryResult {
+  query: string;
+  relevant: string[];
+  /** Top `k` document IDs, best first */
+  retrieved: string[];
+  metrics: RetrievalMetrics;
+}
+
+export interface RetrievalEvalResult {
+  config: string;
+  /** Embedding provider and model, e.g. `openai/text-embedding-3-small` */
+  embeddingModel: string;
+  chunkCount: number;
+  /** Mean over all queries */
+  metrics: RetrievalMetrics;
+  queries: RetrievalEvalQueryResult[];
+  evaluationRunId: string | null;
+}
+
+export interface RetrievalEvalReport {
+  dataset: string;
+  datasetId: string | null;
+  k: number;
+  results: RetrievalEvalResult[];
+}
+
+/* ─────────────────────────────  metrics  ───────────────────────────── */
+
+/**
+ * Recall@k, reciprocal rank and nDCG@k of one ranking with binary relevance
+ */
+export function scoreRanking(
+  retrieved: string[],
+  relevant: string[],
+  k: number
+): RetrievalMetrics {
+  const relevantIds = new Set(relevant);
+  const top = retrieved.slice(0, k);
+  if (relevantIds.size === 0) return { recall: 0, mrr: 0, ndcg: 0 };
+
+  const hits = top.filter((id) => relevantIds.has(id)).length;
+  const firstHit = top.findIndex((id) => relevantIds.has(id));
+
+  const gain = (rank: number) => 1 / Math.log2(rank + 2);
+  const dcg = top.reduce(
+    (sum, id, rank) => sum + (relevantIds.has(id) ? gain(rank) : 0),
+    0
+  );
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(relevantIds.size, k); rank++) {
+    idealDcg += gain(rank);
+  }
+
+  return {
+    recall: hits / relevantIds.size,
+    mrr: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: dcg / idealDcg,
+  };
+}
+
+function meanMetrics(results: RetrievalMetrics[]): RetrievalMetrics {
+  const mean = (key: keyof RetrievalMetrics) =>
+    results.length === 0
+      ? 0
+      : results.reduce((sum, metrics) => sum + metrics[key], 0) /
+        results.length;
+  return { recall: mean('recall'), mrr: mean('mrr'), ndcg: mean('ndcg') };
+}
+
+/** Metrics keyed the way they are stored with an evaluation run */
+function metricScores(metrics: RetrievalMetrics, k: number) {
+  return {
+    [`recall@${k}`]: metrics.recall,
+    mrr: metrics.mrr,
+    [`ndcg@${k}`]: metrics.ndcg,
+  };
+}
+
+/* ─────────────────────────────  retrieval  ───────────────────────────── */
+
+interface EvalChunk {
+  id: string;
+  documentId: string;
+  content: string;
+  vector: ArrayLike<number>;
+}
+
+async function indexDocuments(
+  documents: RetrievalEvalDocument[],
+  config: RetrievalEvalConfig,
+  embed: Embedder
+): Promise<EvalChunk[]> {
+  const chunks: Omit<EvalChunk, 'vector'>[] = [];
+  for (const document of documents) {
+    const textChunks = await chunkText(document.content, {
+      strategy: config.chunking?.strategy ?? 'recursive',
+      chunkSize: config.chunking?.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      chunkOverlap: config.chunking?.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+      source: document.source ?? document.title,
+      embed,
+    });
+    textChunks.forEach((chunk, i) =>
+      chunks.push({
+        id: `${document.id}#${i}`,
+        documentId: document.id,
+        content: chunk.content,
+      })
+    );
+  }
+
+  const vectors = await embed(chunks.map((chunk) => chunk.content));
+  return chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] }));
+}
+
+/**
+ * Top `k` distinct document IDs for a query, best first
+ */
+async function retrieve(
+  query: string,
+  chunks: EvalChunk[],
+  config: RetrievalEvalConfig,
+  embed: Embedder,
+  k: number
+): Promise<string[]> {
+  const [queryVector] = await embed([query]);
+  let ranked = chunks
+    .map((chunk) => ({
+      ...chunk,
+      score: cosineSimilarity(queryVector, chunk.vector),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  if (config.rerank) {
+    ranked = await rerank(
+      query,
+      ranked.slice(0, k * RERANK_CANDIDATE_MULTIPLIER),
+      { ...config.rerank, embed }
+    );
+  }
+
+  const documentIds = new Set<string>();
+  for (const chunk of ranked) {
+    documentIds.add(chunk.documentId);
+    if (documentIds.size === k) break;
+  }
+  return [...documentIds];
+}
+
+/* ─────────────────────────────  entry  ───────────────────────────── */
+
+/**
+ * Score each configuration on the dataset and store the dataset and one
+ * evaluation run per configuration
+ */
+export async function runRetrievalEval(
+  dataset: RetrievalEvalDataset,
+  configs: RetrievalEvalConfig[],
+  { k = DEFAULT_EVAL_K }: { k?: number } = {}
+): Promise<RetrievalEvalReport> {
+  const stored = await createEvaluationDataset({
+    name: dataset.name,
+    description: dataset.description,
+    items: dataset.queries.map(({ query, relevant }) => ({
+      input: { query },
+      expectedOutput: { relevant },
+    })),
+  });
+  if (!stored) {
+    upstashLogger.warn(
+      'rag',
+      `Could not store evaluation dataset ${dataset.name}; results will not be recorded`
+    );
+  }
+
+  const results: RetrievalEvalResult[] = [];
+  for (const config of configs) {
+    // Vectors are cached by content, so the semantic chunker, the index and
+    // the MMR reranker embed each text once
+    const provider = getEmbeddingProvider(config.embedding);
+    const embed: Embedder = (texts) => embedTexts(texts, provider.name);
+    const embeddingModel = `${provider.name}/${provider.model}`;
+
+    const chunks = await indexDocuments(dataset.documents, config, embed);
+    const queries: RetrievalEvalQueryResult[] = [];
+    for (const { query, relevant } of dataset.queries) {
+      const retrieved = await retrieve(query, chunks, config, embed, k);
+      queries.push({
+        query,
+        relevant,
+        retrieved,
+        metrics: scoreRanking(retrieved, relevant, k),
+      });
+    }
+    const metrics = meanMetrics(queries.map((result) => result.metrics));
+
+    const run = stored
+      ? await runModelEvaluation({
+          name: `${dataset.name}/${config.name}`,
+          modelId: embeddingModel,
+          datasetId: stored.id,
+          metrics: metricScores(metrics, k),
+          results: queries.map((result) => ({
+            input: { query: result.query },
+            output: { retrieved: result.retrieved },
+            expectedOutput: { relevant: result.relevant },
+            scores: metricScores(result.metrics, k),
+            metadata: { config: config.name },
+          })),
+        })
+      : null;
+
+    upstashLogger.info(
+      'rag',
+      `Retrieval eval ${dataset.name}/${config.name}: recall@${k} ${metrics.recall.toFixed(3)}, MRR ${metrics.mrr.toFixed(3)}, nDCG@${k} ${metrics.ndcg.toFixed(3)}`
+    );
+    results.push({
+      config: config.name,
+      embeddingModel,
+      chunkCount: chunks.length,
+      metrics,
+      queries,
+      evaluationRunId: run?.id ?? null,
+    });
+  }
+
+  return {
+    dataset: dataset.name,
+    datasetId: stored?.id ?? null,
+    k,
+    results,
+  };
+}
+
+/**
+ * Markdown table of a report, one row per configuration
+ */
+export function formatRetrievalEvalReport(report: RetrievalEvalReport): string {
+  const { k } = report;
+  return [
+    `| Config | Embedding | Chunks | Recall@${k} | MRR | nDCG@${k} |`,
+    '| --- | --- | ---: | ---: | ---: | ---: |',
+    ...report.results.map(
+      (result) =>
+        `| ${result.config} | ${result.embeddingModel} | ${result.chunkCount} | ${result.metrics.recall.toFixed(3)} | ${result.metrics.mrr.toFixed(3)} | ${result.metrics.ndcg.toFixed(3)} |`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,426 @@
+/**
+ * @file Provider-agnostic hybrid search: a local BM25 keyword index fused
+ *       with the vector search of any of the `HYBRID_VECTOR_PROVIDERS`.
+ *
+ * @remarks
+ *   • Keywords are ranked by BM25 from an SQLite FTS5 table,
+ *     `documents_fts`, kept in sync with `documents` by triggers. It is
+ *     created (and back-filled) on first use, so every writer of
+ *     `documents` (DocumentAdd, VectorStoreUpsert, knowledge-base
+ *     ingestion) is indexed without further changes.
+ *   • Vectors come from the selected provider; the keyword leg is always the
+ *     local index, so `libsql` runs entirely offline.
+ *   • The two ranked lists are merged with reciprocal rank fusion
+ *     (`Σ weight / (k + rank)`) or a weighted sum of min-max normalised
+ *     scores, both honouring `keywordWeight` and `vectorWeight`.
+ *   • Metadata filters are pushed down into SQL as `json_extract`
+ *     comparisons (arrays match any of their values) and into the Upstash
+ *     filter expression; results are checked again locally so every
+ *     provider filters the same way.
+ */
+
+import { getLibSQLClient } from '@/lib/memory/db';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  embedForNamespace,
+} from '@/lib/memory/embedding-namespaces';
+import { cosineSimilarity } from '@/lib/memory/similarity';
+import { upstashLogger } from '@/lib/memory/upstash/upstash-logger';
+import { isUpstashVectorAvailable } from '@/lib/memory/upstash/upstashClients';
+import { searchTextStore as upstashSearchTextStore } from '@/lib/memory/upstash/vector-store';
+import {
+  FUSION_METHODS,
+  HYBRID_CANDIDATE_MULTIPLIER,
+  HYBRID_VECTOR_PROVIDERS,
+  RRF_K,
+} from './constants';
+
+export type VectorProvider = (typeof HYBRID_VECTOR_PROVIDERS)[number];
+export type FusionMethod = (typeof FUSION_METHODS)[number];
+export type MetadataFilter = Record<string, unknown>;
+
+export interface HybridSearchOptions {
+  provider: VectorProvider;
+  limit: number;
+  filter?: MetadataFilter;
+  keywordWeight: number;
+  vectorWeight: number;
+  fusion: FusionMethod;
+}
+
+export interface HybridSearchHit {
+  id: string;
+  title?: string;
+  content: string;
+  metadata: Record<string, any>;
+  /** Fused score; only comparable within one search */
+  score: number;
+  /** BM25 score (higher is better), when the keyword leg found the item */
+  keywordScore?: number;
+  /** Similarity, when the vector leg found the item */
+  vectorScore?: number;
+}
+
+// One ranked leg of the search, best first
+type Candidate = Omit<
+  HybridSearchHit,
+  'score' | 'keywordScore' | 'vectorScore'
+> & {
+  score: number;
+};
+
+/* ─────────────────────────────  filters  ───────────────────────────── */
+
+type FilterValue = string | number | boolean | null;
+
+const toFilterValues = (value: unknown): FilterValue[] =>
+  (Array.isArray(value) ? value : [value]).map((item) =>
+    item === null || ['string', 'number', 'boolean'].includes(typeof item)
+      ? (item as FilterValue)
+      : JSON.stringify(item)
+  );
+
+/**
+ * SQL condition matching `filter` against a JSON `metadata` column. Keys are
+ * bound as JSON paths, never spliced into the SQL.
+ */
+export function metadataFilterSql(
+  filter: MetadataFilter | undefined,
+  column = 'metadata'
+): { sql: string; args: FilterValue[] } {
+  const conditions: string[] = [];
+  const args: FilterValue[] = [];
+
+  for (const [key, value] of Object.entries(filter ?? {})) {
+    const path = `$."${key.replace(/"/g, '\\"')}"`;
+    const values = toFilterValues(value);
+    const nonNull = values.filter((item) => item !== null);
+    const matches = [
+      ...(nonNull.length > 0
+        ? [
+            `json_extract(${column}, ?) IN (${nonNull.map(() => '?').join(', ')})`,
+          ]
+        : []),
+      ...(values.includes(null) ? [`json_extract(${column}, ?) IS NULL`] : []),
+    ];
+    conditions.push(`(${matches.join(' OR ')})`);
+    if (nonNull.length > 0) args.push(path, ...nonNull);
+    if (values.includes(null)) args.push(path);
+  }
+
+  return { sql: conditions.join(' AND ') || '1 = 1', args };
+}
+
+/**
+ * Whether `metadata` matches `filter`, with the same semantics as
+ * `metadataFilterSql`
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter: MetadataFilter | undefined
+): boolean {
+  return Object.entries(filter ?? {}).every(([key, value]) => {
+    const actual = metadata[key] ?? null;
+    const comparable =
+      actual !== null && typeof actual === 'object'
+        ? JSON.stringify(actual)
+        : actual;
+    return toFilterValues(value).some((expected) =>
+      typeof expected === 'boolean'
+        ? comparable === expected || comparable === Number(expected)
+        : comparable === expected
+    );
+  });
+}
+
+// Upstash Vector filter expression, e.g. `kb = 'docs' AND year IN (2024, 2025)`
+function upstashFilter(filter: MetadataFilter | undefined): string | undefined {
+  const literal = (value: FilterValue) =>
+    typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : `${value}`;
+  const conditions = Object.entries(filter ?? {}).flatMap(([key, value]) => {
+    const values = toFilterValues(value).filter((item) => item !== null);
+    if (values.length === 0) return [];
+    return values.length === 1
+      ? [`${key} = ${literal(values[0])}`]
+      : [`${key} IN (${values.map(literal).join(', ')})`];
+  });
+  return conditions.length > 0 ? conditions.join(' AND ') : undefined;
+}
+
+/* ─────────────────────────────  keyword index  ───────────────────────────── */
+
+let keywordIndexReady: Promise<boolean> | null = null;
+
+/**
+ * Create the FTS5 index over `documents` and its sync triggers if missing,
+ * indexing existing rows. Resolves to `false` if FTS5 is unavailable.
+ */
+export function ensureKeywordIndex(): Promise<boolean> {
+  keywordIndexReady ??= (async () => {
+    const db = getLibSQLClient();
+    try {
+      const existing = await db.execute(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'documents_fts'"
+      );
+      if (existing.rows.length > 0) return true;
+
+      await db.batch(
+        [
+          `CREATE VIRTUAL TABLE documents_fts USING fts5(
+             id UNINDEXED, title, content, tokenize = 'porter unicode61'
+           )`,
+          `CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+             INSERT INTO documents_fts (id, title, content) VALUES (new.id, new.title, new.content);
+           END`,
+          `CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF title, content ON documents BEGIN
+             DELETE FROM documents_fts WHERE id = old.id;
+             INSERT INTO documents_fts (id, title, content) VALUES (new.id, new.title, new.content);
+           END`,
+          `CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+             DELETE FROM documents_fts WHERE id = old.id;
+           END`,
+          'INSERT INTO documents_fts (id, title, content) SELECT id, title, content FROM documents',
+        ],
+        'write'
+      );
+      return true;
+    } catch (error) {
+      upstashLogger.warn(
+        'rag',
+        `Keyword index unavailable, hybrid search will use vectors only: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      keywordIndexReady = null;
+      return false;
+    }
+  })();
+  return keywordIndexReady;
+}
+
+/**
+ * FTS5 query matching any term of `query`; terms are quoted so operators and
+ * punctuation in user input are taken literally
+ */
+function toMatchQuery(query: string): string | null {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const unique = [...new Set(terms)];
+  return unique.length > 0
+    ? unique.map((term) => `"${term}"`).join(' OR ')
+    : null;
+}
+
+/**
+ * Documents ranked by BM25 against `query`
+ */
+export async function keywordSearch(
+  query: string,
+  limit: number,
+  filter?: MetadataFilter
+): Promise<Candidate[]> {
+  const match = toMatchQuery(query);
+  if (!match || !(await ensureKeywordIndex())) return [];
+
+  const where = metadataFilterSql(filter, 'd.metadata');
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT d.id, d.title, d.content, d.metadata, bm25(documents_fts) AS rank
+          FROM documents_fts
+          JOIN documents d ON d.id = documents_fts.id
+          WHERE documents_fts MATCH ? AND ${where.sql}
+          ORDER BY rank
+          LIMIT ?`,
+    args: [match, ...where.args, limit],
+  });
+
+  // FTS5's bm25() is negated so that smaller is better
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    title: (row.title as string) || undefined,
+    content: (row.content as string) ?? '',
+    metadata: JSON.parse((row.metadata as string) || '{}'),
+    score: -Number(row.rank),
+  }));
+}
+
+/* ─────────────────────────────  vectors  ───────────────────────────── */
+
+function toFloat32Array(value: unknown): Float32Array | null {
+  if (value instanceof ArrayBuffer) return new Float32Array(value);
+  if (value instanceof Uint8Array) {
+    return new Float32Array(
+      value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)
+    );
+  }
+  return null;
+}
+
+function rowToCandidate(
+  row: Record<string, unknown>,
+  score: number
+): Candidate {
+  return {
+    id: row.id as string,
+    title: (row.title as string) || undefined,
+    content: (row.content as string) ?? '',
+    metadata: JSON.parse((row.metadata as string) || '{}'),
+    score,
+  };
+}
+
+/**
+ * Documents ranked by embedding similarity to `query` in `provider`
+ */
+export async function vectorSearch(
+  query: string,
+  provider: VectorProvider,
+  limit: number,
+  filter?: MetadataFilter
+): Promise<Candidate[]> {
+  const db = getLibSQLClient();
+
+  switch (provider) {
+    case 'libsql': {
+      const {
+        vectors: [queryEmbedding],
+      } = await embedForNamespace(DEFAULT_EMBEDDING_NAMESPACE, [query]);
+      const where = metadataFilterSql(filter, 'd.metadata');
+      const result = await db.execute({
+        sql: `SELECT d.id, d.title, d.content, d.metadata, e.vector
+              FROM documents d
+              JOIN embeddings e ON d.embedding_id = e.id
+              WHERE ${where.sql}`,
+        args: where.args,
+      });
+
+      return result.rows
+        .flatMap((row) => {
+          const vector = toFloat32Array(row.vector);
+          return vector
+            ? [rowToCandidate(row, cosineSimilarity(queryEmbedding, vector))]
+            : [];
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+
+    case 'upstash': {
+      if (!isUpstashVectorAvailable()) {
+        throw new Error(
+          'Upstash Vector is not available. Please set UPSTASH_VECTOR_REST_URL and UPSTASH_VECTOR_REST_TOKEN environment variables.'
+        );
+      }
+      const results = await upstashSearchTextStore(
+        query,
+        limit,
+        upstashFilter(filter)
+      );
+
+      return results
+        .map((result) => {
+          const metadata: Record<string, any> = result.metadata || {};
+          return {
+            id: String(result.id),
+            title: metadata.title,
+            content: metadata.text || '',
+            metadata,
+            score: result.score ?? 0,
+          };
+        })
+        .filter((candidate) =>
+          matchesMetadataFilter(candidate.metadata, filter)
+        );
+    }
+
+    default:
+      throw new Error(`Unsupported vector store provider: ${provider}`);
+  }
+}
+
+/* ─────────────────────────────  fusion  ───────────────────────────── */
+
+function normalise(candidates: Candidate[]): Map<string, number> {
+  const scores = candidates.map((candidate) => candidate.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return new Map(
+    candidates.map((candidate) => [
+      candidate.id,
+      range > 0 ? (candidate.score - min) / range : 1,
+    ])
+  );
+}
+
+/**
+ * Merge the keyword and vector rankings into one
+ */
+export function fuseRankings(
+  keyword: Candidate[],
+  vector: Candidate[],
+  options: Pick<
+    HybridSearchOptions,
+    'fusion' | 'keywordWeight' | 'vectorWeight'
+  >
+): HybridSearchHit[] {
+  const { fusion, keywordWeight, vectorWeight } = options;
+  const hits = new Map<string, HybridSearchHit>();
+  const legs = [
+    { candidates: keyword, weight: keywordWeight, field: 'keywordScore' },
+    { candidates: vector, weight: vectorWeight, field: 'vectorScore' },
+  ] as const;
+
+  for (const { candidates, weight, field } of legs) {
+    const normalised = fusion === 'weighted' ? normalise(candidates) : null;
+    candidates.forEach((candidate, rank) => {
+      const hit = hits.get(candidate.id) ?? { ...candidate, score: 0 };
+      hit[field] = candidate.score;
+      hit.score +=
+        weight *
+        (normalised
+          ? (normalised.get(candidate.id) ?? 0)
+          : 1 / (RRF_K + rank + 1));
+      hits.set(candidate.id, hit);
+    });
+  }
+
+  return [...hits.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * BM25 keyword search fused with the vector search of `provider`. If one
+ * leg fails the other's ranking is returned on its own.
+ */
+export async function hybridSearch(
+  query: string,
+  options: HybridSearchOptions
+): Promise<HybridSearchHit[]> {
+  const { provider, limit, filter } = options;
+  const candidates = limit * HYBRID_CANDIDATE_MULTIPLIER;
+
+  const [keyword, vector] = await Promise.allSettled([
+    options.keywordWeight > 0
+      ? keywordSearch(query, candidates, filter)
+      : Promise.resolve([]),
+    options.vectorWeight > 0
+      ? vectorSearch(query, provider, candidates, filter)
+      : Promise.resolve([]),
+  ]);
+  if (keyword.status === 'rejected' && vector.status === 'rejected') {
+    throw vector.reason;
+  }
+  for (const leg of [keyword, vector]) {
+    if (leg.status === 'rejected') {
+      upstashLogger.warn(
+        'rag',
+        `Hybrid search leg failed: ${
+          leg.reason instanceof Error ? leg.reason.message : String(leg.reason)
+        }`
+      );
+    }
+  }
+
+  return fuseRankings(
+    keyword.status === 'fulfilled' ? keyword.value : [],
+    vector.status === 'fulfilled' ? vector.value : [],
+    options
+  ).slice(0, limit);
+}
@@ -5,3 +5,8 @@
 export * from './constants';
 export * from './types';
 export * from './tools';
+export * from './chunking';
+export * from './loaders';
+export * from './knowledge-base';
+export * from './rerank';
+export * from './evaluation';
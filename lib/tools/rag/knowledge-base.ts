@@ -0,0 +1,791 @@
+/**
+ * @file Knowledge bases: named collections of local files (PDF, DOCX, HTML,
+ *       Markdown, CSV, JSON, text) ingested into the `documents` table.
+ *
+ * @remarks
+ *   • Every chunk is a `documents` row whose metadata carries
+ *     `knowledgeBaseId`, `sourcePath` and the chunk's breadcrumbs, so
+ *     `DocumentSearch` with `filter: { knowledgeBaseId }` searches one
+ *     knowledge base and cites the section each result came from.
+ *   • Ingestion runs as a job over files and folders below
+ *     `KNOWLEDGE_BASE_ROOT`. Jobs of the same knowledge base run one after
+ *     another in the background; progress is written to
+ *     `knowledge_base_jobs` after every file.
+ *   • A file whose size and mtime are unchanged is skipped without reading
+ *     it, and one whose sha256 matches the last ingest is skipped without
+ *     parsing it. A file with the same bytes as another source in the
+ *     knowledge base is recorded as a duplicate and not chunked.
+ *   • Re-ingesting a changed file keeps the rows (and embeddings) of chunks
+ *     whose text did not change and only embeds the new ones.
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getLibSQLClient } from '@/lib/memory/db';
+import { upstashLogger } from '@/lib/memory/upstash/upstash-logger';
+import { saveEmbedding } from '@/lib/ai-integration';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  embedForNamespace,
+} from '@/lib/memory/embedding-namespaces';
+import { chunkText, formatBreadcrumbs } from './chunking';
+import {
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  KNOWLEDGE_BASE_ROOT,
+  MAX_SOURCE_FILE_BYTES,
+  MAX_SOURCES_PER_JOB,
+} from './constants';
+import { DOCUMENT_LOADERS, detectSourceType, type SourceType } from './loaders';
+
+/* ─────────────────────────────  schemas & types  ───────────────────────────── */
+
+/**
+ * Chunking applied to every source; without `strategy` each format uses its
+ * own (Markdown by headings, HTML and DOCX by headings, the rest recursive)
+ */
+export const KnowledgeBaseChunkingSchema = z.object({
+  strategy: z.enum(CHUNKING_STRATEGIES).optional(),
+  chunkSize: z.number().int().min(100).max(8000).default(DEFAULT_CHUNK_SIZE),
+  chunkOverlap: z
+    .number()
+    .int()
+    .min(0)
+    .max(1000)
+    .default(DEFAULT_CHUNK_OVERLAP),
+});
+export type KnowledgeBaseChunking = z.infer<typeof KnowledgeBaseChunkingSchema>;
+
+export const KnowledgeBaseInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  chunking: KnowledgeBaseChunkingSchema.default({}),
+});
+export type KnowledgeBaseInput = z.input<typeof KnowledgeBaseInputSchema>;
+
+export const IngestionRequestSchema = z.object({
+  /** Files or folders, relative to `KNOWLEDGE_BASE_ROOT` */
+  paths: z.array(z.string().min(1)).min(1),
+  /** Re-ingest sources even if they have not changed */
+  force: z.boolean().default(false),
+});
+export type IngestionRequest = z.input<typeof IngestionRequestSchema>;
+
+export const IngestionJobStatusSchema = z.enum([
+  'queued',
+  'running',
+  'completed',
+  'failed',
+]);
+export type IngestionJobStatus = z.infer<typeof IngestionJobStatusSchema>;
+
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description?: string;
+  chunking: KnowledgeBaseChunking;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SourceStatus = 'ingested' | 'duplicate' | 'failed';
+
+export interface KnowledgeBaseSource {
+  knowledgeBaseId: string;
+  path: string;
+  type: SourceType;
+  contentHash: string;
+  status: SourceStatus;
+  duplicateOf?: string;
+  chunkCount: number;
+  sizeBytes: number;
+  modifiedAt: string;
+  error?: string;
+  ingestedAt: string;
+}
+
+export interface IngestionJob {
+  id: string;
+  knowledgeBaseId: string;
+  status: IngestionJobStatus;
+  paths: string[];
+  force: boolean;
+  /** Files found under `paths` */
+  total: number;
+  processed: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  duplicates: number;
+  failed: number;
+  errors: { path: string; error: string }[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Thrown when an ingestion path is outside `KNOWLEDGE_BASE_ROOT`
+ */
+export class SourcePathError extends Error {
+  constructor(public readonly sourcePath: string) {
+    super(`Path ${sourcePath} is outside the knowledge base root`);
+    this.name = 'SourcePathError';
+    Object.setPrototypeOf(this, SourcePathError.prototype);
+  }
+}
+
+/* ─────────────────────────────  rows  ───────────────────────────── */
+
+function rowToKnowledgeBase(row: Record<string, unknown>): KnowledgeBase {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string) || undefined,
+    chunking: KnowledgeBaseChunkingSchema.parse(
+      JSON.parse(row.chunking as string)
+    ),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToSource(row: Record<string, unknown>): KnowledgeBaseSource {
+  return {
+    knowledgeBaseId: row.knowledge_base_id as string,
+    path: row.path as string,
+    type: row.type as SourceType,
+    contentHash: row.content_hash as string,
+    status: row.status as SourceStatus,
+    duplicateOf: (row.duplicate_of as string) || undefined,
+    chunkCount: Number(row.chunk_count),
+    sizeBytes: Number(row.size_bytes),
+    modifiedAt: row.modified_at as string,
+    error: (row.error as string) || undefined,
+    ingestedAt: row.ingested_at as string,
+  };
+}
+
+function rowToJob(row: Record<string, unknown>): IngestionJob {
+  return {
+    id: row.id as string,
+    knowledgeBaseId: row.knowledge_base_id as string,
+    status: row.status as IngestionJobStatus,
+    paths: JSON.parse(row.paths as string),
+    force: Boolean(row.force),
+    total: Number(row.total),
+    processed: Number(row.processed),
+    added: Number(row.added),
+    updated: Number(row.updated),
+    unchanged: Number(row.unchanged),
+    duplicates: Number(row.duplicates),
+    failed: Number(row.failed),
+    errors: row.errors ? JSON.parse(row.errors as string) : [],
+    createdAt: row.created_at as string,
+    startedAt: (row.started_at as string) || undefined,
+    finishedAt: (row.finished_at as string) || undefined,
+  };
+}
+
+/* ─────────────────────────────  knowledge bases  ───────────────────────────── */
+
+export async function createKnowledgeBase(
+  input: KnowledgeBaseInput
+): Promise<KnowledgeBase> {
+  const { name, description, chunking } = KnowledgeBaseInputSchema.parse(input);
+  const now = new Date().toISOString();
+  const knowledgeBase: KnowledgeBase = {
+    id: uuidv4(),
+    name,
+    description,
+    chunking,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO knowledge_bases (id, name, description, chunking, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [
+      knowledgeBase.id,
+      name,
+      description ?? null,
+      JSON.stringify(chunking),
+      now,
+      now,
+    ],
+  });
+
+  return knowledgeBase;
+}
+
+export async function getKnowledgeBase(
+  id: string
+): Promise<KnowledgeBase | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM knowledge_bases WHERE id = ?',
+    args: [id],
+  });
+  return result.rows.length > 0 ? rowToKnowledgeBase(result.rows[0]) : null;
+}
+
+export async function listKnowledgeBases(): Promise<KnowledgeBase[]> {
+  const result = await getLibSQLClient().execute(
+    'SELECT * FROM knowledge_bases ORDER BY name'
+  );
+  return result.rows.map(rowToKnowledgeBase);
+}
+
+/**
+ * Delete a knowledge base with its chunks, embeddings, sources and jobs
+ */
+export async function deleteKnowledgeBase(id: string): Promise<boolean> {
+  const db = getLibSQLClient();
+  await deleteChunks(id);
+  await db.execute({
+    sql: 'DELETE FROM knowledge_base_sources WHERE knowledge_base_id = ?',
+    args: [id],
+  });
+  await db.execute({
+    sql: 'DELETE FROM knowledge_base_jobs WHERE knowledge_base_id = ?',
+    args: [id],
+  });
+  const result = await db.execute({
+    sql: 'DELETE FROM knowledge_bases WHERE id = ?',
+    args: [id],
+  });
+  return result.rowsAffected > 0;
+}
+
+export async function listKnowledgeBaseSources(
+  knowledgeBaseId: string
+): Promise<KnowledgeBaseSource[]> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM knowledge_base_sources WHERE knowledge_base_id = ? ORDER BY path',
+    args: [knowledgeBaseId],
+  });
+  return result.rows.map(rowToSource);
+}
+
+/* ─────────────────────────────  chunks  ───────────────────────────── */
+
+interface StoredChunk {
+  id: string;
+  embeddingId: string | null;
+  chunkHash: string;
+}
+
+const sha256 = (data: string | Buffer) =>
+  createHash('sha256').update(data).digest('hex');
+
+async function getChunks(
+  knowledgeBaseId: string,
+  sourcePath: string
+): Promise<StoredChunk[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT id, embedding_id, json_extract(metadata, '$.chunkHash') AS chunk_hash
+          FROM documents
+          WHERE json_extract(metadata, '$.knowledgeBaseId') = ?
+            AND json_extract(metadata, '$.sourcePath') = ?`,
+    args: [knowledgeBaseId, sourcePath],
+  });
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    embeddingId: (row.embedding_id as string) || null,
+    chunkHash: row.chunk_hash as string,
+  }));
+}
+
+async function deleteChunkRows(chunks: StoredChunk[]): Promise<void> {
+  const db = getLibSQLClient();
+  for (const chunk of chunks) {
+    await db.execute({
+      sql: 'DELETE FROM documents WHERE id = ?',
+      args: [chunk.id],
+    });
+    if (chunk.embeddingId) {
+      await db.execute({
+        sql: 'DELETE FROM embeddings WHERE id = ?',
+        args: [chunk.embeddingId],
+      });
+    }
+  }
+}
+
+// Delete the chunks of a knowledge base, or of one of its sources
+async function deleteChunks(
+  knowledgeBaseId: string,
+  sourcePath?: string
+): Promise<void> {
+  const db = getLibSQLClient();
+  const where = `json_extract(metadata, '$.knowledgeBaseId') = ?${
+    sourcePath ? ` AND json_extract(metadata, '$.sourcePath') = ?` : ''
+  }`;
+  const args = sourcePath ? [knowledgeBaseId, sourcePath] : [knowledgeBaseId];
+  await db.execute({
+    sql: `DELETE FROM embeddings WHERE id IN (SELECT embedding_id FROM documents WHERE ${where})`,
+    args,
+  });
+  await db.execute({ sql: `DELETE FROM documents WHERE ${where}`, args });
+}
+
+/**
+ * Chunk a loaded file and sync its `documents` rows: chunks whose text is
+ * unchanged keep their row and embedding, new ones are embedded, stale ones
+ * are deleted
+ */
+async function writeChunks(
+  knowledgeBase: KnowledgeBase,
+  source: { path: string; type: SourceType; contentHash: string },
+  data: Buffer
+): Promise<number> {
+  const db = getLibSQLClient();
+  const loaded = await DOCUMENT_LOADERS[source.type](data, source.path);
+  const { strategy, chunkSize, chunkOverlap } = knowledgeBase.chunking;
+  const chunks = await chunkText(loaded.text, {
+    strategy: strategy ?? loaded.strategy,
+    chunkSize,
+    chunkOverlap,
+    source: source.path,
+  });
+  const title = loaded.title ?? path.basename(source.path);
+
+  // Existing rows by chunk text, so repeated chunks each keep one row
+  const reusable = new Map<string, StoredChunk[]>();
+  for (const stored of await getChunks(knowledgeBase.id, source.path)) {
+    reusable.set(stored.chunkHash, [
+      ...(reusable.get(stored.chunkHash) ?? []),
+      stored,
+    ]);
+  }
+
+  const added: { content: string; metadata: string }[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    const chunkHash = sha256(chunk.content);
+    const metadata = JSON.stringify({
+      ...loaded.metadata,
+      ...chunk.location,
+      citation: formatBreadcrumbs(chunk.location.breadcrumbs) || undefined,
+      title,
+      knowledgeBaseId: knowledgeBase.id,
+      sourcePath: source.path,
+      sourceType: source.type,
+      contentHash: source.contentHash,
+      chunkHash,
+      chunkIndex: index,
+      chunkCount: chunks.length,
+    });
+
+    const existing = reusable.get(chunkHash)?.shift();
+    if (existing) {
+      await db.execute({
+        sql: `UPDATE documents SET title = ?, metadata = ?, updated_at = datetime('now')
+              WHERE id = ?`,
+        args: [title, metadata, existing.id],
+      });
+    } else {
+      added.push({ content: chunk.content, metadata });
+    }
+  }
+
+  // New chunks are embedded in batches
+  const { model, vectors } = await embedForNamespace(
+    DEFAULT_EMBEDDING_NAMESPACE,
+    added.map((chunk) => chunk.content)
+  );
+  for (const [i, chunk] of added.entries()) {
+    const embeddingId = await saveEmbedding(vectors[i], model);
+    await db.execute({
+      sql: `INSERT INTO documents (id, title, content, metadata, embedding_id, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      args: [uuidv4(), title, chunk.content, chunk.metadata, embeddingId],
+    });
+  }
+
+  await deleteChunkRows([...reusable.values()].flat());
+  return chunks.length;
+}
+
+/* ─────────────────────────────  sources  ───────────────────────────── */
+
+// Path stored for a source: relative to the root, with forward slashes
+const toSourcePath = (absolutePath: string) =>
+  path.relative(KNOWLEDGE_BASE_ROOT, absolutePath).split(path.sep).join('/');
+
+// Whether `target` is `root` or lies beneath it
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative !== '..' &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Resolve a path against `KNOWLEDGE_BASE_ROOT`
+ * @throws {SourcePathError} if it escapes the root
+ */
+function resolveSourcePath(sourcePath: string): string {
+  const absolute = path.resolve(KNOWLEDGE_BASE_ROOT, sourcePath);
+  if (!isWithin(KNOWLEDGE_BASE_ROOT, absolute)) {
+    throw new SourcePathError(sourcePath);
+  }
+  return absolute;
+}
+
+/**
+ * Whether a path still lies inside `KNOWLEDGE_BASE_ROOT` once symlinks are
+ * resolved, so a link cannot pull in files from elsewhere
+ */
+async function isRealPathInRoot(absolute: string): Promise<boolean> {
+  const [real, root] = await Promise.all([
+    fs.realpath(absolute),
+    fs.realpath(KNOWLEDGE_BASE_ROOT),
+  ]);
+  return isWithin(root, real);
+}
+
+// Files with a loader under the given paths, skipping dot-folders,
+// node_modules and links that lead outside the root
+async function collectFiles(paths: string[]): Promise<string[]> {
+  const files = new Set<string>();
+
+  const walk = async (absolute: string): Promise<void> => {
+    if (files.size >= MAX_SOURCES_PER_JOB) return;
+    if (!(await isRealPathInRoot(absolute))) return;
+    const stat = await fs.stat(absolute);
+    if (stat.isFile()) {
+      if (detectSourceType(absolute)) files.add(absolute);
+      return;
+    }
+    if (!stat.isDirectory()) return;
+    const entries = await fs.readdir(absolute, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      await walk(path.join(absolute, entry.name));
+    }
+  };
+
+  for (const sourcePath of paths) {
+    const absolute = resolveSourcePath(sourcePath);
+    if (!(await isRealPathInRoot(absolute))) {
+      throw new SourcePathError(sourcePath);
+    }
+    await walk(absolute);
+  }
+  return [...files].slice(0, MAX_SOURCES_PER_JOB);
+}
+
+async function getSource(
+  knowledgeBaseId: string,
+  sourcePath: string
+): Promise<KnowledgeBaseSource | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM knowledge_base_sources WHERE knowledge_base_id = ? AND path = ?',
+    args: [knowledgeBaseId, sourcePath],
+  });
+  return result.rows.length > 0 ? rowToSource(result.rows[0]) : null;
+}
+
+async function saveSource(source: KnowledgeBaseSource): Promise<void> {
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO knowledge_base_sources
+            (knowledge_base_id, path, type, content_hash, status, duplicate_of,
+             chunk_count, size_bytes, modified_at, error, ingested_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (knowledge_base_id, path) DO UPDATE SET
+            type = excluded.type,
+            content_hash = excluded.content_hash,
+            status = excluded.status,
+            duplicate_of = excluded.duplicate_of,
+            chunk_count = excluded.chunk_count,
+            size_bytes = excluded.size_bytes,
+            modified_at = excluded.modified_at,
+            error = excluded.error,
+            ingested_at = excluded.ingested_at`,
+    args: [
+      source.knowledgeBaseId,
+      source.path,
+      source.type,
+      source.contentHash,
+      source.status,
+      source.duplicateOf ?? null,
+      source.chunkCount,
+      source.sizeBytes,
+      source.modifiedAt,
+      source.error ?? null,
+      source.ingestedAt,
+    ],
+  });
+}
+
+type SourceOutcome = 'added' | 'updated' | 'unchanged' | 'duplicates';
+
+/**
+ * Ingest one file
+ * @throws if the file cannot be read, parsed or embedded
+ */
+async function ingestFile(
+  knowledgeBase: KnowledgeBase,
+  absolutePath: string,
+  force: boolean
+): Promise<SourceOutcome> {
+  const sourcePath = toSourcePath(absolutePath);
+  // The file may have been replaced by a link since it was collected
+  if (!(await isRealPathInRoot(absolutePath))) {
+    throw new SourcePathError(sourcePath);
+  }
+  const type = detectSourceType(absolutePath) as SourceType;
+  const stat = await fs.stat(absolutePath);
+  const modifiedAt = stat.mtime.toISOString();
+  const previous = await getSource(knowledgeBase.id, sourcePath);
+  const current = previous?.status !== 'failed' ? previous : null;
+
+  if (
+    !force &&
+    current &&
+    current.sizeBytes === stat.size &&
+    current.modifiedAt === modifiedAt
+  ) {
+    return 'unchanged';
+  }
+  if (stat.size > MAX_SOURCE_FILE_BYTES) {
+    throw new Error(
+      `File is larger than ${MAX_SOURCE_FILE_BYTES} bytes (${stat.size})`
+    );
+  }
+
+  const data = await fs.readFile(absolutePath);
+  const contentHash = sha256(data);
+  const source: KnowledgeBaseSource = {
+    knowledgeBaseId: knowledgeBase.id,
+    path: sourcePath,
+    type,
+    contentHash,
+    status: 'ingested',
+    chunkCount: 0,
+    sizeBytes: stat.size,
+    modifiedAt,
+    ingestedAt: new Date().toISOString(),
+  };
+
+  // Touched but identical: only remember the new mtime
+  if (!force && current && current.contentHash === contentHash) {
+    await saveSource({ ...current, modifiedAt, sizeBytes: stat.size });
+    return 'unchanged';
+  }
+
+  const original = await getLibSQLClient().execute({
+    sql: `SELECT path FROM knowledge_base_sources
+          WHERE knowledge_base_id = ? AND content_hash = ? AND path != ? AND status = 'ingested'
+          LIMIT 1`,
+    args: [knowledgeBase.id, contentHash, sourcePath],
+  });
+  if (original.rows.length > 0) {
+    await deleteChunks(knowledgeBase.id, sourcePath);
+    await saveSource({
+      ...source,
+      status: 'duplicate',
+      duplicateOf: original.rows[0].path as string,
+    });
+    return 'duplicates';
+  }
+
+  source.chunkCount = await writeChunks(knowledgeBase, source, data);
+  await saveSource(source);
+  return current ? 'updated' : 'added';
+}
+
+/* ─────────────────────────────  jobs  ───────────────────────────── */
+
+// Per knowledge base, the tail of its queue of jobs
+const jobQueues = new Map<string, Promise<void>>();
+// Per job, a promise settled when the job has finished
+const pendingJobs = new Map<string, Promise<void>>();
+
+export async function getIngestionJob(
+  id: string
+): Promise<IngestionJob | null> {
+  const result = await getLibSQLClient().execute({
+    sql: 'SELECT * FROM knowledge_base_jobs WHERE id = ?',
+    args: [id],
+  });
+  return result.rows.length > 0 ? rowToJob(result.rows[0]) : null;
+}
+
+export async function listIngestionJobs(
+  knowledgeBaseId: string,
+  limit = 50
+): Promise<IngestionJob[]> {
+  const result = await getLibSQLClient().execute({
+    sql: `SELECT * FROM knowledge_base_jobs WHERE knowledge_base_id = ?
+          ORDER BY created_at DESC LIMIT ?`,
+    args: [knowledgeBaseId, limit],
+  });
+  return result.rows.map(rowToJob);
+}
+
+async function saveJobProgress(job: IngestionJob): Promise<void> {
+  await getLibSQLClient().execute({
+    sql: `UPDATE knowledge_base_jobs SET
+            status = ?, total = ?, processed = ?, added = ?, updated = ?,
+            unchanged = ?, duplicates = ?, failed = ?, errors = ?,
+            started_at = ?, finished_at = ?
+          WHERE id = ?`,
+    args: [
+      job.status,
+      job.total,
+      job.processed,
+      job.added,
+      job.updated,
+      job.unchanged,
+      job.duplicates,
+      job.failed,
+      JSON.stringify(job.errors),
+      job.startedAt ?? null,
+      job.finishedAt ?? null,
+      job.id,
+    ],
+  });
+}
+
+async function runIngestionJob(
+  knowledgeBase: KnowledgeBase,
+  job: IngestionJob
+): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  try {
+    const files = await collectFiles(job.paths);
+    job.total = files.length;
+    await saveJobProgress(job);
+
+    for (const file of files) {
+      try {
+        const outcome = await ingestFile(knowledgeBase, file, job.force);
+        job[outcome]++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const sourcePath = toSourcePath(file);
+        job.failed++;
+        job.errors.push({ path: sourcePath, error: message });
+        const stat = await fs.stat(file).catch(() => null);
+        await saveSource({
+          knowledgeBaseId: knowledgeBase.id,
+          path: sourcePath,
+          type: detectSourceType(file) as SourceType,
+          contentHash: '',
+          status: 'failed',
+          chunkCount: 0,
+          sizeBytes: stat?.size ?? 0,
+          modifiedAt: stat?.mtime.toISOString() ?? '',
+          error: message,
+          ingestedAt: new Date().toISOString(),
+        });
+      }
+      job.processed++;
+      await saveJobProgress(job);
+    }
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.errors.push({
+      path: job.paths.join(', '),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  job.finishedAt = new Date().toISOString();
+  await saveJobProgress(job);
+
+  upstashLogger.info('knowledge-base', `Ingestion job ${job.status}`, {
+    knowledgeBaseId: knowledgeBase.id,
+    jobId: job.id,
+    added: job.added,
+    updated: job.updated,
+    unchanged: job.unchanged,
+    duplicates: job.duplicates,
+    failed: job.failed,
+  });
+}
+
+/**
+ * Queue an ingestion job for a knowledge base. The job runs in the
+ * background after the knowledge base's earlier jobs; poll it with
+ * `getIngestionJob` or await it with `waitForIngestionJob`.
+ *
+ * @throws {SourcePathError} if a path is outside `KNOWLEDGE_BASE_ROOT`
+ */
+export async function startIngestionJob(
+  knowledgeBase: KnowledgeBase,
+  request: IngestionRequest
+): Promise<IngestionJob> {
+  const { paths, force } = IngestionRequestSchema.parse(request);
+  paths.forEach(resolveSourcePath);
+
+  const job: IngestionJob = {
+    id: uuidv4(),
+    knowledgeBaseId: knowledgeBase.id,
+    status: 'queued',
+    paths,
+    force,
+    total: 0,
+    processed: 0,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    duplicates: 0,
+    failed: 0,
+    errors: [],
+    createdAt: new Date().toISOString(),
+  };
+  await getLibSQLClient().execute({
+    sql: `INSERT INTO knowledge_base_jobs (id, knowledge_base_id, status, paths, force, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [
+      job.id,
+      knowledgeBase.id,
+      job.status,
+      JSON.stringify(paths),
+      force ? 1 : 0,
+      job.createdAt,
+    ],
+  });
+
+  const previous = jobQueues.get(knowledgeBase.id) ?? Promise.resolve();
+  const next = previous
+    .then(() => runIngestionJob(knowledgeBase, job))
+    .catch((error) => {
+      upstashLogger.warn(
+        'knowledge-base',
+        `Ingestion job ${job.id} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    })
+    .finally(() => {
+      pendingJobs.delete(job.id);
+      if (jobQueues.get(knowledgeBase.id) === next) {
+        jobQueues.delete(knowledgeBase.id);
+      }
+    });
+  jobQueues.set(knowledgeBase.id, next);
+  pendingJobs.set(job.id, next);
+
+  return { ...job };
+}
+
+/**
+ * Wait for a job started by this process to finish and return its final
+ * state
+ */
+export async function waitForIngestionJob(
+  id: string
+): Promise<IngestionJob | null> {
+  await pendingJobs.get(id);
+  return getIngestionJob(id);
+}
@@ -0,0 +1,171 @@
+/**
+ * @file Document loaders for knowledge-base ingestion.
+ *
+ * @remarks
+ *   • A loader turns the bytes of one file into text plus the chunking
+ *     strategy that suits it: DOCX is converted to HTML so its headings
+ *     become breadcrumbs, CSV rows and JSON records become one paragraph
+ *     each so the recursive chunker keeps them whole.
+ *   • The source type is picked from the file extension.
+ */
+
+import * as path from 'node:path';
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import Papa from 'papaparse';
+import { KNOWLEDGE_BASE_SOURCE_TYPES } from './constants';
+import type { ChunkingStrategy } from './chunking';
+
+export type SourceType = (typeof KNOWLEDGE_BASE_SOURCE_TYPES)[number];
+
+export interface LoadedDocument {
+  text: string;
+  title?: string;
+  /** Chunking strategy for this format, unless the knowledge base overrides it */
+  strategy: ChunkingStrategy;
+  /** Format-specific details stored with every chunk (page count, columns...) */
+  metadata: Record<string, unknown>;
+}
+
+export type DocumentLoader = (
+  data: Buffer,
+  filePath: string
+) => Promise<LoadedDocument>;
+
+const SOURCE_TYPE_BY_EXTENSION: Record<string, SourceType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'markdown',
+  csv: 'csv',
+  json: 'json',
+  txt: 'text',
+  text: 'text',
+};
+
+/**
+ * Source type of a file from its extension, or `undefined` if there is no
+ * loader for it
+ */
+export function detectSourceType(filePath: string): SourceType | undefined {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return SOURCE_TYPE_BY_EXTENSION[extension];
+}
+
+/* ─────────────────────────────  loaders  ───────────────────────────── */
+
+async function loadPdf(data: Buffer): Promise<LoadedDocument> {
+  const { default: pdfParse } = await import('pdf-parse/lib/pdf-parse.js');
+  const result = await pdfParse(data);
+  return {
+    text: result.text,
+    title: result.info?.Title || undefined,
+    strategy: 'recursive',
+    metadata: { pages: result.numpages },
+  };
+}
+
+async function loadDocx(data: Buffer): Promise<LoadedDocument> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: data });
+  const $ = cheerio.load(html);
+  return {
+    text: html,
+    title: $('h1').first().text().trim() || undefined,
+    strategy: 'html',
+    metadata: {},
+  };
+}
+
+async function loadHtml(data: Buffer): Promise<LoadedDocument> {
+  const html = data.toString('utf8');
+  const $ = cheerio.load(html);
+  return {
+    text: html,
+    title:
+      $('title').first().text().trim() ||
+      $('h1').first().text().trim() ||
+      undefined,
+    strategy: 'html',
+    metadata: {},
+  };
+}
+
+async function loadMarkdown(data: Buffer): Promise<LoadedDocument> {
+  let text = data.toString('utf8');
+  let title: string | undefined;
+
+  // YAML front matter is metadata, not content
+  const frontMatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (frontMatter) {
+    text = text.slice(frontMatter[0].length);
+    title = frontMatter[1]
+      .match(/^title:\s*(.+)$/m)?.[1]
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2');
+  }
+  title ??= text.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1];
+
+  return { text, title, strategy: 'markdown', metadata: {} };
+}
+
+async function loadCsv(data: Buffer): Promise<LoadedDocument> {
+  const { data: rows, meta } = Papa.parse<Record<string, unknown>>(
+    data.toString('utf8'),
+    { header: true, skipEmptyLines: true }
+  );
+  const columns = meta.fields ?? [];
+
+  // One "column: value" block per row
+  const text = rows
+    .map((row) =>
+      columns
+        .filter((column) => row[column] !== undefined && row[column] !== '')
+        .map((column) => `${column}: ${row[column]}`)
+        .join('\n')
+    )
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    text,
+    strategy: 'recursive',
+    metadata: { columns, rows: rows.length },
+  };
+}
+
+async function loadJson(data: Buffer): Promise<LoadedDocument> {
+  const value = JSON.parse(data.toString('utf8'));
+
+  // Records of an array, or entries of an object, one per paragraph
+  const records: string[] = Array.isArray(value)
+    ? value.map((item) => JSON.stringify(item, null, 2))
+    : value && typeof value === 'object'
+      ? Object.entries(value).map(
+          ([key, item]) => `${key}: ${JSON.stringify(item, null, 2)}`
+        )
+      : [JSON.stringify(value)];
+
+  return {
+    text: records.join('\n\n'),
+    title: typeof value?.title === 'string' ? value.title : undefined,
+    strategy: 'recursive',
+    metadata: Array.isArray(value) ? { records: value.length } : {},
+  };
+}
+
+async function loadText(data: Buffer): Promise<LoadedDocument> {
+  return { text: data.toString('utf8'), strategy: 'recursive', metadata: {} };
+}
+
+export const DOCUMENT_LOADERS: Record<SourceType, DocumentLoader> = {
+  pdf: loadPdf,
+  docx: loadDocx,
+  html: loadHtml,
+  markdown: loadMarkdown,
+  csv: loadCsv,
+  json: loadJson,
+  text: loadText,
+};
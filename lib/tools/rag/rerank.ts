@@ -0,0 +1,246 @@
+/**
+ * @file Rerankers for the "rag" tool-suite: a second pass over retrieved
+ *       candidates before they are handed to the model.
+ *
+ * @remarks
+ *   • `llm` asks a language model to grade each candidate's relevance to the
+ *     query from 0 to 10 (pointwise, a few candidates at a time).
+ *   • `cross-encoder` scores each (query, candidate) pair jointly with a
+ *     local MS MARCO cross-encoder through transformers.js; no API calls.
+ *   • `mmr` re-orders by maximal marginal relevance, trading relevance to
+ *     the query against similarity to the candidates already picked so
+ *     near-duplicate chunks do not crowd out the rest.
+ */
+
+import { generateObject, type LanguageModel } from 'ai';
+import {
+  AutoModelForSequenceClassification,
+  AutoTokenizer,
+  type PreTrainedModel,
+  type PreTrainedTokenizer,
+} from '@xenova/transformers';
+import { z } from 'zod';
+import { getGoogleAI } from '@/lib/ai-integration';
+import { embedTexts } from '@/lib/memory/embeddings';
+import { cosineSimilarity } from '@/lib/memory/similarity';
+import { upstashLogger } from '@/lib/memory/upstash/upstash-logger';
+import {
+  DEFAULT_CROSS_ENCODER_MODEL,
+  DEFAULT_LLM_RERANK_MODEL,
+  DEFAULT_MMR_LAMBDA,
+  LLM_RERANK_CONCURRENCY,
+  RERANK_STRATEGIES,
+} from './constants';
+
+export type RerankStrategy = (typeof RERANK_STRATEGIES)[number];
+
+export interface RerankCandidate {
+  id: string;
+  content: string;
+  /** Score from retrieval, used to break ties */
+  score: number;
+}
+
+export interface RerankOptions {
+  strategy: RerankStrategy;
+  /** Results to keep; all candidates by default */
+  topK?: number;
+  /** Model for `llm`; defaults to `DEFAULT_LLM_RERANK_MODEL` on Google AI */
+  model?: LanguageModel;
+  /** Hugging Face model ID for `cross-encoder` */
+  crossEncoderModel?: string;
+  /** Relevance/novelty trade-off for `mmr`, from 0 to 1 */
+  mmrLambda?: number;
+  /** Embedder for `mmr`; defaults to the default embedding provider */
+  embed?: (texts: string[]) => Promise<ArrayLike<number>[]>;
+}
+
+export type Reranked<T extends RerankCandidate> = T & {
+  /** Score from the reranker; only comparable within one call */
+  rerankScore: number;
+};
+
+/* ─────────────────────────────  llm  ───────────────────────────── */
+
+const RelevanceSchema = z.object({
+  score: z
+    .number()
+    .min(0)
+    .max(10)
+    .describe('0 = unrelated, 5 = partly answers, 10 = fully answers'),
+});
+
+async function scoreWithLlm(
+  query: string,
+  candidates: RerankCandidate[],
+  model: LanguageModel
+): Promise<number[]> {
+  const scores: number[] = [];
+  for (let i = 0; i < candidates.length; i += LLM_RERANK_CONCURRENCY) {
+    const batch = candidates.slice(i, i + LLM_RERANK_CONCURRENCY);
+    scores.push(
+      ...(await Promise.all(
+        batch.map(async (candidate) => {
+          try {
+            const { object } = await generateObject({
+              model,
+              schema: RelevanceSchema,
+              temperature: 0,
+              prompt: `Rate how well the passage answers the search query.
+
+Query: ${query}
+
+Passage:
+${candidate.content}`,
+            });
+            return object.score;
+          } catch (error) {
+            // An unscored candidate sinks below the scored ones
+            upstashLogger.warn(
+              'rag',
+              `LLM rerank failed for ${candidate.id}: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+            return -1;
+          }
+        })
+      ))
+    );
+  }
+  return scores;
+}
+
+/* ─────────────────────────────  cross-encoder  ───────────────────────────── */
+
+const crossEncoders = new Map<
+  string,
+  Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }>
+>();
+
+function loadCrossEncoder(modelId: string) {
+  let loading = crossEncoders.get(modelId);
+  if (!loading) {
+    loading = Promise.all([
+      AutoTokenizer.from_pretrained(modelId),
+      AutoModelForSequenceClassification.from_pretrained(modelId),
+    ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+    // Retry on the next call if the download failed
+    loading.catch(() => crossEncoders.delete(modelId));
+    crossEncoders.set(modelId, loading);
+  }
+  return loading;
+}
+
+async function scoreWithCrossEncoder(
+  query: string,
+  candidates: RerankCandidate[],
+  modelId: string
+): Promise<number[]> {
+  const { tokenizer, model } = await loadCrossEncoder(modelId);
+  const inputs = tokenizer(
+    candidates.map(() => query),
+    {
+      text_pair: candidates.map((candidate) => candidate.content),
+      padding: true,
+      truncation: true,
+    }
+  );
+  const { logits } = await model(inputs);
+
+  // One relevance logit per pair
+  return Array.from(
+    logits.data as Float32Array,
+    (logit) => 1 / (1 + Math.exp(-logit))
+  );
+}
+
+/* ─────────────────────────────  mmr  ───────────────────────────── */
+
+/**
+ * Greedy MMR selection; returns candidate indexes in selection order with
+ * their MMR value when picked
+ */
+async function selectWithMmr(
+  query: string,
+  candidates: RerankCandidate[],
+  lambda: number,
+  topK: number,
+  embed: (texts: string[]) => Promise<ArrayLike<number>[]>
+): Promise<{ index: number; score: number }[]> {
+  const [queryVector, ...vectors] = await embed([
+    query,
+    ...candidates.map((candidate) => candidate.content),
+  ]);
+  const relevance = vectors.map((vector) =>
+    cosineSimilarity(queryVector, vector)
+  );
+
+  const selected: { index: number; score: number }[] = [];
+  const remaining = new Set(candidates.keys());
+  while (selected.length < topK && remaining.size > 0) {
+    let best = { index: -1, score: -Infinity };
+    for (const index of remaining) {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((picked) =>
+          cosineSimilarity(vectors[index], vectors[picked.index])
+        )
+      );
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy;
+      if (score > best.score) best = { index, score };
+    }
+    selected.push(best);
+    remaining.delete(best.index);
+  }
+  return selected;
+}
+
+/* ─────────────────────────────  entry  ───────────────────────────── */
+
+/**
+ * Re-order retrieved candidates with the chosen strategy, best first
+ */
+export async function rerank<T extends RerankCandidate>(
+  query: string,
+  candidates: T[],
+  options: RerankOptions
+): Promise<Reranked<T>[]> {
+  const topK = Math.min(options.topK ?? candidates.length, candidates.length);
+  if (candidates.length === 0 || topK === 0) return [];
+
+  if (options.strategy === 'mmr') {
+    const selected = await selectWithMmr(
+      query,
+      candidates,
+      options.mmrLambda ?? DEFAULT_MMR_LAMBDA,
+      topK,
+      options.embed ?? embedTexts
+    );
+    return selected.map(({ index, score }) => ({
+      ...candidates[index],
+      rerankScore: score,
+    }));
+  }
+
+  const scores =
+    options.strategy === 'llm'
+      ? await scoreWithLlm(
+          query,
+          candidates,
+          options.model ??
+            getGoogleAI(process.env.GOOGLE_API_KEY ?? '')(
+              DEFAULT_LLM_RERANK_MODEL
+            )
+        )
+      : await scoreWithCrossEncoder(
+          query,
+          candidates,
+          options.crossEncoderModel ?? DEFAULT_CROSS_ENCODER_MODEL
+        );
+
+  return candidates
+    .map((candidate, index) => ({ ...candidate, rerankScore: scores[index] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore || b.score - a.score)
+    .slice(0, topK);
+}
@@ -13,6 +13,10 @@ import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { getLibSQLClient } from '@/lib/memory/db';
 import { generateEmbedding, saveEmbedding } from '@/lib/ai-integration';
+import {
+  DEFAULT_EMBEDDING_NAMESPACE,
+  embedForNamespace,
+} from '@/lib/memory/embedding-namespaces';
 // Import LibSQL vector store functions
 import {
   storeTextEmbedding as libsqlStoreTextEmbedding,
@@ -34,19 +38,31 @@ import {
 import {
   storeTextEmbedding as upstashStoreTextEmbedding,
   searchTextStore as upstashSearchTextStore,
-  hybridSearch as upstashHybridSearch,
   EmbeddingMetadata,
 } from '@/lib/memory/upstash/vector-store';
+import { cosineSimilarity } from '@/lib/memory/similarity';
 
 import {
   VECTOR_PROVIDERS,
   CHUNKING_STRATEGIES,
   SIMILARITY_METRICS,
+  FUSION_METHODS,
+  HYBRID_VECTOR_PROVIDERS,
+  RERANK_STRATEGIES,
+  RERANK_CANDIDATE_MULTIPLIER,
   DEFAULT_SEARCH_LIMIT,
   MAX_SEARCH_LIMIT,
   DEFAULT_CHUNK_SIZE,
   DEFAULT_CHUNK_OVERLAP,
 } from './constants';
+import { chunkText, formatBreadcrumbs } from './chunking';
+import {
+  getKnowledgeBase,
+  startIngestionJob,
+  waitForIngestionJob,
+} from './knowledge-base';
+import { hybridSearch, metadataFilterSql } from './hybrid-search';
+import { rerank, type RerankStrategy } from './rerank';
 
 // Define hybrid vector search schema
 const hybridVectorSearchSchema = z.object({
@@ -58,10 +74,22 @@ const hybridVectorSearchSchema = z.object({
     .max(MAX_SEARCH_LIMIT)
     .default(DEFAULT_SEARCH_LIMIT)
     .describe('Maximum number of results to return'),
+  provider: z
+    .enum(HYBRID_VECTOR_PROVIDERS)
+    .default('libsql')
+    .describe('Vector store provider for the vector half of the search'),
   filter: z
     .record(z.any())
     .optional()
-    .describe('Optional metadata filter criteria'),
+    .describe(
+      'Optional metadata filter; each key must equal the value, or one of the values of an array'
+    ),
+  fusion: z
+    .enum(FUSION_METHODS)
+    .default('rrf')
+    .describe(
+      'Merge rankings by reciprocal rank fusion or a weighted sum of normalised scores'
+    ),
   keywordWeight: z
     .number()
     .min(0)
@@ -86,6 +114,9 @@ type HybridVectorSearchResult =
         metadata: Record<string, any>;
         score: number;
         content?: string;
+        keywordScore?: number;
+        vectorScore?: number;
+        citation?: string;
       }>;
     }
   | ToolFailure;
@@ -95,9 +126,12 @@ import {
   ChunkDocumentResult,
   VectorStoreUpsertResult,
   VectorStoreQueryResult,
+  KnowledgeBaseIngestResult,
   ToolFailure,
   DocumentSearchItem,
   VectorStoreQueryItem,
+  isDocumentSearchSuccess,
+  isVectorStoreQuerySuccess,
 } from './types';
 
 /* ───────────────────────────────  schemas  ─────────────────────────────── */
@@ -119,6 +153,12 @@ export const documentSearchSchema = z.object({
     .record(z.any())
     .optional()
     .describe('Optional metadata filter criteria'),
+  rerank: z
+    .enum(RERANK_STRATEGIES)
+    .optional()
+    .describe(
+      'Optional second pass over the results: llm (a model grades relevance), cross-encoder (local relevance scorer) or mmr (drops near-duplicates)'
+    ),
 });
 
 export const documentAddSchema = z.object({
@@ -154,6 +194,26 @@ export const chunkDocumentSchema = z.object({
     .max(1000)
     .default(DEFAULT_CHUNK_OVERLAP)
     .describe('Overlap between chunks in characters'),
+  source: z
+    .string()
+    .optional()
+    .describe(
+      'File name, path or URL of the document; cited as the first breadcrumb'
+    ),
+  language: z
+    .string()
+    .optional()
+    .describe(
+      'Programming language for the "code" strategy (inferred from source otherwise)'
+    ),
+  breakpointPercentile: z
+    .number()
+    .min(50)
+    .max(99)
+    .optional()
+    .describe(
+      'For "semantic": split where sentence distance exceeds this percentile'
+    ),
   metadata: z
     .record(z.any())
     .optional()
@@ -198,140 +258,113 @@ export const vectorStoreQuerySchema = z.object({
     .enum(SIMILARITY_METRICS)
     .default('cosine')
     .describe('Similarity metric to use'),
+  rerank: z
+    .enum(RERANK_STRATEGIES)
+    .optional()
+    .describe(
+      'Optional second pass over the results: llm (a model grades relevance), cross-encoder (local relevance scorer) or mmr (drops near-duplicates)'
+    ),
+});
+
+export const knowledgeBaseIngestSchema = z.object({
+  knowledgeBaseId: z
+    .string()
+    .describe('ID of the knowledge base to ingest into'),
+  paths: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      'Files or folders to ingest (PDF, DOCX, HTML, Markdown, CSV, JSON, text), relative to the knowledge base root'
+    ),
+  force: z
+    .boolean()
+    .default(false)
+    .describe('Re-ingest files even if they have not changed'),
+  wait: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Wait for the job to finish; otherwise return the queued job immediately'
+    ),
 });
 
 /* ────────────────────────────  helper functions  ───────────────────────────── */
 
 /**
- * Calculate cosine similarity between two vectors
+ * Where a search result came from: the chunk's breadcrumbs when it was
+ * stored by a structure-aware chunker, otherwise the document title
  */
-function cosineSimilarity(a: Float32Array, b: Float32Array): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same dimensions');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+function withCitation(item: DocumentSearchItem): DocumentSearchItem {
+  const breadcrumbs = item.metadata?.breadcrumbs;
+  const citation =
+    item.metadata?.citation ??
+    (Array.isArray(breadcrumbs) && breadcrumbs.length > 0
+      ? formatBreadcrumbs(breadcrumbs)
+      : item.title);
+  return { ...item, citation };
 }
 
 /**
- * Chunk text using a fixed size strategy
+ * Re-order document search results and keep the best `limit`
  */
-function chunkTextFixed(
-  text: string,
-  chunkSize: number,
-  chunkOverlap: number
-): string[] {
-  const chunks: string[] = [];
-  let i = 0;
-
-  while (i < text.length) {
-    const chunk = text.slice(i, i + chunkSize);
-    chunks.push(chunk);
-    i += chunkSize - chunkOverlap;
-  }
-
-  return chunks;
+async function rerankDocuments(
+  query: string,
+  results: DocumentSearchItem[],
+  strategy: RerankStrategy,
+  limit: number
+): Promise<DocumentSearchItem[]> {
+  const reranked = await rerank(
+    query,
+    results.map((item) => ({
+      id: item.id,
+      content: item.content,
+      score: item.similarity,
+      item,
+    })),
+    { strategy, topK: limit }
+  );
+  return reranked.map(({ item, rerankScore }) => ({ ...item, rerankScore }));
 }
 
 /**
- * Chunk text using a recursive strategy (split by sections, then paragraphs, then sentences)
+ * Re-order vector store results and keep the best `limit`. LibSQL keeps the
+ * text in the `documents` table; the other providers store it as
+ * `metadata.text`.
  */
-function chunkTextRecursive(
-  text: string,
-  chunkSize: number,
-  chunkOverlap: number
-): string[] {
-  // Split by double newlines (sections)
-  const sections = text.split(/\n\s*\n/);
-
-  const chunks: string[] = [];
-
-  for (const section of sections) {
-    if (section.length <= chunkSize) {
-      chunks.push(section);
-      continue;
-    }
-
-    // Split by single newlines (paragraphs)
-    const paragraphs = section.split(/\n/);
-    let currentChunk = '';
-
-    for (const paragraph of paragraphs) {
-      if (currentChunk.length + paragraph.length <= chunkSize) {
-        currentChunk += (currentChunk ? '\n' : '') + paragraph;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk);
-          // Add overlap by keeping the last part of the previous chunk
-          const overlapText = currentChunk.slice(-chunkOverlap);
-          currentChunk = overlapText + '\n' + paragraph;
-        } else {
-          // Paragraph is longer than chunk size, split by sentences
-          const sentences = paragraph.match(/[^.!?]+[.!?]+/g) || [paragraph];
-          let sentenceChunk = '';
-
-          for (const sentence of sentences) {
-            if (sentenceChunk.length + sentence.length <= chunkSize) {
-              sentenceChunk += sentenceChunk ? ' ' + sentence : sentence;
-            } else {
-              if (sentenceChunk) {
-                chunks.push(sentenceChunk);
-                // Add overlap
-                const overlapText = sentenceChunk.slice(-chunkOverlap);
-                sentenceChunk = overlapText + ' ' + sentence;
-              } else {
-                // Sentence is too long, force split
-                chunks.push(sentence.slice(0, chunkSize));
-              }
-            }
-          }
-
-          if (sentenceChunk) {
-            chunks.push(sentenceChunk);
-          }
-        }
-      }
-    }
-
-    if (currentChunk) {
-      chunks.push(currentChunk);
+async function rerankVectors(
+  query: string,
+  results: VectorStoreQueryItem[],
+  provider: (typeof VECTOR_PROVIDERS)[number],
+  strategy: RerankStrategy,
+  limit: number
+): Promise<VectorStoreQueryItem[]> {
+  const contents = new Map<string, string>();
+  if (provider === 'libsql' && results.length > 0) {
+    const db = getLibSQLClient();
+    const rows = await db.execute({
+      sql: `SELECT id, content FROM documents WHERE id IN (${results
+        .map(() => '?')
+        .join(', ')})`,
+      args: results.map((item) => item.id),
+    });
+    for (const row of rows.rows) {
+      contents.set(row.id as string, row.content as string);
     }
   }
 
-  return chunks;
-}
-
-/**
- * Chunk text using the specified strategy
- */
-function chunkText(
-  text: string,
-  strategy: (typeof CHUNKING_STRATEGIES)[number],
-  chunkSize: number,
-  chunkOverlap: number
-): string[] {
-  switch (strategy) {
-    case 'fixed':
-      return chunkTextFixed(text, chunkSize, chunkOverlap);
-    case 'recursive':
-      return chunkTextRecursive(text, chunkSize, chunkOverlap);
-    case 'semantic':
-      // For semantic chunking, we'd ideally use a more sophisticated algorithm
-      // that understands semantic boundaries. For now, fall back to recursive.
-      return chunkTextRecursive(text, chunkSize, chunkOverlap);
-    default:
-      return chunkTextFixed(text, chunkSize, chunkOverlap);
-  }
+  const reranked = await rerank(
+    query,
+    results.map((item) => ({
+      id: item.id,
+      content:
+        contents.get(item.id) ??
+        (typeof item.metadata?.text === 'string' ? item.metadata.text : ''),
+      score: item.score,
+      item,
+    })),
+    { strategy, topK: limit }
+  );
+  return reranked.map(({ item, rerankScore }) => ({ ...item, rerankScore }));
 }
 
 /* ────────────────────────────  executions  ───────────────────────────── */
@@ -344,23 +377,56 @@ async function documentSearch(
 ): Promise<DocumentSearchResult> {
   const { query, limit, provider, filter } = params;
 
+  if (params.rerank) {
+    // Give the reranker more candidates than it will return
+    const result = await documentSearch({
+      ...params,
+      rerank: undefined,
+      limit: limit * RERANK_CANDIDATE_MULTIPLIER,
+    });
+    if (!isDocumentSearchSuccess(result)) return result;
+
+    try {
+      return {
+        ...result,
+        results: await rerankDocuments(
+          query,
+          result.results,
+          params.rerank,
+          limit
+        ),
+      };
+    } catch (error) {
+      console.error('Error reranking document search results:', error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Unknown error in rerank',
+      } as ToolFailure;
+    }
+  }
+
   try {
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query);
+    // Embed the query with the model the stored documents were embedded with
+    const {
+      vectors: [queryEmbedding],
+    } = await embedForNamespace(DEFAULT_EMBEDDING_NAMESPACE, [query]);
 
     // Search based on provider
     switch (provider) {
       case 'libsql': {
         const db = getLibSQLClient();
 
-        // Get all document embeddings
+        // Get the embeddings of documents matching the filter
+        const where = metadataFilterSql(filter, 'd.metadata');
         const result = await db.execute({
           sql: `
             SELECT d.id, d.title, d.content, d.metadata, e.vector
             FROM documents d
             JOIN embeddings e ON d.embedding_id = e.id
+            WHERE ${where.sql}
           `,
-          args: [],
+          args: where.args,
         });
 
         // Calculate similarities
@@ -384,15 +450,6 @@ async function documentSearch(
             const similarity = cosineSimilarity(queryEmbedding, storedVector);
             const metadata = JSON.parse((row.metadata as string) || '{}');
 
-            // Apply filter if provided
-            if (filter) {
-              for (const [key, value] of Object.entries(filter)) {
-                if (metadata[key] !== value) {
-                  return null;
-                }
-              }
-            }
-
             return {
               id: row.id as string,
               title: row.title as string,
@@ -410,7 +467,7 @@ async function documentSearch(
         return {
           success: true,
           query,
-          results: similarities.slice(0, limit),
+          results: similarities.slice(0, limit).map(withCitation),
         };
       }
 
@@ -437,7 +494,7 @@ async function documentSearch(
           return {
             success: true,
             query,
-            results: formattedResults,
+            results: formattedResults.map(withCitation),
           };
         } catch (error) {
           console.error('Error in Supabase document search:', error);
@@ -495,7 +552,7 @@ async function documentSearch(
             return {
               success: true,
               query,
-              results: formattedResults,
+              results: formattedResults.map(withCitation),
             };
           } catch (vectorSearchError) {
             console.warn(
@@ -526,7 +583,7 @@ async function documentSearch(
               return {
                 success: true,
                 query,
-                results: formattedResults,
+                results: formattedResults.map(withCitation),
               };
             } catch (searchError) {
               console.warn(
@@ -561,7 +618,7 @@ async function documentSearch(
               return {
                 success: true,
                 query,
-                results: formattedResults,
+                results: formattedResults.map(withCitation),
               };
             }
           }
@@ -639,8 +696,11 @@ async function documentAdd(
 
       // Generate embedding if requested
       if (shouldGenerateEmbedding) {
-        const embedding = await generateEmbedding(content);
-        embeddingId = await saveEmbedding(embedding);
+        const {
+          model,
+          vectors: [embedding],
+        } = await embedForNamespace(DEFAULT_EMBEDDING_NAMESPACE, [content]);
+        embeddingId = await saveEmbedding(embedding, model);
       }
 
       // Save the document
@@ -679,19 +739,37 @@ async function documentAdd(
 async function chunkDocument(
   params: z.infer<typeof chunkDocumentSchema>
 ): Promise<ChunkDocumentResult> {
-  const { content, strategy, chunkSize, chunkOverlap, metadata = {} } = params;
+  const {
+    content,
+    strategy,
+    chunkSize,
+    chunkOverlap,
+    source,
+    language,
+    breakpointPercentile,
+    metadata = {},
+  } = params;
 
   try {
     // Generate chunks
-    const chunks = chunkText(content, strategy, chunkSize, chunkOverlap);
+    const chunks = await chunkText(content, {
+      strategy,
+      chunkSize,
+      chunkOverlap,
+      source,
+      language,
+      breakpointPercentile,
+    });
 
     // Create document chunks with IDs and metadata
     const documentId = uuidv4();
     const documentChunks = chunks.map((chunk, index) => ({
       id: `${documentId}-chunk-${index}`,
-      content: chunk,
+      content: chunk.content,
       metadata: {
         ...metadata,
+        ...chunk.location,
+        citation: formatBreadcrumbs(chunk.location.breadcrumbs) || undefined,
         chunkIndex: index,
         chunkCount: chunks.length,
         strategy,
@@ -730,15 +808,24 @@ async function vectorStoreUpsert(
       case 'libsql': {
         const db = getLibSQLClient();
 
+        // Embed all texts in batches with the namespace's model
+        const embeddingNamespace = namespace ?? DEFAULT_EMBEDDING_NAMESPACE;
+        const { model, vectors } = await embedForNamespace(
+          embeddingNamespace,
+          texts
+        );
+
         // Process each text
         for (let i = 0; i < texts.length; i++) {
           const text = texts[i];
           const metadata = metadatas[i] || {};
           const id = uuidv4();
 
-          // Generate embedding
-          const embedding = await generateEmbedding(text);
-          const embeddingId = await saveEmbedding(embedding);
+          const embeddingId = await saveEmbedding(
+            vectors[i],
+            model,
+            embeddingNamespace
+          );
 
           // Store document with reference to embedding
           await db.execute({
@@ -885,21 +972,60 @@ async function vectorStoreQuery(
   const { query, provider, namespace, filter, limit, similarityMetric } =
     params;
 
+  if (params.rerank) {
+    // Give the reranker more candidates than it will return
+    const result = await vectorStoreQuery({
+      ...params,
+      rerank: undefined,
+      limit: limit * RERANK_CANDIDATE_MULTIPLIER,
+    });
+    if (!isVectorStoreQuerySuccess(result)) return result;
+
+    try {
+      return {
+        ...result,
+        results: await rerankVectors(
+          query,
+          result.results,
+          provider,
+          params.rerank,
+          limit
+        ),
+      };
+    } catch (error) {
+      console.error('Error reranking vector store results:', error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Unknown error in rerank',
+      } as ToolFailure;
+    }
+  }
+
   try {
     switch (provider) {
       case 'libsql': {
-        // Generate embedding for the query
-        const queryEmbedding = await generateEmbedding(query);
+        // Embed the query with the model of the namespace's vectors
+        const {
+          vectors: [queryEmbedding],
+        } = await embedForNamespace(namespace ?? DEFAULT_EMBEDDING_NAMESPACE, [
+          query,
+        ]);
         const db = getLibSQLClient();
 
-        // Get all document embeddings
+        // Get the embeddings of documents in the namespace matching the filter
+        const where = metadataFilterSql(
+          { ...filter, ...(namespace ? { namespace } : {}) },
+          'd.metadata'
+        );
         const result = await db.execute({
           sql: `
             SELECT d.id, d.metadata, e.vector
             FROM documents d
             JOIN embeddings e ON d.embedding_id = e.id
+            WHERE ${where.sql}
           `,
-          args: [],
+          args: where.args,
         });
 
         // Calculate similarities
@@ -922,20 +1048,6 @@ async function vectorStoreQuery(
 
             const metadata = JSON.parse((row.metadata as string) || '{}');
 
-            // Filter by namespace if provided
-            if (namespace && metadata.namespace !== namespace) {
-              return null;
-            }
-
-            // Apply additional filters if provided
-            if (filter) {
-              for (const [key, value] of Object.entries(filter)) {
-                if (metadata[key] !== value) {
-                  return null;
-                }
-              }
-            }
-
             // Calculate similarity based on the selected metric
             let score: number;
             switch (similarityMetric) {
@@ -1086,39 +1198,42 @@ async function vectorStoreQuery(
 async function hybridVectorSearch(
   params: z.infer<typeof hybridVectorSearchSchema>
 ): Promise<HybridVectorSearchResult> {
-  const { query, limit, filter, keywordWeight, vectorWeight } = params;
+  const {
+    query,
+    limit,
+    provider,
+    filter,
+    fusion,
+    keywordWeight,
+    vectorWeight,
+  } = params;
 
   try {
-    // Check if Upstash Vector is available
-    if (!isUpstashVectorAvailable()) {
-      throw new Error(
-        'Upstash Vector is not available. Please set UPSTASH_VECTOR_REST_URL and UPSTASH_VECTOR_REST_TOKEN environment variables.'
-      );
-    }
-
-    // Use hybridSearch from upstash/vector-store.ts
-    const searchResults = await upstashHybridSearch(query, {
+    const hits = await hybridSearch(query, {
+      provider,
       limit,
-      filter: filter ? JSON.stringify(filter) : undefined,
+      filter,
+      fusion,
       keywordWeight,
       vectorWeight,
     });
 
-    // Format results
-    const formattedResults = searchResults.map((result) => {
-      const metadata = result.metadata || {};
-      return {
-        id: result.id,
-        metadata,
-        score: result.score,
-        content: metadata.text || '',
-      };
-    });
-
     return {
       success: true,
       query,
-      results: formattedResults,
+      results: hits.map((hit) => ({
+        id: hit.id,
+        metadata: hit.metadata,
+        score: hit.score,
+        content: hit.content,
+        keywordScore: hit.keywordScore,
+        vectorScore: hit.vectorScore,
+        citation: withCitation({
+          ...hit,
+          title: hit.title ?? 'Untitled',
+          similarity: hit.score,
+        }).citation,
+      })),
     };
   } catch (error) {
     console.error('Error in hybrid vector search:', error);
@@ -1129,6 +1244,37 @@ async function hybridVectorSearch(
   }
 }
 
+/**
+ * Ingest local files into a knowledge base
+ */
+async function knowledgeBaseIngest(
+  params: z.infer<typeof knowledgeBaseIngestSchema>
+): Promise<KnowledgeBaseIngestResult> {
+  const { knowledgeBaseId, paths, force, wait } = params;
+
+  try {
+    const knowledgeBase = await getKnowledgeBase(knowledgeBaseId);
+    if (!knowledgeBase) {
+      return {
+        success: false,
+        error: `Knowledge base ${knowledgeBaseId} not found`,
+      } as ToolFailure;
+    }
+
+    const job = await startIngestionJob(knowledgeBase, { paths, force });
+    return {
+      success: true,
+      job: (wait && (await waitForIngestionJob(job.id))) || job,
+    };
+  } catch (error) {
+    console.error('Error ingesting into knowledge base:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    } as ToolFailure;
+  }
+}
+
 /* ─────────────────────────────  exports  ────────────────────────────── */
 
 export const tools = {
@@ -1162,9 +1308,16 @@ export const tools = {
     execute: vectorStoreQuery,
   }),
 
+  KnowledgeBaseIngest: tool({
+    description:
+      'Ingest PDF, DOCX, HTML, Markdown, CSV and JSON files into a knowledge base; unchanged and duplicate files are skipped. Search it with DocumentSearch and filter { knowledgeBaseId }',
+    parameters: knowledgeBaseIngestSchema,
+    execute: knowledgeBaseIngest,
+  }),
+
   HybridVectorSearch: tool({
     description:
-      'Perform a hybrid search combining vector similarity with keyword matching (Upstash only)',
+      'Perform a hybrid search combining BM25 keyword matching with vector similarity from any provider',
     parameters: hybridVectorSearchSchema,
     execute: hybridVectorSearch,
   }),
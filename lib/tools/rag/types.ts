@@ -7,6 +7,7 @@ import {
   CHUNKING_STRATEGIES,
   SIMILARITY_METRICS,
 } from './constants';
+import type { IngestionJob } from './knowledge-base';
 
 /* ------------------------------------------------------------------ */
 /*                             Failure                                */
@@ -27,6 +28,10 @@ export interface DocumentSearchItem {
   content: string;
   metadata?: Record<string, any>;
   similarity: number;
+  /** Breadcrumb trail of the source section, e.g. `guide.md › Setup › Install` */
+  citation?: string;
+  /** Score from the rerank stage, when one was requested */
+  rerankScore?: number;
 }
 
 export interface DocumentSearchSuccess {
@@ -99,6 +104,8 @@ export interface VectorStoreQueryItem {
   id: string;
   metadata: Record<string, any>;
   score: number;
+  /** Score from the rerank stage, when one was requested */
+  rerankScore?: number;
 }
 
 export interface VectorStoreQuerySuccess {
@@ -112,3 +119,20 @@ export type VectorStoreQueryResult = VectorStoreQuerySuccess | ToolFailure;
 export const isVectorStoreQuerySuccess = (
   r: VectorStoreQueryResult
 ): r is VectorStoreQuerySuccess => r.success;
+
+/* ------------------------------------------------------------------ */
+/*                      KnowledgeBaseIngest                           */
+/* ------------------------------------------------------------------ */
+
+export interface KnowledgeBaseIngestSuccess {
+  success: true;
+  /** Final state when the tool waited, otherwise the queued job */
+  job: IngestionJob;
+}
+
+export type KnowledgeBaseIngestResult =
+  | KnowledgeBaseIngestSuccess
+  | ToolFailure;
+export const isKnowledgeBaseIngestSuccess = (
+  r: KnowledgeBaseIngestResult
+): r is KnowledgeBaseIngestSuccess => r.success;
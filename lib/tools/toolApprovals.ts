@@ -0,0 +1,271 @@
+/**
+ * Tool Approvals
+ *
+ * Human-in-the-loop gate for agent tool calls. Tools configured with
+ * `requires_approval` are not executed when the model calls them; the call is
+ * parked in the `tool_approvals` table and surfaced to reviewers. Once approved,
+ * the tool runs through the ToolRegistry and its outcome is written back to the
+ * agent's memory thread so the next turn can use it.
+ */
+
+import { generateId } from 'ai';
+import { z } from 'zod';
+import { getLibSQLClient } from '../memory/db';
+import { saveMessage } from '../memory/memory';
+import { runWithToolContext } from './toolContext';
+import { ToolRegistry } from './toolRegistry';
+
+// Tool approval status
+export type ToolApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A parked tool call awaiting (or having received) a reviewer decision
+ */
+export interface ToolApproval {
+  id: string;
+  agentId: string;
+  threadId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  status: ToolApprovalStatus;
+  result?: unknown;
+  error?: string;
+  reviewer?: string;
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Zod schema for a reviewer decision
+ */
+export const ToolApprovalDecisionSchema = z.object({
+  approved: z.boolean(),
+  reviewer: z.string().optional(),
+  comment: z.string().optional(),
+});
+
+export type ToolApprovalDecision = z.infer<typeof ToolApprovalDecisionSchema>;
+
+/**
+ * Thrown when an approval has already been reviewed, including by a reviewer
+ * who claimed it a moment earlier
+ */
+export class ToolApprovalConflictError extends Error {
+  constructor(
+    public readonly approvalId: string,
+    public readonly status: ToolApprovalStatus
+  ) {
+    super(`Tool approval ${approvalId} has already been ${status}`);
+    this.name = 'ToolApprovalConflictError';
+    Object.setPrototypeOf(this, ToolApprovalConflictError.prototype);
+  }
+}
+
+// Converts a tool_approvals row to a ToolApproval
+function rowToApproval(row: Record<string, unknown>): ToolApproval {
+  return {
+    id: row.id as string,
+    agentId: row.agent_id as string,
+    threadId: row.thread_id as string,
+    toolName: row.tool_name as string,
+    args: JSON.parse((row.args as string) || '{}'),
+    status: row.status as ToolApprovalStatus,
+    result: row.result ? JSON.parse(row.result as string) : undefined,
+    error: (row.error as string) || undefined,
+    reviewer: (row.reviewer as string) || undefined,
+    comment: (row.comment as string) || undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * Parks a tool call until a reviewer approves or rejects it
+ *
+ * @param agentId - Agent that requested the call
+ * @param threadId - Memory thread the call belongs to
+ * @param toolName - Name of the tool in the ToolRegistry
+ * @param args - Arguments the model called the tool with
+ * @returns The pending approval
+ */
+export async function requestToolApproval(
+  agentId: string,
+  threadId: string,
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<ToolApproval> {
+  const db = getLibSQLClient();
+  const now = new Date().toISOString();
+  const approval: ToolApproval = {
+    id: generateId(),
+    agentId,
+    threadId,
+    toolName,
+    args,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO tool_approvals (id, agent_id, thread_id, tool_name, args, status, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      approval.id,
+      agentId,
+      threadId,
+      toolName,
+      JSON.stringify(args),
+      approval.status,
+      now,
+      now,
+    ],
+  });
+
+  return approval;
+}
+
+/**
+ * Gets a tool approval by ID
+ */
+export async function getToolApproval(
+  id: string
+): Promise<ToolApproval | null> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM tool_approvals WHERE id = ?',
+    args: [id],
+  });
+
+  return result.rows.length > 0
+    ? rowToApproval(result.rows[0] as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Lists tool approvals, newest first
+ *
+ * @param filters - Optional status, agent and thread filters
+ */
+export async function listToolApprovals(
+  filters: {
+    status?: ToolApprovalStatus;
+    agentId?: string;
+    threadId?: string;
+    limit?: number;
+  } = {}
+): Promise<ToolApproval[]> {
+  const db = getLibSQLClient();
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filters.status) {
+    conditions.push('status = ?');
+    args.push(filters.status);
+  }
+  if (filters.agentId) {
+    conditions.push('agent_id = ?');
+    args.push(filters.agentId);
+  }
+  if (filters.threadId) {
+    conditions.push('thread_id = ?');
+    args.push(filters.threadId);
+  }
+  args.push(filters.limit ?? 50);
+
+  const result = await db.execute({
+    sql: `SELECT * FROM tool_approvals
+          ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+          ORDER BY created_at DESC LIMIT ?`,
+    args,
+  });
+
+  return result.rows.map((row) =>
+    rowToApproval(row as Record<string, unknown>)
+  );
+}
+
+/**
+ * Records a reviewer decision, executing the tool if approved
+ *
+ * @param id - Approval ID
+ * @param decision - Reviewer decision
+ * @returns The reviewed approval, including the tool result when approved
+ */
+export async function reviewToolApproval(
+  id: string,
+  decision: ToolApprovalDecision
+): Promise<ToolApproval> {
+  const approval = await getToolApproval(id);
+  if (!approval) {
+    throw new Error(`Tool approval ${id} not found`);
+  }
+  if (approval.status !== 'pending') {
+    throw new ToolApprovalConflictError(id, approval.status);
+  }
+
+  approval.status = decision.approved ? 'approved' : 'rejected';
+  approval.reviewer = decision.reviewer;
+  approval.comment = decision.comment;
+  approval.updatedAt = new Date().toISOString();
+
+  // Claim the approval before running anything, so two reviewers approving
+  // at once cannot both execute the tool
+  const db = getLibSQLClient();
+  const claim = await db.execute({
+    sql: `UPDATE tool_approvals
+          SET status = ?, reviewer = ?, comment = ?, updated_at = ?
+          WHERE id = ? AND status = 'pending'`,
+    args: [
+      approval.status,
+      approval.reviewer ?? null,
+      approval.comment ?? null,
+      approval.updatedAt,
+      id,
+    ],
+  });
+  if (claim.rowsAffected !== 1) {
+    const current = await getToolApproval(id);
+    throw new ToolApprovalConflictError(id, current?.status ?? 'approved');
+  }
+
+  if (decision.approved) {
+    try {
+      approval.result = await runWithToolContext(
+        { agentId: approval.agentId, threadId: approval.threadId },
+        () => ToolRegistry.executeTool(approval.toolName, approval.args)
+      );
+    } catch (error) {
+      approval.error = error instanceof Error ? error.message : String(error);
+    }
+
+    approval.updatedAt = new Date().toISOString();
+    await db.execute({
+      sql: `UPDATE tool_approvals
+            SET result = ?, error = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [
+        approval.result === undefined ? null : JSON.stringify(approval.result),
+        approval.error ?? null,
+        approval.updatedAt,
+        id,
+      ],
+    });
+  }
+
+  // Let the agent see the outcome on its next turn
+  const outcome = !decision.approved
+    ? `was rejected${decision.comment ? `: ${decision.comment}` : ''}`
+    : approval.error
+      ? `was approved but failed: ${approval.error}`
+      : `was approved and returned: ${JSON.stringify(approval.result)}`;
+  await saveMessage(
+    approval.threadId,
+    'system',
+    `Tool call ${approval.toolName} (approval ${id}) ${outcome}`,
+    { tool_name: approval.toolName, metadata: { toolApprovalId: id } }
+  );
+
+  return approval;
+}
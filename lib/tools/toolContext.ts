@@ -0,0 +1,42 @@
+/**
+ * Tool Execution Context
+ *
+ * Carries the agent and memory thread a tool call belongs to, so tools that
+ * keep per-agent state (such as the file jail) can find it without adding
+ * parameters the model would have to fill in. The context is propagated with
+ * AsyncLocalStorage and set by whoever executes the tool (BaseAgent, tool
+ * approvals).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Identifies the caller of a tool
+export interface ToolContext {
+  agentId?: string;
+  threadId?: string;
+  /** End user the agent is serving, when known */
+  userId?: string;
+}
+
+const storage = new AsyncLocalStorage<ToolContext>();
+
+/**
+ * Runs a function with the given tool context
+ *
+ * @param context - Agent and thread the tool calls belong to
+ * @param fn - Work to run, typically `ToolRegistry.executeTool`
+ * @returns The function's result
+ */
+export function runWithToolContext<T>(
+  context: ToolContext,
+  fn: () => Promise<T>
+): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the context of the tool call being executed, or an empty context
+ */
+export function getToolContext(): ToolContext {
+  return storage.getStore() ?? {};
+}
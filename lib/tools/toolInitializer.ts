@@ -16,6 +16,7 @@ import * as dataTools from './data-tools';
 import * as fileTools from './file-tools';
 import * as apiTools from './api-tools';
 import * as ragTools from './rag-tools';
+import * as memoryTools from './memory-tools';
 import * as agenticTools from './agentic';
 import { getLibSQLClient } from '../memory/db';
 import { getData, getItemById } from '../memory/supabase';
@@ -185,6 +186,12 @@ export function initializeBuiltInTools(): Record<
       Tool<any, any> | undefined
     >;
   }
+  if (memoryTools && memoryTools.tools) {
+    builtInToolGroups.memory = memoryTools.tools as Record<
+      string,
+      Tool<any, any> | undefined
+    >;
+  }
   return builtInToolGroups;
 }
 
@@ -0,0 +1,382 @@
+/**
+ * Tool Execution Policies
+ *
+ * Per-tool protection applied by `ToolRegistry.executeTool`: a timeout, a
+ * concurrency limit, a token-bucket rate limit, retries with exponential
+ * backoff (idempotent tools only) and a circuit breaker that stops calling a
+ * tool after repeated failures. Policies come from the `toolPolicies` section
+ * of tools.json (keys are tool names, `*` globs or `default`) and the
+ * `execution_policy` column of the tools table, which takes precedence.
+ * Breaker transitions are recorded in the Upstash tool execution store.
+ */
+
+import { z } from 'zod';
+import { getAllTools, shouldUseUpstash } from '../memory/supabase';
+import toolsManifest from './tools.json';
+import {
+  saveCircuitBreakerState,
+  type CircuitBreakerState,
+} from './upstash-tool-execution-store';
+
+/**
+ * Zod schema for a tool execution policy
+ */
+export const ToolPolicySchema = z.object({
+  /** Abort an attempt after this many milliseconds */
+  timeoutMs: z.number().int().positive().optional(),
+  /** Calls beyond this limit wait for a running call to finish */
+  maxConcurrency: z.number().int().positive().optional(),
+  /** Token bucket: at most `requests` calls per `intervalMs` */
+  rateLimit: z
+    .object({
+      requests: z.number().int().positive(),
+      intervalMs: z.number().int().positive(),
+    })
+    .optional(),
+  /** Whether the tool is safe to call again after a failure */
+  idempotent: z.boolean().optional(),
+  /** Retries for idempotent tools; `attempts` includes the first call */
+  retry: z
+    .object({
+      attempts: z.number().int().min(1).max(10),
+      backoffMs: z.number().int().nonnegative().default(500),
+      maxBackoffMs: z.number().int().positive().default(30_000),
+    })
+    .optional(),
+  /** Open the circuit after `failureThreshold` consecutive failures */
+  circuitBreaker: z
+    .object({
+      failureThreshold: z.number().int().positive(),
+      resetTimeoutMs: z.number().int().positive().default(60_000),
+    })
+    .optional(),
+});
+
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+// Why a call was refused or cut short
+export type ToolPolicyViolation = 'timeout' | 'rate_limited' | 'circuit_open';
+
+/**
+ * Error thrown when a tool's policy refuses or aborts a call
+ */
+export class ToolPolicyError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly reason: ToolPolicyViolation,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ToolPolicyError';
+    Object.setPrototypeOf(this, ToolPolicyError.prototype);
+  }
+
+  /** Whether the call never reached the tool */
+  get rejected(): boolean {
+    return this.reason !== 'timeout';
+  }
+}
+
+// Runtime state kept per tool
+interface ToolGuard {
+  active: number;
+  waiting: Array<() => void>;
+  tokens: number;
+  refilledAt: number;
+  breaker: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+const guards = new Map<string, ToolGuard>();
+let policiesPromise: Promise<Record<string, ToolPolicy>> | null = null;
+
+// Parses a policy, logging and dropping invalid ones
+function parsePolicy(source: string, value: unknown): ToolPolicy | undefined {
+  const parsed = ToolPolicySchema.safeParse(
+    typeof value === 'string' ? JSON.parse(value) : value
+  );
+  if (!parsed.success) {
+    console.warn(`Ignoring invalid tool policy '${source}':`, parsed.error);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+// Loads policies from tools.json and the tools table
+async function loadToolPolicies(): Promise<Record<string, ToolPolicy>> {
+  const policies: Record<string, ToolPolicy> = {};
+  const filePolicies =
+    (toolsManifest as { toolPolicies?: Record<string, unknown> })
+      .toolPolicies ?? {};
+  for (const [key, value] of Object.entries(filePolicies)) {
+    const policy = parsePolicy(key, value);
+    if (policy) policies[key] = policy;
+  }
+
+  try {
+    for (const row of await getAllTools()) {
+      if (!row.execution_policy) continue;
+      const policy = parsePolicy(row.name, row.execution_policy);
+      if (policy) policies[row.name] = policy;
+    }
+  } catch (error) {
+    console.warn(
+      'Could not load tool policies from the tools table:',
+      error instanceof Error ? error.message : error
+    );
+  }
+  return policies;
+}
+
+/**
+ * Forgets the loaded policies so they are read again on the next call
+ */
+export function reloadToolPolicies(): void {
+  policiesPromise = null;
+}
+
+/**
+ * Resolves the policy of a tool: `default`, overridden by the first matching
+ * `*` glob, overridden by an entry for the exact tool name
+ *
+ * @param toolName - Name of the tool
+ * @returns The effective policy (empty when nothing is configured)
+ */
+export async function getToolPolicy(toolName: string): Promise<ToolPolicy> {
+  policiesPromise ??= loadToolPolicies();
+  const policies = await policiesPromise;
+  const glob = Object.keys(policies).find(
+    (key) =>
+      key.includes('*') &&
+      new RegExp(
+        `^${key.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`
+      ).test(toolName)
+  );
+  return {
+    ...policies.default,
+    ...(glob ? policies[glob] : undefined),
+    ...policies[toolName],
+  };
+}
+
+function getGuard(toolName: string): ToolGuard {
+  let guard = guards.get(toolName);
+  if (!guard) {
+    guard = {
+      active: 0,
+      waiting: [],
+      tokens: Infinity,
+      refilledAt: Date.now(),
+      breaker: 'closed',
+      consecutiveFailures: 0,
+      trialInFlight: false,
+    };
+    guards.set(toolName, guard);
+  }
+  return guard;
+}
+
+// Records a breaker transition; never fails the tool call
+function recordBreakerState(toolName: string, guard: ToolGuard): void {
+  if (!shouldUseUpstash()) return;
+  const state: CircuitBreakerState = {
+    state: guard.breaker,
+    consecutive_failures: guard.consecutiveFailures,
+    opened_at: guard.openedAt
+      ? new Date(guard.openedAt).toISOString()
+      : undefined,
+    updated_at: new Date().toISOString(),
+  };
+  saveCircuitBreakerState(toolName, state).catch((error) =>
+    console.error(`Failed to record circuit state of '${toolName}':`, error)
+  );
+}
+
+// Throws when the circuit is open; moves it to half-open once reset
+function checkCircuit(
+  toolName: string,
+  guard: ToolGuard,
+  policy: ToolPolicy
+): void {
+  const breaker = policy.circuitBreaker;
+  if (!breaker || guard.breaker === 'closed') return;
+
+  const retryAfterMs =
+    (guard.openedAt ?? 0) + breaker.resetTimeoutMs - Date.now();
+  if (guard.breaker === 'open' && retryAfterMs <= 0) {
+    guard.breaker = 'half_open';
+    recordBreakerState(toolName, guard);
+  }
+  if (guard.breaker === 'half_open' && !guard.trialInFlight) {
+    guard.trialInFlight = true;
+    return;
+  }
+  throw new ToolPolicyError(
+    toolName,
+    'circuit_open',
+    `Tool '${toolName}' is temporarily disabled after repeated failures.`,
+    Math.max(retryAfterMs, 0)
+  );
+}
+
+// Takes a token from the bucket or throws
+function takeToken(
+  toolName: string,
+  guard: ToolGuard,
+  policy: ToolPolicy
+): void {
+  const limit = policy.rateLimit;
+  if (!limit) return;
+
+  const now = Date.now();
+  const refill = ((now - guard.refilledAt) / limit.intervalMs) * limit.requests;
+  guard.tokens = Math.min(limit.requests, guard.tokens + refill);
+  guard.refilledAt = now;
+  if (guard.tokens >= 1) {
+    guard.tokens -= 1;
+    return;
+  }
+  throw new ToolPolicyError(
+    toolName,
+    'rate_limited',
+    `Rate limit of ${limit.requests} calls per ${limit.intervalMs}ms exceeded for tool '${toolName}'.`,
+    Math.ceil(((1 - guard.tokens) / limit.requests) * limit.intervalMs)
+  );
+}
+
+// Waits for a concurrency slot and returns its release function
+async function acquireSlot(
+  guard: ToolGuard,
+  policy: ToolPolicy
+): Promise<() => void> {
+  if (policy.maxConcurrency) {
+    while (guard.active >= policy.maxConcurrency) {
+      await new Promise<void>((resolve) => guard.waiting.push(resolve));
+    }
+  }
+  guard.active++;
+  return () => {
+    guard.active--;
+    guard.waiting.shift()?.();
+  };
+}
+
+function recordOutcome(
+  toolName: string,
+  guard: ToolGuard,
+  policy: ToolPolicy,
+  succeeded: boolean
+): void {
+  const wasTrial = guard.breaker === 'half_open';
+  guard.trialInFlight = false;
+  if (succeeded) {
+    guard.consecutiveFailures = 0;
+    if (guard.breaker !== 'closed') {
+      guard.breaker = 'closed';
+      guard.openedAt = undefined;
+      recordBreakerState(toolName, guard);
+    }
+    return;
+  }
+
+  guard.consecutiveFailures++;
+  const breaker = policy.circuitBreaker;
+  if (
+    breaker &&
+    (wasTrial || guard.consecutiveFailures >= breaker.failureThreshold)
+  ) {
+    guard.breaker = 'open';
+    guard.openedAt = Date.now();
+    recordBreakerState(toolName, guard);
+  }
+}
+
+// Runs one attempt, aborting it when the timeout elapses. `onSettled` runs
+// when the attempt itself settles, which after a timeout may be much later:
+// a tool that ignores the abort signal keeps running until then.
+async function runWithTimeout<T>(
+  toolName: string,
+  timeoutMs: number | undefined,
+  run: (abortSignal: AbortSignal) => Promise<T>,
+  onSettled: () => void
+): Promise<T> {
+  const controller = new AbortController();
+  const attempt = (async () => run(controller.signal))();
+  attempt.then(onSettled, onSettled);
+  if (!timeoutMs) return attempt;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ToolPolicyError(
+        toolName,
+        'timeout',
+        `Tool '${toolName}' timed out after ${timeoutMs}ms.`
+      );
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([attempt, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs a tool call under the tool's policy
+ *
+ * @param toolName - Name of the tool
+ * @param run - Executes the tool once; receives a signal aborted on timeout
+ * @returns The tool's result
+ * @throws ToolPolicyError when the call is rejected or times out, or the
+ *         tool's own error once retries are exhausted
+ */
+export async function executeWithPolicy<T>(
+  toolName: string,
+  run: (abortSignal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const policy = await getToolPolicy(toolName);
+  const guard = getGuard(toolName);
+
+  checkCircuit(toolName, guard, policy);
+  try {
+    takeToken(toolName, guard, policy);
+  } catch (error) {
+    guard.trialInFlight = false;
+    throw error;
+  }
+
+  const attempts = policy.idempotent ? (policy.retry?.attempts ?? 1) : 1;
+  for (let attempt = 1; ; attempt++) {
+    // The slot is held until the attempt settles, even past its timeout
+    const release = await acquireSlot(guard, policy);
+    try {
+      const result = await runWithTimeout(
+        toolName,
+        policy.timeoutMs,
+        run,
+        release
+      );
+      recordOutcome(toolName, guard, policy, true);
+      return result;
+    } catch (error) {
+      recordOutcome(toolName, guard, policy, false);
+      if (attempt >= attempts || guard.breaker === 'open') throw error;
+    }
+
+    const { backoffMs, maxBackoffMs } = policy.retry!;
+    await new Promise((resolve) =>
+      setTimeout(
+        resolve,
+        Math.min(backoffMs * 2 ** (attempt - 1), maxBackoffMs)
+      )
+    );
+    // A retry is another call: it needs the circuit to allow it
+    checkCircuit(toolName, guard, policy);
+  }
+}
@@ -11,6 +11,13 @@ import { tool, type Tool } from 'ai';
 import { z } from 'zod';
 import { initializeTools } from './toolInitializer';
 import { createTrace, logEvent } from '../langfuse-integration';
+import { shouldUseUpstash } from '../memory/supabase';
+import { getToolContext } from './toolContext';
+import { executeWithPolicy, ToolPolicyError } from './toolPolicies';
+import {
+  logToolExecution,
+  type ToolExecutionInput,
+} from './upstash-tool-execution-store';
 
 /**
  * Represents a tool along with its category.
@@ -45,6 +52,7 @@ interface ToolRegistryOptions {
   includeBuiltIn?: boolean;
   includeCustom?: boolean;
   includeAgentic?: boolean;
+  includeMcp?: boolean;
 }
 
 /**
@@ -91,6 +99,7 @@ export class ToolRegistry {
       throw new Error(`Tool '${toolName}' not found in registry.`);
     }
 
+    const startTime = Date.now();
     try {
       // Create a trace for tool execution
       const trace = await createTrace({
@@ -102,30 +111,31 @@ export class ToolRegistry {
       });
 
       // Execute the tool - AI SDK tools have an execute method that takes params
-      // We need to handle both the AI SDK tool format and any custom formats
-      let result;
-
-      // Handle different tool formats
-      if (typeof tool === 'function') {
-        // Direct function tool
-        result = await tool(params);
-      } else if (tool && typeof (tool as any).execute === 'function') {
-        // AI SDK tool format
-        const executeFn = (tool as any).execute;
-        // AI SDK tools might expect (params, runId) signature
-        result = await executeFn.call(
-          tool,
-          params,
-          `tool_execution_${Date.now()}`
-        );
-      } else if (tool && typeof (tool as any).call === 'function') {
-        // For compatibility with other tool formats
-        result = await (tool as any).call(params);
-      } else {
-        throw new Error(
-          `Tool '${toolName}' does not have a valid execute method.`
-        );
-      }
+      // We need to handle both the AI SDK tool format and any custom formats.
+      // Each attempt runs under the tool's policy (timeout, rate limit, retry,
+      // circuit breaker).
+      const result = await executeWithPolicy(toolName, async (abortSignal) => {
+        // Handle different tool formats
+        if (typeof tool === 'function') {
+          // Direct function tool
+          return await tool(params);
+        } else if (tool && typeof (tool as any).execute === 'function') {
+          // AI SDK tool format: execute(args, { toolCallId, messages, abortSignal })
+          const executeFn = (tool as any).execute;
+          return await executeFn.call(tool, params, {
+            toolCallId: `tool_execution_${Date.now()}`,
+            messages: [],
+            abortSignal,
+          });
+        } else if (tool && typeof (tool as any).call === 'function') {
+          // For compatibility with other tool formats
+          return await (tool as any).call(params);
+        } else {
+          throw new Error(
+            `Tool '${toolName}' does not have a valid execute method.`
+          );
+        }
+      });
 
       // Log successful execution
       logEvent({
@@ -139,20 +149,39 @@ export class ToolRegistry {
               : String(result),
         },
       });
+      await recordToolExecution(toolName, params, startTime, {
+        status: 'success',
+        result,
+      });
 
       return result;
     } catch (error) {
       console.error(`Error executing tool '${toolName}':`, error);
 
+      // Calls refused by the tool's policy never reached the tool
+      const rejection =
+        error instanceof ToolPolicyError && error.rejected ? error : undefined;
+
       // Log execution error
       logEvent({
         traceId: 'ToolRegistry',
-        name: 'ToolExecutionError',
+        name: rejection ? 'ToolExecutionRejected' : 'ToolExecutionError',
         metadata: {
           toolName,
           error: error instanceof Error ? error.message : String(error),
+          ...(rejection && { reason: rejection.reason }),
         },
       });
+      await recordToolExecution(toolName, params, startTime, {
+        status: rejection ? 'rejected' : 'error',
+        error_message: error instanceof Error ? error.message : String(error),
+        ...(rejection && {
+          metadata: {
+            reason: rejection.reason,
+            retry_after_ms: rejection.retryAfterMs,
+          },
+        }),
+      });
 
       throw error;
     }
@@ -213,6 +242,7 @@ export class ToolRegistry {
       includeBuiltIn: true,
       includeCustom: true,
       includeAgentic: true,
+      includeMcp: true,
       ...options,
     };
 
@@ -336,6 +366,16 @@ export class ToolRegistry {
         }
       }
 
+      // Import tools from configured MCP servers (categories 'mcp:<server>').
+      // Servers connect in the background and register their tools as each
+      // comes up, so a slow or unreachable server never delays the registry.
+      if (this.options.includeMcp) {
+        const { mcpClientManager } = await import('./mcp/client');
+        mcpClientManager.start(this).catch((error) => {
+          console.error('Failed to start MCP clients:', error);
+        });
+      }
+
       this.initialized = true;
       logEvent({
         traceId: 'ToolRegistry',
@@ -400,6 +440,27 @@ export class ToolRegistry {
     return this.categorizedTools.get(name)?.instance;
   }
 
+  /**
+   * Adds or replaces a tool without waiting for initialization. Used by
+   * sources that manage their own tools, such as the MCP client manager.
+   *
+   * @param name - The name of the tool.
+   * @param instance - The tool instance.
+   * @param category - The category of the tool.
+   */
+  setTool(name: string, instance: Tool<any, any>, category: string): void {
+    this.categorizedTools.set(name, { instance, category });
+  }
+
+  /**
+   * Removes a tool from the registry.
+   *
+   * @param name - The name of the tool.
+   */
+  removeTool(name: string): void {
+    this.categorizedTools.delete(name);
+  }
+
   /**
    * Gets all tools as a flat record of tool names to tool instances.
    *
@@ -470,6 +531,37 @@ export class ToolRegistry {
   }
 }
 
+/**
+ * Records a tool execution in the Upstash execution store, tagged with the
+ * agent and thread of the current tool context. Failures to record are
+ * logged and never fail the tool call.
+ */
+async function recordToolExecution(
+  toolName: string,
+  params: any,
+  startTime: number,
+  outcome: Pick<
+    ToolExecutionInput,
+    'status' | 'result' | 'error_message' | 'metadata'
+  >
+): Promise<void> {
+  if (!shouldUseUpstash()) return;
+  const { agentId, threadId } = getToolContext();
+  try {
+    await logToolExecution({
+      tool_id: toolName,
+      tool_name: toolName,
+      parameters: params && typeof params === 'object' ? params : { params },
+      execution_time: Math.max(Date.now() - startTime, 1),
+      agent_id: agentId,
+      thread_id: threadId,
+      ...outcome,
+    });
+  } catch (error) {
+    console.error(`Failed to record execution of tool '${toolName}':`, error);
+  }
+}
+
 /**
  * Singleton instance of the ToolRegistry.
  * Use this instance for direct method access.
@@ -1,3 +1,4 @@
+import { randomUUID } from 'node:crypto';
 import { getRedisClient } from '../memory/upstash/upstashClients';
 import { generateId } from 'ai';
 import { z } from 'zod';
@@ -11,6 +12,7 @@ const TOOL_EXECUTIONS_BY_TOOL_PREFIX = 'tool:executions:tool:'; // Sorted set of
 const TOOL_EXECUTIONS_BY_THREAD_PREFIX = 'tool:executions:thread:'; // Sorted set of executions for a specific thread
 const TOOL_EXECUTIONS_BY_AGENT_PREFIX = 'tool:executions:agent:'; // Sorted set of executions for a specific agent
 const TOOL_STATS_PREFIX = 'tool:stats:'; // Hash of statistics for a specific tool
+const TOOL_BREAKER_PREFIX = 'tool:breaker:'; // Circuit breaker state of a specific tool
 
 // --- Zod Schemas ---
 
@@ -24,7 +26,7 @@ export const ToolExecutionDataSchema = z.object({
   parameters: z.record(z.any()),
   result: z.any().optional(),
   error_message: z.string().optional(),
-  status: z.enum(['success', 'error', 'in_progress']),
+  status: z.enum(['success', 'error', 'in_progress', 'rejected']), // rejected: refused by the tool's execution policy
   execution_time: z.number().positive().optional(),
   thread_id: z.string().optional(),
   agent_id: z.string().optional(),
@@ -47,15 +49,27 @@ export const ToolStatsSchema = z.object({
   total_executions: z.number().int().nonnegative(),
   successful_executions: z.number().int().nonnegative().optional(),
   failed_executions: z.number().int().nonnegative().optional(),
+  rejected_executions: z.number().int().nonnegative().optional(),
   avg_execution_time: z.number().nonnegative().optional(),
   execution_time_count: z.number().int().nonnegative().optional(),
   last_execution: z.string().datetime().optional(),
 });
 
+/**
+ * Schema for the circuit breaker state of a tool
+ */
+export const CircuitBreakerStateSchema = z.object({
+  state: z.enum(['closed', 'open', 'half_open']),
+  consecutive_failures: z.number().int().nonnegative(),
+  opened_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime(),
+});
+
 // --- Types ---
 export type ToolExecutionData = z.infer<typeof ToolExecutionDataSchema>;
 export type ToolExecutionInput = z.infer<typeof ToolExecutionInputSchema>;
 export type ToolStats = z.infer<typeof ToolStatsSchema>;
+export type CircuitBreakerState = z.infer<typeof CircuitBreakerStateSchema>;
 
 // --- Error Handling ---
 export class ToolExecutionStoreError extends Error {
@@ -186,7 +200,7 @@ export async function logToolExecution(
   }
 
   const redis = getRedisClient();
-  const executionId = uuidv4();
+  const executionId = randomUUID();
   const now = new Date();
   const timestamp = now.getTime();
 
@@ -269,6 +283,8 @@ export async function logToolExecution(
       pipeline.hincrby(statsKey, 'successful_executions', 1);
     } else if (executionData.status === 'error') {
       pipeline.hincrby(statsKey, 'failed_executions', 1);
+    } else if (executionData.status === 'rejected') {
+      pipeline.hincrby(statsKey, 'rejected_executions', 1);
     }
 
     // Update average execution time if provided
@@ -588,3 +604,84 @@ export async function getToolStats(toolName: string): Promise<ToolStats> {
     );
   }
 }
+
+/**
+ * Saves the circuit breaker state of a tool
+ * @param toolName The tool name
+ * @param state The breaker state
+ * @throws ToolExecutionStoreError if saving fails
+ */
+export async function saveCircuitBreakerState(
+  toolName: string,
+  state: CircuitBreakerState
+): Promise<void> {
+  // Check if Upstash is available
+  if (!shouldUseUpstash()) {
+    throw new ToolExecutionStoreError(
+      'Upstash is not available. Set USE_UPSTASH_ADAPTER=true to use this feature.'
+    );
+  }
+
+  // Validate with Zod
+  const parsed = CircuitBreakerStateSchema.safeParse(state);
+  if (!parsed.success) {
+    throw new ToolExecutionStoreError(
+      `Invalid circuit breaker state: ${parsed.error.message}`,
+      parsed.error
+    );
+  }
+
+  const redis = getRedisClient();
+
+  try {
+    await redis.set(
+      `${TOOL_BREAKER_PREFIX}${toolName}`,
+      JSON.stringify(parsed.data)
+    );
+  } catch (error) {
+    console.error(`Error saving circuit breaker state for ${toolName}:`, error);
+    throw new ToolExecutionStoreError(
+      `Failed to save circuit breaker state for ${toolName}`,
+      error
+    );
+  }
+}
+
+/**
+ * Gets the last recorded circuit breaker state of a tool
+ * @param toolName The tool name
+ * @returns A promise that resolves with the state, or null if none was recorded
+ * @throws ToolExecutionStoreError if retrieval fails
+ */
+export async function getCircuitBreakerState(
+  toolName: string
+): Promise<CircuitBreakerState | null> {
+  // Check if Upstash is available
+  if (!shouldUseUpstash()) {
+    throw new ToolExecutionStoreError(
+      'Upstash is not available. Set USE_UPSTASH_ADAPTER=true to use this feature.'
+    );
+  }
+
+  const redis = getRedisClient();
+
+  try {
+    const stateJson = await redis.get(`${TOOL_BREAKER_PREFIX}${toolName}`);
+    if (!stateJson) {
+      return null;
+    }
+    // The Upstash client deserializes JSON values automatically
+    const state =
+      typeof stateJson === 'string' ? JSON.parse(stateJson) : stateJson;
+    return CircuitBreakerStateSchema.parse(state);
+  } catch (error) {
+    console.error(
+      `Error getting circuit breaker state for ${toolName}:`,
+      error
+    );
+    throw new ToolExecutionStoreError(
+      `Failed to get circuit breaker state for ${toolName}`,
+      error
+    );
+  }
+}
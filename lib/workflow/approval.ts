@@ -0,0 +1,85 @@
+/**
+ * Workflow Approvals
+ *
+ * Human-in-the-loop support for workflows. An `approval` step does not run an
+ * agent: when it becomes ready the executor parks it as `awaiting_approval` and
+ * pauses the workflow. A reviewer then approves or rejects it; approval completes
+ * the step and resumes the workflow, rejection fails the step and the workflow.
+ */
+
+import type { Workflow, WorkflowApprovalDecision, WorkflowStep } from './index';
+
+/**
+ * Parks an approval step until a reviewer decides on it
+ *
+ * @param step - Approval step that became ready (mutated in place)
+ * @param request - Resolved step input shown to the reviewer
+ */
+export function requestStepApproval(
+  step: WorkflowStep,
+  request: string | undefined
+): void {
+  step.status = 'awaiting_approval';
+  step.metadata = {
+    ...step.metadata,
+    approval: {
+      request: request ?? '',
+      requestedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Applies a reviewer's decision to an approval step
+ *
+ * @param workflow - Paused workflow containing the step (mutated in place)
+ * @param stepId - ID or key of the approval step
+ * @param decision - Reviewer decision
+ * @returns The updated step
+ */
+export function applyApprovalDecision(
+  workflow: Workflow,
+  stepId: string,
+  decision: WorkflowApprovalDecision
+): WorkflowStep {
+  const step = workflow.steps.find((s) => s.id === stepId || s.key === stepId);
+  if (!step) {
+    throw new Error(`Step ${stepId} not found in workflow ${workflow.id}`);
+  }
+
+  if (step.kind !== 'approval') {
+    throw new Error(`Step ${stepId} is not an approval step`);
+  }
+
+  if (step.status !== 'awaiting_approval') {
+    throw new Error(`Step ${stepId} is not awaiting approval`);
+  }
+
+  const now = new Date().toISOString();
+  step.metadata = {
+    ...step.metadata,
+    approval: {
+      ...step.metadata?.approval,
+      approved: decision.approved,
+      reviewer: decision.reviewer,
+      comment: decision.comment,
+      decidedAt: now,
+    },
+  };
+  step.updatedAt = now;
+
+  if (decision.approved) {
+    step.status = 'completed';
+    step.result = decision.comment || 'approved';
+    step.error = undefined;
+  } else {
+    step.status = 'failed';
+    step.error = `Rejected${decision.reviewer ? ` by ${decision.reviewer}` : ''}${
+      decision.comment ? `: ${decision.comment}` : ''
+    }`;
+    workflow.status = 'failed';
+  }
+  workflow.updatedAt = now;
+
+  return step;
+}
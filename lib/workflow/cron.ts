@@ -0,0 +1,217 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal five-field cron support (minute, hour, day of month, month, day of
+ * week) with IANA timezones. Fields accept `*`, numbers, ranges (`1-5`), steps
+ * (`0-30/10`, `5/15`) and comma-separated lists; `@hourly`, `@daily`,
+ * `@weekly`, `@monthly` and `@yearly` are accepted as shorthands.
+ *
+ * The module only depends on `Intl`, so it can be shared by the Node scheduler
+ * and Cloudflare Durable Objects.
+ */
+
+// Parsed cron expression
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day of month and day of week were both restricted (matched with OR) */
+  dayOr: boolean;
+}
+
+const CRON_SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+// Inclusive bounds of each field
+const FIELD_RANGES: Array<[string, number, number]> = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7],
+];
+
+/**
+ * Parses a single cron field into the set of values it matches
+ */
+function parseField(
+  field: string,
+  name: string,
+  min: number,
+  max: number
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron ${name} field: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      // `5/10` means "from 5 to the end of the range, every 10"
+      end = endText !== undefined ? Number(endText) : stepText ? max : start;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value in cron ${name} field: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression, throwing if it is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized =
+    CRON_SHORTHANDS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields, got ${fields.length}: ${expression}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, ...FIELD_RANGES[index])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOr: fields[2] !== '*' && fields[4] !== '*',
+  };
+}
+
+/**
+ * Throws if the timezone is not a valid IANA timezone
+ */
+export function assertValidTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Invalid timezone: ${timeZone}`);
+  }
+}
+
+/**
+ * Returns the wall-clock time of a date in a timezone, encoded as a UTC timestamp
+ */
+function toWallClock(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute')
+  );
+}
+
+/**
+ * Converts a wall-clock time in a timezone (encoded as UTC) to an instant
+ */
+function fromWallClock(wallClock: number, timeZone: string): Date {
+  const offset = wallClock - toWallClock(new Date(wallClock), timeZone);
+  const instant = wallClock + offset;
+  // Re-check once in case the guess crossed a DST transition
+  const correction = wallClock - toWallClock(new Date(instant), timeZone);
+  return new Date(instant + correction);
+}
+
+function matchesDay(schedule: CronSchedule, wallClock: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wallClock.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wallClock.getUTCDay());
+  return schedule.dayOr ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time strictly after `after` matching a cron expression
+ *
+ * @param expression - Cron expression
+ * @param timeZone - IANA timezone the expression is evaluated in
+ * @param after - Reference time (defaults to now)
+ * @returns Next matching time
+ */
+export function getNextCronTime(
+  expression: string,
+  timeZone = 'UTC',
+  after: Date = new Date()
+): Date {
+  const schedule = parseCronExpression(expression);
+  assertValidTimeZone(timeZone);
+
+  const minute = 60_000;
+  let wall = new Date(toWallClock(after, timeZone) + minute);
+
+  // Jump over non-matching months, days and hours instead of scanning minutes
+  for (let i = 0; i < 100_000; i++) {
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth();
+    const day = wall.getUTCDate();
+    const hour = wall.getUTCHours();
+
+    if (!schedule.months.has(month + 1)) {
+      wall = new Date(Date.UTC(year, month + 1, 1));
+    } else if (!matchesDay(schedule, wall)) {
+      wall = new Date(Date.UTC(year, month, day + 1));
+    } else if (!schedule.hours.has(hour)) {
+      wall = new Date(Date.UTC(year, month, day, hour + 1));
+    } else if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall = new Date(wall.getTime() + minute);
+    } else {
+      const next = fromWallClock(wall.getTime(), timeZone);
+      if (next.getTime() > after.getTime()) {
+        return next;
+      }
+      wall = new Date(wall.getTime() + minute);
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
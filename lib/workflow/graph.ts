@@ -0,0 +1,492 @@
+/**
+ * Workflow Graph Engine
+ *
+ * This module turns a workflow's steps into a directed acyclic graph and runs it.
+ * Steps declare dependencies on other steps (or on a parallel group), may carry a
+ * condition evaluated against a prior step's result, and may template their input
+ * with earlier outputs, e.g. `{{steps.research.result}}`, or with the workflow's
+ * run input (`metadata.input`), e.g. `{{input.topic}}`.
+ *
+ * The engine is storage-agnostic: every WorkflowProvider supplies hooks to persist
+ * step updates, so the same scheduling rules apply to all backends.
+ */
+
+import type {
+  Workflow,
+  WorkflowStep,
+  WorkflowStepCondition,
+  WorkflowStepStatus,
+} from './index';
+import { requestStepApproval } from './approval';
+
+// Fields of a prior step that can be referenced from an input template
+const TEMPLATE_PATTERN =
+  /\{\{\s*steps\.([A-Za-z0-9_-]+)\.(result|input|status|error)\s*\}\}/g;
+
+// The workflow run input, or a (dotted) field of it
+const INPUT_PATTERN = /\{\{\s*input((?:\.[A-Za-z0-9_-]+)*)\s*\}\}/g;
+
+// Longest pattern accepted for a `matches` condition
+const MAX_CONDITION_PATTERN_LENGTH = 200;
+
+// Hooks a provider supplies to the graph executor
+export interface WorkflowGraphHooks {
+  /** Runs a single step with its resolved input and returns the step result */
+  runStep(step: WorkflowStep, input: string | undefined): Promise<string>;
+  /** Persists a step after each status change */
+  onStepUpdate(step: WorkflowStep): Promise<void>;
+  /** Persists workflow-level progress (status and current step index) */
+  onWorkflowUpdate?(workflow: Workflow): Promise<void>;
+  /** Returns true when the executor must stop scheduling steps (e.g. lease lost) */
+  shouldStop?(): boolean;
+  /**
+   * Reads the persisted workflow, so a pause or an approval review made by
+   * another request is seen
+   */
+  reload?(): Promise<Workflow | null>;
+  /** Called once the workflow is saved as paused on parked approval steps */
+  onSuspend?(): void;
+}
+
+/**
+ * Returns the key a step is referenced by, defaulting to its position
+ */
+export function getStepKey(step: { key?: string }, index: number): string {
+  return step.key || `step-${index + 1}`;
+}
+
+/**
+ * Resolves a dependency reference (step key, step ID or parallel group) to steps
+ */
+function resolveReference(steps: WorkflowStep[], ref: string): WorkflowStep[] {
+  const direct = steps.filter((s) => s.key === ref || s.id === ref);
+  if (direct.length > 0) {
+    return direct;
+  }
+  return steps.filter((s) => s.parallelGroup === ref);
+}
+
+/**
+ * Returns the steps a given step depends on
+ */
+export function getStepDependencies(
+  steps: WorkflowStep[],
+  step: WorkflowStep
+): WorkflowStep[] {
+  const refs = new Set(step.dependsOn || []);
+  // A condition implicitly depends on the step it inspects
+  if (step.condition) {
+    refs.add(step.condition.step);
+  }
+
+  const dependencies = new Map<string, WorkflowStep>();
+  for (const ref of refs) {
+    for (const dependency of resolveReference(steps, ref)) {
+      if (dependency.id !== step.id) {
+        dependencies.set(dependency.id, dependency);
+      }
+    }
+  }
+  return Array.from(dependencies.values());
+}
+
+/**
+ * Checks the pattern of a `matches` condition. Besides compiling, it must not
+ * quantify a group that itself contains a quantifier or an alternation, nor use
+ * backreferences: those are what make a regular expression backtrack
+ * exponentially on a crafted step result.
+ *
+ * @returns Why the pattern is rejected, or undefined if it is acceptable
+ */
+export function checkConditionPattern(pattern: string): string | undefined {
+  if (pattern.length > MAX_CONDITION_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_CONDITION_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // For each open group, whether it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  const isQuantifier = (char: string | undefined) =>
+    char === '+' || char === '*' || char === '{';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Backreferences are not allowed';
+      }
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const risky = groups.pop() ?? false;
+      if (isQuantifier(pattern[i + 1])) {
+        if (risky) {
+          return 'Quantified groups may not contain quantifiers or alternations';
+        }
+        markGroup();
+      } else if (risky) {
+        markGroup();
+      }
+    } else if (isQuantifier(char) || char === '|') {
+      markGroup();
+    } else if (char === '?' && pattern[i - 1] !== '(') {
+      markGroup();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates a workflow graph, throwing on unknown references, duplicate keys,
+ * unsafe condition patterns or cycles
+ */
+export function validateWorkflowGraph(steps: WorkflowStep[]): void {
+  const keys = new Set<string>();
+  for (const step of steps) {
+    if (keys.has(step.key)) {
+      throw new Error(`Duplicate workflow step key: ${step.key}`);
+    }
+    keys.add(step.key);
+  }
+
+  for (const step of steps) {
+    const refs = [...(step.dependsOn || [])];
+    if (step.condition) {
+      refs.push(step.condition.step);
+    }
+    for (const ref of refs) {
+      if (resolveReference(steps, ref).length === 0) {
+        throw new Error(
+          `Workflow step ${step.key} references unknown step or group: ${ref}`
+        );
+      }
+    }
+    if (step.condition?.operator === 'matches') {
+      const problem = checkConditionPattern(step.condition.value ?? '');
+      if (problem) {
+        throw new Error(
+          `Workflow step ${step.key} has an invalid condition pattern: ${problem}`
+        );
+      }
+    }
+    for (const [, ref] of (step.input || '').matchAll(TEMPLATE_PATTERN)) {
+      if (!steps.some((s) => s.key === ref || s.id === ref)) {
+        throw new Error(
+          `Workflow step ${step.key} input references unknown step: ${ref}`
+        );
+      }
+    }
+  }
+
+  // Depth-first search for cycles
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (step: WorkflowStep) => {
+    if (visited.has(step.id)) return;
+    if (visiting.has(step.id)) {
+      throw new Error(`Workflow graph contains a cycle at step ${step.key}`);
+    }
+    visiting.add(step.id);
+    for (const dependency of getStepDependencies(steps, step)) {
+      visit(dependency);
+    }
+    visiting.delete(step.id);
+    visited.add(step.id);
+  };
+  steps.forEach(visit);
+}
+
+/**
+ * Substitutes `{{steps.<key>.<field>}}` references with values from prior steps
+ * and `{{input.<path>}}` references with the workflow run input
+ */
+export function resolveStepInput(
+  input: string | undefined,
+  steps: WorkflowStep[],
+  runInput?: unknown
+): string | undefined {
+  if (!input) {
+    return input;
+  }
+  return input
+    .replace(TEMPLATE_PATTERN, (_match, ref: string, field) => {
+      const source = steps.find((s) => s.key === ref || s.id === ref);
+      const value = source?.[field as 'result' | 'input' | 'status' | 'error'];
+      return value === undefined || value === null ? '' : String(value);
+    })
+    .replace(INPUT_PATTERN, (_match, path: string) => {
+      let value = runInput;
+      for (const segment of path.split('.').filter(Boolean)) {
+        value =
+          value && typeof value === 'object'
+            ? (value as Record<string, unknown>)[segment]
+            : undefined;
+      }
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+}
+
+/**
+ * Evaluates a conditional edge against the result of the step it references
+ */
+export function evaluateStepCondition(
+  condition: WorkflowStepCondition,
+  steps: WorkflowStep[]
+): boolean {
+  const source = steps.find(
+    (s) => s.key === condition.step || s.id === condition.step
+  );
+  if (!source || source.status !== 'completed') {
+    return false;
+  }
+
+  const result = source.result ?? '';
+  const value = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'equals':
+      return result.trim() === value;
+    case 'notEquals':
+      return result.trim() !== value;
+    case 'contains':
+      return result.includes(value);
+    case 'notContains':
+      return !result.includes(value);
+    case 'matches':
+      return new RegExp(value).test(result);
+    case 'exists':
+      return result.trim().length > 0;
+    default:
+      return false;
+  }
+}
+
+const isSettled = (status: WorkflowStepStatus) =>
+  status === 'completed' || status === 'skipped';
+
+/**
+ * Returns pending steps whose dependencies have all settled
+ */
+export function getReadySteps(steps: WorkflowStep[]): WorkflowStep[] {
+  return steps.filter(
+    (step) =>
+      step.status === 'pending' &&
+      getStepDependencies(steps, step).every((dependency) =>
+        isSettled(dependency.status)
+      )
+  );
+}
+
+/**
+ * Executes a workflow graph. A step starts as soon as its dependencies have
+ * settled, so independent branches run concurrently and a fast branch does not
+ * wait for slow siblings.
+ *
+ * A step is skipped when its condition evaluates to false, or when every one of
+ * its dependencies was skipped (so the branch not taken does not run, while a
+ * fan-in step after an if/else still runs). Steps that were already completed,
+ * e.g. before a pause or a crash, are checkpointed and not run again. Approval
+ * steps are parked for a reviewer, and the workflow is paused once nothing else
+ * can run. When the workflow is paused from outside, or the lease is lost, no
+ * new steps start and the executor returns once the running ones have settled.
+ *
+ * @param workflow - Workflow to execute (mutated in place)
+ * @param hooks - Provider hooks for running and persisting steps
+ * @returns The executed workflow
+ */
+export async function executeWorkflowGraph(
+  workflow: Workflow,
+  hooks: WorkflowGraphHooks
+): Promise<Workflow> {
+  const steps = workflow.steps;
+  validateWorkflowGraph(steps);
+
+  // Steps left running by an interrupted execution are retried
+  for (const step of steps) {
+    if (step.status === 'running') {
+      step.status = 'pending';
+    }
+  }
+
+  const touch = (step: WorkflowStep, status: WorkflowStepStatus) => {
+    step.status = status;
+    step.updatedAt = new Date().toISOString();
+    return hooks.onStepUpdate(step);
+  };
+
+  const saveWorkflow = (status: Workflow['status']) => {
+    workflow.status = status;
+    workflow.updatedAt = new Date().toISOString();
+    return hooks.onWorkflowUpdate?.(workflow);
+  };
+
+  // Picks up what other requests persisted during the run: a pause, or the
+  // review of a parked approval step
+  const sync = async () => {
+    const persisted = hooks.reload ? await hooks.reload() : workflow;
+    if (!persisted) {
+      return;
+    }
+    for (const step of steps) {
+      const stored = persisted.steps.find((s) => s.id === step.id);
+      if (
+        stored &&
+        step.status === 'awaiting_approval' &&
+        stored.status !== 'awaiting_approval'
+      ) {
+        step.status = stored.status;
+        step.result = stored.result;
+        step.error = stored.error;
+        step.metadata = stored.metadata;
+        step.updatedAt = stored.updatedAt;
+      }
+    }
+    if (persisted.status === 'paused') {
+      workflow.status = 'paused';
+    }
+    // A rejected approval fails the whole workflow
+    if (
+      steps.some((step) => step.kind === 'approval' && step.status === 'failed')
+    ) {
+      workflow.status = 'failed';
+    }
+  };
+
+  // Whether a pause, a rejected approval or a lost lease means no further
+  // steps may start
+  const mustStop = async () => {
+    if (hooks.shouldStop?.()) {
+      return true;
+    }
+    await sync();
+    return workflow.status === 'paused' || workflow.status === 'failed';
+  };
+
+  const running = new Map<string, Promise<void>>();
+  let failure: { error: unknown } | undefined;
+  let stopped = false;
+
+  const start = (step: WorkflowStep) => {
+    const run = (async () => {
+      try {
+        await touch(step, 'running');
+        step.result = await hooks.runStep(
+          step,
+          resolveStepInput(step.input, steps, workflow.metadata?.input)
+        );
+        step.error = undefined;
+        await touch(step, 'completed');
+      } catch (error) {
+        failure ??= { error };
+        step.error = error instanceof Error ? error.message : String(error);
+        await touch(step, 'failed').catch(() => undefined);
+      }
+    })().finally(() => running.delete(step.id));
+    running.set(step.id, run);
+  };
+
+  for (;;) {
+    if (!failure && !stopped && (await mustStop())) {
+      stopped = true;
+    }
+
+    if (!failure && !stopped) {
+      // Settle skipped and parked steps first, as they can make others ready
+      const started: WorkflowStep[] = [];
+      let ready = getReadySteps(steps);
+      while (ready.length > 0) {
+        for (const step of ready) {
+          const dependencies = getStepDependencies(steps, step);
+          const allSkipped =
+            dependencies.length > 0 &&
+            dependencies.every((dependency) => dependency.status === 'skipped');
+
+          if (
+            allSkipped ||
+            (step.condition && !evaluateStepCondition(step.condition, steps))
+          ) {
+            await touch(step, 'skipped');
+          } else if (step.kind === 'approval') {
+            // Park the step for a reviewer; independent branches keep running
+            requestStepApproval(
+              step,
+              resolveStepInput(step.input, steps, workflow.metadata?.input)
+            );
+            await touch(step, 'awaiting_approval');
+          } else {
+            start(step);
+            started.push(step);
+          }
+        }
+        ready = getReadySteps(steps);
+      }
+
+      if (started.length > 0) {
+        workflow.currentStepIndex = Math.max(
+          workflow.currentStepIndex,
+          ...started.map((step) => steps.indexOf(step))
+        );
+        await saveWorkflow('running');
+      }
+    }
+
+    if (running.size === 0) {
+      // A review may have unblocked steps while the workflow was being saved
+      if (!failure && !stopped && getReadySteps(steps).length > 0) {
+        continue;
+      }
+      break;
+    }
+    // Schedule again as soon as any running step settles
+    await Promise.race(running.values());
+  }
+
+  if (failure) {
+    await saveWorkflow('failed');
+    throw failure.error;
+  }
+
+  if (stopped) {
+    // Scheduling may have saved the workflow as running over the rejection
+    if (workflow.status === 'failed') {
+      await saveWorkflow('failed');
+    }
+    return workflow;
+  }
+
+  // Suspend until every parked approval step has been reviewed
+  if (steps.some((step) => step.status === 'awaiting_approval')) {
+    await saveWorkflow('paused');
+    hooks.onSuspend?.();
+    return workflow;
+  }
+
+  const unfinished = steps.filter((step) => !isSettled(step.status));
+  if (unfinished.length > 0) {
+    await saveWorkflow('failed');
+    throw new Error(
+      `Workflow ${workflow.id} has steps that can never run: ${unfinished
+        .map((step) => step.key)
+        .join(', ')}`
+    );
+  }
+
+  await saveWorkflow('completed');
+  return workflow;
+}
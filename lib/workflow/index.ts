@@ -6,7 +6,21 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { getMemoryProvider, memory } from '../memory/factory';
+import { z } from 'zod';
+import { getMemoryProvider } from '../memory/factory';
+import {
+  checkConditionPattern,
+  executeWorkflowGraph,
+  getStepKey,
+  validateWorkflowGraph,
+} from './graph';
+import { applyApprovalDecision } from './approval';
+import {
+  getLeaseExpiry,
+  isLeaseAvailable,
+  resumeReviewedWorkflow,
+  runWithWorkflowLease,
+} from './recovery';
 
 // Import workflow providers - forward declarations
 let UpstashWorkflowProvider: any;
@@ -14,7 +28,16 @@ let LibSQLWorkflowProvider: any;
 let SupabaseWorkflowProvider: any;
 
 // Workflow step status
-export type WorkflowStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type WorkflowStepStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'awaiting_approval';
+
+// Workflow step kind: run an agent, or wait for a human reviewer
+export type WorkflowStepKind = 'agent' | 'approval';
 
 // Workflow status
 export type WorkflowStatus =
@@ -24,13 +47,77 @@ export type WorkflowStatus =
   | 'failed'
   | 'paused';
 
+// Operators for conditional edges
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'matches'
+  | 'exists';
+
+// Conditional edge evaluated on a prior step's result
+export interface WorkflowStepCondition {
+  step: string;
+  operator: WorkflowConditionOperator;
+  value?: string;
+}
+
+// Zod schema for conditional edges, used to validate API input
+export const WorkflowStepConditionSchema = z
+  .object({
+    step: z.string().min(1),
+    operator: z.enum([
+      'equals',
+      'notEquals',
+      'contains',
+      'notContains',
+      'matches',
+      'exists',
+    ]),
+    value: z.string().optional(),
+  })
+  .superRefine((condition, ctx) => {
+    // Patterns are compiled at run time, so reject bad ones up front
+    if (condition.operator !== 'matches') return;
+    const problem = checkConditionPattern(condition.value ?? '');
+    if (problem) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: problem,
+      });
+    }
+  });
+
+// Reviewer decision on an approval step
+export interface WorkflowApprovalDecision {
+  approved: boolean;
+  reviewer?: string;
+  comment?: string;
+}
+
+// Graph fields shared by step definitions and persisted steps
+export interface WorkflowStepGraphOptions {
+  key?: string;
+  kind?: WorkflowStepKind;
+  dependsOn?: string[];
+  condition?: WorkflowStepCondition;
+  parallelGroup?: string;
+}
+
 // Workflow step interface
 export interface WorkflowStep {
   id: string;
   workflowId: string;
+  key: string;
+  kind?: WorkflowStepKind;
   agentId: string;
   input?: string;
   threadId?: string;
+  dependsOn?: string[];
+  condition?: WorkflowStepCondition;
+  parallelGroup?: string;
   status: WorkflowStepStatus;
   result?: string;
   error?: string;
@@ -47,6 +134,8 @@ export interface Workflow {
   steps: WorkflowStep[];
   currentStepIndex: number;
   status: WorkflowStatus;
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
   metadata?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
@@ -56,17 +145,19 @@ export interface Workflow {
 export interface CreateWorkflowOptions {
   name: string;
   description?: string;
-  steps?: Array<{
-    agentId: string;
-    input?: string;
-    threadId?: string;
-    metadata?: Record<string, any>;
-  }>;
+  steps?: Array<
+    WorkflowStepGraphOptions & {
+      agentId: string;
+      input?: string;
+      threadId?: string;
+      metadata?: Record<string, any>;
+    }
+  >;
   metadata?: Record<string, any>;
 }
 
 // Options for adding a step to a workflow
-export interface AddWorkflowStepOptions {
+export interface AddWorkflowStepOptions extends WorkflowStepGraphOptions {
   agentId: string;
   input?: string;
   threadId?: string;
@@ -86,6 +177,47 @@ export interface WorkflowProvider {
   executeWorkflow(id: string): Promise<Workflow>;
   pauseWorkflow(id: string): Promise<Workflow>;
   resumeWorkflow(id: string): Promise<Workflow>;
+  /** Acquires or renews the execution lease; false if another owner holds it */
+  acquireWorkflowLease(
+    id: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean>;
+  releaseWorkflowLease(id: string, owner: string): Promise<void>;
+  /** Lists `running` workflows whose lease has expired */
+  listOrphanedWorkflows(limit?: number): Promise<Workflow[]>;
+  /** Records a reviewer's decision on an approval step, resuming if approved */
+  reviewWorkflowStep(
+    id: string,
+    stepId: string,
+    decision: WorkflowApprovalDecision
+  ): Promise<Workflow>;
+}
+
+/**
+ * Runs a single workflow step with the step's agent
+ *
+ * The agent records the input and its reply on the step's memory thread.
+ *
+ * @param step - Step to run (its threadId is set if missing)
+ * @param input - Step input with templates already resolved
+ * @returns The agent's output
+ */
+export async function runWorkflowStep(
+  step: WorkflowStep,
+  input: string | undefined
+): Promise<string> {
+  if (!step.threadId) {
+    step.threadId = uuidv4();
+  }
+
+  // Loaded here so that importing the engine does not connect to the agent
+  // store
+  const { agentRegistry } = await import('../agents/registry');
+  const agent = await agentRegistry.getAgent(step.agentId);
+  const result = await agent.run(input, step.threadId);
+
+  return result.output ?? '';
 }
 
 // In-memory workflow provider
@@ -108,17 +240,23 @@ class InMemoryWorkflowProvider implements WorkflowProvider {
 
     // Initialize steps if provided
     if (options.steps && options.steps.length > 0) {
-      workflow.steps = options.steps.map((step) => ({
+      workflow.steps = options.steps.map((step, index) => ({
         id: uuidv4(),
         workflowId: workflow.id,
+        key: getStepKey(step, index),
+        kind: step.kind,
         agentId: step.agentId,
         input: step.input,
         threadId: step.threadId || uuidv4(),
+        dependsOn: step.dependsOn,
+        condition: step.condition,
+        parallelGroup: step.parallelGroup,
         status: 'pending',
         metadata: step.metadata,
         createdAt: now,
         updatedAt: now,
       }));
+      validateWorkflowGraph(workflow.steps);
     }
 
     this.workflows.set(workflow.id, workflow);
@@ -155,15 +293,21 @@ class InMemoryWorkflowProvider implements WorkflowProvider {
     const step: WorkflowStep = {
       id: uuidv4(),
       workflowId: workflow.id,
+      key: getStepKey(options, workflow.steps.length),
+      kind: options.kind,
       agentId: options.agentId,
       input: options.input,
       threadId: options.threadId || uuidv4(),
+      dependsOn: options.dependsOn,
+      condition: options.condition,
+      parallelGroup: options.parallelGroup,
       status: 'pending',
       metadata: options.metadata,
       createdAt: now,
       updatedAt: now,
     };
 
+    validateWorkflowGraph([...workflow.steps, step]);
     workflow.steps.push(step);
     workflow.updatedAt = now;
     this.workflows.set(id, workflow);
@@ -181,72 +325,94 @@ class InMemoryWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} is already ${workflow.status}`);
     }
 
-    workflow.status = 'running';
-    workflow.updatedAt = new Date().toISOString();
-    this.workflows.set(id, workflow);
-
-    try {
-      // Execute steps starting from the current index
-      for (let i = workflow.currentStepIndex; i < workflow.steps.length; i++) {
-        const step = workflow.steps[i];
-        workflow.currentStepIndex = i;
-
-        // Update step status
-        step.status = 'running';
-        step.updatedAt = new Date().toISOString();
+    let suspended = false;
+    const executed = await runWithWorkflowLease(
+      this,
+      id,
+      async (isLeaseLost) => {
+        workflow.status = 'running';
+        workflow.updatedAt = new Date().toISOString();
         this.workflows.set(id, workflow);
 
         try {
-          // Create a memory thread for this step if not provided
-          let threadId = step.threadId;
-          if (!threadId) {
-            threadId = await memory.createMemoryThread(
-              `Workflow ${workflow.name} - Step ${i + 1}`
-            );
-            step.threadId = threadId;
-          }
-
-          // Save the input as a message
-          if (step.input) {
-            await memory.saveMessage(threadId, 'user', step.input);
-          }
-
-          // TODO: Execute the agent with the step input
-          // For now, just simulate a successful execution
-          const result = `Simulated result for step ${i + 1}`;
-
-          // Save the result as a message
-          await memory.saveMessage(threadId, 'assistant', result);
-
-          // Update step with result
-          step.status = 'completed';
-          step.result = result;
-          step.updatedAt = new Date().toISOString();
+          // Run the step graph, executing independent branches concurrently
+          return await executeWorkflowGraph(workflow, {
+            runStep: runWorkflowStep,
+            onStepUpdate: async () => {
+              this.workflows.set(id, workflow);
+            },
+            shouldStop: isLeaseLost,
+            onSuspend: () => {
+              suspended = true;
+            },
+          });
         } catch (error) {
-          // Handle step execution error
-          step.status = 'failed';
-          step.error = error instanceof Error ? error.message : String(error);
-          step.updatedAt = new Date().toISOString();
-
-          // Mark workflow as failed
-          workflow.status = 'failed';
-          workflow.updatedAt = new Date().toISOString();
-          this.workflows.set(id, workflow);
-
+          console.error(`Error executing workflow ${id}:`, error);
           throw error;
         }
       }
+    );
 
-      // Mark workflow as completed
-      workflow.status = 'completed';
-      workflow.updatedAt = new Date().toISOString();
-      this.workflows.set(id, workflow);
+    // A review that landed while this run was pausing found the lease held
+    return suspended
+      ? ((await resumeReviewedWorkflow(this, id)) ?? executed)
+      : executed;
+  }
 
-      return workflow;
-    } catch (error) {
-      console.error(`Error executing workflow ${id}:`, error);
-      throw error;
+  async acquireWorkflowLease(
+    id: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const workflow = this.workflows.get(id);
+    if (
+      !workflow ||
+      !isLeaseAvailable(workflow.leaseOwner, workflow.leaseExpiresAt, owner)
+    ) {
+      return false;
     }
+
+    workflow.leaseOwner = owner;
+    workflow.leaseExpiresAt = getLeaseExpiry(ttlMs);
+    return true;
+  }
+
+  async releaseWorkflowLease(id: string, owner: string): Promise<void> {
+    const workflow = this.workflows.get(id);
+    if (workflow && workflow.leaseOwner === owner) {
+      workflow.leaseOwner = undefined;
+      workflow.leaseExpiresAt = undefined;
+    }
+  }
+
+  async listOrphanedWorkflows(limit = 10): Promise<Workflow[]> {
+    return Array.from(this.workflows.values())
+      .filter(
+        (workflow) =>
+          workflow.status === 'running' &&
+          isLeaseAvailable(workflow.leaseOwner, workflow.leaseExpiresAt, '')
+      )
+      .slice(0, limit);
+  }
+
+  async reviewWorkflowStep(
+    id: string,
+    stepId: string,
+    decision: WorkflowApprovalDecision
+  ): Promise<Workflow> {
+    const workflow = this.workflows.get(id);
+    if (!workflow) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    applyApprovalDecision(workflow, stepId, decision);
+    this.workflows.set(id, workflow);
+
+    // Continue the workflow if it has suspended on this approval; a run still
+    // in progress picks the decision up itself
+    return decision.approved
+      ? ((await resumeReviewedWorkflow(this, id)) ?? workflow)
+      : workflow;
   }
 
   async pauseWorkflow(id: string): Promise<Workflow> {
@@ -276,10 +442,8 @@ class InMemoryWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} is not paused`);
     }
 
-    workflow.status = 'running';
-    workflow.updatedAt = new Date().toISOString();
-    this.workflows.set(id, workflow);
-
+    // executeWorkflow marks it running once it holds the lease, so a resume
+    // refused by the lease leaves it paused
     return this.executeWorkflow(id);
   }
 }
@@ -13,7 +13,60 @@ import {
   WorkflowStep,
   CreateWorkflowOptions,
   AddWorkflowStepOptions,
+  WorkflowApprovalDecision,
+  runWorkflowStep,
 } from './index';
+import { applyApprovalDecision } from './approval';
+import {
+  executeWorkflowGraph,
+  getStepKey,
+  validateWorkflowGraph,
+} from './graph';
+import {
+  getLeaseExpiry,
+  resumeReviewedWorkflow,
+  runWithWorkflowLease,
+} from './recovery';
+
+// Parses a JSON column, returning undefined for empty or malformed values
+function parseJsonColumn<T>(value: unknown, label: string): T | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value as string) as T;
+  } catch (e) {
+    console.error(`Error parsing ${label}:`, e);
+    return undefined;
+  }
+}
+
+// Serializes a step for insertion into the workflow_steps table
+function toStepArgs(step: WorkflowStep) {
+  return [
+    step.id,
+    step.workflowId,
+    step.key,
+    step.kind || 'agent',
+    step.agentId,
+    step.input || null,
+    step.threadId || null,
+    step.dependsOn ? JSON.stringify(step.dependsOn) : null,
+    step.condition ? JSON.stringify(step.condition) : null,
+    step.parallelGroup || null,
+    step.status,
+    step.metadata ? JSON.stringify(step.metadata) : null,
+    step.createdAt,
+    step.updatedAt,
+  ];
+}
+
+const INSERT_STEP_SQL = `
+  INSERT INTO workflow_steps (
+    id, workflow_id, step_key, kind, agent_id, input, thread_id, depends_on,
+    condition, parallel_group, status, metadata, created_at, updated_at
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
 
 export class LibSQLWorkflowProvider implements WorkflowProvider {
   async createWorkflow(options: CreateWorkflowOptions): Promise<Workflow> {
@@ -54,43 +107,34 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
 
     // Create steps if provided
     if (options.steps && options.steps.length > 0) {
-      for (const stepOption of options.steps) {
-        const stepId = uuidv4();
+      for (const [index, stepOption] of options.steps.entries()) {
         const threadId =
           stepOption.threadId ||
           (await memory.createMemoryThread(`Workflow ${options.name} - Step`));
 
-        await db.execute({
-          sql: `
-            INSERT INTO workflow_steps (
-              id, workflow_id, agent_id, input, thread_id, status, metadata, created_at, updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `,
-          args: [
-            stepId,
-            workflowId,
-            stepOption.agentId,
-            stepOption.input || null,
-            threadId,
-            'pending',
-            stepOption.metadata ? JSON.stringify(stepOption.metadata) : null,
-            now,
-            now,
-          ],
-        });
-
         workflow.steps.push({
-          id: stepId,
+          id: uuidv4(),
           workflowId,
+          key: getStepKey(stepOption, index),
+          kind: stepOption.kind,
           agentId: stepOption.agentId,
           input: stepOption.input,
           threadId,
+          dependsOn: stepOption.dependsOn,
+          condition: stepOption.condition,
+          parallelGroup: stepOption.parallelGroup,
           status: 'pending',
           metadata: stepOption.metadata,
           createdAt: now,
           updatedAt: now,
         });
       }
+
+      validateWorkflowGraph(workflow.steps);
+
+      for (const step of workflow.steps) {
+        await db.execute({ sql: INSERT_STEP_SQL, args: toStepArgs(step) });
+      }
     }
 
     return workflow;
@@ -121,30 +165,33 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
       args: [id],
     });
 
-    const steps: WorkflowStep[] = stepsResult.rows.map((row) => {
-      let metadata = null;
-      if (row.metadata) {
-        try {
-          metadata = JSON.parse(row.metadata as string);
-        } catch (e) {
-          console.error(`Error parsing step metadata for step ${row.id}:`, e);
-        }
-      }
-
-      return {
-        id: row.id as string,
-        workflowId: row.workflow_id as string,
-        agentId: row.agent_id as string,
-        input: row.input as string,
-        threadId: row.thread_id as string,
-        status: row.status as 'pending' | 'running' | 'completed' | 'failed',
-        result: row.result as string,
-        error: row.error as string,
-        metadata,
-        createdAt: row.created_at as string,
-        updatedAt: row.updated_at as string,
-      };
-    });
+    const steps: WorkflowStep[] = stepsResult.rows.map((row, index) => ({
+      id: row.id as string,
+      workflowId: row.workflow_id as string,
+      key: getStepKey({ key: row.step_key as string }, index),
+      kind: (row.kind as WorkflowStep['kind']) || 'agent',
+      agentId: row.agent_id as string,
+      input: row.input as string,
+      threadId: row.thread_id as string,
+      dependsOn: parseJsonColumn(
+        row.depends_on,
+        `step dependencies for step ${row.id}`
+      ),
+      condition: parseJsonColumn(
+        row.condition,
+        `step condition for step ${row.id}`
+      ),
+      parallelGroup: (row.parallel_group as string) || undefined,
+      status: row.status as WorkflowStep['status'],
+      result: row.result as string,
+      error: row.error as string,
+      metadata: parseJsonColumn(
+        row.metadata,
+        `step metadata for step ${row.id}`
+      ),
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    }));
 
     // Parse metadata
     let metadata = null;
@@ -169,6 +216,8 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
         | 'completed'
         | 'failed'
         | 'paused',
+      leaseOwner: (workflowRow.lease_owner as string) || undefined,
+      leaseExpiresAt: (workflowRow.lease_expires_at as string) || undefined,
       metadata,
       createdAt: workflowRow.created_at as string,
       updatedAt: workflowRow.updated_at as string,
@@ -236,32 +285,33 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
     }
 
     const now = new Date().toISOString();
-    const stepId = uuidv4();
     const threadId =
       options.threadId ||
       (await memory.createMemoryThread(
         `Workflow ${workflow.name} - Step ${workflow.steps.length + 1}`
       ));
 
+    const step: WorkflowStep = {
+      id: uuidv4(),
+      workflowId: id,
+      key: getStepKey(options, workflow.steps.length),
+      kind: options.kind,
+      agentId: options.agentId,
+      input: options.input,
+      threadId,
+      dependsOn: options.dependsOn,
+      condition: options.condition,
+      parallelGroup: options.parallelGroup,
+      status: 'pending',
+      metadata: options.metadata,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    validateWorkflowGraph([...workflow.steps, step]);
+
     // Create step
-    await db.execute({
-      sql: `
-        INSERT INTO workflow_steps (
-          id, workflow_id, agent_id, input, thread_id, status, metadata, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `,
-      args: [
-        stepId,
-        id,
-        options.agentId,
-        options.input || null,
-        threadId,
-        'pending',
-        options.metadata ? JSON.stringify(options.metadata) : null,
-        now,
-        now,
-      ],
-    });
+    await db.execute({ sql: INSERT_STEP_SQL, args: toStepArgs(step) });
 
     // Update workflow
     await db.execute({
@@ -276,15 +326,90 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
   }
 
   async executeWorkflow(id: string): Promise<Workflow> {
-    // Implementation similar to InMemoryWorkflowProvider but with LibSQL persistence
-    // This would be a more complex implementation that would need to handle
-    // executing agents and updating the workflow state in LibSQL
+    const db = getLibSQLClient();
+
+    // Get workflow
+    const existing = await this.getWorkflow(id);
+    if (!existing) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    if (existing.status === 'completed' || existing.status === 'failed') {
+      throw new Error(`Workflow with ID ${id} is already ${existing.status}`);
+    }
 
-    // For now, we'll throw an error
-    throw new Error('LibSQL workflow execution not implemented yet');
+    let suspended = false;
+    const executed = await runWithWorkflowLease(
+      this,
+      id,
+      async (isLeaseLost) => {
+        // Re-read under the lease: a run that finished meanwhile has completed
+        // steps that must not run again
+        const workflow = await this.getWorkflow(id);
+        if (!workflow) {
+          throw new Error(`Workflow with ID ${id} not found`);
+        }
+        if (workflow.status === 'completed' || workflow.status === 'failed') {
+          throw new Error(
+            `Workflow with ID ${id} is already ${workflow.status}`
+          );
+        }
+
+        workflow.status = 'running';
+        await db.execute({
+          sql: `
+          UPDATE workflows SET status = ?, updated_at = ? WHERE id = ?
+        `,
+          args: ['running', new Date().toISOString(), id],
+        });
+
+        try {
+          // Run the step graph, executing independent branches concurrently
+          await executeWorkflowGraph(workflow, {
+            runStep: runWorkflowStep,
+            onStepUpdate: (step) => this.saveStepState(step),
+            onWorkflowUpdate: async (updated) => {
+              await db.execute({
+                sql: `
+                UPDATE workflows
+                SET status = ?, current_step_index = ?, updated_at = ?
+                WHERE id = ?
+              `,
+                args: [
+                  updated.status,
+                  updated.currentStepIndex,
+                  updated.updatedAt,
+                  id,
+                ],
+              });
+            },
+            shouldStop: isLeaseLost,
+            reload: () => this.getWorkflow(id),
+            onSuspend: () => {
+              suspended = true;
+            },
+          });
+
+          // Get updated workflow
+          return this.getWorkflow(id) as Promise<Workflow>;
+        } catch (error) {
+          console.error(`Error executing workflow ${id}:`, error);
+          throw error;
+        }
+      }
+    );
+
+    // A review that landed while this run was pausing found the lease held
+    return suspended
+      ? ((await resumeReviewedWorkflow(this, id)) ?? executed)
+      : executed;
   }
 
-  async pauseWorkflow(id: string): Promise<Workflow> {
+  async reviewWorkflowStep(
+    id: string,
+    stepId: string,
+    decision: WorkflowApprovalDecision
+  ): Promise<Workflow> {
     const db = getLibSQLClient();
 
     // Get workflow
@@ -293,25 +418,106 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} not found`);
     }
 
-    if (workflow.status !== 'running') {
-      throw new Error(`Workflow with ID ${id} is not running`);
+    const step = applyApprovalDecision(workflow, stepId, decision);
+    await this.saveStepState(step);
+
+    if (!decision.approved) {
+      await db.execute({
+        sql: `
+          UPDATE workflows SET status = ?, updated_at = ? WHERE id = ?
+        `,
+        args: ['failed', workflow.updatedAt, id],
+      });
+    } else {
+      // Continue the workflow if it has suspended on this approval; a run
+      // still in progress picks the decision up itself
+      return (await resumeReviewedWorkflow(this, id)) as Workflow;
     }
 
+    // Get updated workflow
+    return this.getWorkflow(id) as Promise<Workflow>;
+  }
+
+  // Persists a step's execution state
+  private async saveStepState(step: WorkflowStep): Promise<void> {
+    const db = getLibSQLClient();
+
+    await db.execute({
+      sql: `
+        UPDATE workflow_steps
+        SET status = ?, result = ?, error = ?, thread_id = ?, metadata = ?, updated_at = ?
+        WHERE id = ?
+      `,
+      args: [
+        step.status,
+        step.result ?? null,
+        step.error ?? null,
+        step.threadId ?? null,
+        step.metadata ? JSON.stringify(step.metadata) : null,
+        step.updatedAt,
+        step.id,
+      ],
+    });
+  }
+
+  async acquireWorkflowLease(
+    id: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const db = getLibSQLClient();
     const now = new Date().toISOString();
 
-    // Update workflow
+    // Conditional update so only one worker can take an expired lease
+    const result = await db.execute({
+      sql: `
+        UPDATE workflows SET lease_owner = ?, lease_expires_at = ?
+        WHERE id = ?
+          AND (lease_owner IS NULL OR lease_owner = ? OR lease_expires_at IS NULL OR lease_expires_at <= ?)
+      `,
+      args: [owner, getLeaseExpiry(ttlMs), id, owner, now],
+    });
+
+    return result.rowsAffected > 0;
+  }
+
+  async releaseWorkflowLease(id: string, owner: string): Promise<void> {
+    const db = getLibSQLClient();
+
     await db.execute({
       sql: `
-        UPDATE workflows SET status = ?, updated_at = ? WHERE id = ?
+        UPDATE workflows SET lease_owner = NULL, lease_expires_at = NULL
+        WHERE id = ? AND lease_owner = ?
       `,
-      args: ['paused', now, id],
+      args: [id, owner],
     });
+  }
 
-    // Get updated workflow
-    return this.getWorkflow(id) as Promise<Workflow>;
+  async listOrphanedWorkflows(limit = 10): Promise<Workflow[]> {
+    const db = getLibSQLClient();
+
+    const result = await db.execute({
+      sql: `
+        SELECT id FROM workflows
+        WHERE status = 'running'
+          AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+        ORDER BY updated_at LIMIT ?
+      `,
+      args: [new Date().toISOString(), limit],
+    });
+
+    const workflows: Workflow[] = [];
+    for (const row of result.rows) {
+      const workflow = await this.getWorkflow(row.id as string);
+      if (workflow) {
+        workflows.push(workflow);
+      }
+    }
+
+    return workflows;
   }
 
-  async resumeWorkflow(id: string): Promise<Workflow> {
+  async pauseWorkflow(id: string): Promise<Workflow> {
     const db = getLibSQLClient();
 
     // Get workflow
@@ -320,8 +526,8 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} not found`);
     }
 
-    if (workflow.status !== 'paused') {
-      throw new Error(`Workflow with ID ${id} is not paused`);
+    if (workflow.status !== 'running') {
+      throw new Error(`Workflow with ID ${id} is not running`);
     }
 
     const now = new Date().toISOString();
@@ -331,10 +537,26 @@ export class LibSQLWorkflowProvider implements WorkflowProvider {
       sql: `
         UPDATE workflows SET status = ?, updated_at = ? WHERE id = ?
       `,
-      args: ['running', now, id],
+      args: ['paused', now, id],
     });
 
-    // Execute workflow
+    // Get updated workflow
+    return this.getWorkflow(id) as Promise<Workflow>;
+  }
+
+  async resumeWorkflow(id: string): Promise<Workflow> {
+    // Get workflow
+    const workflow = await this.getWorkflow(id);
+    if (!workflow) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    if (workflow.status !== 'paused') {
+      throw new Error(`Workflow with ID ${id} is not paused`);
+    }
+
+    // executeWorkflow marks it running once it holds the lease, so a resume
+    // refused by the lease leaves it paused
     return this.executeWorkflow(id);
   }
 }
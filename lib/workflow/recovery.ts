@@ -0,0 +1,213 @@
+/**
+ * Workflow Recovery
+ *
+ * Durable execution support for workflows. A process executing a workflow holds a
+ * lease on it and renews it with a heartbeat; completed steps are checkpointed by
+ * the provider as they finish. If the process dies, the lease expires and a
+ * recovery sweep picks the workflow up again, continuing from the checkpointed
+ * steps without re-invoking agents that already finished.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getReadySteps } from './graph';
+import type { Workflow, WorkflowProvider } from './index';
+
+// How long a lease stays valid without a heartbeat
+export const WORKFLOW_LEASE_TTL_MS = 60_000;
+
+// How often the executing process renews its lease
+export const WORKFLOW_HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Identifies this process; each execution leases as `<worker id>:<run id>`
+export const WORKFLOW_WORKER_ID = `worker-${uuidv4()}`;
+
+/**
+ * Thrown when a workflow's lease is held by another execution
+ */
+export class WorkflowLeaseError extends Error {
+  constructor(public readonly workflowId: string) {
+    super(`Workflow with ID ${workflowId} is being executed by another worker`);
+    this.name = 'WorkflowLeaseError';
+    Object.setPrototypeOf(this, WorkflowLeaseError.prototype);
+  }
+}
+
+/**
+ * Returns the expiry timestamp for a lease acquired now
+ */
+export function getLeaseExpiry(ttlMs = WORKFLOW_LEASE_TTL_MS): string {
+  return new Date(Date.now() + ttlMs).toISOString();
+}
+
+/**
+ * Whether a lease with the given owner and expiry can be taken by `owner`
+ */
+export function isLeaseAvailable(
+  leaseOwner: string | null | undefined,
+  leaseExpiresAt: string | null | undefined,
+  owner: string
+): boolean {
+  return (
+    !leaseOwner ||
+    leaseOwner === owner ||
+    !leaseExpiresAt ||
+    new Date(leaseExpiresAt).getTime() <= Date.now()
+  );
+}
+
+/**
+ * Runs a function while holding a workflow lease, renewing it on a heartbeat.
+ * Every call leases under its own owner ID, so two executions in the same
+ * process exclude each other just like executions in different processes.
+ *
+ * The callback receives `isLeaseLost`, which turns true if a heartbeat fails to
+ * renew the lease (e.g. another process took it over after a stall); executors
+ * should stop scheduling new steps once it does.
+ *
+ * @param provider - Provider storing the lease
+ * @param id - Workflow ID
+ * @param fn - Work to run while the lease is held
+ * @returns The callback's result
+ */
+export async function runWithWorkflowLease<T>(
+  provider: WorkflowProvider,
+  id: string,
+  fn: (isLeaseLost: () => boolean) => Promise<T>
+): Promise<T> {
+  const owner = `${WORKFLOW_WORKER_ID}:${uuidv4()}`;
+  const acquired = await provider.acquireWorkflowLease(
+    id,
+    owner,
+    WORKFLOW_LEASE_TTL_MS
+  );
+  if (!acquired) {
+    throw new WorkflowLeaseError(id);
+  }
+
+  let leaseLost = false;
+  const heartbeat = setInterval(async () => {
+    try {
+      const renewed = await provider.acquireWorkflowLease(
+        id,
+        owner,
+        WORKFLOW_LEASE_TTL_MS
+      );
+      if (!renewed) {
+        leaseLost = true;
+        console.warn(`Lost lease on workflow ${id}`);
+      }
+    } catch (error) {
+      console.error(`Error renewing lease on workflow ${id}:`, error);
+    }
+  }, WORKFLOW_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await fn(() => leaseLost);
+  } finally {
+    clearInterval(heartbeat);
+    try {
+      await provider.releaseWorkflowLease(id, owner);
+    } catch (error) {
+      console.error(`Error releasing lease on workflow ${id}:`, error);
+    }
+  }
+}
+
+/**
+ * Resumes a workflow that suspended on approval steps once a review has
+ * unblocked it. Both the reviewer and the run that suspended call this, so an
+ * approval that lands while the run is still pausing (and still holds the
+ * lease) is not lost. Whichever side resumes second is refused by the lease
+ * and gets the workflow as stored.
+ *
+ * @param provider - Provider storing the workflow
+ * @param id - Workflow ID
+ * @returns The workflow after resuming, or as stored if it stays paused
+ */
+export async function resumeReviewedWorkflow(
+  provider: WorkflowProvider,
+  id: string
+): Promise<Workflow | null> {
+  const workflow = await provider.getWorkflow(id);
+  const unblocked =
+    workflow?.status === 'paused' &&
+    (getReadySteps(workflow.steps).length > 0 ||
+      !workflow.steps.some((step) => step.status === 'awaiting_approval'));
+  if (!unblocked) {
+    return workflow;
+  }
+
+  try {
+    return await provider.resumeWorkflow(id);
+  } catch (error) {
+    if (error instanceof WorkflowLeaseError) {
+      return provider.getWorkflow(id);
+    }
+    throw error;
+  }
+}
+
+// Result of a recovery sweep
+export interface WorkflowRecoveryResult {
+  recovered: Workflow[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Resumes every `running` workflow whose lease has expired
+ *
+ * @param provider - Workflow provider to sweep
+ * @param limit - Maximum number of workflows to recover in one sweep
+ * @returns Recovered workflows and the ones that could not be resumed
+ */
+export async function recoverOrphanedWorkflows(
+  provider: WorkflowProvider,
+  limit = 10
+): Promise<WorkflowRecoveryResult> {
+  const result: WorkflowRecoveryResult = { recovered: [], failed: [] };
+  const orphaned = await provider.listOrphanedWorkflows(limit);
+
+  for (const orphan of orphaned) {
+    try {
+      console.info(`Recovering orphaned workflow ${orphan.id}`);
+      result.recovered.push(await provider.executeWorkflow(orphan.id));
+    } catch (error) {
+      result.failed.push({
+        id: orphan.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Starts a periodic recovery sweep in the current process. The server starts
+ * one from `instrumentation.ts`; `POST /api/ai-sdk/workflows/recover` runs a
+ * sweep on demand.
+ *
+ * @param provider - Workflow provider to sweep
+ * @param intervalMs - Time between sweeps
+ * @returns A function that stops the sweep
+ */
+export function startWorkflowRecovery(
+  provider: WorkflowProvider,
+  intervalMs = WORKFLOW_LEASE_TTL_MS
+): () => void {
+  let sweeping = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlapping sweeps
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      await recoverOrphanedWorkflows(provider);
+    } catch (error) {
+      console.error('Error sweeping orphaned workflows:', error);
+    } finally {
+      sweeping = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
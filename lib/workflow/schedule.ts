@@ -0,0 +1,487 @@
+/**
+ * Workflow Schedules
+ *
+ * Runs workflows on a cron schedule. A schedule attaches a cron expression,
+ * timezone and optional input payload to a workflow; every time it fires, the
+ * workflow's steps are copied into a fresh workflow instance (with the payload as
+ * `metadata.input`, available to step templates as `{{input.<field>}}`) and that
+ * instance is executed. Each trigger is recorded in `workflow_schedule_runs`.
+ *
+ * Schedules are stored in LibSQL. Due schedules are claimed with a conditional
+ * update on `next_run_at`, so several processes can run the scheduler loop
+ * without triggering the same occurrence twice.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { getLibSQLClient } from '../memory/db';
+import {
+  assertValidTimeZone,
+  getNextCronTime,
+  parseCronExpression,
+} from './cron';
+import type { Workflow, WorkflowProvider } from './index';
+
+// How often the local scheduler looks for due schedules
+export const WORKFLOW_SCHEDULER_INTERVAL_MS = 30_000;
+
+// Status of a scheduled run, mirroring the status of the workflow it started
+export type WorkflowScheduleRunStatus =
+  | 'running'
+  | 'completed'
+  | 'paused'
+  | 'failed';
+
+// Cron schedule attached to a workflow
+export interface WorkflowSchedule {
+  id: string;
+  workflowId: string;
+  cron: string;
+  timezone: string;
+  input?: Record<string, unknown>;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A single triggered execution of a schedule
+export interface WorkflowScheduleRun {
+  id: string;
+  scheduleId: string;
+  workflowId: string;
+  runWorkflowId?: string;
+  status: WorkflowScheduleRunStatus;
+  error?: string;
+  scheduledFor: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Zod schema for creating a schedule, used to validate API input
+ */
+export const CreateWorkflowScheduleSchema = z.object({
+  cron: z.string().superRefine((cron, ctx) => {
+    try {
+      parseCronExpression(cron);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }),
+  timezone: z
+    .string()
+    .default('UTC')
+    .superRefine((timezone, ctx) => {
+      try {
+        assertValidTimeZone(timezone);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }),
+  input: z.record(z.unknown()).optional(),
+  enabled: z.boolean().default(true),
+});
+
+export type CreateWorkflowScheduleOptions = z.input<
+  typeof CreateWorkflowScheduleSchema
+>;
+
+// Converts a workflow_schedules row to a WorkflowSchedule
+function rowToSchedule(row: Record<string, unknown>): WorkflowSchedule {
+  return {
+    id: row.id as string,
+    workflowId: row.workflow_id as string,
+    cron: row.cron as string,
+    timezone: row.timezone as string,
+    input: row.input ? JSON.parse(row.input as string) : undefined,
+    enabled: Boolean(row.enabled),
+    nextRunAt: (row.next_run_at as string) || undefined,
+    lastRunAt: (row.last_run_at as string) || undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// Converts a workflow_schedule_runs row to a WorkflowScheduleRun
+function rowToRun(row: Record<string, unknown>): WorkflowScheduleRun {
+  return {
+    id: row.id as string,
+    scheduleId: row.schedule_id as string,
+    workflowId: row.workflow_id as string,
+    runWorkflowId: (row.run_workflow_id as string) || undefined,
+    status: row.status as WorkflowScheduleRunStatus,
+    error: (row.error as string) || undefined,
+    scheduledFor: row.scheduled_for as string,
+    startedAt: row.started_at as string,
+    completedAt: (row.completed_at as string) || undefined,
+  };
+}
+
+/**
+ * Attaches a cron schedule to a workflow
+ *
+ * @param workflowId - Workflow to run on the schedule
+ * @param options - Cron expression, timezone, input payload and enabled flag
+ * @returns The created schedule
+ */
+export async function createWorkflowSchedule(
+  workflowId: string,
+  options: CreateWorkflowScheduleOptions
+): Promise<WorkflowSchedule> {
+  const { cron, timezone, input, enabled } =
+    CreateWorkflowScheduleSchema.parse(options);
+  const now = new Date().toISOString();
+  const schedule: WorkflowSchedule = {
+    id: uuidv4(),
+    workflowId,
+    cron,
+    timezone,
+    input,
+    enabled,
+    nextRunAt: enabled
+      ? getNextCronTime(cron, timezone).toISOString()
+      : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const db = getLibSQLClient();
+  await db.execute({
+    sql: `INSERT INTO workflow_schedules (id, workflow_id, cron, timezone, input, enabled, next_run_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      schedule.id,
+      workflowId,
+      cron,
+      timezone,
+      input ? JSON.stringify(input) : null,
+      enabled ? 1 : 0,
+      schedule.nextRunAt ?? null,
+      now,
+      now,
+    ],
+  });
+
+  return schedule;
+}
+
+/**
+ * Gets a schedule by ID
+ */
+export async function getWorkflowSchedule(
+  id: string
+): Promise<WorkflowSchedule | null> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM workflow_schedules WHERE id = ?',
+    args: [id],
+  });
+
+  return result.rows.length > 0
+    ? rowToSchedule(result.rows[0] as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Lists the schedules attached to a workflow
+ */
+export async function listWorkflowSchedules(
+  workflowId: string
+): Promise<WorkflowSchedule[]> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM workflow_schedules WHERE workflow_id = ? ORDER BY created_at DESC',
+    args: [workflowId],
+  });
+
+  return result.rows.map((row) =>
+    rowToSchedule(row as Record<string, unknown>)
+  );
+}
+
+/**
+ * Enables or disables a schedule
+ *
+ * Re-enabling computes the next run from now, so occurrences missed while the
+ * schedule was disabled are not triggered.
+ */
+export async function setWorkflowScheduleEnabled(
+  id: string,
+  enabled: boolean
+): Promise<WorkflowSchedule> {
+  const schedule = await getWorkflowSchedule(id);
+  if (!schedule) {
+    throw new Error(`Workflow schedule ${id} not found`);
+  }
+
+  schedule.enabled = enabled;
+  schedule.nextRunAt = enabled
+    ? getNextCronTime(schedule.cron, schedule.timezone).toISOString()
+    : undefined;
+  schedule.updatedAt = new Date().toISOString();
+
+  const db = getLibSQLClient();
+  await db.execute({
+    sql: 'UPDATE workflow_schedules SET enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?',
+    args: [enabled ? 1 : 0, schedule.nextRunAt ?? null, schedule.updatedAt, id],
+  });
+
+  return schedule;
+}
+
+/**
+ * Lists the run history of a schedule, newest first
+ */
+export async function listWorkflowScheduleRuns(
+  scheduleId: string,
+  limit = 50
+): Promise<WorkflowScheduleRun[]> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM workflow_schedule_runs WHERE schedule_id = ? ORDER BY started_at DESC LIMIT ?',
+    args: [scheduleId, limit],
+  });
+
+  return result.rows.map((row) => rowToRun(row as Record<string, unknown>));
+}
+
+/**
+ * Claims the current occurrence of a schedule by advancing `next_run_at`
+ *
+ * @returns False if another process already claimed it
+ */
+async function claimScheduleOccurrence(
+  schedule: WorkflowSchedule,
+  now: Date
+): Promise<boolean> {
+  const nextRunAt = getNextCronTime(schedule.cron, schedule.timezone, now);
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: `UPDATE workflow_schedules
+          SET next_run_at = ?, last_run_at = ?, updated_at = ?
+          WHERE id = ? AND enabled = 1 AND next_run_at = ?`,
+    args: [
+      nextRunAt.toISOString(),
+      now.toISOString(),
+      now.toISOString(),
+      schedule.id,
+      schedule.nextRunAt ?? null,
+    ],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+// Persists the outcome of a run
+async function saveScheduleRun(run: WorkflowScheduleRun): Promise<void> {
+  const db = getLibSQLClient();
+  await db.execute({
+    sql: `INSERT INTO workflow_schedule_runs (id, schedule_id, workflow_id, run_workflow_id, status, error, scheduled_for, started_at, completed_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            run_workflow_id = excluded.run_workflow_id,
+            status = excluded.status,
+            error = excluded.error,
+            completed_at = excluded.completed_at`,
+    args: [
+      run.id,
+      run.scheduleId,
+      run.workflowId,
+      run.runWorkflowId ?? null,
+      run.status,
+      run.error ?? null,
+      run.scheduledFor,
+      run.startedAt,
+      run.completedAt ?? null,
+    ],
+  });
+}
+
+/**
+ * Copies a workflow's steps into a new instance for a scheduled run
+ */
+async function createScheduledInstance(
+  provider: WorkflowProvider,
+  source: Workflow,
+  schedule: WorkflowSchedule
+): Promise<Workflow> {
+  return provider.createWorkflow({
+    name: source.name,
+    description: source.description,
+    steps: source.steps.map((step) => ({
+      key: step.key,
+      kind: step.kind,
+      agentId: step.agentId,
+      input: step.input,
+      dependsOn: step.dependsOn,
+      condition: step.condition,
+      parallelGroup: step.parallelGroup,
+      metadata: step.metadata,
+    })),
+    metadata: {
+      ...source.metadata,
+      input: schedule.input,
+      scheduleId: schedule.id,
+      scheduledWorkflowId: source.id,
+    },
+  });
+}
+
+/**
+ * Records a run and creates its workflow instance, then starts executing it
+ *
+ * @returns The run as started, and a promise of the run once the execution
+ *          has finished and its outcome is recorded
+ */
+async function startScheduleRun(
+  provider: WorkflowProvider,
+  schedule: WorkflowSchedule,
+  scheduledFor: string
+): Promise<{
+  run: WorkflowScheduleRun;
+  finished: Promise<WorkflowScheduleRun>;
+}> {
+  const run: WorkflowScheduleRun = {
+    id: uuidv4(),
+    scheduleId: schedule.id,
+    workflowId: schedule.workflowId,
+    status: 'running',
+    scheduledFor,
+    startedAt: new Date().toISOString(),
+  };
+  await saveScheduleRun(run);
+
+  const finish = async (error?: unknown, result?: Workflow) => {
+    if (result) {
+      run.status = result.status === 'paused' ? 'paused' : 'completed';
+    } else {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+    run.completedAt = new Date().toISOString();
+    await saveScheduleRun(run);
+    return run;
+  };
+
+  let execution: Promise<Workflow>;
+  try {
+    const source = await provider.getWorkflow(schedule.workflowId);
+    if (!source) {
+      throw new Error(`Workflow with ID ${schedule.workflowId} not found`);
+    }
+
+    const instance = await createScheduledInstance(provider, source, schedule);
+    run.runWorkflowId = instance.id;
+    await saveScheduleRun(run);
+
+    execution = provider.executeWorkflow(instance.id);
+  } catch (error) {
+    const failed = await finish(error);
+    return { run: { ...failed }, finished: Promise.resolve(failed) };
+  }
+
+  return {
+    run: { ...run },
+    finished: execution.then(
+      (result) => finish(undefined, result),
+      (error) => finish(error)
+    ),
+  };
+}
+
+/**
+ * Triggers a schedule once, recording the run in the schedule's history
+ *
+ * @param provider - Workflow provider holding the scheduled workflow
+ * @param schedule - Schedule to trigger
+ * @param scheduledFor - Occurrence being triggered (defaults to now)
+ * @returns The recorded run, once the workflow has finished
+ */
+export async function triggerWorkflowSchedule(
+  provider: WorkflowProvider,
+  schedule: WorkflowSchedule,
+  scheduledFor: string = new Date().toISOString()
+): Promise<WorkflowScheduleRun> {
+  const { finished } = await startScheduleRun(provider, schedule, scheduledFor);
+  return finished;
+}
+
+/**
+ * Triggers every enabled schedule whose next run is due. The workflows are
+ * started but not awaited, so a long-running workflow never holds up the
+ * next check; each run's outcome is recorded when its workflow finishes.
+ *
+ * @param provider - Workflow provider holding the scheduled workflows
+ * @param now - Reference time (defaults to now)
+ * @returns Runs started by this tick, as of their start
+ */
+export async function runDueWorkflowSchedules(
+  provider: WorkflowProvider,
+  now: Date = new Date()
+): Promise<WorkflowScheduleRun[]> {
+  const db = getLibSQLClient();
+  const result = await db.execute({
+    sql: `SELECT * FROM workflow_schedules
+          WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+          ORDER BY next_run_at ASC`,
+    args: [now.toISOString()],
+  });
+  const due = result.rows.map((row) =>
+    rowToSchedule(row as Record<string, unknown>)
+  );
+
+  const runs = await Promise.all(
+    due.map(async (schedule) => {
+      if (!(await claimScheduleOccurrence(schedule, now))) {
+        return null;
+      }
+      const { run, finished } = await startScheduleRun(
+        provider,
+        schedule,
+        schedule.nextRunAt ?? now.toISOString()
+      );
+      finished.catch((error) =>
+        console.error(`Error finishing run of schedule ${schedule.id}:`, error)
+      );
+      return run;
+    })
+  );
+
+  return runs.filter((run): run is WorkflowScheduleRun => run !== null);
+}
+
+/**
+ * Starts a local scheduler loop in the current process
+ *
+ * @param provider - Workflow provider holding the scheduled workflows
+ * @param intervalMs - Time between checks for due schedules
+ * @returns A function that stops the scheduler
+ */
+export function startWorkflowScheduler(
+  provider: WorkflowProvider,
+  intervalMs = WORKFLOW_SCHEDULER_INTERVAL_MS
+): () => void {
+  let ticking = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlapping checks
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueWorkflowSchedules(provider);
+    } catch (error) {
+      console.error('Error running workflow schedules:', error);
+    } finally {
+      ticking = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
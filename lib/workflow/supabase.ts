@@ -13,7 +13,40 @@ import {
   WorkflowStep,
   CreateWorkflowOptions,
   AddWorkflowStepOptions,
+  WorkflowApprovalDecision,
+  runWorkflowStep,
 } from './index';
+import { applyApprovalDecision } from './approval';
+import {
+  executeWorkflowGraph,
+  getStepKey,
+  validateWorkflowGraph,
+} from './graph';
+import {
+  getLeaseExpiry,
+  resumeReviewedWorkflow,
+  runWithWorkflowLease,
+} from './recovery';
+
+// Converts a step to a workflow_steps row
+function toStepRow(step: WorkflowStep) {
+  return {
+    id: step.id,
+    workflow_id: step.workflowId,
+    step_key: step.key,
+    kind: step.kind || 'agent',
+    agent_id: step.agentId,
+    input: step.input,
+    thread_id: step.threadId,
+    depends_on: step.dependsOn,
+    condition: step.condition,
+    parallel_group: step.parallelGroup,
+    status: step.status,
+    metadata: step.metadata,
+    created_at: step.createdAt,
+    updated_at: step.updatedAt,
+  };
+}
 
 export class SupabaseWorkflowProvider implements WorkflowProvider {
   async createWorkflow(options: CreateWorkflowOptions): Promise<Workflow> {
@@ -52,43 +85,39 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
 
     // Create steps if provided
     if (options.steps && options.steps.length > 0) {
-      for (const stepOption of options.steps) {
-        const stepId = uuidv4();
+      for (const [index, stepOption] of options.steps.entries()) {
         const threadId =
           stepOption.threadId ||
           (await memory.createMemoryThread(`Workflow ${options.name} - Step`));
 
-        const { error: stepError } = await supabase
-          .from('workflow_steps')
-          .insert({
-            id: stepId,
-            workflow_id: workflowId,
-            agent_id: stepOption.agentId,
-            input: stepOption.input,
-            thread_id: threadId,
-            status: 'pending',
-            metadata: stepOption.metadata,
-            created_at: now,
-            updated_at: now,
-          });
-
-        if (stepError) {
-          console.error('Error creating workflow step:', stepError);
-          throw stepError;
-        }
-
         workflow.steps.push({
-          id: stepId,
+          id: uuidv4(),
           workflowId,
+          key: getStepKey(stepOption, index),
+          kind: stepOption.kind,
           agentId: stepOption.agentId,
           input: stepOption.input,
           threadId,
+          dependsOn: stepOption.dependsOn,
+          condition: stepOption.condition,
+          parallelGroup: stepOption.parallelGroup,
           status: 'pending',
           metadata: stepOption.metadata,
           createdAt: now,
           updatedAt: now,
         });
       }
+
+      validateWorkflowGraph(workflow.steps);
+
+      const { error: stepError } = await supabase
+        .from('workflow_steps')
+        .insert(workflow.steps.map(toStepRow));
+
+      if (stepError) {
+        console.error('Error creating workflow steps:', stepError);
+        throw stepError;
+      }
     }
 
     return workflow;
@@ -126,19 +155,26 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
     }
 
     // Convert steps
-    const steps: WorkflowStep[] = stepsData.map((step) => ({
-      id: step.id,
-      workflowId: step.workflow_id,
-      agentId: step.agent_id,
-      input: step.input,
-      threadId: step.thread_id,
-      status: step.status,
-      result: step.result,
-      error: step.error,
-      metadata: step.metadata,
-      createdAt: step.created_at,
-      updatedAt: step.updated_at,
-    }));
+    const steps: WorkflowStep[] = stepsData.map(
+      (step: Record<string, any>, index: number) => ({
+        id: step.id,
+        workflowId: step.workflow_id,
+        key: getStepKey({ key: step.step_key }, index),
+        kind: step.kind ?? 'agent',
+        agentId: step.agent_id,
+        input: step.input,
+        threadId: step.thread_id,
+        dependsOn: step.depends_on ?? undefined,
+        condition: step.condition ?? undefined,
+        parallelGroup: step.parallel_group ?? undefined,
+        status: step.status,
+        result: step.result,
+        error: step.error,
+        metadata: step.metadata,
+        createdAt: step.created_at,
+        updatedAt: step.updated_at,
+      })
+    );
 
     // Construct workflow
     const workflow: Workflow = {
@@ -148,6 +184,8 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
       steps,
       currentStepIndex: workflowData.current_step_index,
       status: workflowData.status,
+      leaseOwner: workflowData.lease_owner ?? undefined,
+      leaseExpiresAt: workflowData.lease_expires_at ?? undefined,
       metadata: workflowData.metadata,
       createdAt: workflowData.created_at,
       updatedAt: workflowData.updated_at,
@@ -224,25 +262,35 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
     }
 
     const now = new Date().toISOString();
-    const stepId = uuidv4();
     const threadId =
       options.threadId ||
       (await memory.createMemoryThread(
         `Workflow ${workflow.name} - Step ${workflow.steps.length + 1}`
       ));
 
-    // Create step
-    const { error: stepError } = await supabase.from('workflow_steps').insert({
-      id: stepId,
-      workflow_id: id,
-      agent_id: options.agentId,
+    const step: WorkflowStep = {
+      id: uuidv4(),
+      workflowId: id,
+      key: getStepKey(options, workflow.steps.length),
+      kind: options.kind,
+      agentId: options.agentId,
       input: options.input,
-      thread_id: threadId,
+      threadId,
+      dependsOn: options.dependsOn,
+      condition: options.condition,
+      parallelGroup: options.parallelGroup,
       status: 'pending',
       metadata: options.metadata,
-      created_at: now,
-      updated_at: now,
-    });
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    validateWorkflowGraph([...workflow.steps, step]);
+
+    // Create step
+    const { error: stepError } = await supabase
+      .from('workflow_steps')
+      .insert(toStepRow(step));
 
     if (stepError) {
       console.error('Error adding workflow step:', stepError);
@@ -270,171 +318,225 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
     const supabase = getSupabaseClient();
 
     // Get workflow
-    const workflow = await this.getWorkflow(id);
-    if (!workflow) {
+    const existing = await this.getWorkflow(id);
+    if (!existing) {
       throw new Error(`Workflow with ID ${id} not found`);
     }
 
-    if (workflow.status === 'completed' || workflow.status === 'failed') {
-      throw new Error(`Workflow with ID ${id} is already ${workflow.status}`);
+    if (existing.status === 'completed' || existing.status === 'failed') {
+      throw new Error(`Workflow with ID ${id} is already ${existing.status}`);
     }
 
-    const now = new Date().toISOString();
-
-    // Update workflow status to running
-    const { error: updateError } = await supabase
-      .from('workflows')
-      .update({
-        status: 'running',
-        updated_at: now,
-      })
-      .eq('id', id);
-
-    if (updateError) {
-      console.error('Error updating workflow status:', updateError);
-      throw updateError;
-    }
+    let suspended = false;
+    const executed = await runWithWorkflowLease(
+      this,
+      id,
+      async (isLeaseLost) => {
+        // Re-read under the lease: a run that finished meanwhile has completed
+        // steps that must not run again
+        const workflow = await this.getWorkflow(id);
+        if (!workflow) {
+          throw new Error(`Workflow with ID ${id} not found`);
+        }
+        if (workflow.status === 'completed' || workflow.status === 'failed') {
+          throw new Error(
+            `Workflow with ID ${id} is already ${workflow.status}`
+          );
+        }
 
-    try {
-      // Execute steps starting from the current index
-      for (let i = workflow.currentStepIndex; i < workflow.steps.length; i++) {
-        const step = workflow.steps[i];
+        const now = new Date().toISOString();
 
-        // Update current step index
-        const { error: indexError } = await supabase
+        // Update workflow status to running
+        const { error: updateError } = await supabase
           .from('workflows')
           .update({
-            current_step_index: i,
+            status: 'running',
             updated_at: now,
           })
           .eq('id', id);
 
-        if (indexError) {
-          console.error('Error updating workflow step index:', indexError);
-          throw indexError;
+        if (updateError) {
+          console.error('Error updating workflow status:', updateError);
+          throw updateError;
         }
 
-        // Update step status to running
-        const { error: stepError } = await supabase
-          .from('workflow_steps')
-          .update({
-            status: 'running',
-            updated_at: now,
-          })
-          .eq('id', step.id);
-
-        if (stepError) {
-          console.error('Error updating step status:', stepError);
-          throw stepError;
-        }
+        workflow.status = 'running';
 
         try {
-          // Create a memory thread for this step if not provided
-          let threadId = step.threadId;
-          if (!threadId) {
-            threadId = await memory.createMemoryThread(
-              `Workflow ${workflow.name} - Step ${i + 1}`
-            );
-
-            // Update step with thread ID
-            const { error: threadError } = await supabase
-              .from('workflow_steps')
-              .update({
-                thread_id: threadId,
-                updated_at: now,
-              })
-              .eq('id', step.id);
-
-            if (threadError) {
-              console.error('Error updating step thread ID:', threadError);
-              throw threadError;
-            }
-          }
-
-          // Save the input as a message
-          if (step.input) {
-            await memory.saveMessage(threadId, 'user', step.input);
-          }
-
-          // TODO: Execute the agent with the step input
-          // For now, just simulate a successful execution
-          const result = `Simulated result for step ${i + 1}`;
-
-          // Save the result as a message
-          await memory.saveMessage(threadId, 'assistant', result);
-
-          // Update step with result
-          const { error: resultError } = await supabase
-            .from('workflow_steps')
-            .update({
-              status: 'completed',
-              result,
-              updated_at: now,
-            })
-            .eq('id', step.id);
-
-          if (resultError) {
-            console.error('Error updating step result:', resultError);
-            throw resultError;
-          }
-        } catch (error) {
-          // Handle step execution error
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-
-          // Update step with error
-          const { error: errorUpdateError } = await supabase
-            .from('workflow_steps')
-            .update({
-              status: 'failed',
-              error: errorMessage,
-              updated_at: now,
-            })
-            .eq('id', step.id);
-
-          if (errorUpdateError) {
-            console.error('Error updating step error:', errorUpdateError);
-          }
-
-          // Mark workflow as failed
-          const { error: workflowError } = await supabase
-            .from('workflows')
-            .update({
-              status: 'failed',
-              updated_at: now,
-            })
-            .eq('id', id);
-
-          if (workflowError) {
-            console.error('Error updating workflow status:', workflowError);
-          }
+          // Run the step graph, executing independent branches concurrently
+          await executeWorkflowGraph(workflow, {
+            runStep: runWorkflowStep,
+            onStepUpdate: (step) => this.saveStepState(step),
+            onWorkflowUpdate: async (updated) => {
+              const { error: workflowError } = await supabase
+                .from('workflows')
+                .update({
+                  status: updated.status,
+                  current_step_index: updated.currentStepIndex,
+                  updated_at: updated.updatedAt,
+                })
+                .eq('id', id);
+
+              if (workflowError) {
+                console.error('Error updating workflow status:', workflowError);
+                throw workflowError;
+              }
+            },
+            shouldStop: isLeaseLost,
+            reload: () => this.getWorkflow(id),
+            onSuspend: () => {
+              suspended = true;
+            },
+          });
 
+          // Get updated workflow
+          return this.getWorkflow(id) as Promise<Workflow>;
+        } catch (error) {
+          console.error(`Error executing workflow ${id}:`, error);
           throw error;
         }
       }
+    );
+
+    // A review that landed while this run was pausing found the lease held
+    return suspended
+      ? ((await resumeReviewedWorkflow(this, id)) ?? executed)
+      : executed;
+  }
+
+  async reviewWorkflowStep(
+    id: string,
+    stepId: string,
+    decision: WorkflowApprovalDecision
+  ): Promise<Workflow> {
+    const supabase = getSupabaseClient();
+
+    // Get workflow
+    const workflow = await this.getWorkflow(id);
+    if (!workflow) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    const step = applyApprovalDecision(workflow, stepId, decision);
+    await this.saveStepState(step);
 
-      // Mark workflow as completed
-      const { error: completedError } = await supabase
+    if (!decision.approved) {
+      const { error: workflowError } = await supabase
         .from('workflows')
         .update({
-          status: 'completed',
-          updated_at: now,
+          status: 'failed',
+          updated_at: workflow.updatedAt,
         })
         .eq('id', id);
 
-      if (completedError) {
-        console.error('Error marking workflow as completed:', completedError);
-        throw completedError;
+      if (workflowError) {
+        console.error('Error failing rejected workflow:', workflowError);
+        throw workflowError;
       }
+    } else {
+      // Continue the workflow if it has suspended on this approval; a run
+      // still in progress picks the decision up itself
+      return (await resumeReviewedWorkflow(this, id)) as Workflow;
+    }
 
-      // Get updated workflow
-      return this.getWorkflow(id) as Promise<Workflow>;
-    } catch (error) {
-      console.error(`Error executing workflow ${id}:`, error);
+    // Get updated workflow
+    return this.getWorkflow(id) as Promise<Workflow>;
+  }
+
+  // Persists a step's execution state
+  private async saveStepState(step: WorkflowStep): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error: stepError } = await supabase
+      .from('workflow_steps')
+      .update({
+        status: step.status,
+        result: step.result ?? null,
+        error: step.error ?? null,
+        thread_id: step.threadId,
+        metadata: step.metadata,
+        updated_at: step.updatedAt,
+      })
+      .eq('id', step.id);
+
+    if (stepError) {
+      console.error('Error updating step status:', stepError);
+      throw stepError;
+    }
+  }
+
+  async acquireWorkflowLease(
+    id: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const supabase = getSupabaseClient();
+    const now = new Date().toISOString();
+
+    // Conditional update so only one worker can take an expired lease
+    const { data, error } = await supabase
+      .from('workflows')
+      .update({
+        lease_owner: owner,
+        lease_expires_at: getLeaseExpiry(ttlMs),
+      })
+      .eq('id', id)
+      .or(
+        `lease_owner.is.null,lease_owner.eq.${owner},lease_expires_at.is.null,lease_expires_at.lte."${now}"`
+      )
+      .select('id');
+
+    if (error) {
+      console.error('Error acquiring workflow lease:', error);
+      throw error;
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  async releaseWorkflowLease(id: string, owner: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+      .from('workflows')
+      .update({ lease_owner: null, lease_expires_at: null })
+      .eq('id', id)
+      .eq('lease_owner', owner);
+
+    if (error) {
+      console.error('Error releasing workflow lease:', error);
       throw error;
     }
   }
 
+  async listOrphanedWorkflows(limit = 10): Promise<Workflow[]> {
+    const supabase = getSupabaseClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('workflows')
+      .select('id')
+      .eq('status', 'running')
+      .or(`lease_expires_at.is.null,lease_expires_at.lte."${now}"`)
+      .order('updated_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error listing orphaned workflows:', error);
+      throw error;
+    }
+
+    const workflows: Workflow[] = [];
+    for (const row of data) {
+      const workflow = await this.getWorkflow(row.id);
+      if (workflow) {
+        workflows.push(workflow);
+      }
+    }
+
+    return workflows;
+  }
+
   async pauseWorkflow(id: string): Promise<Workflow> {
     const supabase = getSupabaseClient();
 
@@ -469,8 +571,6 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
   }
 
   async resumeWorkflow(id: string): Promise<Workflow> {
-    const supabase = getSupabaseClient();
-
     // Get workflow
     const workflow = await this.getWorkflow(id);
     if (!workflow) {
@@ -481,23 +581,8 @@ export class SupabaseWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} is not paused`);
     }
 
-    const now = new Date().toISOString();
-
-    // Update workflow
-    const { error: workflowError } = await supabase
-      .from('workflows')
-      .update({
-        status: 'running',
-        updated_at: now,
-      })
-      .eq('id', id);
-
-    if (workflowError) {
-      console.error('Error resuming workflow:', workflowError);
-      throw workflowError;
-    }
-
-    // Execute workflow
+    // executeWorkflow marks it running once it holds the lease, so a resume
+    // refused by the lease leaves it paused
     return this.executeWorkflow(id);
   }
 }
@@ -13,7 +13,62 @@ import {
   WorkflowStep,
   CreateWorkflowOptions,
   AddWorkflowStepOptions,
+  WorkflowApprovalDecision,
+  runWorkflowStep,
 } from './index';
+import { applyApprovalDecision } from './approval';
+import {
+  executeWorkflowGraph,
+  getStepKey,
+  validateWorkflowGraph,
+} from './graph';
+import { resumeReviewedWorkflow, runWithWorkflowLease } from './recovery';
+
+// Acquires the lease if it is free or already held by the caller
+const ACQUIRE_LEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Releases the lease only if it is held by the caller
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Upstash may return JSON fields already deserialized; normalize either form
+function parseJsonField<T>(value: unknown, label: string): T | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return value as T;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch (e) {
+    console.error(`Error parsing ${label}:`, e);
+    return undefined;
+  }
+}
+
+// Converts a step to a Redis hash, storing graph fields as JSON
+function toStepHash(step: WorkflowStep): Record<string, unknown> {
+  return {
+    ...step,
+    kind: step.kind || 'agent',
+    dependsOn: step.dependsOn ? JSON.stringify(step.dependsOn) : '',
+    condition: step.condition ? JSON.stringify(step.condition) : '',
+    parallelGroup: step.parallelGroup || '',
+    metadata: step.metadata ? JSON.stringify(step.metadata) : '',
+  };
+}
 
 export class UpstashWorkflowProvider implements WorkflowProvider {
   async createWorkflow(options: CreateWorkflowOptions): Promise<Workflow> {
@@ -36,8 +91,7 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
     // Initialize steps if provided
     if (options.steps && options.steps.length > 0) {
       workflow.steps = await Promise.all(
-        options.steps.map(async (step) => {
-          const stepId = uuidv4();
+        options.steps.map(async (step, index) => {
           const threadId =
             step.threadId ||
             (await memory.createMemoryThread(
@@ -45,26 +99,32 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
             ));
 
           const workflowStep: WorkflowStep = {
-            id: stepId,
+            id: uuidv4(),
             workflowId,
+            key: getStepKey(step, index),
+            kind: step.kind,
             agentId: step.agentId,
             input: step.input,
             threadId,
+            dependsOn: step.dependsOn,
+            condition: step.condition,
+            parallelGroup: step.parallelGroup,
             status: 'pending',
             metadata: step.metadata,
             createdAt: now,
             updatedAt: now,
           };
 
-          // Save step to Redis
-          await redis.hset(
-            `workflow:step:${stepId}`,
-            workflowStep as unknown as Record<string, unknown>
-          );
-
           return workflowStep;
         })
       );
+
+      validateWorkflowGraph(workflow.steps);
+
+      // Save steps to Redis
+      for (const step of workflow.steps) {
+        await redis.hset(`workflow:step:${step.id}`, toStepHash(step));
+      }
     }
 
     // Save workflow to Redis
@@ -90,36 +150,40 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
     }
 
     // Parse steps array
-    const stepIds = JSON.parse((workflowData.steps as string) || '[]');
+    const stepIds =
+      parseJsonField<string[]>(workflowData.steps, `step IDs for ${id}`) || [];
 
     // Get all steps
     const steps: WorkflowStep[] = [];
     for (const stepId of stepIds) {
       const stepData = await redis.hgetall(`workflow:step:${stepId}`);
       if (stepData && Object.keys(stepData).length > 0) {
-        // Parse metadata if it exists
-        if (stepData.metadata) {
-          try {
-            stepData.metadata = JSON.parse(stepData.metadata as string);
-          } catch (e) {
-            console.error(`Error parsing step metadata for step ${stepId}:`, e);
-            stepData.metadata = {};
-          }
-        }
-
-        steps.push(stepData as unknown as WorkflowStep);
+        steps.push({
+          ...(stepData as unknown as WorkflowStep),
+          key: getStepKey(stepData as { key?: string }, steps.length),
+          dependsOn: parseJsonField(
+            stepData.dependsOn,
+            `step dependencies for step ${stepId}`
+          ),
+          condition: parseJsonField(
+            stepData.condition,
+            `step condition for step ${stepId}`
+          ),
+          parallelGroup: (stepData.parallelGroup as string) || undefined,
+          metadata: parseJsonField(
+            stepData.metadata,
+            `step metadata for step ${stepId}`
+          ),
+        });
       }
     }
 
     // Parse metadata if it exists
-    if (workflowData.metadata) {
-      try {
-        workflowData.metadata = JSON.parse(workflowData.metadata as string);
-      } catch (e) {
-        console.error(`Error parsing workflow metadata for workflow ${id}:`, e);
-        workflowData.metadata = {};
-      }
-    }
+    workflowData.metadata =
+      parseJsonField(
+        workflowData.metadata,
+        `workflow metadata for workflow ${id}`
+      ) ?? {};
 
     // Reconstruct the workflow
     const workflow: Workflow = {
@@ -174,6 +238,8 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
 
     // Remove from workflows sorted set
     await redis.zrem('workflows', id);
+    await redis.srem('workflows:running', id);
+    await redis.del(`workflow:lease:${id}`);
 
     return true;
   }
@@ -191,7 +257,6 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
     }
 
     const now = new Date().toISOString();
-    const stepId = uuidv4();
     const threadId =
       options.threadId ||
       (await memory.createMemoryThread(
@@ -200,22 +265,26 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
 
     // Create step
     const step: WorkflowStep = {
-      id: stepId,
+      id: uuidv4(),
       workflowId: id,
+      key: getStepKey(options, workflow.steps.length),
+      kind: options.kind,
       agentId: options.agentId,
       input: options.input,
       threadId,
+      dependsOn: options.dependsOn,
+      condition: options.condition,
+      parallelGroup: options.parallelGroup,
       status: 'pending',
       metadata: options.metadata,
       createdAt: now,
       updatedAt: now,
     };
 
+    validateWorkflowGraph([...workflow.steps, step]);
+
     // Save step to Redis
-    await redis.hset(
-      `workflow:step:${stepId}`,
-      step as unknown as Record<string, unknown>
-    );
+    await redis.hset(`workflow:step:${step.id}`, toStepHash(step));
 
     // Update workflow
     workflow.steps.push(step);
@@ -235,12 +304,153 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
   }
 
   async executeWorkflow(id: string): Promise<Workflow> {
-    // Implementation similar to InMemoryWorkflowProvider but with Redis persistence
-    // This would be a more complex implementation that would need to handle
-    // executing agents and updating the workflow state in Redis
+    const redis = getRedisClient();
+
+    // Get workflow
+    const existing = await this.getWorkflow(id);
+    if (!existing) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    if (existing.status === 'completed' || existing.status === 'failed') {
+      throw new Error(`Workflow with ID ${id} is already ${existing.status}`);
+    }
+
+    const saveWorkflow = async (updated: Workflow) => {
+      await redis.hset(`workflow:${id}`, {
+        ...updated,
+        steps: JSON.stringify(updated.steps.map((s) => s.id)),
+        metadata: updated.metadata ? JSON.stringify(updated.metadata) : '',
+      });
+      await redis.zadd('workflows', { score: Date.now(), member: id });
+
+      // Track running workflows so the recovery sweep can find them
+      if (updated.status === 'running') {
+        await redis.sadd('workflows:running', id);
+      } else {
+        await redis.srem('workflows:running', id);
+      }
+    };
+
+    let suspended = false;
+    const executed = await runWithWorkflowLease(
+      this,
+      id,
+      async (isLeaseLost) => {
+        // Re-read under the lease: a run that finished meanwhile has completed
+        // steps that must not run again
+        const workflow = await this.getWorkflow(id);
+        if (!workflow) {
+          throw new Error(`Workflow with ID ${id} not found`);
+        }
+        if (workflow.status === 'completed' || workflow.status === 'failed') {
+          throw new Error(
+            `Workflow with ID ${id} is already ${workflow.status}`
+          );
+        }
+
+        workflow.status = 'running';
+        workflow.updatedAt = new Date().toISOString();
+        await saveWorkflow(workflow);
+
+        try {
+          // Run the step graph, executing independent branches concurrently
+          return await executeWorkflowGraph(workflow, {
+            runStep: runWorkflowStep,
+            onStepUpdate: async (step) => {
+              await redis.hset(`workflow:step:${step.id}`, toStepHash(step));
+            },
+            onWorkflowUpdate: saveWorkflow,
+            shouldStop: isLeaseLost,
+            reload: () => this.getWorkflow(id),
+            onSuspend: () => {
+              suspended = true;
+            },
+          });
+        } catch (error) {
+          console.error(`Error executing workflow ${id}:`, error);
+          throw error;
+        }
+      }
+    );
 
-    // For now, we'll throw an error
-    throw new Error('Upstash workflow execution not implemented yet');
+    // A review that landed while this run was pausing found the lease held
+    return suspended
+      ? ((await resumeReviewedWorkflow(this, id)) ?? executed)
+      : executed;
+  }
+
+  async reviewWorkflowStep(
+    id: string,
+    stepId: string,
+    decision: WorkflowApprovalDecision
+  ): Promise<Workflow> {
+    const redis = getRedisClient();
+
+    // Get workflow
+    const workflow = await this.getWorkflow(id);
+    if (!workflow) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+
+    const step = applyApprovalDecision(workflow, stepId, decision);
+    await redis.hset(`workflow:step:${step.id}`, toStepHash(step));
+
+    if (!decision.approved) {
+      await redis.hset(`workflow:${id}`, {
+        status: workflow.status,
+        updatedAt: workflow.updatedAt,
+      });
+      return workflow;
+    }
+
+    // Continue the workflow if it has suspended on this approval; a run still
+    // in progress picks the decision up itself
+    return (await resumeReviewedWorkflow(this, id)) ?? workflow;
+  }
+
+  async acquireWorkflowLease(
+    id: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const redis = getRedisClient();
+
+    const acquired = await redis.eval(
+      ACQUIRE_LEASE_SCRIPT,
+      [`workflow:lease:${id}`],
+      [owner, String(ttlMs)]
+    );
+
+    return Number(acquired) === 1;
+  }
+
+  async releaseWorkflowLease(id: string, owner: string): Promise<void> {
+    const redis = getRedisClient();
+
+    await redis.eval(RELEASE_LEASE_SCRIPT, [`workflow:lease:${id}`], [owner]);
+  }
+
+  async listOrphanedWorkflows(limit = 10): Promise<Workflow[]> {
+    const redis = getRedisClient();
+
+    const runningIds = await redis.smembers('workflows:running');
+
+    // A running workflow without a live lease key has lost its executor
+    const workflows: Workflow[] = [];
+    for (const workflowId of runningIds) {
+      if (workflows.length >= limit) break;
+      if (await redis.exists(`workflow:lease:${workflowId}`)) continue;
+
+      const workflow = await this.getWorkflow(workflowId);
+      if (workflow?.status === 'running') {
+        workflows.push(workflow);
+      } else {
+        await redis.srem('workflows:running', workflowId);
+      }
+    }
+
+    return workflows;
   }
 
   async pauseWorkflow(id: string): Promise<Workflow> {
@@ -272,8 +482,6 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
   }
 
   async resumeWorkflow(id: string): Promise<Workflow> {
-    const redis = getRedisClient();
-
     // Get workflow
     const workflow = await this.getWorkflow(id);
     if (!workflow) {
@@ -284,18 +492,8 @@ export class UpstashWorkflowProvider implements WorkflowProvider {
       throw new Error(`Workflow with ID ${id} is not paused`);
     }
 
-    // Update workflow
-    workflow.status = 'running';
-    workflow.updatedAt = new Date().toISOString();
-
-    // Save workflow to Redis
-    await redis.hset(`workflow:${id}`, {
-      ...workflow,
-      steps: JSON.stringify(workflow.steps.map((s) => s.id)),
-      status: workflow.status,
-      updatedAt: workflow.updatedAt,
-    });
-
+    // executeWorkflow marks it running once it holds the lease, so a resume
+    // refused by the lease leaves it paused
     return this.executeWorkflow(id);
   }
 }